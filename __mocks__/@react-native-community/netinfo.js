@@ -0,0 +1 @@
+export { default } from '@react-native-community/netinfo/jest/netinfo-mock';
@@ -1,13 +1,34 @@
-import React, { useMemo } from 'react';
-import { View, Platform } from 'react-native';
+import React, { useEffect, useMemo } from 'react';
+import { View, Platform, AppState } from 'react-native';
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '../../constants/theme';
 import FloatingChatButton from '../../components/floating-chat-button';
+import { useAuth } from '../../src/providers/AuthProvider';
+import { materializeDueOccurrences } from '../../src/services/recurring';
 
 export default function TabsLayout() {
   const insets = useSafeAreaInsets();
+  const { session } = useAuth();
+
+  // Post due recurring transactions when the app opens or comes back to the foreground
+  useEffect(() => {
+    if (!session) return;
+
+    const run = () => {
+      materializeDueOccurrences().catch((error) => {
+        console.warn('[Tabs] Failed to post recurring transactions:', error);
+      });
+    };
+
+    run();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') run();
+    });
+
+    return () => subscription.remove();
+  }, [session]);
   
   return (
     <View style={{ flex: 1 }}>
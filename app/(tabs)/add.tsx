@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, StyleSheet, TouchableOpacity, TextInput as RNTextInput, Alert, ActivityIndicator, Modal, Platform, Animated } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
@@ -8,13 +9,20 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import * as ImagePicker from 'expo-image-picker';
 import { Colors } from '../../constants/theme';
 import { RefreshableScrollView } from '../../components/refreshable-scroll-view';
+import TagPicker from '../../components/tag-picker';
 import { useLanguage } from '../../src/providers/LanguageProvider';
-import { addTransaction } from '../../src/services/transactions';
+import { addTransaction, type Transaction } from '../../src/services/transactions';
 import { addReceiptItems } from '../../src/services/items';
+import { addTransactionAttachment } from '../../src/services/attachments';
 import { getCategories, addCategory, subscribeToCategoryChanges, type Category } from '../../src/services/categories';
 import { getCurrencies, type Currency } from '../../src/services/currencies';
 import { getPaymentMethods, type PaymentMethod } from '../../src/services/payment-methods';
 import { processReceiptImage, type ReceiptData, type ProcessingProgress } from '../../src/services/receipt-processor';
+import { addRecurringRule, materializeDueOccurrences, type RecurrenceFrequency } from '../../src/services/recurring';
+import { setTransactionTags } from '../../src/services/tags';
+import { applyTransactionRules } from '../../src/services/transaction-rules';
+import { suggestCategories, type CategorySuggestion } from '../../src/services/category-suggester';
+import { findPossibleDuplicates } from '../../src/services/duplicates';
 import { useAuth } from '../../src/providers/AuthProvider';
 import { useCurrency } from '../../src/providers/CurrencyProvider';
 import { TextInput as GestureTextInput } from 'react-native-gesture-handler';
@@ -25,9 +33,12 @@ interface ReceiptItem {
   name: string;
   amount: number;  // quantity
   price: number;   // unit price
+  categoryId?: string | null;        // null = same as the transaction's category
+  suggestedCategory?: string | null; // new category suggested by AI, not created yet
 }
 
 export default function AddScreen() {
+  const router = useRouter();
   const { t } = useLanguage();
   const { session } = useAuth();
   const { currencyCode: primaryCurrencyCode } = useCurrency();
@@ -38,10 +49,16 @@ export default function AddScreen() {
   const [merchant, setMerchant] = useState('');
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
   const [selectedCurrency, setSelectedCurrency] = useState('');
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState('');
   const [userOverrodeAmount, setUserOverrodeAmount] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+
+  // Repeat (recurring rule) settings
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | null>(null);
+  const [repeatCount, setRepeatCount] = useState('');
+  const [repeatEndDate, setRepeatEndDate] = useState('');
   
   // Categories and loading states
   const [categories, setCategories] = useState<Category[]>([]);
@@ -50,6 +67,8 @@ export default function AddScreen() {
   const [loadingCategories, setLoadingCategories] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [processingReceipt, setProcessingReceipt] = useState(false);
+  const [receiptProgress, setReceiptProgress] = useState<ProcessingProgress | null>(null);
+  const [receiptImageUri, setReceiptImageUri] = useState<string | null>(null);
   
   // Modal states
   const [showCategoryModal, setShowCategoryModal] = useState(false);
@@ -58,8 +77,11 @@ export default function AddScreen() {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [showNewCategoryModal, setShowNewCategoryModal] = useState(false);
+  // Index of the item whose category is being picked (null = transaction category)
+  const [categoryModalItemIndex, setCategoryModalItemIndex] = useState<number | null>(null);
   const [suggestedCategory, setSuggestedCategory] = useState<string>('');
   const [pendingReceiptData, setPendingReceiptData] = useState<ReceiptData | null>(null);
+  const [categorySuggestions, setCategorySuggestions] = useState<CategorySuggestion[]>([]);
   
   // Editing state for item inputs (string values while typing)
   const [itemEditingState, setItemEditingState] = useState<{
@@ -82,6 +104,36 @@ export default function AddScreen() {
     }
   }, [itemlist]);
 
+  // Suggest categories learned from past transactions as the form is filled in
+  useEffect(() => {
+    const itemNames = itemlist.map(item => item.name).filter(Boolean);
+    if (!merchant.trim() && !notes.trim() && itemNames.length === 0) {
+      setCategorySuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const parsedAmount = parseFloat(amount);
+      suggestCategories({
+        merchant,
+        note: notes,
+        itemNames,
+        amount: Number.isFinite(parsedAmount) ? -Math.abs(parsedAmount) : null,
+        paymentMethod: selectedPaymentMethod,
+      })
+        .then(suggestions => {
+          if (!cancelled) setCategorySuggestions(suggestions);
+        })
+        .catch(error => console.warn('[Add] Failed to suggest categories:', error));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [merchant, notes, itemlist, amount, selectedPaymentMethod]);
+
   // Load categories on mount and subscribe to realtime changes
   useEffect(() => {
     loadCategories();
@@ -277,11 +329,14 @@ export default function AddScreen() {
    */
   const handleReceiptImageProcessing = async (imageUri: string) => {
     try {
+      setReceiptProgress(null);
       setProcessingReceipt(true);
+      setReceiptImageUri(imageUri);
 
       // 调用独立的收据处理器（来自 receipt-processor.ts）
       const receiptData = await processReceiptImage(imageUri, (progress: ProcessingProgress) => {
         console.log('[Add Screen]', `${progress.message} (${progress.progress}%)`);
+        setReceiptProgress(progress);
       });
 
       console.log('[Add Screen] Receipt data received:', receiptData);
@@ -298,18 +353,43 @@ export default function AddScreen() {
         console.log('[Add Screen] Currency detected:', receiptData.currency);
       }
       
-      // Set payment method (if detected by AI)
-      if (receiptData.payment_method) {
-        setSelectedPaymentMethod(receiptData.payment_method);
-        console.log('[Add Screen] Payment method detected:', receiptData.payment_method);
+      // 用户规则优先于 AI 识别的分类和支付方式
+      const { transaction: ruled, matched } = await applyTransactionRules({
+        amount: -Math.abs(receiptData.amount),
+        merchant: receiptData.merchant,
+        occurred_at: (receiptData.date ? new Date(receiptData.date) : new Date()).toISOString(),
+        source: 'ocr',
+        category_id: null,
+        payment_method: receiptData.payment_method ?? null,
+      }, { overwrite: true });
+      const ruleCategoryId = matched.length > 0 ? ruled.category_id : null;
+
+      // Set payment method (if detected by AI or set by a rule)
+      if (ruled.payment_method) {
+        setSelectedPaymentMethod(ruled.payment_method);
+        console.log('[Add Screen] Payment method detected:', ruled.payment_method);
       }
       
       // 如果是字符串数组（旧格式），转换为 ReceiptItem 数组
       if (receiptData.items && Array.isArray(receiptData.items) && receiptData.items.length > 0) {
         const firstItem = receiptData.items[0];
         if (typeof firstItem === 'object' && firstItem !== null && 'name' in firstItem) {
-          // 已经是 ReceiptItem 格式
-          setItemlist(receiptData.items as unknown as ReceiptItem[]);
+          // 已经是 ReceiptItem 格式；与整张收据相同的分类留空（沿用交易分类）
+          const receiptCategory = receiptData.category?.toLowerCase();
+          setItemlist(receiptData.items.map(item => {
+            const itemCategory = item.category?.trim();
+            if (!itemCategory || itemCategory.toLowerCase() === receiptCategory) {
+              return { name: item.name, amount: item.amount, price: item.price, categoryId: null };
+            }
+            const matched = categories.find(cat => cat.name.toLowerCase() === itemCategory.toLowerCase());
+            return {
+              name: item.name,
+              amount: item.amount,
+              price: item.price,
+              categoryId: matched?.id ?? null,
+              suggestedCategory: matched ? null : itemCategory,
+            };
+          }));
         } else if (typeof firstItem === 'string') {
           // 字符串数组，转换为 ReceiptItem 格式
           const convertedItems: ReceiptItem[] = (receiptData.items as unknown as string[]).map(name => ({
@@ -331,9 +411,12 @@ export default function AddScreen() {
         setSelectedDate(new Date(receiptData.date));
       }
 
-      // 处理分类建议
-      if (receiptData.category) {
-        if (receiptData.isNewCategory) {
+      // 处理分类建议（规则已选定分类时不再建议新分类）
+      if (ruleCategoryId || receiptData.category) {
+        if (ruleCategoryId) {
+          setCategoryId(ruleCategoryId);
+        }
+        if (!ruleCategoryId && receiptData.category && receiptData.isNewCategory) {
           // AI 建议了新分类，显示确认对话框（Web 兼容）
           console.log('[Add Screen] Showing new category confirmation modal');
           setSuggestedCategory(receiptData.category);
@@ -341,7 +424,7 @@ export default function AddScreen() {
           setShowNewCategoryModal(true);
         } else {
           // 使用现有分类
-          const matchedCategory = categories.find(
+          const matchedCategory = !ruleCategoryId && categories.find(
             cat => cat.name.toLowerCase() === receiptData.category!.toLowerCase()
           );
           if (matchedCategory) {
@@ -382,7 +465,7 @@ export default function AddScreen() {
 
   const handleClearForm = () => {
     // Check if there is any input to clear
-    const hasInput = amount || itemlist.length > 0 || categoryId || merchant || notes || selectedPaymentMethod;
+    const hasInput = amount || itemlist.length > 0 || categoryId || merchant || notes || selectedPaymentMethod || tags.length > 0;
     
     if (!hasInput) return;
 
@@ -392,6 +475,7 @@ export default function AddScreen() {
       setCategoryId('');
       setMerchant('');
       setNotes('');
+      setTags([]);
       setSelectedDate(new Date());
       if (primaryCurrencyCode) {
         setSelectedCurrency(primaryCurrencyCode);
@@ -401,6 +485,10 @@ export default function AddScreen() {
       setItemEditingState({});
       setSuggestedCategory('');
       setPendingReceiptData(null);
+      setReceiptImageUri(null);
+      setRepeatFrequency(null);
+      setRepeatCount('');
+      setRepeatEndDate('');
       
       // Close any open modals
       setShowCategoryModal(false);
@@ -442,6 +530,17 @@ export default function AddScreen() {
       return;
     }
 
+    // Validate repeat limits before saving anything
+    const parsedRepeatCount = repeatCount.trim() ? parseInt(repeatCount, 10) : null;
+    if (repeatFrequency && parsedRepeatCount !== null && (isNaN(parsedRepeatCount) || parsedRepeatCount < 1)) {
+      Alert.alert(t('add.validationError'), t('add.invalidRepeatCount'));
+      return;
+    }
+    if (repeatFrequency && repeatEndDate.trim() && isNaN(new Date(repeatEndDate.trim()).getTime())) {
+      Alert.alert(t('add.validationError'), t('add.invalidRepeatEndDate'));
+      return;
+    }
+
     try {
       setSubmitting(true);
 
@@ -464,7 +563,8 @@ export default function AddScreen() {
         merchantName = 'Transaction';
       }
 
-      const transactionData = {
+      // 用户规则只补全未填写的分类和支付方式
+      const { transaction: transactionData } = await applyTransactionRules({
         amount: numericAmount,
         occurred_at: selectedDate.toISOString(),
         merchant: merchantName,
@@ -473,20 +573,75 @@ export default function AddScreen() {
         note: notes.trim(),
         payment_method: selectedPaymentMethod || null,
         currency: selectedCurrency || 'HKD',
-      };
+      });
 
-      console.log('Saving transaction:', transactionData);
-      const result = await addTransaction(transactionData);
+      // 可能重复（同一张收据扫描两次，或已在聊天中记录过）时先确认
+      const duplicates = await findPossibleDuplicates(transactionData).catch(error => {
+        console.warn('[Save Transaction] Duplicate check failed:', error);
+        return [];
+      });
+      if (duplicates.length > 0) {
+        const existing = duplicates[0].transaction;
+        const saveAnyway = await new Promise<boolean>(resolve => {
+          Alert.alert(
+            t('add.possibleDuplicate'),
+            t('add.possibleDuplicateMessage', {
+              merchant: existing.merchant || t('add.noMerchant'),
+              amount: `${existing.currency} ${Math.abs(existing.amount).toFixed(2)}`,
+              date: new Date(existing.occurred_at).toLocaleString(),
+            }),
+            [
+              { text: t('add.cancel'), style: 'cancel', onPress: () => resolve(false) },
+              { text: t('add.saveAnyway'), onPress: () => resolve(true) },
+            ],
+            { cancelable: true, onDismiss: () => resolve(false) }
+          );
+        });
+        if (!saveAnyway) return;
+      }
+
+      // Unset when a recurring rule has nothing due yet
+      let result: Transaction | undefined;
+      if (repeatFrequency) {
+        // Create the rule, then let it post its first (and any backdated) occurrences
+        console.log('Saving recurring rule:', transactionData, repeatFrequency);
+        const rule = await addRecurringRule({
+          amount: transactionData.amount,
+          currency: transactionData.currency,
+          merchant: transactionData.merchant,
+          category_id: transactionData.category_id,
+          note: transactionData.note || null,
+          payment_method: transactionData.payment_method,
+          frequency: repeatFrequency,
+          start_date: transactionData.occurred_at,
+          max_occurrences: parsedRepeatCount,
+          end_date: repeatEndDate.trim() || null,
+        });
+        // The rule is saved from here on: nothing posted (a future start date, or another run
+        // posting it) is not a failure, and reporting one would make the user save a second rule
+        try {
+          const posted = await materializeDueOccurrences();
+          result = posted
+            .filter(t => t.recurring_rule_id === rule.id)
+            .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))[0];
+        } catch (e) {
+          console.error('[Save Transaction] Posting recurring occurrences failed (rule saved):', e);
+        }
+      } else {
+        console.log('Saving transaction:', transactionData);
+        result = await addTransaction(transactionData);
+      }
       console.log('Transaction saved successfully:', result);
 
       // 如果有分项条目，插入到 items 表
-      if (itemlist.length > 0) {
+      if (result && itemlist.length > 0) {
         try {
           console.log('[Save Transaction] Inserting receipt items...');
           await addReceiptItems(result.id, itemlist.map(i => ({
             name: i.name,
             amount: i.amount,
             price: i.price,
+            categoryId: i.categoryId ?? null,
           })));
           console.log('[Save Transaction] Receipt items inserted successfully');
         } catch (e) {
@@ -494,7 +649,25 @@ export default function AddScreen() {
         }
       }
 
-      Alert.alert(t('add.success'), t('add.transactionSavedSuccessfully'), [
+      // 保存标签（重复交易只标记第一笔）
+      if (result && tags.length > 0) {
+        try {
+          await setTransactionTags(result.id, tags);
+        } catch (e) {
+          console.error('[Save Transaction] 保存标签失败 (仍然保存了交易):', e);
+        }
+      }
+
+      // 保存收据照片作为附件
+      if (result && receiptImageUri) {
+        try {
+          await addTransactionAttachment(result.id, { uri: receiptImageUri, mimeType: 'image/jpeg' });
+        } catch (e) {
+          console.error('[Save Transaction] 收据照片上传失败 (仍然保存了交易):', e);
+        }
+      }
+
+      Alert.alert(t('add.success'), result ? t('add.transactionSavedSuccessfully') : t('add.recurringRuleSaved'), [
         {
           text: t('add.ok'),
           onPress: () => {
@@ -503,9 +676,14 @@ export default function AddScreen() {
             setItemlist([]);
             setMerchant('');
             setNotes('');
+            setTags([]);
             setSelectedDate(new Date());
             setSelectedPaymentMethod('');
             setUserOverrodeAmount(false);
+            setRepeatFrequency(null);
+            setRepeatCount('');
+            setRepeatEndDate('');
+            setReceiptImageUri(null);
           },
         },
       ]);
@@ -524,6 +702,12 @@ export default function AddScreen() {
       console.log('[Add Screen] Creating new category:', suggestedCategory);
       const newCategory = await addCategory(suggestedCategory);
       setCategoryId(newCategory.id);
+      // Items that suggested the same new category now simply follow the transaction
+      setItemlist(prev => prev.map(item =>
+        item.suggestedCategory?.toLowerCase() === suggestedCategory.toLowerCase()
+          ? { ...item, categoryId: null, suggestedCategory: null }
+          : item
+      ));
       await loadCategories(); // 重新加载分类列表
       setShowNewCategoryModal(false);
       
@@ -552,6 +736,50 @@ export default function AddScreen() {
     }
   };
 
+  // Category modal target: the transaction, or one item when categoryModalItemIndex is set
+  const modalItem = categoryModalItemIndex !== null ? itemlist[categoryModalItemIndex] ?? null : null;
+  const selectedModalCategoryId = modalItem ? modalItem.categoryId ?? '' : categoryId;
+
+  const closeCategoryModal = () => {
+    setShowCategoryModal(false);
+    setCategoryModalItemIndex(null);
+  };
+
+  const handleSelectCategory = (id: string) => {
+    if (categoryModalItemIndex !== null) {
+      setItemlist(prev => prev.map((item, i) =>
+        i === categoryModalItemIndex ? { ...item, categoryId: id || null, suggestedCategory: null } : item
+      ));
+    } else {
+      setCategoryId(id);
+    }
+    closeCategoryModal();
+  };
+
+  const handleCreateItemCategory = async () => {
+    const name = modalItem?.suggestedCategory;
+    if (!name) return;
+    try {
+      const newCategory = await addCategory(name);
+      // Every item that suggested this category gets it
+      setItemlist(prev => prev.map(item =>
+        item.suggestedCategory?.toLowerCase() === name.toLowerCase()
+          ? { ...item, categoryId: newCategory.id, suggestedCategory: null }
+          : item
+      ));
+      await loadCategories();
+      closeCategoryModal();
+    } catch (error: any) {
+      console.error('Failed to create item category:', error);
+      closeCategoryModal();
+      Alert.alert(
+        t('add.categoryCreationFailed'),
+        error?.message || t('add.failedToCreateCategory'),
+        [{ text: t('add.ok') }]
+      );
+    }
+  };
+
   const handleSkipNewCategory = () => {
     console.log('[Add Screen] User skipped creating new category');
     setShowNewCategoryModal(false);
@@ -663,6 +891,14 @@ export default function AddScreen() {
                 <Text style={styles.uploadButtonText}>{t('add.takePhoto')}</Text>
               </TouchableOpacity>
             </View>
+            <TouchableOpacity
+              style={styles.batchScanLink}
+              onPress={() => router.push('/batch-scan')}
+              disabled={processingReceipt}
+            >
+              <Ionicons name="layers-outline" size={16} color={Colors.primary} />
+              <Text style={styles.batchScanLinkText}>{t('add.batchScan')}</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -800,7 +1036,10 @@ export default function AddScreen() {
             <Text style={styles.inputLabel}>Category</Text>
             <TouchableOpacity 
               style={styles.selectInput}
-              onPress={() => setShowCategoryModal(true)}
+              onPress={() => {
+                setCategoryModalItemIndex(null);
+                setShowCategoryModal(true);
+              }}
               disabled={loadingCategories}
             >
               <Text style={categoryId ? styles.selectValue : styles.selectPlaceholder}>
@@ -810,6 +1049,22 @@ export default function AddScreen() {
               </Text>
               <Ionicons name="chevron-down" size={20} color={Colors.textSecondary} />
             </TouchableOpacity>
+            {categorySuggestions.some(suggestion => suggestion.category.id !== categoryId) && (
+              <View style={styles.suggestionRow}>
+                <Text style={styles.suggestionLabel}>{t('add.suggestedCategories')}</Text>
+                {categorySuggestions
+                  .filter(suggestion => suggestion.category.id !== categoryId)
+                  .map(suggestion => (
+                    <TouchableOpacity
+                      key={suggestion.category.id}
+                      style={styles.suggestionChip}
+                      onPress={() => setCategoryId(suggestion.category.id)}
+                    >
+                      <Text style={styles.suggestionChipText}>{suggestion.category.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+              </View>
+            )}
           </View>
 
           {/* Item List */}
@@ -955,6 +1210,29 @@ export default function AddScreen() {
                       </Text>
                     </View>
                   </View>
+                  <TouchableOpacity
+                    style={[
+                      styles.itemCategoryChip,
+                      item.suggestedCategory && styles.itemCategoryChipNew,
+                    ]}
+                    onPress={() => {
+                      setCategoryModalItemIndex(index);
+                      setShowCategoryModal(true);
+                    }}
+                  >
+                    <Ionicons
+                      name={item.suggestedCategory ? 'sparkles' : 'pricetag-outline'}
+                      size={12}
+                      color={item.suggestedCategory ? Colors.warning : Colors.textSecondary}
+                    />
+                    <Text style={styles.itemCategoryChipText} numberOfLines={1}>
+                      {item.suggestedCategory
+                        ? t('add.itemCategoryNew', { name: item.suggestedCategory })
+                        : item.categoryId
+                          ? categories.find(c => c.id === item.categoryId)?.name || t('add.itemCategorySame')
+                          : t('add.itemCategorySame')}
+                    </Text>
+                  </TouchableOpacity>
                 </Swipeable>
               );
             })}
@@ -1026,6 +1304,49 @@ export default function AddScreen() {
             />
           </View>
 
+          {/* Tags */}
+          <View style={styles.inputGroup}>
+            <TagPicker value={tags} onChange={setTags} />
+          </View>
+
+          {/* Repeat */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>{t('add.repeat')}</Text>
+            <View style={styles.repeatChips}>
+              {([null, 'daily', 'weekly', 'monthly', 'yearly'] as (RecurrenceFrequency | null)[]).map((frequency) => {
+                const active = repeatFrequency === frequency;
+                return (
+                  <TouchableOpacity
+                    key={frequency ?? 'none'}
+                    style={[styles.repeatChip, active && styles.repeatChipActive]}
+                    onPress={() => setRepeatFrequency(frequency)}
+                  >
+                    <Text style={[styles.repeatChipText, active && styles.repeatChipTextActive]}>
+                      {t(`add.repeatOptions.${frequency ?? 'none'}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {repeatFrequency && (
+              <View style={styles.repeatLimitsRow}>
+                <RNTextInput
+                  style={[styles.textInput, styles.repeatLimitInput]}
+                  placeholder={t('add.repeatCountPlaceholder')}
+                  keyboardType="number-pad"
+                  value={repeatCount}
+                  onChangeText={setRepeatCount}
+                />
+                <RNTextInput
+                  style={[styles.textInput, styles.repeatLimitInput]}
+                  placeholder={t('add.repeatEndDatePlaceholder')}
+                  value={repeatEndDate}
+                  onChangeText={setRepeatEndDate}
+                />
+              </View>
+            )}
+          </View>
+
           {/* Transaction Summary */}
           {/* <View style={styles.summaryCard}>
             <View style={styles.summaryRow}>
@@ -1074,18 +1395,20 @@ export default function AddScreen() {
         <View style={{ height: 20 }} />
       </RefreshableScrollView>
 
-      {/* Category Selection Modal */}
+      {/* Category Selection Modal (transaction or single item) */}
       <Modal
         visible={showCategoryModal}
         transparent
         animationType="slide"
-        onRequestClose={() => setShowCategoryModal(false)}
+        onRequestClose={closeCategoryModal}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>{t('add.selectCategory')}</Text>
-              <TouchableOpacity onPress={() => setShowCategoryModal(false)}>
+              <Text style={styles.modalTitle}>
+                {modalItem ? t('add.selectItemCategory', { name: modalItem.name || t('add.item') }) : t('add.selectCategory')}
+              </Text>
+              <TouchableOpacity onPress={closeCategoryModal}>
                 <Ionicons name="close" size={24} color={Colors.textPrimary} />
               </TouchableOpacity>
             </View>
@@ -1095,24 +1418,34 @@ export default function AddScreen() {
                 <ActivityIndicator style={styles.modalLoading} />
               ) : (
                 <>
-                  {/* No Category Option */}
+                  {/* AI-suggested new category for this item */}
+                  {modalItem?.suggestedCategory && (
+                    <TouchableOpacity
+                      style={styles.modalItem}
+                      onPress={handleCreateItemCategory}
+                    >
+                      <Text style={[styles.modalItemText, styles.modalItemTextSelected]}>
+                        {t('add.createCategoryNamed', { name: modalItem.suggestedCategory })}
+                      </Text>
+                      <Ionicons name="add-circle-outline" size={20} color={Colors.primary} />
+                    </TouchableOpacity>
+                  )}
+
+                  {/* No Category Option (items: follow the transaction's category) */}
                   <TouchableOpacity
                     style={[
                       styles.modalItem,
-                      !categoryId && styles.modalItemSelected
+                      !selectedModalCategoryId && styles.modalItemSelected
                     ]}
-                    onPress={() => {
-                      setCategoryId('');
-                      setShowCategoryModal(false);
-                    }}
+                    onPress={() => handleSelectCategory('')}
                   >
                     <Text style={[
                       styles.modalItemText,
-                      !categoryId && styles.modalItemTextSelected
+                      !selectedModalCategoryId && styles.modalItemTextSelected
                     ]}>
-                      {t('add.noCategory')}
+                      {modalItem ? t('add.itemCategorySame') : t('add.noCategory')}
                     </Text>
-                    {!categoryId && (
+                    {!selectedModalCategoryId && (
                       <Ionicons name="checkmark" size={20} color={Colors.primary} />
                     )}
                   </TouchableOpacity>
@@ -1126,20 +1459,17 @@ export default function AddScreen() {
                         key={category.id}
                         style={[
                           styles.modalItem,
-                          categoryId === category.id && styles.modalItemSelected
+                          selectedModalCategoryId === category.id && styles.modalItemSelected
                         ]}
-                        onPress={() => {
-                          setCategoryId(category.id);
-                          setShowCategoryModal(false);
-                        }}
+                        onPress={() => handleSelectCategory(category.id)}
                       >
                         <Text style={[
                           styles.modalItemText,
-                          categoryId === category.id && styles.modalItemTextSelected
+                          selectedModalCategoryId === category.id && styles.modalItemTextSelected
                         ]}>
                           {category.name}
                         </Text>
-                        {categoryId === category.id && (
+                        {selectedModalCategoryId === category.id && (
                           <Ionicons name="checkmark" size={20} color={Colors.primary} />
                         )}
                       </TouchableOpacity>
@@ -1321,6 +1651,11 @@ export default function AddScreen() {
           <View style={styles.processingModalContent}>
             <ActivityIndicator size="large" color={Colors.primary} />
             <Text style={styles.processingModalText}>{t('add.processingReceipt')}</Text>
+            {receiptProgress && (
+              <Text style={styles.processingModalSubtext}>
+                {t(`add.processingSteps.${receiptProgress.step}`)} · {receiptProgress.progress}%
+              </Text>
+            )}
           </View>
         </View>
       </Modal>
@@ -1431,6 +1766,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.textPrimary,
   },
+  batchScanLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  batchScanLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   card: {
     backgroundColor: Colors.white,
     borderRadius: 16,
@@ -1504,6 +1851,36 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: Colors.textPrimary,
   },
+  repeatChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  repeatChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: Colors.gray100,
+  },
+  repeatChipActive: {
+    backgroundColor: Colors.primary,
+  },
+  repeatChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: Colors.textSecondary,
+  },
+  repeatChipTextActive: {
+    color: Colors.white,
+  },
+  repeatLimitsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  repeatLimitInput: {
+    flex: 1,
+  },
   notesInput: {
     height: 80,
     textAlignVertical: 'top',
@@ -1526,6 +1903,28 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     fontWeight: '500',
   },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  suggestionLabel: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  suggestionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.gray100,
+  },
+  suggestionChipText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+    fontWeight: '500',
+  },
   dateInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1718,6 +2117,27 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 8,
   },
+  itemCategoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: -6,
+    marginBottom: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: Colors.gray100,
+  },
+  itemCategoryChipNew: {
+    borderWidth: 1,
+    borderColor: Colors.warning,
+  },
+  itemCategoryChipText: {
+    fontSize: 11,
+    color: Colors.textSecondary,
+    maxWidth: 220,
+  },
   itemTotalText: {
     fontSize: 12,
     fontWeight: '600',
@@ -1860,6 +2280,10 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     fontWeight: '500',
   },
+  processingModalSubtext: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
   emptyItemListPlaceholder: {
     backgroundColor: Colors.gray50,
     borderRadius: 12,
@@ -1,11 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, Dimensions, ActivityIndicator, TouchableOpacity, Modal, Alert, Pressable, Animated, Switch, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { Colors } from '../../constants/theme';
 import { RefreshableScrollView } from '../../components/refreshable-scroll-view';
+import TransactionAttachments from '../../components/transaction-attachments';
 import { useLanguage } from '../../src/providers/LanguageProvider';
 import { 
   getRecentTransactions, 
@@ -16,10 +17,14 @@ import {
   type Transaction 
 } from '../../src/services/transactions';
 import { getPaymentMethods } from '../../src/services/payment-methods';
-import { getMonthlyBudgetAmount, getCurrentBudget, DEFAULT_MONTHLY_BUDGET } from '../../src/services/budgets';
+import { deleteTransfer } from '../../src/services/transfers';
+import { getMonthlyBudgetAmount, getCurrentBudget, getBudgetMonthlyAmount, findActiveBudget, DEFAULT_MONTHLY_BUDGET } from '../../src/services/budgets';
+import { getLocalSnapshot, refreshLocalStore } from '../../src/services/local-store';
 import { getProfile } from '../../src/services/profiles';
 import { useAuth } from '../../src/providers/AuthProvider';
 import { useCurrency } from '../../src/providers/CurrencyProvider';
+import { useOutbox } from '../../src/hooks/useOutbox';
+import { useUndoDelete } from '../../src/hooks/useUndoDelete';
 import { getItemsByTransaction, type ItemRow, debugGetAllUserItems } from '../../src/services/items';
 
 const { width } = Dimensions.get('window');
@@ -42,8 +47,10 @@ function getRelativeTime(dateString: string, t: any): string {
 
 export default function HomeScreen() {
   const { t } = useLanguage();
+  const showUndoDelete = useUndoDelete();
   const { session } = useAuth();
   const { currencySymbol, currencyCode, convertToUserCurrency, loading: currencyLoading } = useCurrency();
+  const { pendingIds, lastSyncedAt } = useOutbox();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -109,21 +116,6 @@ export default function HomeScreen() {
           useNativeDriver: true,
         }).start();
       }, 20); // Reduced delay to 20ms
-      
-      try {
-        setLoadingPaymentMethods(true);
-        
-        // Get real balances from database with currency conversion
-        const balances = await getBalancesByPaymentMethod({
-          convertToUserCurrency,
-          userCurrency: currencyCode
-        });
-        setPaymentMethodBalances(balances);
-      } catch (error) {
-        console.error('Error fetching payment method balances:', error);
-      } finally {
-        setLoadingPaymentMethods(false);
-      }
     } else {
       // Hide back side with a slight delay to let animation complete
       setTimeout(() => {
@@ -134,6 +126,31 @@ export default function HomeScreen() {
     setIsFlipped(!isFlipped);
   };
 
+  async function loadPaymentMethodBalances() {
+    try {
+      setLoadingPaymentMethods(true);
+
+      // Get real balances from database with currency conversion
+      const balances = await getBalancesByPaymentMethod({
+        convertToUserCurrency,
+        userCurrency: currencyCode
+      });
+      setPaymentMethodBalances(balances);
+    } catch (error) {
+      console.error('Error fetching payment method balances:', error);
+    } finally {
+      setLoadingPaymentMethods(false);
+    }
+  }
+
+  // Fetch payment method balances while the back side is shown, and again
+  // when coming back to this screen (e.g. after adding a transfer) or after a sync
+  useFocusEffect(
+    useCallback(() => {
+      if (isFlipped) loadPaymentMethodBalances();
+    }, [isFlipped, lastSyncedAt])
+  );
+
   useEffect(() => {
     if (showCardContent || showBackSide) {
       // Start slide-in animation for budget card immediately
@@ -164,7 +181,7 @@ export default function HomeScreen() {
   useEffect(() => {
     if (!session || currencyLoading) return;
     loadData();
-  }, [session, transactionLimit, currencyCode, currencyLoading]);
+  }, [session, transactionLimit, currencyCode, currencyLoading, lastSyncedAt]);
 
   // Realtime: refresh when transactions change
   useEffect(() => {
@@ -187,60 +204,99 @@ export default function HomeScreen() {
     };
   }, [session]);
 
-  async function loadData() {
-    try {
-      setLoading(true);
-      
-      // Get current month date range
-      const now = new Date();
-      const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-      const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      
-      const startDate = firstDay.toISOString().split('T')[0];
-      const endDate = lastDay.toISOString().split('T')[0];
+  // Current month range used by the dashboard
+  function getMonthRange() {
+    const now = new Date();
+    const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
+    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    return {
+      startDate: firstDay.toISOString().split('T')[0],
+      endDate: lastDay.toISOString().split('T')[0],
+    };
+  }
 
-      // Fetch all data in parallel
-      const [recentTransactionsData, monthlyTransactions, monthlyBudget] = await Promise.all([
-        getRecentTransactions(transactionLimit),
-        getTransactionsByDateRange(startDate, endDate),
-        getMonthlyBudgetAmount(),
-      ]);
+  // Convert amounts to the user's currency and update the dashboard in one go
+  async function showDashboard(
+    recentTransactionsData: Transaction[],
+    monthlyTransactions: Transaction[],
+    monthlyBudget: number
+  ) {
+    // Convert recent transaction amounts for display
+    const amounts: Record<string, number> = {};
+    await Promise.all(
+      recentTransactionsData.map(async (transaction) => {
+        if (transaction.currency && transaction.currency !== currencyCode) {
+          const result = await convertToUserCurrency(Math.abs(transaction.amount), transaction.currency);
+          amounts[transaction.id] = transaction.amount >= 0 ? result.convertedAmount : -result.convertedAmount;
+        } else {
+          amounts[transaction.id] = transaction.amount;
+        }
+      })
+    );
 
-      // Convert recent transaction amounts for display
-      const amounts: Record<string, number> = {};
-      await Promise.all(
-        recentTransactionsData.map(async (transaction) => {
-          if (transaction.currency && transaction.currency !== currencyCode) {
-            const result = await convertToUserCurrency(Math.abs(transaction.amount), transaction.currency);
-            amounts[transaction.id] = transaction.amount >= 0 ? result.convertedAmount : -result.convertedAmount;
-          } else {
-            amounts[transaction.id] = transaction.amount;
-          }
-        })
-      );
+    // Calculate expenses from monthly transactions (converting if needed)
+    let expenses = 0;
+    await Promise.all(
+      monthlyTransactions.map(async (transaction) => {
+        if (transaction.amount < 0 && !transaction.transfer_id) {
+           let amount = Math.abs(transaction.amount);
+           if (transaction.currency && transaction.currency !== currencyCode) {
+              const result = await convertToUserCurrency(amount, transaction.currency);
+              amount = result.convertedAmount;
+           }
+           expenses += amount;
+        }
+      })
+    );
+
+    // Set all state together to ensure UI updates with converted amounts
+    setRecentTransactions(recentTransactionsData);
+    setConvertedAmounts(amounts);
+    setSpent(expenses);
+    setBudget(monthlyBudget);
+    // Balance = budget - expenses
+    setBalance(monthlyBudget - expenses);
+  }
 
-      // Calculate expenses from monthly transactions (converting if needed)
-      let expenses = 0;
-      await Promise.all(
-        monthlyTransactions.map(async (transaction) => {
-          if (transaction.amount < 0) {
-             let amount = Math.abs(transaction.amount);
-             if (transaction.currency && transaction.currency !== currencyCode) {
-                const result = await convertToUserCurrency(amount, transaction.currency);
-                amount = result.convertedAmount;
-             }
-             expenses += amount;
-          }
-        })
+  // Render from the local snapshot; returns false when nothing is cached yet
+  async function showCachedDashboard() {
+    try {
+      const snapshot = await getLocalSnapshot();
+      if (!snapshot?.refreshedAt) return false;
+
+      const { startDate, endDate } = getMonthRange();
+      const activeBudget = findActiveBudget(snapshot.budgets);
+      await showDashboard(
+        snapshot.transactions.slice(0, transactionLimit),
+        snapshot.transactions.filter(t => t.occurred_at >= startDate && t.occurred_at <= endDate),
+        activeBudget ? getBudgetMonthlyAmount(activeBudget) : DEFAULT_MONTHLY_BUDGET
       );
+      return true;
+    } catch (error) {
+      console.warn('Failed to render cached dashboard:', error);
+      return false;
+    }
+  }
 
-      // Set all state together to ensure UI updates with converted amounts
-      setRecentTransactions(recentTransactionsData);
-      setConvertedAmounts(amounts);
-      setSpent(expenses);
-      setBudget(monthlyBudget);
-      // Balance = budget - expenses
-      setBalance(monthlyBudget - expenses);
+  async function fetchDashboard() {
+    const { startDate, endDate } = getMonthRange();
+
+    // Fetch all data in parallel
+    const [recentTransactionsData, monthlyTransactions, monthlyBudget] = await Promise.all([
+      getRecentTransactions(transactionLimit),
+      getTransactionsByDateRange(startDate, endDate),
+      getMonthlyBudgetAmount(),
+    ]);
+
+    await showDashboard(recentTransactionsData, monthlyTransactions, monthlyBudget);
+  }
+
+  async function loadData() {
+    // Cached data shows instantly; the spinner is only for a first load without cache
+    const hasCache = await showCachedDashboard();
+    try {
+      if (!hasCache) setLoading(true);
+      await fetchDashboard();
 
       // Debug: 检查所有 items
       try {
@@ -258,56 +314,7 @@ export default function HomeScreen() {
   async function onRefresh() {
     setRefreshing(true);
     try {
-      // Get current month date range
-      const now = new Date();
-      const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-      const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      
-      const startDate = firstDay.toISOString().split('T')[0];
-      const endDate = lastDay.toISOString().split('T')[0];
-
-      // Fetch all data in parallel
-      const [recentTransactionsData, monthlyTransactions, monthlyBudget] = await Promise.all([
-        getRecentTransactions(transactionLimit),
-        getTransactionsByDateRange(startDate, endDate),
-        getMonthlyBudgetAmount(),
-      ]);
-
-      // Convert recent transaction amounts for display
-      const amounts: Record<string, number> = {};
-      await Promise.all(
-        recentTransactionsData.map(async (transaction) => {
-          if (transaction.currency && transaction.currency !== currencyCode) {
-            const result = await convertToUserCurrency(Math.abs(transaction.amount), transaction.currency);
-            amounts[transaction.id] = transaction.amount >= 0 ? result.convertedAmount : -result.convertedAmount;
-          } else {
-            amounts[transaction.id] = transaction.amount;
-          }
-        })
-      );
-
-      // Calculate expenses from monthly transactions (converting if needed)
-      let expenses = 0;
-      await Promise.all(
-        monthlyTransactions.map(async (transaction) => {
-          if (transaction.amount < 0) {
-             let amount = Math.abs(transaction.amount);
-             if (transaction.currency && transaction.currency !== currencyCode) {
-                const result = await convertToUserCurrency(amount, transaction.currency);
-                amount = result.convertedAmount;
-             }
-             expenses += amount;
-          }
-        })
-      );
-
-      // Set all state together to ensure UI updates with converted amounts
-      setRecentTransactions(recentTransactionsData);
-      setConvertedAmounts(amounts);
-      setSpent(expenses);
-      setBudget(monthlyBudget);
-      // Balance = budget - expenses
-      setBalance(monthlyBudget - expenses);
+      await Promise.all([fetchDashboard(), refreshLocalStore({ full: true })]);
     } catch (error) {
       console.error('Error refreshing dashboard data:', error);
     } finally {
@@ -407,6 +414,10 @@ export default function HomeScreen() {
                   <View style={styles.balanceHeader}>
                     <Text style={styles.balanceLabel}>{t('home.paymentMethodBalances')}</Text>
                     <View style={styles.paymentMethodHeaderRight}>
+                      <TouchableOpacity style={styles.transferButton} onPress={() => router.push('/add-transfer')}>
+                        <Ionicons name="swap-horizontal" size={14} color={Colors.white} />
+                        <Text style={styles.transferButtonText}>{t('home.transfer')}</Text>
+                      </TouchableOpacity>
                       <Text style={styles.hideZeroLabel}>{t('home.hideZeroBalances') || 'Hide 0'}</Text>
                       <Switch
                         value={hideZeroBalances}
@@ -720,12 +731,20 @@ export default function HomeScreen() {
                       ]}>
                         {getRelativeTime(transaction.occurred_at, t)}
                       </Animated.Text>
+                      {pendingIds.has(transaction.id) && (
+                        <View style={styles.pendingSync}>
+                          <Ionicons name="cloud-upload-outline" size={12} color={Colors.textSecondary} />
+                          <Text style={styles.pendingSyncText}>{t('home.pendingSync')}</Text>
+                        </View>
+                      )}
                     </View>
                     <View style={styles.transactionRight}>
                       <Animated.Text
                         style={[
                           styles.transactionAmount,
-                          transaction.amount > 0 ? styles.incomeAmount : styles.expenseAmount,
+                          transaction.transfer_id
+                            ? styles.transferAmount
+                            : transaction.amount > 0 ? styles.incomeAmount : styles.expenseAmount,
                           {
                             letterSpacing: blurAnim.interpolate({
                               inputRange: [0, 1],
@@ -756,7 +775,7 @@ export default function HomeScreen() {
                           }),
                         }
                       ]}>
-                        {transaction.category?.name || 'Uncategorized'}
+                        {transaction.transfer_id ? t('home.transfer') : transaction.category?.name || 'Uncategorized'}
                       </Animated.Text>
                     </View>
                   </Animated.View>
@@ -767,7 +786,7 @@ export default function HomeScreen() {
                     <View style={styles.expandedDetailRow}>
                       <Text style={styles.expandedDetailLabel}>{t('home.category')}</Text>
                       <Text style={styles.expandedDetailValue}>
-                        {transaction.category?.name || t('home.uncategorized')}
+                        {transaction.transfer_id ? t('home.transfer') : transaction.category?.name || t('home.uncategorized')}
                       </Text>
                     </View>
 
@@ -859,6 +878,9 @@ export default function HomeScreen() {
                       return null;
                     })()}
 
+                    {/* Attachments */}
+                    <TransactionAttachments transactionId={transaction.id} />
+
                     {/* Notes */}
                     {transaction.note && (
                       <View style={styles.expandedDetailRow}>
@@ -873,7 +895,9 @@ export default function HomeScreen() {
                       onPress={() => {
                         Alert.alert(
                           t('home.deleteTransaction'),
-                          t('home.deleteTransactionConfirm'),
+                          transaction.reconciliation_id
+                            ? t('home.deleteReconciledConfirm')
+                            : t('home.deleteTransactionConfirm'),
                           [
                             { text: t('home.cancel'), style: 'cancel' },
                             {
@@ -881,9 +905,19 @@ export default function HomeScreen() {
                               style: 'destructive',
                               onPress: async () => {
                                 try {
-                                  await deleteTransaction(transaction.id);
+                                  // Deleting either leg of a transfer deletes both
+                                  let deletedIds = [transaction.id];
+                                  if (transaction.transfer_id) {
+                                    deletedIds = await deleteTransfer(transaction.transfer_id, { allowReconciled: true });
+                                  } else {
+                                    await deleteTransaction(transaction.id, {
+                                      baseUpdatedAt: transaction.updated_at,
+                                      allowReconciled: true,
+                                    });
+                                  }
                                   setExpandedTransactionId(null);
                                   loadData();
+                                  showUndoDelete(deletedIds, loadData);
                                 } catch (error) {
                                   Alert.alert(t('home.error'), t('home.failedToDelete'));
                                 }
@@ -1109,6 +1143,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: Colors.textSecondary,
   },
+  pendingSync: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginTop: 2,
+  },
+  pendingSyncText: {
+    fontSize: 11,
+    color: Colors.textSecondary,
+  },
   transactionRight: {
     alignItems: 'flex-end',
   },
@@ -1123,6 +1167,9 @@ const styles = StyleSheet.create({
   expenseAmount: {
     color: Colors.error,
   },
+  transferAmount: {
+    color: Colors.textSecondary,
+  },
   transactionCategory: {
     fontSize: 13,
     color: Colors.textSecondary,
@@ -1310,6 +1357,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  transferButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  transferButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.white,
+  },
   hideZeroLabel: {
     fontSize: 12,
     color: Colors.white,
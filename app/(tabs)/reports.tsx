@@ -12,7 +12,13 @@ import {
 import { 
   getMonthlyTrends, 
   getSpendingSummary,
+  getCategoryBudgetProgress,
+  getTagSpending,
+  getReportFromLocalStore,
   type MonthlyTrend,
+  type CategoryBudgetProgress,
+  type TagSpending,
+  type LocalReport,
 } from '../../src/services/reports';
 import { getCurrentBudget, getMonthlyBudgetAmount, getWeeklyBudgetAmount, DEFAULT_MONTHLY_BUDGET } from '../../src/services/budgets';
 import { useAuth } from '../../src/providers/AuthProvider';
@@ -52,6 +58,8 @@ export default function ReportsScreen() {
   const [totalBudget, setTotalBudget] = useState(0);
   const [totalSpent, setTotalSpent] = useState(0);
   const [monthlyTrends, setMonthlyTrends] = useState<MonthlyTrend[]>([]);
+  const [categoryBudgets, setCategoryBudgets] = useState<CategoryBudgetProgress[]>([]);
+  const [tagSpending, setTagSpending] = useState<TagSpending[]>([]);
   const [chartWidth, setChartWidth] = useState(0);
   
   // Add a ref to track if we're currently loading to prevent duplicate requests
@@ -143,6 +151,43 @@ export default function ReportsScreen() {
     }
   }, [session, period, activeTab]); // Also reload when switching tabs
 
+  function showReport({ summary, breakdown, budgetAmount, trends, categoryBudgets: categoryBudgetProgress, tagSpending: tagSpendingData }: LocalReport) {
+    setCategoryBudgets(categoryBudgetProgress);
+    setTagSpending(tagSpendingData);
+
+    // Update summary
+    setTotalBudget(budgetAmount);
+    setTotalSpent(summary.totalExpenses);
+
+    // Update breakdown
+    const total = Object.values(breakdown).reduce<number>((sum, val) => sum + (val as number), 0);
+    const fallbackColors = [
+      Colors.chartPurple,
+      Colors.chartCyan,
+      Colors.chartOrange,
+      Colors.chartRed,
+      Colors.chartGreen,
+    ];
+
+    const chartData = Object.entries(breakdown).map(([category, amount], index) => {
+      const explicitColor = categoryColors[category];
+      const fallbackColor = fallbackColors[index % fallbackColors.length];
+
+      return {
+        category,
+        amount: amount as number,
+        color: explicitColor ?? fallbackColor,
+        percentage: Math.round(((amount as number) / total) * 100),
+      };
+    });
+    setSpendingData(chartData);
+
+    // Update trends only if loaded
+    if (activeTab === 'trends' && trends) {
+      setMonthlyTrends(trends);
+    }
+  }
+
   async function loadAllData() {
     // Prevent duplicate loading requests
     if (loadingRef.current) {
@@ -151,7 +196,6 @@ export default function ReportsScreen() {
     
     try {
       loadingRef.current = true;
-      setLoading(true);
       
       // Get date range based on selected period
       const now = new Date();
@@ -182,6 +226,18 @@ export default function ReportsScreen() {
         endDate = lastDay.toISOString();
       }
 
+      // Render the cached report instantly; the spinner is only for a first load without cache
+      const cached = await getReportFromLocalStore(startDate, endDate, period, { userCurrency: currencyCode })
+        .catch((error) => {
+          console.warn('Failed to build cached report:', error);
+          return null;
+        });
+      if (cached) {
+        showReport(cached);
+      } else {
+        setLoading(true);
+      }
+
       // Load data based on active tab to improve performance
       // Only load what's needed for the current view
       const dataToLoad: Promise<any>[] = [
@@ -211,40 +267,24 @@ export default function ReportsScreen() {
         dataToLoad.push(getMonthlyTrends(6));
       }
 
-      const results = await Promise.all(dataToLoad);
-      const [summary, breakdown, budgetAmount, trends] = results;
-
-      // Update summary
-      setTotalBudget(budgetAmount);
-      setTotalSpent(summary.totalExpenses);
-
-      // Update breakdown
-      const total = Object.values(breakdown).reduce<number>((sum, val) => sum + (val as number), 0);
-      const fallbackColors = [
-        Colors.chartPurple,
-        Colors.chartCyan,
-        Colors.chartOrange,
-        Colors.chartRed,
-        Colors.chartGreen,
-      ];
-
-      const chartData = Object.entries(breakdown).map(([category, amount], index) => {
-        const explicitColor = categoryColors[category];
-        const fallbackColor = fallbackColors[index % fallbackColors.length];
+      // Category budget progress is shown next to the breakdown; a failure here shouldn't hide the rest
+      const categoryBudgetPromise = getCategoryBudgetProgress(startDate, endDate, period).catch((error) => {
+        console.error('Error loading category budgets:', error);
+        return [] as CategoryBudgetProgress[];
+      });
 
-        return {
-          category,
-          amount: amount as number,
-          color: explicitColor ?? fallbackColor,
-          percentage: Math.round(((amount as number) / total) * 100),
-        };
+      const tagSpendingPromise = getTagSpending(startDate, endDate).catch((error) => {
+        console.error('Error loading tag spending:', error);
+        return [] as TagSpending[];
       });
-      setSpendingData(chartData);
 
-      // Update trends only if loaded
-      if (activeTab === 'trends' && trends) {
-        setMonthlyTrends(trends);
-      }
+      const [results, categoryBudgetProgress, tagSpendingData] = await Promise.all([
+        Promise.all(dataToLoad),
+        categoryBudgetPromise,
+        tagSpendingPromise,
+      ]);
+      const [summary, breakdown, budgetAmount, trends] = results;
+      showReport({ summary, breakdown, budgetAmount, trends, categoryBudgets: categoryBudgetProgress, tagSpending: tagSpendingData });
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -559,6 +599,70 @@ export default function ReportsScreen() {
                 </View>
               </>
             )}
+
+            {/* Category Budgets */}
+            {!loading && categoryBudgets.length > 0 && (
+              <View style={styles.categoryBudgetSection}>
+                <Text style={styles.categoryBudgetTitle}>{t('reports.categoryBudgets')}</Text>
+                {categoryBudgets.map((item) => {
+                  const overBudget = item.spent > item.limit;
+                  return (
+                    <View key={item.budgetId} style={styles.categoryBudgetItem}>
+                      <View style={styles.categoryBudgetHeader}>
+                        <Text style={styles.categoryName}>{item.categoryName}</Text>
+                        <Text style={[styles.categoryBudgetAmount, overBudget && styles.categoryBudgetOver]}>
+                          {currencySymbol}{item.spent.toFixed(2)} / {currencySymbol}{item.limit.toFixed(2)}
+                        </Text>
+                      </View>
+                      <View style={styles.categoryBudgetTrack}>
+                        <View
+                          style={[
+                            styles.categoryBudgetFill,
+                            {
+                              width: `${Math.min(item.percentage, 100)}%`,
+                              backgroundColor: overBudget ? Colors.error : Colors.primary,
+                            },
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.categoryBudgetRemaining}>
+                        {overBudget
+                          ? t('reports.overBudgetBy', { amount: `${currencySymbol}${Math.abs(item.remaining).toFixed(2)}` })
+                          : t('reports.remainingBudget', { amount: `${currencySymbol}${item.remaining.toFixed(2)}` })}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Tags */}
+            {!loading && tagSpending.length > 0 && (
+              <View style={styles.categoryBudgetSection}>
+                <Text style={styles.categoryBudgetTitle}>{t('reports.tags')}</Text>
+                {tagSpending.map((item) => (
+                  <View key={item.tagId} style={styles.categoryBudgetItem}>
+                    <View style={styles.categoryBudgetHeader}>
+                      <Text style={styles.categoryName}>#{item.tagName}</Text>
+                      <Text style={styles.categoryBudgetAmount}>
+                        {currencySymbol}{item.amount.toFixed(2)}
+                      </Text>
+                    </View>
+                    <View style={styles.categoryBudgetTrack}>
+                      <View
+                        style={[
+                          styles.categoryBudgetFill,
+                          { width: `${Math.min(item.percentage, 100)}%`, backgroundColor: Colors.primary },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.categoryBudgetRemaining}>
+                      {t('reports.tagTransactions', { transactions: item.transactionCount, percentage: Math.round(item.percentage) })}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </View>
         )}
 
@@ -873,6 +977,46 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: 12,
   },
+  // Category budgets
+  categoryBudgetSection: {
+    marginTop: 24,
+    gap: 16,
+  },
+  categoryBudgetTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  categoryBudgetItem: {
+    gap: 6,
+  },
+  categoryBudgetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  categoryBudgetAmount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  categoryBudgetOver: {
+    color: Colors.error,
+  },
+  categoryBudgetTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: Colors.gray200,
+  },
+  categoryBudgetFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  categoryBudgetRemaining: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
   pieChartContainer: {
     alignItems: 'center',
     marginBottom: 16,
@@ -5,6 +5,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import Constants from 'expo-constants';
 import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
 import { Colors } from '../../constants/theme';
 import { RefreshableScrollView } from '../../components/refreshable-scroll-view';
 import { supabase } from '../../src/services/supabase';
@@ -28,6 +30,10 @@ import {
 } from '../../src/services/categories';
 import { getCurrencies, type Currency } from '../../src/services/currencies';
 import { getAllBudgets, setBudget, type Budget, DEFAULT_MONTHLY_BUDGET } from '../../src/services/budgets';
+import { getAllTransactions } from '../../src/services/transactions';
+import { exportTransactions, exportAccountBackup, type AccountBackup } from '../../src/services/data-export';
+import { parseAccountBackup, restoreAccountBackup, type RestoreMode } from '../../src/services/data-restore';
+import { readImportFile } from '../../src/services/transaction-import';
 
 const MONTH_LABEL_OPTIONS: Intl.DateTimeFormatOptions = { month: 'long', year: 'numeric' };
 
@@ -62,6 +68,7 @@ const generateMonthKeyRange = (monthsBefore = 6, monthsAfter = 4) => {
 import { getProfile, updateProfile } from '../../src/services/profiles';
 
 export default function SettingsScreen() {
+  const router = useRouter();
   const { session } = useAuth();
   const { refreshCurrency } = useCurrency();
   const { currentLanguage, changeLanguage, t } = useLanguage();
@@ -113,17 +120,21 @@ export default function SettingsScreen() {
   const [receiptModel, setReceiptModel] = useState('');
   const [chatModel, setChatModel] = useState('');
   const [fallbackModel, setFallbackModel] = useState('');
+  const [ocrTextModel, setOcrTextModel] = useState('');
   const [loadingModels, setLoadingModels] = useState(false);
   const [showModelSelection, setShowModelSelection] = useState(false);
   const [showReceiptModelModal, setShowReceiptModelModal] = useState(false);
   const [showChatModelModal, setShowChatModelModal] = useState(false);
   const [showFallbackModelModal, setShowFallbackModelModal] = useState(false);
+  const [showOcrTextModelModal, setShowOcrTextModelModal] = useState(false);
   const [receiptModelSearch, setReceiptModelSearch] = useState('');
   const [chatModelSearch, setChatModelSearch] = useState('');
   const [fallbackModelSearch, setFallbackModelSearch] = useState('');
+  const [ocrTextModelSearch, setOcrTextModelSearch] = useState('');
   const [receiptSearchFocused, setReceiptSearchFocused] = useState(false);
   const [chatSearchFocused, setChatSearchFocused] = useState(false);
   const [fallbackSearchFocused, setFallbackSearchFocused] = useState(false);
+  const [ocrTextSearchFocused, setOcrTextSearchFocused] = useState(false);
   const [fetchedModelsCount, setFetchedModelsCount] = useState(0);
 
   // Categories state
@@ -146,6 +157,15 @@ export default function SettingsScreen() {
     { code: 'zh', name: '中文' },
   ];
 
+  // Data export
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const exportOptions: { kind: 'csv' | 'backup'; label: string }[] = [
+    { kind: 'csv', label: t('settings.privacy.exportCsv') },
+    { kind: 'backup', label: t('settings.privacy.exportBackup') },
+  ];
+
   // Collapsible section state - tracks which section is expanded, all collapsed by default
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
 
@@ -351,6 +371,7 @@ export default function SettingsScreen() {
         setReceiptModel(config.receiptModel);
         setChatModel(config.chatModel);
         setFallbackModel(config.fallbackModel);
+        setOcrTextModel(config.ocrTextModel);
       }
     } catch (error) {
       console.error('Failed to load OpenAI config:', error);
@@ -392,6 +413,97 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleExport = async (kind: 'csv' | 'backup') => {
+    setShowExportModal(false);
+    setExporting(true);
+    try {
+      if (kind === 'backup') {
+        await exportAccountBackup();
+      } else {
+        const transactions = await getAllTransactions();
+        await exportTransactions(transactions);
+      }
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      Alert.alert(t('settings.alerts.error'), t('settings.privacy.exportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runRestore = async (backup: AccountBackup, mode: RestoreMode) => {
+    setRestoring(true);
+    try {
+      const report = await restoreAccountBackup(backup, mode);
+      const restoredLines = Object.entries(report.restored)
+        .filter(([, count]) => count > 0)
+        .map(([table, count]) => `${table}: ${count}`);
+
+      // Group skipped rows by table and reason to keep the summary short
+      const skippedGroups = new Map<string, number>();
+      report.skipped.forEach((skip) => {
+        const key = `${skip.table}: ${skip.reason}`;
+        skippedGroups.set(key, (skippedGroups.get(key) ?? 0) + 1);
+      });
+      const skippedLines = Array.from(skippedGroups.entries()).map(([key, count]) => `${key} (${count})`);
+
+      let message = t('settings.privacy.restoreRestored', { details: restoredLines.join('\n') || '-' });
+      if (skippedLines.length > 0) {
+        message += `\n\n${t('settings.privacy.restoreSkipped', { count: report.skipped.length, details: skippedLines.join('\n') })}`;
+      }
+      Alert.alert(t('settings.privacy.restoreComplete'), message);
+
+      await refreshCurrency();
+      await loadProfile();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      Alert.alert(t('settings.alerts.error'), t('settings.privacy.restoreFailed'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const backup = parseAccountBackup(await readImportFile(result.assets[0].uri));
+
+      Alert.alert(
+        t('settings.privacy.restoreBackup'),
+        t('settings.privacy.restoreMessage', {
+          transactions: backup.transactions.length,
+          categories: backup.categories.length,
+        }),
+        [
+          { text: t('settings.privacy.cancel'), style: 'cancel' },
+          { text: t('settings.privacy.restoreMerge'), onPress: () => runRestore(backup, 'merge') },
+          {
+            text: t('settings.privacy.restoreReplace'),
+            style: 'destructive',
+            onPress: () => {
+              Alert.alert(
+                t('settings.privacy.restoreReplace'),
+                t('settings.privacy.restoreReplaceConfirm'),
+                [
+                  { text: t('settings.privacy.cancel'), style: 'cancel' },
+                  { text: t('settings.privacy.restoreReplace'), style: 'destructive', onPress: () => runRestore(backup, 'replace') },
+                ]
+              );
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      Alert.alert(t('settings.alerts.error'), t('settings.privacy.invalidBackup'));
+    }
+  };
+
   const handleSaveBudget = async () => {
     if (!session) {
       Alert.alert(t('settings.alerts.notSignedIn'), t('settings.alerts.pleaseSignIn', { item: 'budget' }));
@@ -548,6 +660,7 @@ export default function SettingsScreen() {
       receiptModel,
       chatModel,
       fallbackModel,
+      ocrTextModel,
     });
 
     if (!openaiUrl.trim() || !openaiKey.trim()) {
@@ -576,6 +689,7 @@ export default function SettingsScreen() {
         receiptModel: receiptModel,
         chatModel: chatModel,
         fallbackModel: fallbackModel,
+        ocrTextModel: ocrTextModel,
       };
 
       console.log('[Settings] Config object created:', {
@@ -647,6 +761,7 @@ export default function SettingsScreen() {
               setReceiptModel(config.receiptModel);
               setChatModel(config.chatModel);
               setFallbackModel(config.fallbackModel);
+              setOcrTextModel(config.ocrTextModel);
             }
             // Reload categories
             await loadCategories();
@@ -914,6 +1029,21 @@ export default function SettingsScreen() {
                           </TouchableOpacity>
                           <Text style={styles.helperText}>{t('settings.openai.fallbackModelHelper')}</Text>
                         </View>
+
+                        <View style={[styles.inputGroup, {paddingVertical: 8, paddingHorizontal: 8}]}> 
+                          <Text style={styles.inputLabel}>{t('settings.openai.ocrTextModel')}</Text>
+                          <TouchableOpacity 
+                            style={styles.selectInput}
+                            onPress={() => availableModels.length > 0 && setShowOcrTextModelModal(true)}
+                            disabled={availableModels.length === 0}
+                          >
+                            <Text style={ocrTextModel ? styles.selectText : styles.selectPlaceholder}>
+                              {ocrTextModel || (availableModels.length === 0 ? t('settings.openai.fetchFirst') : t('settings.openai.selectModel', { type: t('settings.openai.ocrTextModel').toLowerCase() }))}
+                            </Text>
+                            <Ionicons name="chevron-down" size={20} color={Colors.textSecondary} />
+                          </TouchableOpacity>
+                          <Text style={styles.helperText}>{t('settings.openai.ocrTextModelHelper')}</Text>
+                        </View>
                       </>
                     )}
 
@@ -1006,6 +1136,90 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        {/* Accounts - opens the accounts screen */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/accounts')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="wallet-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.accounts.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        {/* Category budgets - opens the category budgets screen */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/category-budgets')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="pie-chart-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.categoryBudgets.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        {/* Merchants - opens the merchants screen */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/merchants')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="storefront-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.merchants.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        {/* Categorization rules - opens the rules screen */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/rules')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="git-branch-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.rules.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        {/* Duplicate transactions - opens the review screen */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/duplicates')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="copy-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.duplicates.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        {/* Trash - deleted transactions, restorable for 30 days */}
+        <View style={styles.card}>
+          <TouchableOpacity
+            style={styles.collapsibleHeader}
+            onPress={() => router.push('/trash')}
+          >
+            <View style={styles.collapsibleHeaderLeft}>
+              <Ionicons name="chevron-forward" size={20} color={Colors.primary} />
+              <Ionicons name="trash-outline" size={24} color={Colors.textPrimary} />
+              <Text style={styles.collapsibleHeaderTitle}>{t('settings.trash.title')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
         {/* Data & Privacy - Collapsible */}
         <View style={styles.card}>
           <TouchableOpacity
@@ -1025,23 +1239,35 @@ export default function SettingsScreen() {
 
           {expandedSection === 'privacy' && (
             <View style={styles.collapsibleContent}>
-              {/* Import Data - (disabled / placeholder) */}
+              {/* Import Data - CSV / OFX / QIF statements */}
               <TouchableOpacity
-                style={[styles.menuItem, PRIVACY_DISABLED && { opacity: 0.6 }]}
-                disabled={PRIVACY_DISABLED}
+                style={styles.menuItem}
+                onPress={() => router.push('/import-transactions')}
               >
-                <Ionicons name="cloud-upload-outline" size={20} color={PRIVACY_DISABLED ? Colors.textSecondary : Colors.textPrimary} />
-                <Text style={[styles.menuItemText, PRIVACY_DISABLED && { color: Colors.textSecondary }]}>{t('settings.privacy.importData')}</Text>
+                <Ionicons name="cloud-upload-outline" size={20} color={Colors.textPrimary} />
+                <Text style={styles.menuItemText}>{t('settings.privacy.importData')}</Text>
               </TouchableOpacity>
 
-              {/* Export Data - disabled since download functionality isn't implemented yet */}
+              {/* Export Data - transactions as CSV or a full JSON backup */}
               <TouchableOpacity
-                // style={[styles.menuItem, PRIVACY_DISABLED && { opacity: 0.6, borderBottomWidth: 0 }]}
-                style={[styles.menuItem, PRIVACY_DISABLED && { opacity: 0.6 }]}
-                disabled={PRIVACY_DISABLED}
-              > 
-                <Ionicons name="download-outline" size={20} color={PRIVACY_DISABLED ? Colors.textSecondary : Colors.textPrimary} />
-                <Text style={[styles.menuItemText, PRIVACY_DISABLED && { color: Colors.textSecondary }]}>{t('settings.privacy.exportData')}</Text>
+                style={styles.menuItem}
+                onPress={() => setShowExportModal(true)}
+                disabled={exporting}
+              >
+                <Ionicons name="download-outline" size={20} color={Colors.textPrimary} />
+                <Text style={styles.menuItemText}>{t('settings.privacy.exportData')}</Text>
+                {exporting && <ActivityIndicator size="small" color={Colors.primary} />}
+              </TouchableOpacity>
+
+              {/* Restore Backup - JSON backup from Export My Data */}
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={handlePickBackup}
+                disabled={restoring}
+              >
+                <Ionicons name="refresh-circle-outline" size={20} color={Colors.textPrimary} />
+                <Text style={styles.menuItemText}>{t('settings.privacy.restoreBackup')}</Text>
+                {restoring && <ActivityIndicator size="small" color={Colors.primary} />}
               </TouchableOpacity>
 
               <TouchableOpacity
@@ -1582,6 +1808,120 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* OCR Text Model Selection Modal */}
+      <Modal
+        visible={showOcrTextModelModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => {
+          // Only close if search input is not focused
+          if (!ocrTextSearchFocused) {
+            setShowOcrTextModelModal(false);
+          }
+        }}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modelSelectionModalHeader}>
+              <Text style={styles.modalTitle}>{t('settings.modals.selectOcrTextModel')}</Text>
+              <TouchableOpacity onPress={() => setShowOcrTextModelModal(false)}>
+                <Ionicons name="close" size={24} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+            
+            {/* Search Input */}
+            <View style={styles.modalSearchContainer}>
+              <Ionicons name="search-outline" size={20} color={Colors.textSecondary} />
+              <TextInput
+                style={styles.modalSearchInput}
+                placeholder={t('settings.modals.searchPlaceholder')}
+                value={ocrTextModelSearch}
+                onChangeText={setOcrTextModelSearch}
+                onFocus={() => setOcrTextSearchFocused(true)}
+                onBlur={() => setOcrTextSearchFocused(false)}
+                placeholderTextColor={Colors.textSecondary}
+              />
+              {ocrTextModelSearch !== '' && (
+                <TouchableOpacity onPress={() => setOcrTextModelSearch('')}>
+                  <Ionicons name="close-circle" size={20} color={Colors.textSecondary} />
+                </TouchableOpacity>
+              )}
+            </View>
+            
+            <ScrollView style={styles.modalList}>
+              {(ocrTextModelSearch === '' || !ocrTextModelSearch) && (
+                <TouchableOpacity
+                  style={[
+                    styles.modalItem,
+                    !ocrTextModel && styles.modalItemSelected
+                  ]}
+                  onPress={() => {
+                    setOcrTextModel('');
+                    setShowOcrTextModelModal(false);
+                    setOcrTextModelSearch('');
+                  }}
+                >
+                  <Text style={[
+                    styles.modalItemText,
+                    !ocrTextModel && styles.modalItemTextSelected
+                  ]}>
+                    {t('settings.modals.none')}
+                  </Text>
+                  {!ocrTextModel && (
+                    <Ionicons name="checkmark" size={20} color={Colors.primary} />
+                  )}
+                </TouchableOpacity>
+              )}
+              
+              {availableModels
+                .filter(model => 
+                  (model.id.toLowerCase().includes(ocrTextModelSearch.toLowerCase()) ||
+                   model.owned_by.toLowerCase().includes(ocrTextModelSearch.toLowerCase()))
+                )
+                .map((model) => (
+                  <TouchableOpacity
+                    key={model.id}
+                    style={[
+                      styles.modalItem,
+                      ocrTextModel === model.id && styles.modalItemSelected
+                    ]}
+                    onPress={() => {
+                      setOcrTextModel(model.id);
+                      setShowOcrTextModelModal(false);
+                      setOcrTextModelSearch('');
+                    }}
+                  >
+                    <View style={styles.modalItemLeft}>
+                      <Text style={[
+                        styles.modalItemText,
+                        ocrTextModel === model.id && styles.modalItemTextSelected
+                      ]}>
+                        {model.id}
+                      </Text>
+                      <Text style={styles.modalItemSubtext}>
+                        {model.owned_by}
+                      </Text>
+                    </View>
+                    {ocrTextModel === model.id && (
+                      <Ionicons name="checkmark" size={20} color={Colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              {availableModels.filter(model => 
+                (model.id.toLowerCase().includes(ocrTextModelSearch.toLowerCase()) ||
+                 model.owned_by.toLowerCase().includes(ocrTextModelSearch.toLowerCase()))
+              ).length === 0 && ocrTextModelSearch !== '' && (
+                <View style={styles.emptySearchContainer}>
+                  <Ionicons name="search-outline" size={32} color={Colors.textSecondary} />
+                  <Text style={styles.emptySearchText}>{t('settings.modals.noModelsFound')}</Text>
+                  <Text style={styles.emptySearchSubtext}>{t('settings.modals.tryDifferentKeywords')}</Text>
+                </View>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
       {/* Budget Month Selection Modal */}
       <Modal
         visible={showBudgetMonthModal}
@@ -1644,6 +1984,38 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Export Modal */}
+      <Modal
+        visible={showExportModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowExportModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('settings.privacy.exportData')}</Text>
+              <TouchableOpacity onPress={() => setShowExportModal(false)}>
+                <Ionicons name="close" size={24} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalList}>
+              {exportOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.kind}
+                  style={styles.modalItem}
+                  onPress={() => handleExport(option.kind)}
+                >
+                  <Text style={styles.modalItemText}>{option.label}</Text>
+                  <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
       {/* Language Selection Modal */}
       <Modal
         visible={showLanguageModal}
@@ -4,13 +4,48 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AuthProvider, useAuth } from '../src/providers/AuthProvider';
 import { CurrencyProvider } from '../src/providers/CurrencyProvider';
 import { LanguageProvider } from '../src/providers/LanguageProvider';
-import { ToastProvider } from '../src/providers/ToastProvider';
+import { ToastProvider, useToast } from '../src/providers/ToastProvider';
+import { startOutboxSync, subscribeToOutboxIssues } from '../src/services/outbox';
+import { startLocalStoreSync } from '../src/services/local-store';
+import { startCategorySuggesterSync } from '../src/services/category-suggester';
+import { migratePaymentMethodsToAccounts } from '../src/services/accounts';
+import { purgeExpiredTrash } from '../src/services/trash';
+import { useTranslation } from 'react-i18next';
 import '../src/i18n'; // Initialize i18n
 
 function Gate() {
   const { session, loading } = useAuth();
   const segments = useSegments();
   const router = useRouter();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+
+  // Replay offline transaction writes and keep the local read cache fresh while signed in
+  useEffect(() => {
+    if (!session) return;
+    const stopSync = startOutboxSync();
+    const stopLocalStore = startLocalStoreSync();
+    const stopSuggester = startCategorySuggesterSync();
+    // Link transactions that only carry a payment method name to an account
+    migratePaymentMethodsToAccounts().catch(() => {});
+    // Permanently delete transactions that have been in the trash too long
+    purgeExpiredTrash().catch(() => {});
+    const unsubscribeIssues = subscribeToOutboxIssues(issue => {
+      showToast({
+        message: issue.kind === 'failed'
+          ? t('sync.failed', { message: issue.message })
+          : t('sync.keptServer'),
+        severity: 'warning',
+        duration: 4000,
+      });
+    });
+    return () => {
+      stopSync();
+      stopLocalStore();
+      stopSuggester();
+      unsubscribeIssues();
+    };
+  }, [session]);
 
   useEffect(() => {
     if (loading) return;
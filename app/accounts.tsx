@@ -0,0 +1,616 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import { useCurrency } from '@/src/providers/CurrencyProvider';
+import {
+  ACCOUNT_TYPES,
+  addAccount,
+  deleteAccount,
+  getAccounts,
+  getAccountTypeIcon,
+  migratePaymentMethodsToAccounts,
+  reorderAccounts,
+  setAccountArchived,
+  updateAccount,
+  type Account,
+  type AccountType,
+} from '@/src/services/accounts';
+
+const ICON_OPTIONS = [
+  'cash-outline',
+  'card-outline',
+  'wallet-outline',
+  'business-outline',
+  'phone-portrait-outline',
+  'logo-apple',
+  'logo-google',
+  'logo-paypal',
+  'chatbubbles-outline',
+  'ellipsis-horizontal',
+];
+
+interface AccountForm {
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: string;
+  icon: string;
+}
+
+export default function AccountsScreen() {
+  const { currencyCode } = useCurrency();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [linking, setLinking] = useState(false);
+  // null: editor closed; 'new': adding; otherwise the account being edited
+  const [editing, setEditing] = useState<Account | 'new' | null>(null);
+  const [form, setForm] = useState<AccountForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const activeAccounts = accounts.filter(account => !account.is_archived);
+  const archivedAccounts = accounts.filter(account => account.is_archived);
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await getAccounts({ includeArchived: true }));
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+      Alert.alert('Error', 'Failed to load accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const openEditor = (account: Account | 'new') => {
+    setEditing(account);
+    setForm(account === 'new'
+      ? { name: '', type: 'other', currency: currencyCode, openingBalance: '0', icon: getAccountTypeIcon('other') }
+      : {
+          name: account.name,
+          type: account.type,
+          currency: account.currency,
+          openingBalance: String(account.opening_balance ?? 0),
+          icon: account.icon ?? getAccountTypeIcon(account.type),
+        });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || !editing) return;
+
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert('Missing Name', 'Please enter a name for the account');
+      return;
+    }
+    const duplicate = accounts.find(account =>
+      account.name.toLowerCase() === name.toLowerCase() && (editing === 'new' || account.id !== editing.id)
+    );
+    if (duplicate) {
+      Alert.alert('Duplicate Name', `You already have an account called "${duplicate.name}"`);
+      return;
+    }
+    const openingBalance = parseFloat(form.openingBalance.replace(/,/g, '.') || '0');
+    if (isNaN(openingBalance)) {
+      Alert.alert('Invalid Amount', 'Please enter a valid opening balance');
+      return;
+    }
+
+    const values = {
+      name,
+      type: form.type,
+      currency: form.currency.trim().toUpperCase() || currencyCode,
+      opening_balance: openingBalance,
+      icon: form.icon,
+    };
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await addAccount({ ...values, sort_order: activeAccounts.length + 1 });
+      } else {
+        await updateAccount(editing.id, values);
+      }
+      closeEditor();
+      await loadAccounts();
+    } catch (error) {
+      console.error('Failed to save account:', error);
+      Alert.alert('Error', 'Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (account: Account, archived: boolean) => {
+    try {
+      await setAccountArchived(account.id, archived);
+      closeEditor();
+      await loadAccounts();
+    } catch (error) {
+      console.error('Failed to archive account:', error);
+      Alert.alert('Error', archived ? 'Failed to archive account' : 'Failed to restore account');
+    }
+  };
+
+  const handleDelete = (account: Account) => {
+    Alert.alert(
+      'Delete Account',
+      `Delete "${account.name}"? Accounts with transactions can only be archived.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAccount(account.id);
+              closeEditor();
+              await loadAccounts();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= activeAccounts.length) return;
+
+    const ordered = [...activeAccounts];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    setAccounts([...ordered, ...archivedAccounts]);
+    try {
+      await reorderAccounts(ordered.map(account => account.id));
+    } catch (error) {
+      console.error('Failed to reorder accounts:', error);
+      Alert.alert('Error', 'Failed to save the new order');
+      await loadAccounts();
+    }
+  };
+
+  const handleLinkTransactions = async () => {
+    setLinking(true);
+    try {
+      const { created, linked } = await migratePaymentMethodsToAccounts();
+      await loadAccounts();
+      Alert.alert(
+        'Transactions Linked',
+        linked === 0 && created === 0
+          ? 'All transactions already belong to an account.'
+          : `Linked ${linked} transaction(s)${created > 0 ? ` and created ${created} account(s)` : ''}.`
+      );
+    } catch {
+      Alert.alert('Error', 'Failed to link transactions to accounts');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const renderAccount = (account: Account, index: number) => (
+    <TouchableOpacity key={account.id} style={styles.accountRow} onPress={() => openEditor(account)}>
+      <Ionicons
+        name={(account.icon || getAccountTypeIcon(account.type)) as any}
+        size={22}
+        color={account.is_archived ? Colors.textSecondary : Colors.primary}
+      />
+      <View style={styles.accountBody}>
+        <Text style={styles.accountName}>{account.name}</Text>
+        <Text style={styles.accountMeta}>
+          {ACCOUNT_TYPES.find(option => option.value === account.type)?.label ?? 'Other'} · {account.currency}
+          {account.opening_balance ? ` · opening ${Number(account.opening_balance).toFixed(2)}` : ''}
+        </Text>
+      </View>
+      {account.is_archived ? (
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleArchive(account, false)}>
+          <Ionicons name="arrow-undo-outline" size={20} color={Colors.primary} />
+        </TouchableOpacity>
+      ) : (
+        <>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => router.push({ pathname: '/reconcile', params: { accountId: account.id } })}
+          >
+            <Ionicons name="checkmark-done-outline" size={20} color={Colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => handleMove(index, -1)}
+            disabled={index === 0}
+          >
+            <Ionicons name="chevron-up" size={20} color={index === 0 ? Colors.gray200 : Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => handleMove(index, 1)}
+            disabled={index === activeAccounts.length - 1}
+          >
+            <Ionicons
+              name="chevron-down"
+              size={20}
+              color={index === activeAccounts.length - 1 ? Colors.gray200 : Colors.textSecondary}
+            />
+          </TouchableOpacity>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Accounts',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            Accounts are the payment methods you can pick for a transaction. The first one is the default.
+            Tap the check mark on an account to reconcile it against a statement.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : (
+            <>
+              <View style={styles.section}>
+                {activeAccounts.length === 0 ? (
+                  <Text style={styles.emptyText}>No accounts yet</Text>
+                ) : (
+                  activeAccounts.map(renderAccount)
+                )}
+              </View>
+
+              <TouchableOpacity style={styles.primaryButton} onPress={() => openEditor('new')}>
+                <Ionicons name="add" size={20} color={Colors.white} />
+                <Text style={styles.primaryButtonText}>Add Account</Text>
+              </TouchableOpacity>
+
+              {archivedAccounts.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Archived</Text>
+                  {archivedAccounts.map(renderAccount)}
+                </View>
+              )}
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Older Transactions</Text>
+                <Text style={styles.hintText}>
+                  Link transactions that only have a payment method name to the account with that name.
+                  Accounts are created for names that don&apos;t have one yet.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, linking && styles.buttonDisabled]}
+                  onPress={handleLinkTransactions}
+                  disabled={linking}
+                >
+                  {linking ? (
+                    <ActivityIndicator color={Colors.primary} />
+                  ) : (
+                    <Text style={styles.secondaryButtonText}>Link Transactions</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        {/* Account Editor */}
+        <Modal
+          visible={editing !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={closeEditor}
+        >
+          <SafeAreaView style={styles.container}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing === 'new' ? 'New Account' : 'Edit Account'}</Text>
+              <TouchableOpacity onPress={closeEditor}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            {form && (
+              <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Name *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.name}
+                    onChangeText={name => setForm({ ...form, name })}
+                    placeholder="e.g. HSBC Visa"
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Type</Text>
+                  <View style={styles.chipsWrap}>
+                    {ACCOUNT_TYPES.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.chip, form.type === option.value && styles.chipActive]}
+                        onPress={() => setForm({
+                          ...form,
+                          type: option.value,
+                          // Follow the type's icon unless a different one was picked
+                          icon: form.icon === getAccountTypeIcon(form.type) ? option.icon : form.icon,
+                        })}
+                      >
+                        <Text style={[styles.chipText, form.type === option.value && styles.chipTextActive]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Icon</Text>
+                  <View style={styles.chipsWrap}>
+                    {ICON_OPTIONS.map(icon => (
+                      <TouchableOpacity
+                        key={icon}
+                        style={[styles.iconChip, form.icon === icon && styles.chipActive]}
+                        onPress={() => setForm({ ...form, icon })}
+                      >
+                        <Ionicons
+                          name={icon as any}
+                          size={20}
+                          color={form.icon === icon ? Colors.white : Colors.textPrimary}
+                        />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Currency</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.currency}
+                    onChangeText={currency => setForm({ ...form, currency })}
+                    placeholder={currencyCode}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    maxLength={3}
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Opening Balance</Text>
+                  <Text style={styles.hintText}>
+                    The balance before your first recorded transaction (negative for money owed on a credit card)
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.openingBalance}
+                    onChangeText={openingBalance => setForm({ ...form, openingBalance })}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color={Colors.white} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+
+                {editing !== 'new' && editing && (
+                  <View style={styles.editorActions}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => handleArchive(editing, !editing.is_archived)}
+                    >
+                      <Text style={styles.secondaryButtonText}>
+                        {editing.is_archived ? 'Restore Account' : 'Archive Account'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(editing)}>
+                      <Text style={styles.deleteButtonText}>Delete Account</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </Modal>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  accountBody: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  accountMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  iconChip: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    gap: 6,
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  secondaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  deleteButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  editorActions: {
+    marginTop: 20,
+    gap: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+  },
+});
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import { useCurrency } from '@/src/providers/CurrencyProvider';
+import { getPaymentMethods, type PaymentMethod } from '@/src/services/payment-methods';
+import { addTransfer } from '@/src/services/transfers';
+import { formatDateTimeISO } from '@/src/utils/datetime';
+
+export default function AddTransferScreen() {
+  const router = useRouter();
+  const { currencyCode, currencySymbol } = useCurrency();
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [amount, setAmount] = useState('');
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+  const [occurredAt, setOccurredAt] = useState(formatDateTimeISO(new Date()));
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getPaymentMethods()
+      .then(setPaymentMethods)
+      .catch(error => console.error('Failed to load payment methods:', error));
+  }, []);
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than 0');
+      return;
+    }
+    if (!from || !to) {
+      Alert.alert('Missing Payment Method', 'Please choose where the money comes from and where it goes');
+      return;
+    }
+    if (from === to) {
+      Alert.alert('Same Payment Method', 'Please choose two different payment methods');
+      return;
+    }
+    const date = new Date(occurredAt);
+    if (isNaN(date.getTime())) {
+      Alert.alert('Invalid Date', 'Please enter the date as YYYY-MM-DDTHH:MM');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addTransfer({
+        amount: value,
+        currency: currencyCode,
+        from,
+        to,
+        occurred_at: date.toISOString(),
+        note,
+      });
+      router.back();
+    } catch (error) {
+      console.error('Failed to save transfer:', error);
+      Alert.alert('Error', 'Failed to save transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderMethodChips = (selected: string | null, onSelect: (name: string) => void, disabled?: string | null) => (
+    <View style={styles.chipsWrap}>
+      {paymentMethods.map(method => {
+        const active = selected === method.name;
+        const unavailable = disabled === method.name;
+        return (
+          <TouchableOpacity
+            key={method.id}
+            style={[styles.chip, active && styles.chipActive, unavailable && styles.chipDisabled]}
+            onPress={() => onSelect(method.name)}
+            disabled={unavailable}
+          >
+            <Ionicons
+              name={(method.icon || 'wallet-outline') as any}
+              size={14}
+              color={active ? Colors.white : Colors.textPrimary}
+            />
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{method.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Transfer',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.hintText}>
+            Move money between your payment methods, e.g. topping up a card from your bank account.
+            Transfers change balances but are not counted as income or spending.
+          </Text>
+
+          {/* Amount */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Amount *</Text>
+            <View style={styles.amountRow}>
+              <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.currencyCode}>{currencyCode}</Text>
+            </View>
+          </View>
+
+          {/* From */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>From *</Text>
+            {renderMethodChips(from, setFrom, to)}
+          </View>
+
+          {/* To */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>To *</Text>
+            {renderMethodChips(to, setTo, from)}
+          </View>
+
+          {/* Date */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Date & Time</Text>
+            <TextInput
+              style={styles.input}
+              value={occurredAt}
+              onChangeText={setOccurredAt}
+              placeholder="YYYY-MM-DDTHH:MM"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          {/* Note */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Note</Text>
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Optional"
+              multiline
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color={Colors.white} />
+            ) : (
+              <Text style={styles.primaryButtonText}>Save Transfer</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  currencySymbol: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  currencyCode: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 24,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -19,21 +19,47 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/src/providers/AuthProvider';
 import { Colors } from '@/constants/theme';
 import {
-  getAllTransactions,
+  getTransactionsPage,
+  getAllMatchingTransactions,
+  getMatchingTransactionAmounts,
   filterTransactions,
-  getTransactionStats,
   deleteTransaction,
+  updateTransaction,
+  DEFAULT_TRANSACTION_PAGE_SIZE,
   type Transaction,
+  type TransactionCursor,
   type TransactionFilter,
 } from '@/src/services/transactions';
 import { getItemsByTransaction, type ItemRow } from '@/src/services/items';
 import { getCategories, type Category } from '@/src/services/categories';
 import { getPaymentMethods, type PaymentMethod } from '@/src/services/payment-methods';
+import { getTags, setTransactionTags, type Tag } from '@/src/services/tags';
+import { deleteTransfer, updateTransfer } from '@/src/services/transfers';
 import { getMonthlyBudgetAmount } from '@/src/services/budgets';
+import { getRecurringRules, setRecurringRulePaused, type RecurringRule } from '@/src/services/recurring';
+import { exportTransactions } from '@/src/services/data-export';
+import { runBulkAction, type BulkAction } from '@/src/services/bulk-actions';
+import { getCurrencies, type Currency } from '@/src/services/currencies';
 import { useCurrency } from '@/src/providers/CurrencyProvider';
+import { useOutbox } from '@/src/hooks/useOutbox';
+import { useUndoDelete } from '@/src/hooks/useUndoDelete';
+import { getLocalSnapshot } from '@/src/services/local-store';
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  parseSearchQuery,
+  type SearchSuggestion,
+} from '@/src/services/search-query';
 import FloatingChatButton from '../components/floating-chat-button';
+import TransactionAttachments from '../components/transaction-attachments';
+import TransactionHistory from '../components/transaction-history';
+import TagPicker from '../components/tag-picker';
+
+type SourceType = 'all' | 'manual' | 'ocr' | 'ai' | 'recurring' | 'import';
+type BulkPicker = 'category' | 'paymentMethod' | 'currency' | 'tags';
 
-type SourceType = 'all' | 'manual' | 'ocr' | 'ai';
+// Wait for a pause in typing before searching on the server
+const SEARCH_DEBOUNCE_MS = 300;
 
 // Helper function to format relative time
 function getRelativeTime(dateString: string): string {
@@ -54,11 +80,20 @@ function getRelativeTime(dateString: string): string {
 export default function AllTransactionsScreen() {
   const { session } = useAuth();
   const { currencySymbol, currencyCode, convertToUserCurrency } = useCurrency();
+  const { pendingIds, lastSyncedAt } = useOutbox();
+  const showUndoDelete = useUndoDelete();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<TransactionCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [totalExpense, setTotalExpense] = useState(0);
   const [convertedAmounts, setConvertedAmounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+  const [searchSelection, setSearchSelection] = useState({ start: 0, end: 0 });
+  const [searchFocused, setSearchFocused] = useState(false);
+  // Ignores responses to requests made for an older filter
+  const requestIdRef = useRef(0);
   const [expandedTransactionId, setExpandedTransactionId] = useState<string | null>(null);
   const [transactionItems, setTransactionItems] = useState<Record<string, ItemRow[]>>({});
   const [monthlyBudget, setMonthlyBudget] = useState<number>(0);
@@ -69,6 +104,8 @@ export default function AllTransactionsScreen() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedPaymentMethods, setSelectedPaymentMethods] = useState<string[]>([]);
   const [selectedSource, setSelectedSource] = useState<SourceType>('all');
   const [minAmount, setMinAmount] = useState('');
@@ -76,40 +113,165 @@ export default function AllTransactionsScreen() {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
 
+  // Recurring rules (keyed by ID) and single-transaction editing
+  const [recurringRules, setRecurringRules] = useState<Record<string, RecurringRule>>({});
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [editAmount, setEditAmount] = useState('');
+  const [editMerchant, setEditMerchant] = useState('');
+  const [editNote, setEditNote] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Multi-select: selected transactions by ID, kept across pages
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selected, setSelected] = useState<Record<string, Transaction>>({});
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkPicker, setBulkPicker] = useState<BulkPicker | null>(null);
+  const [bulkTags, setBulkTags] = useState<string[]>([]);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const selectedCount = Object.keys(selected).length;
+
   useEffect(() => {
-    fetchTransactions();
     fetchFilterOptions();
     fetchBudget();
+    fetchRecurringRules();
   }, []);
 
   useEffect(() => {
-    applyFilters();
-  }, [searchQuery, transactions, selectedCategories, selectedPaymentMethods, selectedSource, minAmount, maxAmount, startDate, endDate]);
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Structured search, e.g. `merchant:starbucks amount:>50 -note:work`; invalid tokens are ignored
+  const parsedSearch = useMemo(() => parseSearchQuery(debouncedSearchQuery), [debouncedSearchQuery]);
+
+  const searchSuggestions = useMemo(() => {
+    if (!searchFocused) return [];
+    const merchants = Array.from(new Set(transactions.map(t => t.merchant).filter((m): m is string => !!m)));
+    return getSearchSuggestions(searchQuery, searchSelection.start, {
+      categories: categories.map(cat => cat.name),
+      paymentMethods: paymentMethods.map(method => method.name),
+      merchants,
+      tags: tags.map(tag => tag.name),
+    });
+  }, [searchFocused, searchQuery, searchSelection, categories, paymentMethods, tags, transactions]);
+
+  const handleSearchSuggestion = (suggestion: SearchSuggestion) => {
+    const { text, cursor } = applySearchSuggestion(searchQuery, suggestion);
+    setSearchQuery(text);
+    setSearchSelection({ start: cursor, end: cursor });
+  };
+
+  // Filters are applied by the server; dates cover whole local days
+  const activeFilter = useMemo<TransactionFilter>(() => {
+    const filter: TransactionFilter = {};
+    if (parsedSearch.clauses.length > 0) filter.query = parsedSearch.clauses;
+    if (selectedCategories.length > 0) filter.categoryIds = selectedCategories;
+    if (selectedTags.length > 0) filter.tagIds = selectedTags;
+    if (selectedPaymentMethods.length > 0) filter.paymentMethods = selectedPaymentMethods;
+    if (selectedSource !== 'all') filter.source = selectedSource;
+
+    const min = minAmount ? parseFloat(minAmount) : NaN;
+    const max = maxAmount ? parseFloat(maxAmount) : NaN;
+    if (!isNaN(min)) filter.minAmount = min;
+    if (!isNaN(max)) filter.maxAmount = max;
+
+    if (startDate) {
+      const start = new Date(startDate);
+      start.setHours(0, 0, 0, 0);
+      if (!isNaN(start.getTime())) filter.startDate = start.toISOString();
+    }
+    if (endDate) {
+      const end = new Date(endDate);
+      end.setHours(23, 59, 59, 999);
+      if (!isNaN(end.getTime())) filter.endDate = end.toISOString();
+    }
+    return filter;
+  }, [parsedSearch, selectedCategories, selectedTags, selectedPaymentMethods, selectedSource, minAmount, maxAmount, startDate, endDate]);
+
+  useEffect(() => {
+    fetchTransactions();
+    // A selection made under another filter would act on rows no longer shown
+    setSelected({});
+  }, [activeFilter]);
+
+  // Pick up server rows (and their categories) once queued changes have synced
+  useEffect(() => {
+    if (lastSyncedAt) fetchTransactions();
+  }, [lastSyncedAt]);
 
+  // Load the first page for the current filter (and the totals over all matches)
   const fetchTransactions = async () => {
     if (!session?.user?.id) return;
+    const requestId = ++requestIdRef.current;
+
+    // Cached transactions show instantly; the spinner is only for a first load without cache
+    const cached = await getLocalSnapshot().catch(() => null);
+    if (cached?.refreshedAt && requestId === requestIdRef.current) {
+      const matches = filterTransactions(cached.transactions, activeFilter);
+      setTransactions(matches.slice(0, DEFAULT_TRANSACTION_PAGE_SIZE));
+      setNextCursor(null);
+      await convertTransactionAmounts(matches.slice(0, DEFAULT_TRANSACTION_PAGE_SIZE));
+      setTotalExpense(await sumConvertedExpenses(matches));
+    }
 
     try {
-      setLoading(true);
-      const data = await getAllTransactions();
-      setTransactions(data);
-      await convertTransactionAmounts(data);
+      if (!cached?.refreshedAt) setLoading(true);
+      const [page, amounts] = await Promise.all([
+        getTransactionsPage(activeFilter),
+        getMatchingTransactionAmounts(activeFilter),
+      ]);
+      if (requestId !== requestIdRef.current) return;
+      setTransactions(page.transactions);
+      setNextCursor(page.nextCursor);
+      await convertTransactionAmounts(page.transactions);
+      setTotalExpense(await sumConvertedExpenses(amounts));
     } catch (error) {
       console.error('Failed to fetch transactions:', error);
-      Alert.alert('Error', 'Failed to load transactions');
+      if (!cached?.refreshedAt) {
+        Alert.alert('Error', 'Failed to load transactions');
+      }
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Infinite scroll: append the next page
+  const loadMoreTransactions = async () => {
+    if (!nextCursor || loadingMore) return;
+    const requestId = requestIdRef.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await getTransactionsPage(activeFilter, { cursor: nextCursor });
+      if (requestId !== requestIdRef.current) return;
+      setTransactions(prev => {
+        const seen = new Set(prev.map(t => t.id));
+        return [...prev, ...page.transactions.filter(t => !seen.has(t.id))];
+      });
+      setNextCursor(page.nextCursor);
+      await convertTransactionAmounts(page.transactions, { append: true });
+    } catch (error) {
+      console.error('Failed to load more transactions:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
   const fetchFilterOptions = async () => {
     try {
-      const [cats, methods] = await Promise.all([
+      const [cats, methods, tagList] = await Promise.all([
         getCategories(),
         getPaymentMethods(),
+        getTags(),
       ]);
       setCategories(cats);
       setPaymentMethods(methods);
+      setTags(tagList);
     } catch (error) {
       console.error('Failed to fetch filter options:', error);
     }
@@ -124,7 +286,116 @@ export default function AllTransactionsScreen() {
     }
   };
 
-  async function convertTransactionAmounts(transactions: Transaction[]) {
+  const fetchRecurringRules = async () => {
+    try {
+      const rules = await getRecurringRules();
+      setRecurringRules(Object.fromEntries(rules.map((rule) => [rule.id, rule])));
+    } catch (error) {
+      console.error('Failed to fetch recurring rules:', error);
+    }
+  };
+
+  const handleToggleRulePaused = async (rule: RecurringRule) => {
+    try {
+      const updated = await setRecurringRulePaused(rule.id, !rule.is_paused);
+      setRecurringRules((prev) => ({ ...prev, [updated.id]: { ...prev[updated.id], ...updated } }));
+    } catch (error) {
+      Alert.alert('Error', `Failed to ${rule.is_paused ? 'resume' : 'pause'} recurring transaction`);
+    }
+  };
+
+  const handleSkipOccurrence = (item: Transaction) => {
+    Alert.alert(
+      'Skip Occurrence',
+      item.reconciliation_id
+        ? 'This occurrence was reconciled against a statement. Remove it anyway? Future occurrences will still be posted.'
+        : 'Remove this occurrence only? Future occurrences will still be posted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // The rule has already moved past this occurrence, so deleting it won't re-post it
+              await deleteTransaction(item.id, { baseUpdatedAt: item.updated_at, allowReconciled: true });
+              setExpandedTransactionId(null);
+              fetchTransactions();
+              showUndoDelete([item.id], fetchTransactions);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to skip occurrence');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const openEditTransaction = (item: Transaction) => {
+    if (item.reconciliation_id) {
+      Alert.alert(
+        'Reconciled Transaction',
+        'This transaction was reconciled against a statement. Changing it will make the account no longer match that statement.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Edit Anyway', onPress: () => startEditTransaction(item) },
+        ]
+      );
+      return;
+    }
+    startEditTransaction(item);
+  };
+
+  const startEditTransaction = (item: Transaction) => {
+    setEditingTransaction(item);
+    setEditAmount(Math.abs(item.amount).toString());
+    setEditMerchant(item.merchant || '');
+    setEditNote(item.note || '');
+    setEditTags(item.tags?.map((tag) => tag.name) ?? []);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingTransaction) return;
+
+    const parsed = parseFloat(editAmount.replace(/,/g, '.'));
+    if (isNaN(parsed)) {
+      Alert.alert('Invalid Amount', 'Please enter a valid amount');
+      return;
+    }
+
+    try {
+      setSavingEdit(true);
+      if (editingTransaction.transfer_id) {
+        // Both legs of a transfer keep the same amount and note
+        await updateTransfer(editingTransaction.transfer_id, {
+          amount: Math.abs(parsed),
+          note: editNote.trim() || null,
+        }, { allowReconciled: true });
+      } else {
+        // Keep the original sign so an expense stays an expense
+        const sign = editingTransaction.amount < 0 ? -1 : 1;
+        await updateTransaction(editingTransaction.id, {
+          amount: sign * Math.abs(parsed),
+          merchant: editMerchant.trim() || null,
+          note: editNote.trim() || null,
+        }, { base: editingTransaction, allowReconciled: true });
+      }
+      const previousTags = editingTransaction.tags?.map((tag) => tag.name) ?? [];
+      if (editTags.join(',') !== previousTags.join(',')) {
+        await setTransactionTags(editingTransaction.id, editTags);
+        // New tags show up in the filter list
+        fetchFilterOptions();
+      }
+      setEditingTransaction(null);
+      fetchTransactions();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update transaction');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  async function convertTransactionAmounts(transactions: Transaction[], options?: { append?: boolean }) {
     try {
       const amounts: Record<string, number> = {};
       await Promise.all(
@@ -137,7 +408,7 @@ export default function AllTransactionsScreen() {
           }
         })
       );
-      setConvertedAmounts(amounts);
+      setConvertedAmounts(prev => (options?.append ? { ...prev, ...amounts } : amounts));
       return amounts;
     } catch (error) {
       console.error('Failed to convert transaction amounts:', error);
@@ -145,92 +416,174 @@ export default function AllTransactionsScreen() {
     }
   }
 
-  // Calculate stats using converted amounts
-  const getConvertedStats = (transactions: Transaction[]) => {
-    const transactionIncome = transactions
-      .filter((t) => t.amount > 0)
-      .reduce((sum, t) => {
-        const convertedAmount = convertedAmounts[t.id] ?? t.amount;
-        return sum + convertedAmount;
-      }, 0);
-
-    const expense = transactions
-      .filter((t) => t.amount < 0)
-      .reduce((sum, t) => {
-        const convertedAmount = convertedAmounts[t.id] ?? t.amount;
-        return sum + Math.abs(convertedAmount);
-      }, 0);
-
-    return {
-      totalIncome: transactionIncome,
-      totalExpense: expense,
-      balance: transactionIncome - expense,
-      count: transactions.length,
+  // Total expenses in the user's currency
+  async function sumConvertedExpenses(rows: Pick<Transaction, 'amount' | 'currency' | 'transfer_id'>[]) {
+    let expense = 0;
+    await Promise.all(
+      rows
+        .filter((t) => t.amount < 0 && !t.transfer_id)
+        .map(async (t) => {
+          if (t.currency && t.currency !== currencyCode) {
+            try {
+              const result = await convertToUserCurrency(Math.abs(t.amount), t.currency);
+              expense += result.convertedAmount;
+              return;
+            } catch (error) {
+              console.warn('Failed to convert amount, using original:', error);
+            }
+          }
+          expense += Math.abs(t.amount);
+        })
+    );
+    return expense;
+  }
+
+  // Export exactly what the current search and filters show
+  const handleExport = () => {
+    if (transactions.length === 0) {
+      Alert.alert('Nothing to Export', 'No transactions match the current filters.');
+      return;
+    }
+
+    const runExport = async () => {
+      setExporting(true);
+      try {
+        await exportTransactions(await getAllMatchingTransactions(activeFilter));
+      } catch (error) {
+        console.error('Failed to export transactions:', error);
+        Alert.alert('Error', 'Failed to export transactions. Please try again.');
+      } finally {
+        setExporting(false);
+      }
     };
+
+    Alert.alert(
+      'Export Transactions',
+      'Export all transactions matching the current search and filters.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Export CSV', onPress: runExport },
+      ]
+    );
   };
 
-  const applyFilters = () => {
-    let filtered = [...transactions];
-
-    // Apply search query
-    if (searchQuery && searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (t) =>
-          t.merchant?.toLowerCase().includes(query) ||
-          t.category?.name?.toLowerCase().includes(query) ||
-          t.note?.toLowerCase().includes(query) ||
-          t.items?.some((item) => item.item_name.toLowerCase().includes(query))
-      );
-    }
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelected({});
+    setBulkPicker(null);
+  };
 
-    // Apply category filter
-    if (selectedCategories.length > 0) {
-      filtered = filtered.filter((t) => 
-        t.category_id && selectedCategories.includes(t.category_id)
-      );
-    }
+  const toggleSelected = (item: Transaction) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (next[item.id]) delete next[item.id];
+      else next[item.id] = item;
+      return next;
+    });
+  };
 
-    // Apply payment method filter
-    if (selectedPaymentMethods.length > 0) {
-      filtered = filtered.filter((t) => 
-        t.payment_method && selectedPaymentMethods.includes(t.payment_method)
-      );
+  // Select every transaction matching the search and filters, not just the loaded pages
+  const handleSelectAllMatching = async () => {
+    setSelectingAll(true);
+    try {
+      const matches = await getAllMatchingTransactions(activeFilter);
+      setSelected(Object.fromEntries(matches.map(t => [t.id, t])));
+    } catch (error) {
+      console.error('Failed to select all transactions:', error);
+      Alert.alert('Error', 'Failed to load all matching transactions');
+    } finally {
+      setSelectingAll(false);
     }
+  };
 
-    // Apply source filter
-    if (selectedSource !== 'all') {
-      filtered = filtered.filter((t) => t.source === selectedSource);
+  const openBulkPicker = async (picker: BulkPicker) => {
+    setBulkTags([]);
+    setBulkPicker(picker);
+    if (picker === 'currency' && currencies.length === 0) {
+      setCurrencies(await getCurrencies());
     }
+  };
 
-    // Apply amount range filter
-    const min = minAmount ? parseFloat(minAmount) : null;
-    const max = maxAmount ? parseFloat(maxAmount) : null;
-    if (min !== null) {
-      filtered = filtered.filter((t) => Math.abs(t.amount) >= min);
-    }
-    if (max !== null) {
-      filtered = filtered.filter((t) => Math.abs(t.amount) <= max);
+  const executeBulkAction = async (action: BulkAction, allowReconciled: boolean) => {
+    const targets = Object.values(selected);
+    setBulkPicker(null);
+    setBulkProgress({ done: 0, total: targets.length });
+    try {
+      const { succeeded, failed, deletedIds } = await runBulkAction(targets, action, {
+        allowReconciled,
+        onProgress: (done, total) => setBulkProgress({ done, total }),
+      });
+
+      const verb = action.kind === 'delete' ? 'deleted' : 'updated';
+      if (failed.length === 0) {
+        exitSelectionMode();
+        if (action.kind === 'delete') {
+          // The undo toast says how many went to the trash
+          showUndoDelete(deletedIds, fetchTransactions);
+        } else {
+          Alert.alert('Done', `${succeeded} transaction(s) ${verb}.`);
+        }
+      } else {
+        showUndoDelete(deletedIds, fetchTransactions);
+        // Keep the failures selected so they can be fixed up and retried
+        setSelected(Object.fromEntries(failed.map(failure => [failure.transaction.id, failure.transaction])));
+        const lines = failed.slice(0, 5).map(({ transaction, message }) =>
+          `• ${transaction.merchant || 'Transaction'} (${new Date(transaction.occurred_at).toLocaleDateString()}): ${message}`
+        );
+        if (failed.length > lines.length) lines.push(`…and ${failed.length - lines.length} more`);
+        Alert.alert(
+          'Some Changes Failed',
+          `${succeeded} transaction(s) ${verb}, ${failed.length} failed:\n\n${lines.join('\n')}\n\nThe failed transactions are still selected.`
+        );
+      }
+      if (action.kind === 'addTags') fetchFilterOptions();
+    } catch (error) {
+      console.error('Bulk action failed:', error);
+      Alert.alert('Error', 'Failed to update the selected transactions');
+    } finally {
+      setBulkProgress(null);
+      fetchTransactions();
     }
+  };
 
-    // Apply date range filter
-    if (startDate) {
-      const start = new Date(startDate);
-      start.setHours(0, 0, 0, 0);
-      filtered = filtered.filter((t) => new Date(t.occurred_at) >= start);
+  // Confirm deletes, and changes to transactions reconciled against a statement
+  const handleBulkAction = (action: BulkAction) => {
+    const targets = Object.values(selected);
+    if (targets.length === 0) return;
+    const reconciledCount = targets.filter(t => t.reconciliation_id).length;
+    const reconciledNote = reconciledCount > 0
+      ? ` ${reconciledCount} of them ${reconciledCount === 1 ? 'was' : 'were'} reconciled against a statement.`
+      : '';
+
+    if (action.kind === 'delete') {
+      Alert.alert(
+        'Delete Transactions',
+        `Delete ${targets.length} transaction(s)?${reconciledNote} Deleting one side of a transfer deletes both.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Delete', style: 'destructive', onPress: () => executeBulkAction(action, true) },
+        ]
+      );
+      return;
     }
-    if (endDate) {
-      const end = new Date(endDate);
-      end.setHours(23, 59, 59, 999);
-      filtered = filtered.filter((t) => new Date(t.occurred_at) <= end);
+    if (reconciledCount > 0) {
+      Alert.alert(
+        'Reconciled Transactions',
+        `You are changing ${targets.length} transaction(s).${reconciledNote} Changing them will make those accounts no longer match their statements.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Change Anyway', onPress: () => executeBulkAction(action, true) },
+        ]
+      );
+      return;
     }
-
-    setFilteredTransactions(filtered);
+    executeBulkAction(action, false);
   };
 
   const clearAllFilters = () => {
     setSearchQuery('');
     setSelectedCategories([]);
+    setSelectedTags([]);
     setSelectedPaymentMethods([]);
     setSelectedSource('all');
     setMinAmount('');
@@ -242,6 +595,7 @@ export default function AllTransactionsScreen() {
   const getActiveFiltersCount = () => {
     let count = 0;
     if (selectedCategories.length > 0) count++;
+    if (selectedTags.length > 0) count++;
     if (selectedPaymentMethods.length > 0) count++;
     if (selectedSource !== 'all') count++;
     if (minAmount || maxAmount) count++;
@@ -249,10 +603,8 @@ export default function AllTransactionsScreen() {
     return count;
   };
 
-  const stats = getConvertedStats(filteredTransactions);
-  
   // Balance = budget - expenses
-  const displayBalance = monthlyBudget - stats.totalExpense;
+  const displayBalance = monthlyBudget - totalExpense;
 
   const renderTransaction = ({ item }: { item: Transaction }) => {
     if (!blurAnimRef.current[item.id]) {
@@ -263,6 +615,10 @@ export default function AllTransactionsScreen() {
     return (
       <Pressable
         onPress={async () => {
+          if (selectionMode) {
+            toggleSelected(item);
+            return;
+          }
           if (expandedTransactionId === item.id) {
             setExpandedTransactionId(null);
           } else {
@@ -305,19 +661,40 @@ export default function AllTransactionsScreen() {
             }),
           }
         ]}>
+          {selectionMode && (
+            <Ionicons
+              name={selected[item.id] ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={selected[item.id] ? Colors.primary : Colors.textSecondary}
+              style={styles.selectionCheckbox}
+            />
+          )}
           <View style={styles.transactionLeft}>
             <Text style={styles.transactionName}>
               {item.merchant || 'Transaction'}
             </Text>
-            <Text style={styles.transactionTime}>
-              {getRelativeTime(item.occurred_at)}
-            </Text>
+            <View style={styles.transactionTimeRow}>
+              <Text style={styles.transactionTime}>
+                {getRelativeTime(item.occurred_at)}
+              </Text>
+              {pendingIds.has(item.id) && (
+                <View style={styles.pendingSync}>
+                  <Ionicons name="cloud-upload-outline" size={12} color={Colors.textSecondary} />
+                  <Text style={styles.pendingSyncText}>Waiting to sync</Text>
+                </View>
+              )}
+              {item.reconciliation_id && (
+                <Ionicons name="lock-closed" size={12} color={Colors.textSecondary} />
+              )}
+            </View>
           </View>
           <View style={styles.transactionRight}>
             <Text
               style={[
                 styles.transactionAmount,
-                item.amount > 0 ? styles.incomeAmount : styles.expenseAmount,
+                item.transfer_id
+                  ? styles.transferAmount
+                  : item.amount > 0 ? styles.incomeAmount : styles.expenseAmount,
               ]}
             >
               {(() => {
@@ -334,18 +711,18 @@ export default function AllTransactionsScreen() {
               })()}
             </Text>
             <Text style={styles.transactionCategory}>
-              {item.category?.name || 'Uncategorized'}
+              {item.transfer_id ? 'Transfer' : item.category?.name || 'Uncategorized'}
             </Text>
           </View>
         </Animated.View>
 
-        {expandedTransactionId === item.id && (
+        {!selectionMode && expandedTransactionId === item.id && (
           <View style={styles.transactionExpandedDetails}>
             {/* Category */}
             <View style={styles.expandedDetailRow}>
               <Text style={styles.expandedDetailLabel}>Category</Text>
               <Text style={styles.expandedDetailValue}>
-                {item.category?.name || 'Uncategorized'}
+                {item.transfer_id ? 'Transfer' : item.category?.name || 'Uncategorized'}
               </Text>
             </View>
 
@@ -379,6 +756,14 @@ export default function AllTransactionsScreen() {
               </View>
             )}
 
+            {/* Reconciled */}
+            {item.reconciliation_id && (
+              <View style={styles.expandedDetailRow}>
+                <Text style={styles.expandedDetailLabel}>Status</Text>
+                <Text style={styles.expandedDetailValue}>Reconciled</Text>
+              </View>
+            )}
+
             {/* Source */}
             <View style={styles.expandedDetailRow}>
               <Text style={styles.expandedDetailLabel}>Source</Text>
@@ -387,6 +772,8 @@ export default function AllTransactionsScreen() {
                   name={
                     item.source === 'manual' ? 'create-outline' :
                     item.source === 'ocr' ? 'receipt-outline' :
+                    item.source === 'recurring' ? 'repeat' :
+                    item.source === 'import' ? 'document-text-outline' :
                     'sparkles'
                   }
                   size={12}
@@ -396,11 +783,37 @@ export default function AllTransactionsScreen() {
                 <Text style={styles.sourceBadgeText}>
                   {item.source === 'manual' ? 'Manual' :
                    item.source === 'ocr' ? 'Receipt (OCR)' :
+                   item.source === 'recurring' ? 'Recurring' :
+                   item.source === 'import' ? 'Imported' :
                    'AI Suggested'}
                 </Text>
               </View>
             </View>
 
+            {/* Recurring Series */}
+            {(() => {
+              const rule = item.recurring_rule_id ? recurringRules[item.recurring_rule_id] : undefined;
+              if (!rule) return null;
+              return (
+                <View style={styles.expandedDetailRow}>
+                  <Text style={styles.expandedDetailLabel}>Repeats</Text>
+                  <Text style={styles.expandedDetailValue}>
+                    {rule.is_paused
+                      ? 'Paused'
+                      : `Every ${rule.interval > 1 ? `${rule.interval} ` : ''}${{
+                          daily: rule.interval > 1 ? 'days' : 'day',
+                          weekly: rule.interval > 1 ? 'weeks' : 'week',
+                          monthly: rule.interval > 1 ? 'months' : 'month',
+                          yearly: rule.interval > 1 ? 'years' : 'year',
+                        }[rule.frequency]} · next ${new Date(rule.next_occurrence_at).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                        })}`}
+                  </Text>
+                </View>
+              );
+            })()}
+
             {/* Items */}
             {(() => {
               const items = transactionItems[item.id] || item.items;
@@ -418,6 +831,9 @@ export default function AllTransactionsScreen() {
                           >
                             {transItem.item_name || 'Unknown Item'}
                           </Text>
+                          {transItem.category?.name && (
+                            <Text style={styles.itemDetailCategory}>{transItem.category.name}</Text>
+                          )}
                           <View style={styles.itemDetailQtyPrice}>
                             <Text style={styles.itemDetailQty}>Qty: {transItem.item_amount}</Text>
                             <Text style={styles.itemDetailPrice}>
@@ -433,6 +849,12 @@ export default function AllTransactionsScreen() {
               return null;
             })()}
 
+            {/* Attachments */}
+            <TransactionAttachments transactionId={item.id} />
+
+            {/* Edit history, with revert */}
+            <TransactionHistory transaction={item} categories={categories} onReverted={() => fetchTransactions()} />
+
             {/* Notes */}
             {item.note && (
               <View style={styles.expandedDetailRow}>
@@ -441,13 +863,60 @@ export default function AllTransactionsScreen() {
               </View>
             )}
 
+            {/* Tags */}
+            {item.tags && item.tags.length > 0 && (
+              <View style={styles.expandedDetailRow}>
+                <Text style={styles.expandedDetailLabel}>Tags</Text>
+                <Text style={styles.expandedDetailValue}>
+                  {item.tags.map((tag) => `#${tag.name}`).join(' ')}
+                </Text>
+              </View>
+            )}
+
+            {/* Actions */}
+            <View style={styles.transactionActions}>
+              <TouchableOpacity
+                style={styles.transactionActionButton}
+                onPress={() => openEditTransaction(item)}
+              >
+                <Ionicons name="create-outline" size={16} color={Colors.primary} />
+                <Text style={styles.transactionActionButtonText}>Edit</Text>
+              </TouchableOpacity>
+              {item.recurring_rule_id && recurringRules[item.recurring_rule_id] && (
+                <>
+                  <TouchableOpacity
+                    style={styles.transactionActionButton}
+                    onPress={() => handleSkipOccurrence(item)}
+                  >
+                    <Ionicons name="play-skip-forward-outline" size={16} color={Colors.primary} />
+                    <Text style={styles.transactionActionButtonText}>Skip</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.transactionActionButton}
+                    onPress={() => handleToggleRulePaused(recurringRules[item.recurring_rule_id!])}
+                  >
+                    <Ionicons
+                      name={recurringRules[item.recurring_rule_id].is_paused ? 'play-outline' : 'pause-outline'}
+                      size={16}
+                      color={Colors.primary}
+                    />
+                    <Text style={styles.transactionActionButtonText}>
+                      {recurringRules[item.recurring_rule_id].is_paused ? 'Resume' : 'Pause'}
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
             {/* Delete Button */}
             <TouchableOpacity
               style={styles.transactionDeleteButton}
               onPress={() => {
                 Alert.alert(
                   'Delete Transaction',
-                  'Are you sure you want to delete this transaction?',
+                  item.reconciliation_id
+                    ? 'This transaction was reconciled against a statement. Delete it anyway?'
+                    : 'Are you sure you want to delete this transaction?',
                   [
                     { text: 'Cancel', style: 'cancel' },
                     {
@@ -455,9 +924,19 @@ export default function AllTransactionsScreen() {
                       style: 'destructive',
                       onPress: async () => {
                         try {
-                          await deleteTransaction(item.id);
+                          // Deleting either leg of a transfer deletes both
+                          let deletedIds = [item.id];
+                          if (item.transfer_id) {
+                            deletedIds = await deleteTransfer(item.transfer_id, { allowReconciled: true });
+                          } else {
+                            await deleteTransaction(item.id, {
+                              baseUpdatedAt: item.updated_at,
+                              allowReconciled: true,
+                            });
+                          }
                           setExpandedTransactionId(null);
                           fetchTransactions();
+                          showUndoDelete(deletedIds, fetchTransactions);
                         } catch (error) {
                           Alert.alert('Error', 'Failed to delete transaction');
                         }
@@ -484,19 +963,44 @@ export default function AllTransactionsScreen() {
           headerShown: true,
           headerBackTitle: 'Back',
           headerRight: () => (
-            <TouchableOpacity
-              onPress={() => setShowFilters(true)}
-              style={{ marginRight: 8 }}
-            >
-              <View style={{ position: 'relative' }}>
-                <Ionicons name="filter" size={24} color={Colors.primary} />
-                {getActiveFiltersCount() > 0 && (
-                  <View style={styles.filterBadge}>
-                    <Text style={styles.filterBadgeText}>{getActiveFiltersCount()}</Text>
-                  </View>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={() => {
+                  if (selectionMode) {
+                    exitSelectionMode();
+                  } else {
+                    setExpandedTransactionId(null);
+                    setSelectionMode(true);
+                  }
+                }}
+              >
+                {selectionMode ? (
+                  <Text style={styles.headerTextButton}>Done</Text>
+                ) : (
+                  <Ionicons name="checkmark-circle-outline" size={24} color={Colors.primary} />
                 )}
-              </View>
-            </TouchableOpacity>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleExport} disabled={exporting}>
+                {exporting ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Ionicons name="share-outline" size={24} color={Colors.primary} />
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setShowFilters(true)}
+                style={{ marginRight: 8 }}
+              >
+                <View style={{ position: 'relative' }}>
+                  <Ionicons name="filter" size={24} color={Colors.primary} />
+                  {getActiveFiltersCount() > 0 && (
+                    <View style={styles.filterBadge}>
+                      <Text style={styles.filterBadgeText}>{getActiveFiltersCount()}</Text>
+                    </View>
+                  )}
+                </View>
+              </TouchableOpacity>
+            </View>
           ),
         }}
       />
@@ -506,12 +1010,48 @@ export default function AllTransactionsScreen() {
           <Ionicons name="search" size={20} color={Colors.textSecondary} style={styles.searchIcon} />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search by merchant, category, or notes..."
+            placeholder="Search, or try merchant: amount:>50 cat: before:"
             value={searchQuery}
             onChangeText={setSearchQuery}
+            onSelectionChange={(e) => setSearchSelection(e.nativeEvent.selection)}
+            onFocus={() => setSearchFocused(true)}
+            onBlur={() => setSearchFocused(false)}
+            autoCapitalize="none"
+            autoCorrect={false}
             clearButtonMode="while-editing"
           />
         </View>
+        {parsedSearch.errors.length > 0 && (
+          <View style={styles.searchErrors}>
+            {parsedSearch.errors.map((error) => (
+              <Text key={`${error.start}-${error.message}`} style={styles.searchErrorText}>
+                {error.message}
+              </Text>
+            ))}
+          </View>
+        )}
+        {searchSuggestions.length > 0 && (
+          <ScrollView
+            horizontal
+            keyboardShouldPersistTaps="always"
+            showsHorizontalScrollIndicator={false}
+            style={styles.searchSuggestions}
+            contentContainerStyle={styles.searchSuggestionsContent}
+          >
+            {searchSuggestions.map((suggestion) => (
+              <TouchableOpacity
+                key={`${suggestion.text}-${suggestion.start}`}
+                style={styles.searchSuggestionChip}
+                onPress={() => handleSearchSuggestion(suggestion)}
+              >
+                <Text style={styles.searchSuggestionText}>{suggestion.label}</Text>
+                {suggestion.description && (
+                  <Text style={styles.searchSuggestionDescription}>{suggestion.description}</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
 
         {/* Statistics Summary */}
         <View style={styles.statsContainer}>
@@ -525,7 +1065,7 @@ export default function AllTransactionsScreen() {
           <View style={styles.statItem}>
             <Text style={styles.statLabel}>Expense</Text>
             <Text style={[styles.statValue, styles.expenseAmount]}>
-              {currencySymbol}{stats.totalExpense.toFixed(2)}
+              {currencySymbol}{totalExpense.toFixed(2)}
             </Text>
           </View>
           <View style={styles.statDivider} />
@@ -537,6 +1077,27 @@ export default function AllTransactionsScreen() {
           </View>
         </View>
 
+        {/* Selection Bar */}
+        {selectionMode && (
+          <View style={styles.selectionBar}>
+            <Text style={styles.selectionBarText}>{selectedCount} selected</Text>
+            {selectingAll ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <View style={styles.selectionBarActions}>
+                <TouchableOpacity onPress={handleSelectAllMatching}>
+                  <Text style={styles.headerTextButton}>Select All Matching</Text>
+                </TouchableOpacity>
+                {selectedCount > 0 && (
+                  <TouchableOpacity onPress={() => setSelected({})}>
+                    <Text style={styles.headerTextButton}>Clear</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Transaction List */}
         {loading ? (
           <View style={styles.loadingContainer}>
@@ -544,10 +1105,17 @@ export default function AllTransactionsScreen() {
           </View>
         ) : (
           <FlatList
-            data={filteredTransactions}
+            data={transactions}
             renderItem={renderTransaction}
             keyExtractor={(item) => item.id}
             contentContainerStyle={styles.listContent}
+            onEndReached={loadMoreTransactions}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? (
+                <ActivityIndicator size="small" color={Colors.primary} style={styles.listFooterLoader} />
+              ) : null
+            }
             ListEmptyComponent={
               <View style={styles.emptyContainer}>
                 <Ionicons name="receipt-outline" size={64} color={Colors.textSecondary} />
@@ -560,6 +1128,36 @@ export default function AllTransactionsScreen() {
           />
         )}
 
+        {/* Bulk Actions */}
+        {selectionMode && (
+          <View style={styles.bulkActionBar}>
+            {([
+              { key: 'category', icon: 'pricetag-outline', label: 'Category' },
+              { key: 'paymentMethod', icon: 'card-outline', label: 'Payment' },
+              { key: 'currency', icon: 'cash-outline', label: 'Currency' },
+              { key: 'tags', icon: 'bookmarks-outline', label: 'Tags' },
+            ] as const).map(({ key, icon, label }) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.bulkActionButton, selectedCount === 0 && styles.bulkActionButtonDisabled]}
+                onPress={() => openBulkPicker(key)}
+                disabled={selectedCount === 0}
+              >
+                <Ionicons name={icon} size={20} color={Colors.primary} />
+                <Text style={styles.bulkActionText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.bulkActionButton, selectedCount === 0 && styles.bulkActionButtonDisabled]}
+              onPress={() => handleBulkAction({ kind: 'delete' })}
+              disabled={selectedCount === 0}
+            >
+              <Ionicons name="trash-outline" size={20} color={Colors.error} />
+              <Text style={[styles.bulkActionText, { color: Colors.error }]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Advanced Filters Modal */}
         <Modal
           visible={showFilters}
@@ -624,6 +1222,56 @@ export default function AllTransactionsScreen() {
                 </View>
               </View>
 
+              {/* Tag Filter */}
+              {tags.length > 0 && (
+                <View style={styles.filterSection}>
+                  <Text style={styles.filterSectionTitle}>Tags</Text>
+                  <View style={styles.filterChips}>
+                    <TouchableOpacity
+                      style={[
+                        styles.filterChip,
+                        selectedTags.length === 0 && styles.filterChipActive,
+                      ]}
+                      onPress={() => setSelectedTags([])}
+                    >
+                      <Text
+                        style={[
+                          styles.filterChipText,
+                          selectedTags.length === 0 && styles.filterChipTextActive,
+                        ]}
+                      >
+                        All
+                      </Text>
+                    </TouchableOpacity>
+                    {tags.map((tag) => (
+                      <TouchableOpacity
+                        key={tag.id}
+                        style={[
+                          styles.filterChip,
+                          selectedTags.includes(tag.id) && styles.filterChipActive,
+                        ]}
+                        onPress={() => {
+                          setSelectedTags((prev) =>
+                            prev.includes(tag.id)
+                              ? prev.filter((id) => id !== tag.id)
+                              : [...prev, tag.id]
+                          );
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.filterChipText,
+                            selectedTags.includes(tag.id) && styles.filterChipTextActive,
+                          ]}
+                        >
+                          #{tag.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
               {/* Payment Method Filter */}
               <View style={styles.filterSection}>
                 <Text style={styles.filterSectionTitle}>Payment Method</Text>
@@ -740,6 +1388,38 @@ export default function AllTransactionsScreen() {
                       AI Suggested
                     </Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.filterChip,
+                      selectedSource === 'recurring' && styles.filterChipActive,
+                    ]}
+                    onPress={() => setSelectedSource('recurring')}
+                  >
+                    <Text
+                      style={[
+                        styles.filterChipText,
+                        selectedSource === 'recurring' && styles.filterChipTextActive,
+                      ]}
+                    >
+                      Recurring
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.filterChip,
+                      selectedSource === 'import' && styles.filterChipActive,
+                    ]}
+                    onPress={() => setSelectedSource('import')}
+                  >
+                    <Text
+                      style={[
+                        styles.filterChipText,
+                        selectedSource === 'import' && styles.filterChipTextActive,
+                      ]}
+                    >
+                      Imported
+                    </Text>
+                  </TouchableOpacity>
                 </View>
               </View>
 
@@ -879,8 +1559,213 @@ export default function AllTransactionsScreen() {
             </View>
           </SafeAreaView>
         </Modal>
+        {/* Edit Transaction Modal */}
+        <Modal
+          visible={editingTransaction !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setEditingTransaction(null)}
+        >
+          <SafeAreaView style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Edit Transaction</Text>
+              <TouchableOpacity onPress={() => setEditingTransaction(null)}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              {editingTransaction?.recurring_rule_id && (
+                <Text style={styles.editHint}>
+                  Changes apply to this occurrence only.
+                </Text>
+              )}
+              {editingTransaction?.transfer_id && (
+                <Text style={styles.editHint}>
+                  Changes apply to both sides of the transfer.
+                </Text>
+              )}
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>Amount</Text>
+                <TextInput
+                  style={styles.editInput}
+                  value={editAmount}
+                  onChangeText={setEditAmount}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              {!editingTransaction?.transfer_id && (
+                <View style={styles.filterSection}>
+                  <Text style={styles.filterSectionTitle}>Merchant</Text>
+                  <TextInput
+                    style={styles.editInput}
+                    value={editMerchant}
+                    onChangeText={setEditMerchant}
+                  />
+                </View>
+              )}
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>Notes</Text>
+                <TextInput
+                  style={[styles.editInput, styles.editNotesInput]}
+                  value={editNote}
+                  onChangeText={setEditNote}
+                  multiline
+                />
+              </View>
+              <View style={styles.filterSection}>
+                <TagPicker value={editTags} onChange={setEditTags} labelStyle={styles.filterSectionTitle} />
+              </View>
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={styles.clearButton}
+                onPress={() => setEditingTransaction(null)}
+              >
+                <Text style={styles.clearButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.applyButton}
+                onPress={handleSaveEdit}
+                disabled={savingEdit}
+              >
+                {savingEdit ? (
+                  <ActivityIndicator color={Colors.white} />
+                ) : (
+                  <Text style={styles.applyButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </SafeAreaView>
+        </Modal>
+
+        {/* Bulk Action Picker */}
+        <Modal
+          visible={bulkPicker !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setBulkPicker(null)}
+        >
+          <SafeAreaView style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {bulkPicker === 'category' ? 'Set Category'
+                  : bulkPicker === 'paymentMethod' ? 'Set Payment Method'
+                  : bulkPicker === 'currency' ? 'Set Currency'
+                  : 'Add or Remove Tags'}
+              </Text>
+              <TouchableOpacity onPress={() => setBulkPicker(null)}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.editHint}>Applies to {selectedCount} selected transaction(s).</Text>
+              {bulkPicker === 'category' && (
+                <View style={styles.filterChips}>
+                  <TouchableOpacity
+                    style={styles.filterChip}
+                    onPress={() => handleBulkAction({ kind: 'setCategory', categoryId: null })}
+                  >
+                    <Text style={styles.filterChipText}>Uncategorized</Text>
+                  </TouchableOpacity>
+                  {categories.map((cat) => (
+                    <TouchableOpacity
+                      key={cat.id}
+                      style={styles.filterChip}
+                      onPress={() => handleBulkAction({ kind: 'setCategory', categoryId: cat.id })}
+                    >
+                      <Text style={styles.filterChipText}>{cat.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {bulkPicker === 'paymentMethod' && (
+                <View style={styles.filterChips}>
+                  <TouchableOpacity
+                    style={styles.filterChip}
+                    onPress={() => handleBulkAction({ kind: 'setPaymentMethod', paymentMethod: null })}
+                  >
+                    <Text style={styles.filterChipText}>None</Text>
+                  </TouchableOpacity>
+                  {paymentMethods.map((method) => (
+                    <TouchableOpacity
+                      key={method.id}
+                      style={styles.filterChip}
+                      onPress={() => handleBulkAction({ kind: 'setPaymentMethod', paymentMethod: method.name })}
+                    >
+                      <Text style={styles.filterChipText}>{method.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {bulkPicker === 'currency' && (
+                <>
+                  <Text style={styles.editHint}>Only the currency changes; amounts are not converted.</Text>
+                  <View style={styles.filterChips}>
+                    {currencies.map((currency) => (
+                      <TouchableOpacity
+                        key={currency.code}
+                        style={styles.filterChip}
+                        onPress={() => handleBulkAction({ kind: 'setCurrency', currency: currency.code })}
+                      >
+                        <Text style={styles.filterChipText}>{currency.code} · {currency.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+              {bulkPicker === 'tags' && (
+                <View style={styles.filterSection}>
+                  <TagPicker value={bulkTags} onChange={setBulkTags} labelStyle={styles.filterSectionTitle} />
+                </View>
+              )}
+            </ScrollView>
+
+            {bulkPicker === 'tags' && (
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={styles.clearButton}
+                  onPress={() => handleBulkAction({ kind: 'removeTags', names: bulkTags })}
+                  disabled={bulkTags.length === 0}
+                >
+                  <Text style={styles.clearButtonText}>Remove Tags</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.applyButton}
+                  onPress={() => handleBulkAction({ kind: 'addTags', names: bulkTags })}
+                  disabled={bulkTags.length === 0}
+                >
+                  <Text style={styles.applyButtonText}>Add Tags</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </SafeAreaView>
+        </Modal>
+
+        {/* Bulk Action Progress */}
+        <Modal visible={bulkProgress !== null} transparent animationType="fade">
+          <View style={styles.progressOverlay}>
+            <View style={styles.progressCard}>
+              <ActivityIndicator color={Colors.primary} />
+              <Text style={styles.progressText}>
+                Updating {bulkProgress?.done ?? 0} of {bulkProgress?.total ?? 0}…
+              </Text>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${bulkProgress && bulkProgress.total > 0 ? (bulkProgress.done / bulkProgress.total) * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         {/* Floating Chat Button */}
-        <FloatingChatButton />
+        {!selectionMode && <FloatingChatButton />}
       </SafeAreaView>
     </>
   );
@@ -909,6 +1794,50 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.textPrimary,
   },
+  searchErrors: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    backgroundColor: Colors.white,
+    gap: 2,
+  },
+  searchErrorText: {
+    fontSize: 12,
+    color: Colors.error,
+  },
+  searchSuggestions: {
+    flexGrow: 0,
+    backgroundColor: Colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  searchSuggestionsContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  searchSuggestionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.gray100,
+  },
+  searchSuggestionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  searchSuggestionDescription: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
   filterBadge: {
     position: 'absolute',
     top: -4,
@@ -1004,6 +1933,20 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: Colors.textSecondary,
   },
+  transactionTimeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pendingSync: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  pendingSyncText: {
+    fontSize: 11,
+    color: Colors.textSecondary,
+  },
   transactionRight: {
     alignItems: 'flex-end',
   },
@@ -1018,6 +1961,9 @@ const styles = StyleSheet.create({
   expenseAmount: {
     color: Colors.error,
   },
+  transferAmount: {
+    color: Colors.textSecondary,
+  },
   transactionCategory: {
     fontSize: 13,
     color: Colors.textSecondary,
@@ -1076,6 +2022,11 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     lineHeight: 18,
   },
+  itemDetailCategory: {
+    fontSize: 12,
+    color: Colors.primary,
+    marginBottom: 4,
+  },
   itemDetailQtyPrice: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1125,6 +2076,26 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.primary,
   },
+  transactionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  transactionActionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: Colors.gray100,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  transactionActionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   transactionDeleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1140,6 +2111,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.error,
   },
+  listFooterLoader: {
+    paddingVertical: 16,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1233,6 +2207,25 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: Colors.white,
   },
+  editInput: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: Colors.white,
+  },
+  editNotesInput: {
+    height: 88,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  editHint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
   amountRangeSeparator: {
     fontSize: 14,
     color: Colors.textSecondary,
@@ -1319,4 +2312,82 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     opacity: 0.7,
   },
+  headerTextButton: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  selectionCheckbox: {
+    marginRight: 12,
+    alignSelf: 'center',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: Colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+  },
+  selectionBarText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  selectionBarActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  bulkActionBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 8,
+    backgroundColor: Colors.white,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+  },
+  bulkActionButton: {
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    gap: 2,
+  },
+  bulkActionButtonDisabled: {
+    opacity: 0.4,
+  },
+  bulkActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  progressOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  progressCard: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 24,
+    borderRadius: 12,
+    backgroundColor: Colors.white,
+  },
+  progressText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.gray200,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: Colors.primary,
+  },
 });
@@ -0,0 +1,821 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Image,
+  TextInput,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { Colors } from '@/constants/theme';
+import { getCategories, type Category } from '@/src/services/categories';
+import { getTransactionRules, type TransactionRule } from '@/src/services/transaction-rules';
+import {
+  groupBatchPages,
+  processReceiptBatch,
+  buildReceiptBatchDraft,
+  saveReceiptBatchDraft,
+  type ReceiptBatchPage,
+  type ReceiptBatchGroup,
+  type ReceiptBatchResult,
+  type ReceiptBatchDraft,
+} from '@/src/services/receipt-batch';
+
+type Decision = 'saving' | 'saved' | 'rejected';
+
+interface EditForm {
+  merchant: string;
+  amount: string;
+  occurredAt: string;
+  note: string;
+  categoryId: string | null;
+  newCategoryName: string | null;
+}
+
+const createPageId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export default function BatchScanScreen() {
+  const router = useRouter();
+  const [pages, setPages] = useState<ReceiptBatchPage[]>([]);
+  const [groups, setGroups] = useState<ReceiptBatchGroup[] | null>(null);
+  const [results, setResults] = useState<Record<string, ReceiptBatchResult>>({});
+  const [drafts, setDrafts] = useState<Record<string, ReceiptBatchDraft>>({});
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<TransactionRule[]>([]);
+  const [processing, setProcessing] = useState(false);
+  const [savingAll, setSavingAll] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<EditForm | null>(null);
+
+  useEffect(() => {
+    getCategories()
+      .then(setCategories)
+      .catch(error => console.error('Failed to load categories:', error));
+    getTransactionRules()
+      .then(setRules)
+      .catch(error => console.error('Failed to load transaction rules:', error));
+  }, []);
+
+  // ============================================================
+  // Queue
+  // ============================================================
+
+  const appendPages = (uris: string[]) => {
+    setPages(prev => [
+      ...prev,
+      ...uris.map(uri => ({ id: createPageId(), uri, continuesPrevious: false })),
+    ]);
+  };
+
+  const handlePickImages = async () => {
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permissionResult.granted === false) {
+        Alert.alert('Permission Required', 'Please allow access to your photos to scan receipts.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: 0,
+        quality: 1,
+      });
+      if (!result.canceled) {
+        appendPages(result.assets.map(asset => asset.uri));
+      }
+    } catch (error) {
+      console.error('Error picking images:', error);
+      Alert.alert('Error', 'Failed to select images');
+    }
+  };
+
+  const handleTakePhoto = async () => {
+    try {
+      const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+      if (permissionResult.granted === false) {
+        Alert.alert('Permission Required', 'Please allow camera access to scan receipts.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({ quality: 1 });
+      if (!result.canceled) {
+        appendPages([result.assets[0].uri]);
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const toggleContinuesPrevious = (pageId: string) => {
+    setPages(prev => prev.map(page =>
+      page.id === pageId ? { ...page, continuesPrevious: !page.continuesPrevious } : page
+    ));
+  };
+
+  const removePage = (pageId: string) => {
+    setPages(prev => {
+      const next = prev.filter(page => page.id !== pageId);
+      // The first page can never continue a previous receipt
+      return next.map((page, index) => index === 0 ? { ...page, continuesPrevious: false } : page);
+    });
+  };
+
+  // ============================================================
+  // Processing
+  // ============================================================
+
+  const handleResultUpdate = (result: ReceiptBatchResult) => {
+    setResults(prev => ({ ...prev, [result.groupId]: result }));
+  };
+
+  const runBatch = async (batchGroups: ReceiptBatchGroup[]) => {
+    try {
+      setProcessing(true);
+      await processReceiptBatch(batchGroups, { onUpdate: handleResultUpdate });
+    } catch (error) {
+      console.error('Batch processing failed:', error);
+      Alert.alert('Error', 'Batch processing stopped unexpectedly. Processed receipts are kept below.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (pages.length === 0) return;
+    const batchGroups = groupBatchPages(pages);
+    setGroups(batchGroups);
+    setResults({});
+    setDrafts({});
+    setDecisions({});
+    await runBatch(batchGroups);
+  };
+
+  const handleRetry = async (group: ReceiptBatchGroup) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[group.id];
+      return next;
+    });
+    await runBatch([group]);
+  };
+
+  // ============================================================
+  // Review
+  // ============================================================
+
+  const getDraft = (groupId: string): ReceiptBatchDraft | null => {
+    if (drafts[groupId]) return drafts[groupId];
+    const data = results[groupId]?.data;
+    return data ? buildReceiptBatchDraft(data, categories, rules) : null;
+  };
+
+  const getCategoryLabel = (draft: ReceiptBatchDraft) => {
+    if (draft.categoryId) {
+      return categories.find(category => category.id === draft.categoryId)?.name ?? 'Uncategorized';
+    }
+    return draft.newCategoryName ? `New: ${draft.newCategoryName}` : 'Uncategorized';
+  };
+
+  const acceptDraft = async (group: ReceiptBatchGroup, draft: ReceiptBatchDraft) => {
+    const groupId = group.id;
+    setDecisions(prev => ({ ...prev, [groupId]: 'saving' }));
+    try {
+      await saveReceiptBatchDraft(draft, group.pageUris);
+      setDecisions(prev => ({ ...prev, [groupId]: 'saved' }));
+      return true;
+    } catch (error) {
+      console.error('Failed to save receipt:', error);
+      setDecisions(prev => {
+        const next = { ...prev };
+        delete next[groupId];
+        return next;
+      });
+      return false;
+    }
+  };
+
+  const handleAccept = async (group: ReceiptBatchGroup) => {
+    const draft = getDraft(group.id);
+    if (!draft) return;
+    const saved = await acceptDraft(group, draft);
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save this receipt. Please try again.');
+    }
+  };
+
+  const handleReject = (groupId: string) => {
+    setDecisions(prev => ({ ...prev, [groupId]: 'rejected' }));
+    if (editingId === groupId) {
+      setEditingId(null);
+      setEditForm(null);
+    }
+  };
+
+  const handleRestore = (groupId: string) => {
+    setDecisions(prev => {
+      const next = { ...prev };
+      delete next[groupId];
+      return next;
+    });
+  };
+
+  const pendingGroups = (groups ?? []).filter(group =>
+    results[group.id]?.status === 'done' && !decisions[group.id]
+  );
+
+  const handleAcceptAll = async () => {
+    if (pendingGroups.length === 0) return;
+    setSavingAll(true);
+    let failed = 0;
+    // Saved one after another so new categories suggested by several receipts are only created once
+    for (const group of pendingGroups) {
+      const draft = getDraft(group.id);
+      if (!draft || !(await acceptDraft(group, draft))) {
+        failed++;
+      }
+    }
+    setSavingAll(false);
+    if (failed > 0) {
+      Alert.alert('Some Receipts Not Saved', `${failed} receipt(s) could not be saved. They are still in the list.`);
+    }
+  };
+
+  const startEditing = (groupId: string) => {
+    const draft = getDraft(groupId);
+    if (!draft) return;
+    setEditingId(groupId);
+    setEditForm({
+      merchant: draft.merchant,
+      amount: String(draft.amount),
+      occurredAt: draft.occurredAt,
+      note: draft.note,
+      categoryId: draft.categoryId,
+      newCategoryName: draft.newCategoryName,
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId || !editForm) return;
+    const draft = getDraft(editingId);
+    if (!draft) return;
+
+    const amount = parseFloat(editForm.amount);
+    if (isNaN(amount)) {
+      Alert.alert('Validation Error', 'Please enter a valid amount');
+      return;
+    }
+    if (isNaN(new Date(editForm.occurredAt).getTime())) {
+      Alert.alert('Validation Error', 'Please enter the date as YYYY-MM-DDTHH:MM');
+      return;
+    }
+
+    setDrafts(prev => ({
+      ...prev,
+      [editingId]: {
+        ...draft,
+        merchant: editForm.merchant,
+        amount,
+        occurredAt: editForm.occurredAt,
+        note: editForm.note,
+        categoryId: editForm.categoryId,
+        newCategoryName: editForm.newCategoryName,
+      },
+    }));
+    setEditingId(null);
+    setEditForm(null);
+  };
+
+  const finishedCount = Object.values(results).filter(result => result.status === 'done' || result.status === 'failed').length;
+  const savedCount = Object.values(decisions).filter(decision => decision === 'saved').length;
+
+  // ============================================================
+  // Render
+  // ============================================================
+
+  const renderQueue = () => {
+    let receiptNumber = 0;
+    return (
+      <>
+        <View style={styles.pickRow}>
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickImages}>
+            <Ionicons name="images-outline" size={20} color={Colors.primary} />
+            <Text style={styles.pickButtonText}>Choose Photos</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.pickButton} onPress={handleTakePhoto}>
+            <Ionicons name="camera-outline" size={20} color={Colors.primary} />
+            <Text style={styles.pickButtonText}>Take Photo</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.hintText}>
+          Each photo becomes one transaction. For a long receipt photographed in parts, tap the link
+          icon on the later pages to join them to the page before.
+        </Text>
+
+        {pages.map((page, index) => {
+          if (!page.continuesPrevious) receiptNumber++;
+          return (
+            <View key={page.id} style={[styles.pageRow, page.continuesPrevious && styles.pageRowContinued]}>
+              <Image source={{ uri: page.uri }} style={styles.thumbnail} />
+              <View style={styles.pageRowBody}>
+                <Text style={styles.pageTitle}>
+                  {page.continuesPrevious ? `Receipt ${receiptNumber} · next page` : `Receipt ${receiptNumber}`}
+                </Text>
+                <Text style={styles.metaText}>Photo {index + 1}</Text>
+              </View>
+              {index > 0 && (
+                <TouchableOpacity
+                  onPress={() => toggleContinuesPrevious(page.id)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  style={styles.iconButton}
+                >
+                  <Ionicons
+                    name={page.continuesPrevious ? 'link' : 'link-outline'}
+                    size={22}
+                    color={page.continuesPrevious ? Colors.primary : Colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => removePage(page.id)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                style={styles.iconButton}
+              >
+                <Ionicons name="close-circle-outline" size={22} color={Colors.error} />
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderEditForm = () => {
+    if (!editForm) return null;
+    return (
+      <View style={styles.editForm}>
+        <Text style={styles.inputLabel}>Merchant</Text>
+        <TextInput
+          style={styles.input}
+          value={editForm.merchant}
+          onChangeText={merchant => setEditForm({ ...editForm, merchant })}
+        />
+        <Text style={styles.inputLabel}>Amount</Text>
+        <TextInput
+          style={styles.input}
+          value={editForm.amount}
+          keyboardType="decimal-pad"
+          onChangeText={amount => setEditForm({ ...editForm, amount })}
+        />
+        <Text style={styles.inputLabel}>Date (YYYY-MM-DDTHH:MM)</Text>
+        <TextInput
+          style={styles.input}
+          value={editForm.occurredAt}
+          autoCapitalize="none"
+          onChangeText={occurredAt => setEditForm({ ...editForm, occurredAt })}
+        />
+        <Text style={styles.inputLabel}>Category</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {editForm.newCategoryName && (
+            <TouchableOpacity
+              style={[styles.chip, !editForm.categoryId && styles.chipActive]}
+              onPress={() => setEditForm({ ...editForm, categoryId: null })}
+            >
+              <Text style={[styles.chipText, !editForm.categoryId && styles.chipTextActive]}>
+                New: {editForm.newCategoryName}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {categories.map(category => (
+            <TouchableOpacity
+              key={category.id}
+              style={[styles.chip, editForm.categoryId === category.id && styles.chipActive]}
+              onPress={() => setEditForm({ ...editForm, categoryId: category.id })}
+            >
+              <Text style={[styles.chipText, editForm.categoryId === category.id && styles.chipTextActive]}>
+                {category.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <Text style={styles.inputLabel}>Note</Text>
+        <TextInput
+          style={styles.input}
+          value={editForm.note}
+          onChangeText={note => setEditForm({ ...editForm, note })}
+        />
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => {
+              setEditingId(null);
+              setEditForm(null);
+            }}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.smallPrimaryButton} onPress={handleSaveEdit}>
+            <Text style={styles.smallPrimaryButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderResult = (group: ReceiptBatchGroup, index: number) => {
+    const result = results[group.id];
+    const decision = decisions[group.id];
+    const draft = result?.status === 'done' ? getDraft(group.id) : null;
+    const isEditing = editingId === group.id;
+
+    return (
+      <View key={group.id} style={[styles.resultCard, decision === 'rejected' && styles.resultCardRejected]}>
+        <View style={styles.resultHeader}>
+          <Image source={{ uri: group.pageUris[0] }} style={styles.thumbnail} />
+          <View style={styles.pageRowBody}>
+            {draft ? (
+              <>
+                <View style={styles.resultTitleRow}>
+                  <Text style={styles.pageTitle} numberOfLines={1}>{draft.merchant || 'Transaction'}</Text>
+                  <Text style={styles.resultAmount}>-{draft.amount.toFixed(2)} {draft.currency}</Text>
+                </View>
+                <Text style={styles.metaText}>
+                  {new Date(draft.occurredAt).toLocaleString()} · {getCategoryLabel(draft)}
+                </Text>
+                <Text style={styles.metaText}>
+                  {draft.items.length} items
+                  {group.pageUris.length > 1 ? ` · ${group.pageUris.length} pages` : ''}
+                  {result.failedPages > 0 ? ` · ${result.failedPages} page(s) unreadable` : ''}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.pageTitle}>
+                  Receipt {index + 1}{group.pageUris.length > 1 ? ` (${group.pageUris.length} pages)` : ''}
+                </Text>
+                {result?.status === 'failed' ? (
+                  <Text style={styles.errorText} numberOfLines={2}>{result.error}</Text>
+                ) : (
+                  <View style={styles.progressRow}>
+                    {result?.status === 'processing' && <ActivityIndicator size="small" color={Colors.primary} />}
+                    <Text style={styles.metaText}>
+                      {result?.status === 'processing' ? `Processing · ${result.progress}%` : 'Waiting...'}
+                    </Text>
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+        </View>
+
+        {isEditing && renderEditForm()}
+
+        {result?.status === 'failed' && !processing && !decision && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleReject(group.id)}>
+              <Text style={styles.secondaryButtonText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallPrimaryButton} onPress={() => handleRetry(group)}>
+              <Text style={styles.smallPrimaryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {draft && !isEditing && (
+          <View style={styles.actionRow}>
+            {decision === 'saved' ? (
+              <View style={styles.statusBadge}>
+                <Ionicons name="checkmark-circle" size={16} color={Colors.success} />
+                <Text style={[styles.statusText, { color: Colors.success }]}>Saved</Text>
+              </View>
+            ) : decision === 'rejected' ? (
+              <>
+                <View style={styles.statusBadge}>
+                  <Ionicons name="close-circle" size={16} color={Colors.textSecondary} />
+                  <Text style={styles.statusText}>Rejected</Text>
+                </View>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => handleRestore(group.id)}>
+                  <Text style={styles.secondaryButtonText}>Undo</Text>
+                </TouchableOpacity>
+              </>
+            ) : decision === 'saving' ? (
+              <ActivityIndicator color={Colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => handleReject(group.id)}>
+                  <Text style={[styles.secondaryButtonText, { color: Colors.error }]}>Reject</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => startEditing(group.id)}>
+                  <Text style={styles.secondaryButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.smallPrimaryButton}
+                  onPress={() => handleAccept(group)}
+                  disabled={savingAll}
+                >
+                  <Text style={styles.smallPrimaryButtonText}>Accept</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Batch Scan',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {groups ? (
+            <>
+              <Text style={styles.sectionTitle}>Review</Text>
+              <Text style={styles.hintText}>
+                {finishedCount} of {groups.length} processed · {savedCount} saved
+              </Text>
+              {groups.map(renderResult)}
+            </>
+          ) : (
+            renderQueue()
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {groups ? (
+            pendingGroups.length > 0 || processing ? (
+              <TouchableOpacity
+                style={[styles.primaryButton, (savingAll || pendingGroups.length === 0) && styles.buttonDisabled]}
+                onPress={handleAcceptAll}
+                disabled={savingAll || pendingGroups.length === 0}
+              >
+                {savingAll ? (
+                  <ActivityIndicator color={Colors.white} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Accept All ({pendingGroups.length})</Text>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+                <Text style={styles.primaryButtonText}>Done</Text>
+              </TouchableOpacity>
+            )
+          ) : (
+            <TouchableOpacity
+              style={[styles.primaryButton, pages.length === 0 && styles.buttonDisabled]}
+              onPress={handleStart}
+              disabled={pages.length === 0}
+            >
+              <Text style={styles.primaryButtonText}>
+                Process {groupBatchPages(pages).length} Receipts
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  pickRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  pickButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  pickButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  pageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  pageRowContinued: {
+    marginLeft: 24,
+    marginTop: -4,
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.primary,
+  },
+  thumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+    backgroundColor: Colors.gray100,
+  },
+  pageRowBody: {
+    flex: 1,
+  },
+  pageTitle: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  metaText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  resultCard: {
+    padding: 12,
+    marginBottom: 10,
+    borderRadius: 12,
+    backgroundColor: Colors.white,
+  },
+  resultCardRejected: {
+    opacity: 0.6,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  resultTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  resultAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 'auto',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  smallPrimaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+  },
+  smallPrimaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  editForm: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray100,
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 4,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.white,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+});
@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import { useCurrency } from '@/src/providers/CurrencyProvider';
+import { getCategories, type Category } from '@/src/services/categories';
+import {
+  deleteBudget,
+  findActiveBudget,
+  getAllBudgets,
+  getBudgetMonthlyAmount,
+  setBudget,
+  updateBudget,
+  type Budget,
+} from '@/src/services/budgets';
+
+type BudgetPeriod = Budget['period'];
+
+interface BudgetForm {
+  amount: string;
+  period: BudgetPeriod;
+}
+
+// New budgets count from the start of the current month
+function currentMonthStart() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+export default function CategoryBudgetsScreen() {
+  const { currencySymbol } = useCurrency();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async () => {
+    try {
+      const [loadedCategories, loadedBudgets] = await Promise.all([
+        getCategories(),
+        getAllBudgets({ includeCategoryBudgets: true }),
+      ]);
+      setCategories(loadedCategories);
+      setBudgets(loadedBudgets.filter(budget => budget.category_id));
+    } catch (error) {
+      console.error('Failed to load category budgets:', error);
+      Alert.alert('Error', 'Failed to load category budgets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const openEditor = (category: Category) => {
+    const active = findActiveBudget(budgets, category.id);
+    setEditing(category);
+    setForm({
+      amount: active ? String(active.amount) : '',
+      period: active?.period ?? 'monthly',
+    });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || !editing) return;
+
+    const amount = parseFloat(form.amount.replace(/,/g, '.'));
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter a budget greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Earlier months keep the budget they had; a change this month replaces this month's
+      const active = findActiveBudget(budgets, editing.id);
+      const monthStart = currentMonthStart();
+      if (active && active.start_date.slice(0, 10) === monthStart) {
+        await updateBudget(active.id, { amount, period: form.period });
+      } else {
+        await setBudget(amount, form.period, monthStart, editing.id);
+      }
+      closeEditor();
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save category budget:', error);
+      Alert.alert('Error', 'Failed to save the budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = (category: Category) => {
+    Alert.alert(
+      'Remove Budget',
+      `Stop budgeting "${category.name}"? Its spending still counts towards your overall budget.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // Earlier budgets would become active again, so all of them go
+              const categoryBudgets = budgets.filter(budget => budget.category_id === category.id);
+              await Promise.all(categoryBudgets.map(budget => deleteBudget(budget.id)));
+              closeEditor();
+              await loadData();
+            } catch (error) {
+              console.error('Failed to remove category budget:', error);
+              Alert.alert('Error', 'Failed to remove the budget');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCategory = (category: Category) => {
+    const active = findActiveBudget(budgets, category.id);
+    return (
+      <TouchableOpacity key={category.id} style={styles.row} onPress={() => openEditor(category)}>
+        <View style={styles.rowBody}>
+          <Text style={styles.rowTitle}>{category.name}</Text>
+          <Text style={styles.rowMeta}>
+            {active
+              ? `${currencySymbol}${active.amount.toLocaleString()} ${active.period === 'monthly' ? 'a month' : 'a year'}`
+                + (active.period === 'yearly'
+                  ? ` · about ${currencySymbol}${Math.round(getBudgetMonthlyAmount(active)).toLocaleString()} a month`
+                  : '')
+              : 'No budget'}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Category Budgets',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            Cap spending in a single category. Reports show how much of each budget is used, scaled to the
+            week, month or year you&apos;re looking at.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : categories.length === 0 ? (
+            <Text style={styles.emptyText}>No categories yet</Text>
+          ) : (
+            categories.map(renderCategory)
+          )}
+        </ScrollView>
+
+        {/* Budget Editor */}
+        <Modal
+          visible={editing !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={closeEditor}
+        >
+          <SafeAreaView style={styles.container}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing?.name}</Text>
+              <TouchableOpacity onPress={closeEditor}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            {form && editing && (
+              <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Amount ({currencySymbol})</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.amount}
+                    onChangeText={amount => setForm({ ...form, amount })}
+                    placeholder="e.g. 800"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Period</Text>
+                  <View style={styles.chipsWrap}>
+                    {(['monthly', 'yearly'] as const).map(period => (
+                      <TouchableOpacity
+                        key={period}
+                        style={[styles.chip, form.period === period && styles.chipActive]}
+                        onPress={() => setForm({ ...form, period })}
+                      >
+                        <Text style={[styles.chipText, form.period === period && styles.chipTextActive]}>
+                          {period === 'monthly' ? 'Monthly' : 'Yearly'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color={Colors.white} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+
+                {findActiveBudget(budgets, editing.id) && (
+                  <TouchableOpacity style={styles.deleteButton} onPress={() => handleRemove(editing)}>
+                    <Text style={styles.deleteButtonText}>Remove Budget</Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </Modal>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  deleteButton: {
+    height: 48,
+    marginTop: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+  },
+});
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import {
+  chooseTransactionToKeep,
+  dismissDuplicatePair,
+  findDuplicatePairs,
+  mergeDuplicates,
+  type DuplicatePair,
+} from '@/src/services/duplicates';
+import type { Transaction } from '@/src/services/transactions';
+
+function pairId(pair: DuplicatePair) {
+  return `${pair.a.id}|${pair.b.id}`;
+}
+
+function formatAmount(transaction: Transaction) {
+  return `${transaction.amount < 0 ? '-' : '+'}${transaction.currency} ${Math.abs(transaction.amount).toFixed(2)}`;
+}
+
+export default function DuplicatesScreen() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Pair id -> id of the transaction to keep, once the user picked one
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+
+  const loadPairs = async () => {
+    try {
+      setPairs(await findDuplicatePairs());
+    } catch (error) {
+      console.error('Failed to find duplicates:', error);
+      Alert.alert('Error', 'Failed to look for duplicate transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPairs();
+  }, []);
+
+  const keepAndRemove = (pair: DuplicatePair): [Transaction, Transaction] => {
+    const keepId = keepIds[pairId(pair)];
+    if (keepId === pair.a.id) return [pair.a, pair.b];
+    if (keepId === pair.b.id) return [pair.b, pair.a];
+    return chooseTransactionToKeep(pair.a, pair.b);
+  };
+
+  // Pairs that involve a merged-away transaction are gone as well
+  const removeFromList = (removedIds: string[]) => {
+    setPairs(prev => prev.filter(pair => !removedIds.includes(pair.a.id) && !removedIds.includes(pair.b.id)));
+  };
+
+  const merge = async (pair: DuplicatePair, allowReconciled: boolean) => {
+    const [keep, remove] = keepAndRemove(pair);
+    setBusyPair(pairId(pair));
+    try {
+      await mergeDuplicates(keep, remove, { allowReconciled });
+      removeFromList([remove.id]);
+    } catch (error) {
+      console.error('Failed to merge duplicates:', error);
+      Alert.alert('Error', 'Failed to merge the transactions');
+    } finally {
+      setBusyPair(null);
+    }
+  };
+
+  const handleMerge = (pair: DuplicatePair) => {
+    if (pair.a.reconciliation_id || pair.b.reconciliation_id) {
+      Alert.alert(
+        'Reconciled Transaction',
+        'One of these transactions was matched against a statement. Merging changes your reconciled balance. Continue?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', style: 'destructive', onPress: () => merge(pair, true) },
+        ]
+      );
+      return;
+    }
+    merge(pair, false);
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    try {
+      await dismissDuplicatePair(pair.a.id, pair.b.id);
+      setPairs(prev => prev.filter(other => pairId(other) !== pairId(pair)));
+    } catch (error) {
+      console.error('Failed to dismiss duplicate:', error);
+      Alert.alert('Error', 'Failed to save your choice');
+    }
+  };
+
+  const renderTransaction = (pair: DuplicatePair, transaction: Transaction, keep: boolean) => (
+    <TouchableOpacity
+      key={transaction.id}
+      style={[styles.option, keep && styles.optionSelected]}
+      onPress={() => setKeepIds(prev => ({ ...prev, [pairId(pair)]: transaction.id }))}
+    >
+      <Ionicons
+        name={keep ? 'radio-button-on' : 'radio-button-off'}
+        size={22}
+        color={keep ? Colors.primary : Colors.textSecondary}
+      />
+      <View style={styles.rowBody}>
+        <View style={styles.titleRow}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{transaction.merchant || 'No merchant'}</Text>
+          <Text style={styles.amountText}>{formatAmount(transaction)}</Text>
+        </View>
+        <Text style={styles.rowMeta}>
+          {new Date(transaction.occurred_at).toLocaleString()} · {transaction.source}
+          {transaction.reconciliation_id ? ' · Reconciled' : ''}
+        </Text>
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {transaction.category?.name ?? 'No category'}
+          {transaction.payment_method ? ` · ${transaction.payment_method}` : ''}
+          {transaction.items && transaction.items.length > 0 ? ` · ${transaction.items.length} item(s)` : ''}
+        </Text>
+        {!!transaction.note && (
+          <Text style={styles.noteText} numberOfLines={2}>{transaction.note}</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Duplicates',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            Transactions with the same amount, a similar merchant and close dates. Merging keeps the selected
+            transaction, adds the other one&apos;s items, tags and note to it, then deletes the other one.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : pairs.length === 0 ? (
+            <Text style={styles.emptyText}>No duplicates found</Text>
+          ) : (
+            pairs.map(pair => {
+              const [keep] = keepAndRemove(pair);
+              const busy = busyPair === pairId(pair);
+              return (
+                <View key={pairId(pair)} style={styles.card}>
+                  <Text style={styles.cardTitle}>{Math.round(pair.score * 100)}% match · keep one:</Text>
+                  {renderTransaction(pair, pair.a, keep.id === pair.a.id)}
+                  {renderTransaction(pair, pair.b, keep.id === pair.b.id)}
+                  <View style={styles.cardActions}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => handleDismiss(pair)}
+                      disabled={busy}
+                    >
+                      <Text style={styles.secondaryButtonText}>Not Duplicates</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, busy && styles.buttonDisabled]}
+                      onPress={() => handleMerge(pair)}
+                      disabled={busyPair !== null}
+                    >
+                      {busy ? (
+                        <ActivityIndicator color={Colors.white} />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>Merge</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  card: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.white,
+  },
+  cardTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+  },
+  optionSelected: {
+    borderColor: Colors.primary,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  amountText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  noteText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+    marginTop: 4,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  primaryButton: {
+    height: 40,
+    minWidth: 96,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  secondaryButton: {
+    height: 40,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
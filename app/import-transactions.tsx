@@ -0,0 +1,549 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { Colors } from '@/constants/theme';
+import { useCurrency } from '@/src/providers/CurrencyProvider';
+import {
+  IMPORT_FIELDS,
+  readImportFile,
+  detectImportFormat,
+  parseImportFile,
+  guessColumnMapping,
+  buildImportPreview,
+  importTransactions,
+  type ImportTable,
+  type ImportField,
+  type ImportDateFormat,
+  type ColumnMapping,
+  type ImportPreviewRow,
+} from '@/src/services/transaction-import';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  amount: 'Amount',
+  occurred_at: 'Date',
+  merchant: 'Merchant',
+  currency: 'Currency',
+  payment_method: 'Payment Method',
+  note: 'Note',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['amount', 'occurred_at'];
+
+const DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+];
+
+export default function ImportTransactionsScreen() {
+  const router = useRouter();
+  const { currencyCode } = useCurrency();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('auto');
+  const [invertAmounts, setInvertAmounts] = useState(false);
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setLoading(true);
+      const content = await readImportFile(asset.uri);
+      const format = detectImportFormat(asset.name, content);
+      const parsed = parseImportFile(content, format);
+
+      if (parsed.rows.length === 0) {
+        Alert.alert('Nothing to Import', 'No transactions were found in this file.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      // QIF files are almost always written with US style dates
+      setDateFormat(format === 'qif' ? 'MM/DD/YYYY' : 'auto');
+      setPreview(null);
+      setSelectedRows(new Set());
+    } catch (error) {
+      console.error('Failed to load import file:', error);
+      Alert.alert('Error', 'Could not read this file. Please choose a CSV, OFX or QIF file.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, index: number | null) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: index });
+    setPreview(null);
+  };
+
+  const handleBuildPreview = async () => {
+    if (!table || !mapping) return;
+
+    const missing = REQUIRED_FIELDS.filter(field => mapping[field] === null);
+    if (missing.length > 0) {
+      Alert.alert('Mapping Required', `Please choose a column for: ${missing.map(field => FIELD_LABELS[field]).join(', ')}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const rows = await buildImportPreview(table, mapping, {
+        dateFormat,
+        defaultCurrency: currencyCode,
+        defaultPaymentMethod: null,
+        invertAmounts,
+      });
+      setPreview(rows);
+      // Valid, non-duplicate rows are selected by default
+      setSelectedRows(new Set(rows.filter(row => row.draft && !row.duplicateOf).map(row => row.rowIndex)));
+    } catch (error) {
+      console.error('Failed to build import preview:', error);
+      Alert.alert('Error', 'Failed to build the import preview. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (rowIndex: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowIndex)) {
+        next.delete(rowIndex);
+      } else {
+        next.add(rowIndex);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const drafts = preview
+      .filter(row => row.draft && selectedRows.has(row.rowIndex))
+      .map(row => row.draft!);
+    if (drafts.length === 0) {
+      Alert.alert('Nothing Selected', 'Select at least one row to import.');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setProgress({ done: 0, total: drafts.length });
+      const result = await importTransactions(drafts, (done, total) => setProgress({ done, total }));
+
+      const message = result.failed > 0
+        ? `Imported ${result.inserted} transactions. ${result.failed} could not be saved.`
+        : `Imported ${result.inserted} transactions.`;
+      Alert.alert('Import Complete', message, [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      console.error('Failed to import transactions:', error);
+      Alert.alert('Error', 'Failed to import transactions. Please try again.');
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const invalidCount = preview?.filter(row => !row.draft).length ?? 0;
+  const duplicateCount = preview?.filter(row => row.duplicateOf).length ?? 0;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Import Transactions',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* File */}
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile} disabled={loading || importing}>
+            <Ionicons name="document-attach-outline" size={22} color={Colors.primary} />
+            <View style={styles.pickButtonTextContainer}>
+              <Text style={styles.pickButtonTitle}>{fileName ?? 'Choose a file'}</Text>
+              <Text style={styles.pickButtonSubtitle}>
+                {table
+                  ? `${table.format.toUpperCase()} · ${table.rows.length} rows`
+                  : 'CSV, OFX / QFX or QIF bank statements'}
+              </Text>
+            </View>
+          </TouchableOpacity>
+
+          {loading && <ActivityIndicator style={styles.loader} color={Colors.primary} />}
+
+          {/* Column Mapping */}
+          {table && mapping && (
+            <>
+              {IMPORT_FIELDS.map(field => (
+                <View key={field} style={styles.section}>
+                  <Text style={styles.sectionTitle}>
+                    {FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                    {!REQUIRED_FIELDS.includes(field) && (
+                      <TouchableOpacity
+                        style={[styles.chip, mapping[field] === null && styles.chipActive]}
+                        onPress={() => updateMapping(field, null)}
+                      >
+                        <Text style={[styles.chipText, mapping[field] === null && styles.chipTextActive]}>
+                          Not mapped
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {table.headers.map((header, index) => (
+                      <TouchableOpacity
+                        key={`${field}-${index}`}
+                        style={[styles.chip, mapping[field] === index && styles.chipActive]}
+                        onPress={() => updateMapping(field, index)}
+                      >
+                        <Text style={[styles.chipText, mapping[field] === index && styles.chipTextActive]}>
+                          {header || `Column ${index + 1}`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                  {mapping[field] !== null && table.rows[0] && (
+                    <Text style={styles.sampleText} numberOfLines={1}>
+                      e.g. {table.rows[0][mapping[field]!] || '—'}
+                    </Text>
+                  )}
+                </View>
+              ))}
+
+              {/* Options */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Date Format</Text>
+                <View style={styles.chipsWrap}>
+                  {DATE_FORMATS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.chip, dateFormat === option.value && styles.chipActive]}
+                      onPress={() => {
+                        setDateFormat(option.value);
+                        setPreview(null);
+                      }}
+                    >
+                      <Text style={[styles.chipText, dateFormat === option.value && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={[styles.section, styles.switchRow]}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.sectionTitle}>Expenses are positive</Text>
+                  <Text style={styles.hintText}>Turn on if the statement lists spending without a minus sign</Text>
+                </View>
+                <Switch
+                  value={invertAmounts}
+                  onValueChange={(value) => {
+                    setInvertAmounts(value);
+                    setPreview(null);
+                  }}
+                  trackColor={{ false: Colors.gray200, true: Colors.primary }}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, loading && styles.buttonDisabled]}
+                onPress={handleBuildPreview}
+                disabled={loading || importing}
+              >
+                <Text style={styles.primaryButtonText}>Preview</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <Text style={styles.hintText}>
+                {selectedRows.size} of {preview.length} rows selected
+                {duplicateCount > 0 ? ` · ${duplicateCount} possible duplicates` : ''}
+                {invalidCount > 0 ? ` · ${invalidCount} invalid` : ''}
+              </Text>
+
+              {preview.map(row => {
+                const selected = selectedRows.has(row.rowIndex);
+                return (
+                  <TouchableOpacity
+                    key={row.rowIndex}
+                    style={[styles.previewRow, !row.draft && styles.previewRowInvalid]}
+                    onPress={() => row.draft && toggleRow(row.rowIndex)}
+                    disabled={!row.draft}
+                  >
+                    <Ionicons
+                      name={!row.draft ? 'alert-circle-outline' : selected ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={!row.draft ? Colors.error : selected ? Colors.primary : Colors.textSecondary}
+                    />
+                    <View style={styles.previewRowBody}>
+                      {row.draft ? (
+                        <>
+                          <View style={styles.previewRowHeader}>
+                            <Text style={styles.previewMerchant} numberOfLines={1}>
+                              {row.draft.merchant || 'Transaction'}
+                            </Text>
+                            <Text
+                              style={[
+                                styles.previewAmount,
+                                { color: row.draft.amount > 0 ? Colors.success : Colors.error },
+                              ]}
+                            >
+                              {row.draft.amount > 0 ? '+' : ''}{row.draft.amount.toFixed(2)} {row.draft.currency}
+                            </Text>
+                          </View>
+                          <Text style={styles.previewMeta}>
+                            {new Date(row.draft.occurred_at).toLocaleDateString()}
+                            {row.draft.note ? ` · ${row.draft.note}` : ''}
+                          </Text>
+                          {row.duplicateOf && (
+                            <View style={styles.duplicateBadge}>
+                              <Ionicons name="copy-outline" size={12} color={Colors.white} style={{ marginRight: 4 }} />
+                              <Text style={styles.duplicateBadgeText}>Possible duplicate</Text>
+                            </View>
+                          )}
+                        </>
+                      ) : (
+                        <Text style={styles.previewError}>
+                          Row {row.rowIndex + 1}: {row.errors.join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+
+        {preview && (
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.primaryButton, (importing || selectedRows.size === 0) && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={importing || selectedRows.size === 0}
+            >
+              {importing ? (
+                <View style={styles.progressRow}>
+                  <ActivityIndicator color={Colors.white} />
+                  {progress && (
+                    <Text style={styles.primaryButtonText}>
+                      {progress.done}/{progress.total}
+                    </Text>
+                  )}
+                </View>
+              ) : (
+                <Text style={styles.primaryButtonText}>Import {selectedRows.size} Transactions</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+    gap: 12,
+  },
+  pickButtonTextContainer: {
+    flex: 1,
+  },
+  pickButtonTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  pickButtonSubtitle: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  chips: {
+    gap: 8,
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  sampleText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  previewRowInvalid: {
+    opacity: 0.8,
+  },
+  previewRowBody: {
+    flex: 1,
+  },
+  previewRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  previewMerchant: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  previewMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  previewError: {
+    fontSize: 13,
+    color: Colors.error,
+  },
+  duplicateBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: Colors.warning,
+  },
+  duplicateBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+});
@@ -0,0 +1,549 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import {
+  deleteMerchant,
+  getMerchants,
+  getMerchantUsage,
+  mergeMerchants,
+  saveMerchant,
+  suggestMerchantMerges,
+  updateMerchant,
+  type Merchant,
+  type MerchantUsage,
+} from '@/src/services/merchants';
+
+interface MerchantForm {
+  name: string;
+  aliases: string;
+}
+
+export default function MerchantsScreen() {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [usage, setUsage] = useState<MerchantUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Names waiting for a canonical name in the merge dialog
+  const [mergeNames, setMergeNames] = useState<string[] | null>(null);
+  const [mergeName, setMergeName] = useState('');
+  const [merging, setMerging] = useState(false);
+  // null: editor closed; 'new': adding; otherwise the merchant being edited
+  const [editing, setEditing] = useState<Merchant | 'new' | null>(null);
+  const [form, setForm] = useState<MerchantForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const suggestions = useMemo(() => suggestMerchantMerges(usage), [usage]);
+
+  const loadMerchants = async () => {
+    try {
+      const [registry, names] = await Promise.all([getMerchants(), getMerchantUsage()]);
+      setMerchants(registry);
+      setUsage(names);
+      setSelected(prev => new Set(names.filter(entry => prev.has(entry.name)).map(entry => entry.name)));
+    } catch (error) {
+      console.error('Failed to load merchants:', error);
+      Alert.alert('Error', 'Failed to load merchants');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMerchants();
+  }, []);
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const openMerge = (group: MerchantUsage[]) => {
+    // Suggest the registry name if one of them has it, otherwise the most used spelling
+    const canonical = group.find(entry => entry.canonical)?.canonical
+      ?? [...group].sort((a, b) => b.count - a.count)[0]?.name
+      ?? '';
+    setMergeNames(group.map(entry => entry.name));
+    setMergeName(canonical);
+  };
+
+  const closeMerge = () => {
+    setMergeNames(null);
+    setMergeName('');
+  };
+
+  const handleMerge = async () => {
+    if (!mergeNames) return;
+
+    const name = mergeName.trim();
+    if (!name) {
+      Alert.alert('Missing Name', 'Please enter the name to keep');
+      return;
+    }
+
+    setMerging(true);
+    try {
+      const { renamed } = await mergeMerchants(name, mergeNames);
+      closeMerge();
+      setSelected(new Set());
+      await loadMerchants();
+      Alert.alert('Merchants Merged', `${renamed} transaction(s) now use "${name}".`);
+    } catch (error) {
+      console.error('Failed to merge merchants:', error);
+      Alert.alert('Error', 'Failed to merge merchants');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const openEditor = (merchant: Merchant | 'new') => {
+    setEditing(merchant);
+    setForm(merchant === 'new'
+      ? { name: '', aliases: '' }
+      : { name: merchant.name, aliases: merchant.aliases.join('\n') });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || !editing) return;
+
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert('Missing Name', 'Please enter a name for the merchant');
+      return;
+    }
+    const aliases = form.aliases.split(/[\n,]/).map(alias => alias.trim()).filter(Boolean);
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await saveMerchant(name, aliases);
+      } else {
+        await updateMerchant(editing.id, { name, aliases });
+      }
+      closeEditor();
+      await loadMerchants();
+    } catch (error) {
+      console.error('Failed to save merchant:', error);
+      Alert.alert('Error', 'Failed to save merchant');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (merchant: Merchant) => {
+    Alert.alert(
+      'Delete Merchant',
+      `Remove "${merchant.name}" and its aliases? Transactions keep their merchant name.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteMerchant(merchant.id);
+              closeEditor();
+              await loadMerchants();
+            } catch {
+              Alert.alert('Error', 'Failed to delete merchant');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Merchants',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            New transactions and scanned receipts are saved under a merchant&apos;s name when they match it or one
+            of its aliases. Merge spellings to group them in reports.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : (
+            <>
+              {suggestions.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Suggested Merges</Text>
+                  {suggestions.map(group => (
+                    <View key={group.map(entry => entry.name).join('|')} style={styles.row}>
+                      <View style={styles.rowBody}>
+                        <Text style={styles.rowTitle} numberOfLines={2}>
+                          {group.map(entry => entry.name).join(' · ')}
+                        </Text>
+                        <Text style={styles.rowMeta}>
+                          {group.reduce((sum, entry) => sum + entry.count, 0)} transaction(s)
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => openMerge(group)}>
+                        <Text style={styles.linkText}>Merge</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Merchant List</Text>
+                {merchants.length === 0 ? (
+                  <Text style={styles.emptyText}>No merchants yet</Text>
+                ) : (
+                  merchants.map(merchant => (
+                    <TouchableOpacity key={merchant.id} style={styles.row} onPress={() => openEditor(merchant)}>
+                      <Ionicons name="storefront-outline" size={22} color={Colors.primary} />
+                      <View style={styles.rowBody}>
+                        <Text style={styles.rowTitle}>{merchant.name}</Text>
+                        <Text style={styles.rowMeta} numberOfLines={2}>
+                          {merchant.aliases.length > 0 ? merchant.aliases.join(', ') : 'No aliases'}
+                        </Text>
+                      </View>
+                      <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+                    </TouchableOpacity>
+                  ))
+                )}
+                <TouchableOpacity style={styles.primaryButton} onPress={() => openEditor('new')}>
+                  <Ionicons name="add" size={20} color={Colors.white} />
+                  <Text style={styles.primaryButtonText}>Add Merchant</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Names in Your Transactions</Text>
+                <Text style={styles.hintText}>
+                  Select the names that are the same merchant, then merge them. Past transactions are renamed too.
+                </Text>
+                {usage.length === 0 ? (
+                  <Text style={styles.emptyText}>No merchants in your transactions yet</Text>
+                ) : (
+                  usage.map(entry => {
+                    const checked = selected.has(entry.name);
+                    return (
+                      <TouchableOpacity key={entry.name} style={styles.row} onPress={() => toggleSelected(entry.name)}>
+                        <Ionicons
+                          name={checked ? 'checkbox' : 'square-outline'}
+                          size={22}
+                          color={checked ? Colors.primary : Colors.textSecondary}
+                        />
+                        <View style={styles.rowBody}>
+                          <Text style={styles.rowTitle}>{entry.name}</Text>
+                          <Text style={styles.rowMeta}>
+                            {entry.count} transaction(s)
+                            {entry.canonical && entry.canonical !== entry.name ? ` · becomes ${entry.canonical}` : ''}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        {selected.size > 0 && (
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => openMerge(usage.filter(entry => selected.has(entry.name)))}
+            >
+              <Ionicons name="git-merge-outline" size={20} color={Colors.white} />
+              <Text style={styles.primaryButtonText}>
+                {selected.size === 1 ? 'Rename Selected' : `Merge ${selected.size} Names`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Merge Dialog */}
+        <Modal visible={mergeNames !== null} transparent animationType="fade" onRequestClose={closeMerge}>
+          <View style={styles.dialogOverlay}>
+            <View style={styles.dialog}>
+              <Text style={styles.modalTitle}>Merge Merchants</Text>
+              <Text style={styles.hintText}>{mergeNames?.join(', ')}</Text>
+              <Text style={styles.label}>Keep as</Text>
+              <TextInput
+                style={styles.input}
+                value={mergeName}
+                onChangeText={setMergeName}
+                placeholder="e.g. McDonald's"
+                autoFocus
+              />
+              <View style={styles.dialogActions}>
+                <TouchableOpacity style={styles.dialogButton} onPress={closeMerge} disabled={merging}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.dialogButton} onPress={handleMerge} disabled={merging}>
+                  {merging ? (
+                    <ActivityIndicator color={Colors.primary} />
+                  ) : (
+                    <Text style={styles.secondaryButtonText}>Merge</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Merchant Editor */}
+        <Modal
+          visible={editing !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={closeEditor}
+        >
+          <SafeAreaView style={styles.container}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing === 'new' ? 'New Merchant' : 'Edit Merchant'}</Text>
+              <TouchableOpacity onPress={closeEditor}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            {form && (
+              <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Name *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.name}
+                    onChangeText={name => setForm({ ...form, name })}
+                    placeholder="e.g. McDonald's"
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Aliases</Text>
+                  <Text style={styles.hintText}>
+                    One per line. Case, punctuation and store numbers are ignored; use * to match anything
+                    (e.g. 7-eleven*).
+                  </Text>
+                  <TextInput
+                    style={[styles.input, styles.multilineInput]}
+                    value={form.aliases}
+                    onChangeText={aliases => setForm({ ...form, aliases })}
+                    placeholder={'MCDONALDS\n麥當勞'}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color={Colors.white} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+
+                {editing !== 'new' && editing && (
+                  <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(editing)}>
+                    <Text style={styles.deleteButtonText}>Delete Merchant</Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </Modal>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  multilineInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    gap: 6,
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  deleteButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+    backgroundColor: Colors.background,
+  },
+  dialogOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: Colors.white,
+  },
+  dialogActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  dialogButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,466 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import { formatDateTimeISO } from '@/src/utils/datetime';
+import { getAccounts, type Account } from '@/src/services/accounts';
+import type { Transaction } from '@/src/services/transactions';
+import {
+  buildReconciliationSummary,
+  finishReconciliation,
+  getReconciliations,
+  getReconcileState,
+  undoReconciliation,
+  type Reconciliation,
+} from '@/src/services/reconciliations';
+
+const formatAmount = (value: number) => `${value < 0 ? '-' : ''}${Math.abs(value).toFixed(2)}`;
+
+export default function ReconcileScreen() {
+  const { accountId } = useLocalSearchParams<{ accountId: string }>();
+  const [account, setAccount] = useState<Account | null>(null);
+  const [statementDate, setStatementDate] = useState(formatDateTimeISO(new Date()).slice(0, 10));
+  const [statementBalance, setStatementBalance] = useState('');
+  const [startingBalance, setStartingBalance] = useState(0);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [cleared, setCleared] = useState<Set<string>>(new Set());
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [finishing, setFinishing] = useState(false);
+
+  const validDate = /^\d{4}-\d{2}-\d{2}$/.test(statementDate);
+  const parsedBalance = parseFloat(statementBalance.replace(/,/g, ''));
+
+  const load = useCallback(async () => {
+    if (!accountId || !validDate) return;
+    setLoading(true);
+    try {
+      const accounts = await getAccounts({ includeArchived: true });
+      const current = accounts.find(item => item.id === accountId) ?? null;
+      setAccount(current);
+      if (!current) return;
+
+      const [state, reconciliations] = await Promise.all([
+        getReconcileState(current, statementDate),
+        getReconciliations(current.id),
+      ]);
+      setStartingBalance(state.startingBalance);
+      setTransactions(state.transactions);
+      setHistory(reconciliations);
+      // Keep ticks on transactions that are still in range
+      setCleared(prev => new Set(state.transactions.filter(t => prev.has(t.id)).map(t => t.id)));
+    } catch (error) {
+      console.error('Failed to load reconciliation:', error);
+      Alert.alert('Error', 'Failed to load transactions to reconcile');
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId, statementDate, validDate]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const summary = useMemo(
+    () => buildReconciliationSummary(
+      startingBalance,
+      transactions.filter(transaction => cleared.has(transaction.id)),
+      isNaN(parsedBalance) ? 0 : parsedBalance
+    ),
+    [startingBalance, transactions, cleared, parsedBalance]
+  );
+
+  const canFinish = !!account && validDate && !isNaN(parsedBalance) && summary.difference === 0 && !finishing;
+
+  const toggleCleared = (id: string) => {
+    setCleared(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setCleared(prev => (prev.size === transactions.length
+      ? new Set()
+      : new Set(transactions.map(transaction => transaction.id))));
+  };
+
+  const handleFinish = async () => {
+    if (!account || !canFinish) return;
+
+    setFinishing(true);
+    try {
+      await finishReconciliation(
+        account,
+        statementDate,
+        parsedBalance,
+        startingBalance,
+        transactions.filter(transaction => cleared.has(transaction.id))
+      );
+      Alert.alert(
+        'Reconciled',
+        `${cleared.size} transaction(s) are now locked. Editing them will ask for confirmation.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to finish reconciliation');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const handleUndo = (reconciliation: Reconciliation) => {
+    Alert.alert(
+      'Undo Reconciliation',
+      `Unlock the transactions reconciled against the ${reconciliation.statement_date} statement?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Undo',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await undoReconciliation(reconciliation.id);
+              await load();
+            } catch {
+              Alert.alert('Error', 'Failed to undo reconciliation');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: account ? `Reconcile ${account.name}` : 'Reconcile',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.hintText}>
+            Enter the closing date and ending balance from your statement, then tick off the transactions
+            that appear on it.
+          </Text>
+
+          <View style={styles.row}>
+            <View style={styles.field}>
+              <Text style={styles.label}>Statement Date</Text>
+              <TextInput
+                style={[styles.input, !validDate && styles.inputError]}
+                value={statementDate}
+                onChangeText={setStatementDate}
+                placeholder="YYYY-MM-DD"
+                autoCorrect={false}
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Ending Balance{account ? ` (${account.currency})` : ''}</Text>
+              <TextInput
+                style={styles.input}
+                value={statementBalance}
+                onChangeText={setStatementBalance}
+                placeholder="0.00"
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : !account ? (
+            <Text style={styles.emptyText}>Account not found</Text>
+          ) : (
+            <>
+              <View style={styles.summaryCard}>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Starting balance</Text>
+                  <Text style={styles.summaryValue}>{formatAmount(summary.startingBalance)}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Cleared ({cleared.size})</Text>
+                  <Text style={styles.summaryValue}>{formatAmount(summary.clearedTotal)}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Cleared balance</Text>
+                  <Text style={styles.summaryValue}>{formatAmount(summary.clearedBalance)}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Statement balance</Text>
+                  <Text style={styles.summaryValue}>
+                    {isNaN(parsedBalance) ? '—' : formatAmount(summary.statementBalance)}
+                  </Text>
+                </View>
+                <View style={[styles.summaryRow, styles.differenceRow]}>
+                  <Text style={styles.differenceLabel}>Difference</Text>
+                  <Text
+                    style={[
+                      styles.differenceValue,
+                      { color: summary.difference === 0 ? Colors.success : Colors.error },
+                    ]}
+                  >
+                    {isNaN(parsedBalance) ? '—' : formatAmount(summary.difference)}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Unreconciled Transactions</Text>
+                  {transactions.length > 0 && (
+                    <TouchableOpacity onPress={toggleAll}>
+                      <Text style={styles.linkText}>
+                        {cleared.size === transactions.length ? 'Clear All' : 'Select All'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                {transactions.length === 0 ? (
+                  <Text style={styles.emptyText}>Nothing left to reconcile up to this date</Text>
+                ) : (
+                  transactions.map(transaction => {
+                    const checked = cleared.has(transaction.id);
+                    return (
+                      <TouchableOpacity
+                        key={transaction.id}
+                        style={styles.transactionRow}
+                        onPress={() => toggleCleared(transaction.id)}
+                      >
+                        <Ionicons
+                          name={checked ? 'checkbox' : 'square-outline'}
+                          size={22}
+                          color={checked ? Colors.primary : Colors.textSecondary}
+                        />
+                        <View style={styles.transactionBody}>
+                          <Text style={styles.transactionMerchant} numberOfLines={1}>
+                            {transaction.merchant || 'Unknown'}
+                          </Text>
+                          <Text style={styles.transactionMeta}>
+                            {formatDateTimeISO(transaction.occurred_at).replace('T', ' ')}
+                            {transaction.currency !== account.currency ? ` · ${transaction.currency}` : ''}
+                          </Text>
+                        </View>
+                        <Text
+                          style={[
+                            styles.transactionAmount,
+                            { color: transaction.amount < 0 ? Colors.error : Colors.success },
+                          ]}
+                        >
+                          {formatAmount(transaction.amount)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, !canFinish && styles.buttonDisabled]}
+                onPress={handleFinish}
+                disabled={!canFinish}
+              >
+                {finishing ? (
+                  <ActivityIndicator color={Colors.white} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Finish Reconciliation</Text>
+                )}
+              </TouchableOpacity>
+              {!isNaN(parsedBalance) && summary.difference !== 0 && (
+                <Text style={styles.hintText}>
+                  The difference must be 0.00 before you can finish. Check for missing or duplicate transactions.
+                </Text>
+              )}
+
+              {history.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Past Reconciliations</Text>
+                  {history.map(reconciliation => (
+                    <View key={reconciliation.id} style={styles.transactionRow}>
+                      <Ionicons name="lock-closed-outline" size={20} color={Colors.textSecondary} />
+                      <View style={styles.transactionBody}>
+                        <Text style={styles.transactionMerchant}>{reconciliation.statement_date}</Text>
+                        <Text style={styles.transactionMeta}>
+                          Ending balance {formatAmount(Number(reconciliation.statement_balance))}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleUndo(reconciliation)}>
+                        <Text style={styles.linkText}>Undo</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.white,
+  },
+  inputError: {
+    borderColor: Colors.error,
+  },
+  summaryCard: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+    gap: 6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  differenceRow: {
+    marginTop: 4,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.gray200,
+  },
+  differenceLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+  },
+  differenceValue: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  transactionBody: {
+    flex: 1,
+  },
+  transactionMerchant: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  transactionMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  transactionAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
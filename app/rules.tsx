@@ -0,0 +1,718 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  Switch,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import { getCategories, type Category } from '@/src/services/categories';
+import { getPaymentMethods, type PaymentMethod } from '@/src/services/payment-methods';
+import {
+  addTransactionRule,
+  applyRuleChanges,
+  deleteTransactionRule,
+  getTransactionRules,
+  parseRuleConditions,
+  previewRulesOnExisting,
+  reorderTransactionRules,
+  updateTransactionRule,
+  type RuleChange,
+  type TransactionRule,
+} from '@/src/services/transaction-rules';
+
+interface RuleForm {
+  name: string;
+  conditions: string;
+  categoryId: string | null;
+  paymentMethod: string | null;
+}
+
+export default function RulesScreen() {
+  const [rules, setRules] = useState<TransactionRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null: editor closed; 'new': adding; otherwise the rule being edited
+  const [editing, setEditing] = useState<TransactionRule | 'new' | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Running rules on existing transactions
+  const [onlyEmpty, setOnlyEmpty] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [changes, setChanges] = useState<RuleChange[] | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const conditionError = form ? parseRuleConditions(form.conditions).error : null;
+
+  const loadRules = async () => {
+    try {
+      const [loadedRules, loadedCategories, loadedMethods] = await Promise.all([
+        getTransactionRules(),
+        getCategories(),
+        getPaymentMethods(),
+      ]);
+      setRules(loadedRules);
+      setCategories(loadedCategories);
+      setPaymentMethods(loadedMethods);
+    } catch (error) {
+      console.error('Failed to load rules:', error);
+      Alert.alert('Error', 'Failed to load rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const categoryName = (id: string | null | undefined) =>
+    (id && categories.find(category => category.id === id)?.name) || 'Uncategorized';
+
+  const describeRule = (rule: TransactionRule) => {
+    const actions = [
+      rule.category_id ? categoryName(rule.category_id) : null,
+      rule.payment_method ? `paid with ${rule.payment_method}` : null,
+    ].filter(Boolean);
+    return `${rule.conditions} → ${actions.join(', ')}`;
+  };
+
+  const openEditor = (rule: TransactionRule | 'new') => {
+    setEditing(rule);
+    setForm(rule === 'new'
+      ? { name: '', conditions: '', categoryId: null, paymentMethod: null }
+      : {
+          name: rule.name,
+          conditions: rule.conditions,
+          categoryId: rule.category_id,
+          paymentMethod: rule.payment_method,
+        });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || !editing) return;
+
+    if (conditionError) {
+      Alert.alert('Invalid Conditions', conditionError);
+      return;
+    }
+    if (!form.categoryId && !form.paymentMethod) {
+      Alert.alert('Nothing to Set', 'Choose a category or payment method for matching transactions');
+      return;
+    }
+
+    const values = {
+      name: form.name.trim() || form.conditions.trim(),
+      conditions: form.conditions,
+      category_id: form.categoryId,
+      payment_method: form.paymentMethod,
+    };
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await addTransactionRule(values);
+      } else {
+        await updateTransactionRule(editing.id, values);
+      }
+      closeEditor();
+      setChanges(null);
+      await loadRules();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: TransactionRule) => {
+    setRules(prev => prev.map(item => (item.id === rule.id ? { ...item, is_active: !rule.is_active } : item)));
+    try {
+      await updateTransactionRule(rule.id, { is_active: !rule.is_active });
+      setChanges(null);
+    } catch {
+      Alert.alert('Error', 'Failed to update rule');
+      await loadRules();
+    }
+  };
+
+  const handleDelete = (rule: TransactionRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Delete "${rule.name}"? Transactions it already categorized keep their category.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTransactionRule(rule.id);
+              closeEditor();
+              setChanges(null);
+              await loadRules();
+            } catch {
+              Alert.alert('Error', 'Failed to delete rule');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+
+    const ordered = [...rules];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    setRules(ordered);
+    setChanges(null);
+    try {
+      await reorderTransactionRules(ordered.map(rule => rule.id));
+    } catch (error) {
+      console.error('Failed to reorder rules:', error);
+      Alert.alert('Error', 'Failed to save the new order');
+      await loadRules();
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setChanges(await previewRulesOnExisting({ onlyEmpty }));
+      setExcluded(new Set());
+    } catch {
+      Alert.alert('Error', 'Failed to preview rules');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const toggleExcluded = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const applyChanges = async (selected: RuleChange[], allowReconciled: boolean) => {
+    setApplying(true);
+    setProgress({ done: 0, total: selected.length });
+    try {
+      const { updated, failed, skipped } = await applyRuleChanges(selected, {
+        allowReconciled,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setChanges(null);
+      let message = `Updated ${updated} transaction(s).`;
+      if (failed > 0) message += ` ${failed} could not be updated.`;
+      if (skipped > 0) message += ` ${skipped} reconciled transaction(s) were left unchanged.`;
+      Alert.alert('Rules Applied', message);
+    } catch {
+      Alert.alert('Error', 'Failed to apply rules');
+    } finally {
+      setApplying(false);
+      setProgress(null);
+    }
+  };
+
+  // Reconciled transactions are only changed if the user says so
+  const handleApply = () => {
+    if (!changes) return;
+    const selected = changes.filter(change => !excluded.has(change.transaction.id));
+    if (selected.length === 0) return;
+
+    const reconciledCount = selected.filter(change => change.transaction.reconciliation_id).length;
+    if (reconciledCount === 0) {
+      applyChanges(selected, false);
+      return;
+    }
+    Alert.alert(
+      'Reconciled Transactions',
+      `${reconciledCount} of ${selected.length} transaction(s) ${reconciledCount === 1 ? 'was' : 'were'} reconciled against a statement. Changing them will make those accounts no longer match their statements.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Skip Them', onPress: () => applyChanges(selected, false) },
+        { text: 'Change Anyway', onPress: () => applyChanges(selected, true) },
+      ]
+    );
+  };
+
+  const renderChange = (change: RuleChange) => {
+    const { transaction, updates, rule } = change;
+    const checked = !excluded.has(transaction.id);
+    return (
+      <TouchableOpacity key={transaction.id} style={styles.row} onPress={() => toggleExcluded(transaction.id)}>
+        <Ionicons
+          name={checked ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={checked ? Colors.primary : Colors.textSecondary}
+        />
+        <View style={styles.rowBody}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {transaction.merchant || 'Transaction'} · {Math.abs(transaction.amount).toFixed(2)} {transaction.currency}
+          </Text>
+          {updates.category_id !== undefined && (
+            <Text style={styles.rowMeta}>
+              {categoryName(transaction.category_id)} → {categoryName(updates.category_id)}
+            </Text>
+          )}
+          {updates.payment_method !== undefined && (
+            <Text style={styles.rowMeta}>
+              {transaction.payment_method || 'No payment method'} → {updates.payment_method}
+            </Text>
+          )}
+          <Text style={styles.rowHint}>
+            {new Date(transaction.occurred_at).toLocaleDateString()} · {rule.name}
+            {transaction.reconciliation_id ? ' · Reconciled' : ''}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Categorization Rules',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            Rules fill in the category and payment method of new transactions, scanned receipts, imports and
+            transactions added in chat. They run from top to bottom; the first matching rule wins.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : (
+            <>
+              <View style={styles.section}>
+                {rules.length === 0 ? (
+                  <Text style={styles.emptyText}>No rules yet</Text>
+                ) : (
+                  rules.map((rule, index) => (
+                    <TouchableOpacity key={rule.id} style={styles.row} onPress={() => openEditor(rule)}>
+                      <View style={styles.rowBody}>
+                        <Text style={[styles.rowTitle, !rule.is_active && styles.inactiveText]}>{rule.name}</Text>
+                        <Text style={styles.rowMeta} numberOfLines={2}>{describeRule(rule)}</Text>
+                      </View>
+                      <Switch
+                        value={rule.is_active}
+                        onValueChange={() => handleToggleActive(rule)}
+                        trackColor={{ true: Colors.primary, false: Colors.gray200 }}
+                      />
+                      <View>
+                        <TouchableOpacity
+                          style={styles.iconButton}
+                          onPress={() => handleMove(index, -1)}
+                          disabled={index === 0}
+                        >
+                          <Ionicons
+                            name="chevron-up"
+                            size={18}
+                            color={index === 0 ? Colors.gray200 : Colors.textSecondary}
+                          />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.iconButton}
+                          onPress={() => handleMove(index, 1)}
+                          disabled={index === rules.length - 1}
+                        >
+                          <Ionicons
+                            name="chevron-down"
+                            size={18}
+                            color={index === rules.length - 1 ? Colors.gray200 : Colors.textSecondary}
+                          />
+                        </TouchableOpacity>
+                      </View>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+
+              <TouchableOpacity style={styles.primaryButton} onPress={() => openEditor('new')}>
+                <Ionicons name="add" size={20} color={Colors.white} />
+                <Text style={styles.primaryButtonText}>Add Rule</Text>
+              </TouchableOpacity>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Existing Transactions</Text>
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>Only fill in missing categories and payment methods</Text>
+                  <Switch
+                    value={onlyEmpty}
+                    onValueChange={value => {
+                      setOnlyEmpty(value);
+                      setChanges(null);
+                    }}
+                    trackColor={{ true: Colors.primary, false: Colors.gray200 }}
+                  />
+                </View>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, (previewing || rules.length === 0) && styles.buttonDisabled]}
+                  onPress={handlePreview}
+                  disabled={previewing || rules.length === 0}
+                >
+                  {previewing ? (
+                    <ActivityIndicator color={Colors.primary} />
+                  ) : (
+                    <Text style={styles.secondaryButtonText}>Preview Changes</Text>
+                  )}
+                </TouchableOpacity>
+
+                {changes && (
+                  <View style={styles.section}>
+                    {changes.length === 0 ? (
+                      <Text style={styles.emptyText}>The rules don&apos;t change any transactions</Text>
+                    ) : (
+                      <>
+                        <Text style={styles.hintText}>
+                          {changes.length - excluded.size} of {changes.length} change(s) selected
+                        </Text>
+                        {changes.map(renderChange)}
+                        <TouchableOpacity
+                          style={[styles.primaryButton, applying && styles.buttonDisabled]}
+                          onPress={handleApply}
+                          disabled={applying || changes.length === excluded.size}
+                        >
+                          {applying ? (
+                            <Text style={styles.primaryButtonText}>
+                              Applying {progress?.done ?? 0}/{progress?.total ?? 0}…
+                            </Text>
+                          ) : (
+                            <Text style={styles.primaryButtonText}>Apply to {changes.length - excluded.size}</Text>
+                          )}
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </View>
+                )}
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        {/* Rule Editor */}
+        <Modal
+          visible={editing !== null}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={closeEditor}
+        >
+          <SafeAreaView style={styles.container}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing === 'new' ? 'New Rule' : 'Edit Rule'}</Text>
+              <TouchableOpacity onPress={closeEditor}>
+                <Ionicons name="close" size={28} color={Colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+
+            {form && (
+              <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>When</Text>
+                  <Text style={styles.hintText}>
+                    Conditions use the search syntax, e.g. merchant:&quot;7-Eleven&quot; or amount:&gt;10000 type:income
+                  </Text>
+                  <TextInput
+                    style={[styles.input, !!form.conditions && !!conditionError && styles.inputError]}
+                    value={form.conditions}
+                    onChangeText={conditions => setForm({ ...form, conditions })}
+                    placeholder='merchant:"7-Eleven"'
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {!!form.conditions && !!conditionError && (
+                    <Text style={styles.errorText}>{conditionError}</Text>
+                  )}
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Set Category</Text>
+                  <View style={styles.chipsWrap}>
+                    <TouchableOpacity
+                      style={[styles.chip, !form.categoryId && styles.chipActive]}
+                      onPress={() => setForm({ ...form, categoryId: null })}
+                    >
+                      <Text style={[styles.chipText, !form.categoryId && styles.chipTextActive]}>Don&apos;t change</Text>
+                    </TouchableOpacity>
+                    {categories.map(category => (
+                      <TouchableOpacity
+                        key={category.id}
+                        style={[styles.chip, form.categoryId === category.id && styles.chipActive]}
+                        onPress={() => setForm({ ...form, categoryId: category.id })}
+                      >
+                        <Text style={[styles.chipText, form.categoryId === category.id && styles.chipTextActive]}>
+                          {category.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Set Payment Method</Text>
+                  <View style={styles.chipsWrap}>
+                    <TouchableOpacity
+                      style={[styles.chip, !form.paymentMethod && styles.chipActive]}
+                      onPress={() => setForm({ ...form, paymentMethod: null })}
+                    >
+                      <Text style={[styles.chipText, !form.paymentMethod && styles.chipTextActive]}>
+                        Don&apos;t change
+                      </Text>
+                    </TouchableOpacity>
+                    {paymentMethods.map(method => (
+                      <TouchableOpacity
+                        key={method.id}
+                        style={[styles.chip, form.paymentMethod === method.name && styles.chipActive]}
+                        onPress={() => setForm({ ...form, paymentMethod: method.name })}
+                      >
+                        <Text style={[styles.chipText, form.paymentMethod === method.name && styles.chipTextActive]}>
+                          {method.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Name</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.name}
+                    onChangeText={name => setForm({ ...form, name })}
+                    placeholder="e.g. Convenience stores"
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator color={Colors.white} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+
+                {editing !== 'new' && editing && (
+                  <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(editing)}>
+                    <Text style={styles.deleteButtonText}>Delete Rule</Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </Modal>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.white,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  rowHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  inactiveText: {
+    color: Colors.textSecondary,
+  },
+  iconButton: {
+    padding: 2,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  input: {
+    backgroundColor: Colors.white,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+  inputError: {
+    borderColor: Colors.error,
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    gap: 6,
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  secondaryButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  deleteButton: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.textPrimary,
+  },
+});
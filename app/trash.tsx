@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/theme';
+import {
+  getTrash,
+  getTrashExpiry,
+  purgeTrash,
+  restoreFromTrash,
+  TRASH_RETENTION_DAYS,
+  type TrashEntry,
+} from '@/src/services/trash';
+import { refreshLocalStore } from '@/src/services/local-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Both legs of a transfer are restored and purged together, so they're shown as one row
+function groupEntries(entries: TrashEntry[]) {
+  const groups: TrashEntry[][] = [];
+  const transfers = new Map<string, TrashEntry[]>();
+  for (const entry of entries) {
+    const transferId = entry.transaction.transfer_id;
+    const legs = transferId ? transfers.get(transferId) : undefined;
+    if (legs) {
+      legs.push(entry);
+      continue;
+    }
+    const group = [entry];
+    if (transferId) transfers.set(transferId, group);
+    groups.push(group);
+  }
+  return groups;
+}
+
+function formatAmount(entry: TrashEntry) {
+  const { amount, currency } = entry.transaction;
+  return `${amount < 0 ? '-' : '+'}${currency} ${Math.abs(amount).toFixed(2)}`;
+}
+
+function daysLeft(entry: TrashEntry) {
+  return Math.max(0, Math.ceil((getTrashExpiry(entry).getTime() - Date.now()) / DAY_MS));
+}
+
+export default function TrashScreen() {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Id of the first entry in the group being restored or purged, or 'all'
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      setEntries(await getTrash());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      Alert.alert('Error', 'Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const removeFromList = (ids: string[]) => {
+    setEntries(prev => prev.filter(entry => !ids.includes(entry.id)));
+  };
+
+  const handleRestore = async (group: TrashEntry[]) => {
+    setBusyId(group[0].id);
+    try {
+      const restored = await restoreFromTrash(group.map(entry => entry.id));
+      removeFromList(restored.map(transaction => transaction.id));
+      refreshLocalStore();
+    } catch (error) {
+      console.error('Failed to restore transaction:', error);
+      Alert.alert('Error', 'Failed to restore the transaction');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (group: TrashEntry[]) => {
+    Alert.alert(
+      'Delete Permanently',
+      'This transaction, its items and attachments will be deleted for good. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(group[0].id);
+            try {
+              const ids = group.map(entry => entry.id);
+              await purgeTrash(ids);
+              removeFromList(ids);
+            } catch (error) {
+              console.error('Failed to purge transaction:', error);
+              Alert.alert('Error', 'Failed to delete the transaction');
+            } finally {
+              setBusyId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${entries.length} transaction(s) in the trash? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId('all');
+            try {
+              await purgeTrash();
+              setEntries([]);
+            } catch (error) {
+              console.error('Failed to empty trash:', error);
+              Alert.alert('Error', 'Failed to empty the trash');
+              loadTrash();
+            } finally {
+              setBusyId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderGroup = (group: TrashEntry[]) => {
+    const [entry] = group;
+    const { transaction } = entry;
+    const busy = busyId === entry.id || busyId === 'all';
+    const title = transaction.transfer_id
+      ? `Transfer${transaction.payment_method ? ` · ${transaction.payment_method}` : ''}`
+      : transaction.merchant || 'No merchant';
+    const days = daysLeft(entry);
+
+    return (
+      <View key={entry.id} style={styles.row}>
+        <View style={styles.rowBody}>
+          <View style={styles.titleRow}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{title}</Text>
+            <Text style={styles.amountText}>{formatAmount(entry)}</Text>
+          </View>
+          <Text style={styles.rowMeta}>
+            {new Date(transaction.occurred_at).toLocaleDateString()}
+            {entry.items.length > 0 ? ` · ${entry.items.length} item(s)` : ''}
+            {entry.attachments.length > 0 ? ` · ${entry.attachments.length} attachment(s)` : ''}
+          </Text>
+          <Text style={styles.rowMeta}>
+            Deleted {new Date(entry.deleted_at).toLocaleDateString()} · {days === 0 ? 'purged today' : `purged in ${days} day(s)`}
+          </Text>
+        </View>
+        {busy ? (
+          <ActivityIndicator color={Colors.primary} />
+        ) : (
+          <View style={styles.rowActions}>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => handleRestore(group)}
+              disabled={busyId !== null}
+            >
+              <Ionicons name="arrow-undo-outline" size={20} color={Colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => handlePurge(group)}
+              disabled={busyId !== null}
+            >
+              <Ionicons name="trash-outline" size={20} color={Colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Trash',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hintText}>
+            Deleted transactions are kept here for {TRASH_RETENTION_DAYS} days with their items, tags and
+            attachments, then deleted for good. Restoring one side of a transfer restores both.
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color={Colors.primary} />
+          ) : entries.length === 0 ? (
+            <Text style={styles.emptyText}>The trash is empty</Text>
+          ) : (
+            <>
+              {groupEntries(entries).map(renderGroup)}
+              <TouchableOpacity
+                style={[styles.dangerButton, busyId !== null && styles.buttonDisabled]}
+                onPress={handleEmptyTrash}
+                disabled={busyId !== null}
+              >
+                <Text style={styles.dangerButtonText}>Empty Trash</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginTop: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.white,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  amountText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  dangerButton: {
+    height: 44,
+    marginTop: 24,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.error,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Colors } from '../constants/theme';
+import { getTags, normalizeTagName } from '../src/services/tags';
+
+interface TagPickerProps {
+  // Selected tag names (normalized, without '#')
+  value: string[];
+  onChange: (names: string[]) => void;
+  labelStyle?: object;
+}
+
+// Existing tags offered while the input is empty
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tag chips for a transaction form: selected tags with a remove button, a
+ * text field that adds a new tag on submit, and the user's existing tags
+ * (filtered by what is typed) as one-tap suggestions.
+ */
+export default function TagPicker({ value, onChange, labelStyle }: TagPickerProps) {
+  const { t } = useTranslation();
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+
+  useEffect(() => {
+    getTags()
+      .then(tags => setKnownTags(tags.map(tag => tag.name)))
+      .catch(error => console.error('Failed to load tags:', error));
+  }, []);
+
+  const suggestions = useMemo(() => {
+    const typed = normalizeTagName(input);
+    return knownTags
+      .filter(name => !value.includes(name) && name.includes(typed))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [knownTags, value, input]);
+
+  const addTag = (name: string) => {
+    const tagName = normalizeTagName(name);
+    setInput('');
+    if (!tagName || value.includes(tagName)) return;
+    onChange([...value, tagName]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, labelStyle]}>{t('tags.title')}</Text>
+      {value.length > 0 && (
+        <View style={styles.chips}>
+          {value.map(name => (
+            <TouchableOpacity key={name} style={[styles.chip, styles.chipSelected]} onPress={() => removeTag(name)}>
+              <Text style={styles.chipSelectedText}>#{name}</Text>
+              <Ionicons name="close" size={14} color={Colors.white} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={styles.input}
+        placeholder={t('tags.placeholder')}
+        value={input}
+        onChangeText={setInput}
+        onSubmitEditing={() => addTag(input)}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.chips}>
+          {suggestions.map(name => (
+            <TouchableOpacity key={name} style={styles.chip} onPress={() => addTag(name)}>
+              <Text style={styles.chipText}>#{name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.gray200,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.primary,
+    fontWeight: '500',
+  },
+  chipSelectedText: {
+    fontSize: 13,
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: Colors.gray100,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.textPrimary,
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Modal,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { openBrowserAsync } from 'expo-web-browser';
+import { useTranslation } from 'react-i18next';
+import { Colors } from '../constants/theme';
+import {
+  addTransactionAttachment,
+  deleteAttachment,
+  getAttachmentUrls,
+  getTransactionAttachments,
+  isImageAttachment,
+  type Attachment,
+} from '../src/services/attachments';
+
+interface TransactionAttachmentsProps {
+  transactionId: string;
+  labelStyle?: object;
+}
+
+/**
+ * Attachment strip for an expanded transaction row: thumbnails of receipt
+ * photos, file chips for other documents, a full-screen image viewer and an
+ * "add" button. Long-press an attachment to delete it.
+ */
+export default function TransactionAttachments({ transactionId, labelStyle }: TransactionAttachmentsProps) {
+  const { t } = useTranslation();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const rows = await getTransactionAttachments(transactionId);
+      setAttachments(rows);
+      setUrls(rows.length > 0 ? await getAttachmentUrls(rows) : {});
+    } catch (error) {
+      console.error('Failed to load attachments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [transactionId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleAdd = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['image/*', 'application/pdf', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setUploading(true);
+      await addTransactionAttachment(transactionId, {
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType,
+        size: asset.size,
+      });
+      await loadAttachments();
+    } catch (error) {
+      console.error('Failed to add attachment:', error);
+      Alert.alert(t('attachments.error'), t('attachments.uploadFailed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    const url = urls[attachment.id];
+    if (!url) return;
+    if (isImageAttachment(attachment)) {
+      setViewing(attachment);
+      return;
+    }
+    if (Platform.OS === 'web') {
+      window.open(url, '_blank');
+    } else {
+      await openBrowserAsync(url);
+    }
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    Alert.alert(
+      t('attachments.deleteTitle'),
+      t('attachments.deleteConfirm', { name: attachment.file_name }),
+      [
+        { text: t('attachments.cancel'), style: 'cancel' },
+        {
+          text: t('attachments.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAttachment(attachment);
+              setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+            } catch (error) {
+              console.error('Failed to delete attachment:', error);
+              Alert.alert(t('attachments.error'), t('attachments.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, labelStyle]}>{t('attachments.title')}</Text>
+      {loading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loader} />
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+          {attachments.map(attachment => (
+            <TouchableOpacity
+              key={attachment.id}
+              onPress={() => handleOpen(attachment)}
+              onLongPress={() => handleDelete(attachment)}
+              style={styles.tile}
+            >
+              {isImageAttachment(attachment) && urls[attachment.id] ? (
+                <Image source={{ uri: urls[attachment.id] }} style={styles.thumbnail} />
+              ) : (
+                <View style={[styles.thumbnail, styles.fileTile]}>
+                  <Ionicons name="document-text-outline" size={24} color={Colors.primary} />
+                  <Text style={styles.fileName} numberOfLines={2}>{attachment.file_name}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={[styles.thumbnail, styles.addTile]} onPress={handleAdd} disabled={uploading}>
+            {uploading ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <>
+                <Ionicons name="attach-outline" size={22} color={Colors.primary} />
+                <Text style={styles.addText}>{t('attachments.add')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <Modal visible={!!viewing} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewerOverlay}>
+          <TouchableOpacity style={styles.viewerClose} onPress={() => setViewing(null)}>
+            <Ionicons name="close" size={28} color={Colors.white} />
+          </TouchableOpacity>
+          {viewing && urls[viewing.id] && (
+            <Image source={{ uri: urls[viewing.id] }} style={styles.viewerImage} resizeMode="contain" />
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  loader: {
+    alignSelf: 'flex-start',
+  },
+  strip: {
+    gap: 8,
+  },
+  tile: {
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  thumbnail: {
+    width: 64,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: Colors.gray100,
+  },
+  fileTile: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 4,
+    gap: 4,
+  },
+  fileName: {
+    fontSize: 10,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  addTile: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+    gap: 2,
+  },
+  addText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  viewerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  viewerClose: {
+    position: 'absolute',
+    top: 48,
+    right: 20,
+    zIndex: 1,
+    padding: 4,
+  },
+  viewerImage: {
+    width: '100%',
+    height: '80%',
+  },
+});
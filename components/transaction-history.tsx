@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Colors } from '../constants/theme';
+import {
+  getRevertChanges,
+  getTransactionHistory,
+  type TransactionHistoryEntry,
+} from '../src/services/transaction-history';
+import { updateTransaction, type Transaction } from '../src/services/transactions';
+import type { Category } from '../src/services/categories';
+
+interface TransactionHistoryProps {
+  transaction: Transaction;
+  // For showing category names instead of ids
+  categories: Category[];
+  onReverted?: (transaction: Transaction) => void;
+  labelStyle?: object;
+}
+
+/**
+ * Edit history for an expanded transaction row: who changed what and when,
+ * newest first, with a button to go back to any earlier version. Loaded the
+ * first time it's opened.
+ */
+export default function TransactionHistory({ transaction, categories, onReverted, labelStyle }: TransactionHistoryProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<TransactionHistoryEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setHistory(await getTransactionHistory(transaction.id));
+    } catch (error) {
+      console.error('Failed to load transaction history:', error);
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [transaction.id]);
+
+  useEffect(() => {
+    if (open) loadHistory();
+  }, [open, loadHistory, transaction.updated_at]);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    switch (field) {
+      case 'amount':
+        return Number(value).toFixed(2);
+      case 'occurred_at':
+        return new Date(String(value)).toLocaleString();
+      case 'category_id':
+        return categories.find(category => category.id === value)?.name ?? t('history.deletedCategory');
+      case 'account_id':
+        // The payment method next to it already names the account
+        return t('history.linked');
+      case 'source':
+        return t(`history.sources.${value}`, { defaultValue: String(value) });
+      default:
+        return String(value);
+    }
+  };
+
+  const revert = async (entry: TransactionHistoryEntry) => {
+    if (!history) return;
+    setRevertingId(entry.id);
+    try {
+      const changes = getRevertChanges(transaction, history, entry.id);
+      if (Object.keys(changes).length === 0) {
+        Alert.alert(t('history.revertTitle'), t('history.alreadyCurrent'));
+        return;
+      }
+      const updated = await updateTransaction(transaction.id, changes, {
+        base: transaction,
+        allowReconciled: true,
+        actor: 'manual',
+      });
+      onReverted?.(updated);
+      await loadHistory();
+    } catch (error) {
+      console.error('Failed to revert transaction:', error);
+      Alert.alert(t('history.error'), t('history.revertFailed'));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const handleRevert = (entry: TransactionHistoryEntry) => {
+    Alert.alert(
+      t('history.revertTitle'),
+      transaction.reconciliation_id ? t('history.revertReconciledConfirm') : t('history.revertConfirm'),
+      [
+        { text: t('history.cancel'), style: 'cancel' },
+        { text: t('history.revert'), onPress: () => revert(entry) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen(prev => !prev)}>
+        <Text style={[styles.label, labelStyle]}>{t('history.title')}</Text>
+        <Ionicons name={open ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+      </TouchableOpacity>
+
+      {open && (loading && !history ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loader} />
+      ) : !history || history.length === 0 ? (
+        <Text style={styles.emptyText}>{t('history.empty')}</Text>
+      ) : (
+        history.map((entry, index) => {
+          const fields = Object.entries(entry.changes);
+          // The newest entry is the current version; a transfer's legs change together
+          const canRevert = index > 0 && entry.action !== 'delete' && !transaction.transfer_id;
+          return (
+            <View key={entry.id} style={styles.entry}>
+              <View style={styles.entryHeader}>
+                <Text style={styles.entryTitle}>
+                  {t(`history.actions.${entry.action}`)} · {t(`history.sources.${entry.source}`, { defaultValue: entry.source })}
+                </Text>
+                <Text style={styles.entryTime}>{new Date(entry.changed_at).toLocaleString()}</Text>
+              </View>
+              {entry.action === 'update' && fields.map(([field, change]) => (
+                <Text key={field} style={styles.changeText}>
+                  {t(`history.fields.${field}`, { defaultValue: field })}: {formatValue(field, change.from)} → {formatValue(field, change.to)}
+                </Text>
+              ))}
+              {canRevert && (
+                <TouchableOpacity
+                  style={styles.revertButton}
+                  onPress={() => handleRevert(entry)}
+                  disabled={revertingId !== null}
+                >
+                  {revertingId === entry.id ? (
+                    <ActivityIndicator size="small" color={Colors.primary} />
+                  ) : (
+                    <>
+                      <Ionicons name="arrow-undo-outline" size={14} color={Colors.primary} />
+                      <Text style={styles.revertText}>{t('history.revertToVersion')}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  loader: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  entry: {
+    marginTop: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.gray200,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  entryTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  entryTime: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  changeText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+    paddingVertical: 2,
+  },
+  revertText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,16 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getOutboxState, subscribeToOutbox, type OutboxState } from '../services/outbox';
+
+/**
+ * Live state of the offline write queue, plus a Set of transaction ids that
+ * have changes waiting to sync (for "pending" badges on rows).
+ */
+export function useOutbox(): OutboxState & { pendingIds: Set<string> } {
+  const [state, setState] = useState<OutboxState>(getOutboxState);
+
+  useEffect(() => subscribeToOutbox(setState), []);
+
+  const pendingIds = useMemo(() => new Set(state.pendingTransactionIds), [state.pendingTransactionIds]);
+
+  return { ...state, pendingIds };
+}
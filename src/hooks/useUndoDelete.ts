@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { useToast } from '../providers/ToastProvider';
+import { useLanguage } from '../providers/LanguageProvider';
+import { undoDeleteTransactions } from '../services/transactions';
+import { refreshLocalStore } from '../services/local-store';
+
+// Long enough to notice the toast and reach for Undo
+const UNDO_TOAST_DURATION = 5000;
+
+/**
+ * Returns a function that shows the "moved to trash" toast with an Undo
+ * button for transactions that were just deleted.
+ *
+ * @example
+ * ```typescript
+ * const showUndoDelete = useUndoDelete();
+ * await deleteTransaction(id);
+ * showUndoDelete([id], () => loadData());
+ * ```
+ */
+export function useUndoDelete() {
+  const { showToast } = useToast();
+  const { t } = useLanguage();
+
+  return useCallback((ids: string[], onRestored?: () => void) => {
+    if (ids.length === 0) return;
+
+    showToast({
+      message: t('trash.movedToTrash', { count: ids.length }),
+      duration: UNDO_TOAST_DURATION,
+      action: {
+        label: t('trash.undo'),
+        onPress: async () => {
+          try {
+            const restored = await undoDeleteTransactions(ids);
+            if (restored === 0) {
+              showToast({ message: t('trash.undoFailed'), severity: 'error', duration: 3000 });
+              return;
+            }
+            showToast({ message: t('trash.restored', { count: restored }), severity: 'success' });
+            await refreshLocalStore();
+            onRestored?.();
+          } catch (error) {
+            console.error('Failed to undo delete:', error);
+            showToast({ message: t('trash.undoFailed'), severity: 'error', duration: 3000 });
+          }
+        },
+      },
+    });
+  }, [showToast, t]);
+}
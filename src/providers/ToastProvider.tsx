@@ -1,14 +1,21 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
-import { View, Text, StyleSheet, Animated, Platform } from 'react-native';
+import { View, Text, StyleSheet, Animated, Platform, TouchableOpacity } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '../../constants/theme';
 
 type ToastSeverity = 'success' | 'error' | 'info' | 'warning';
 
+// A button on the toast, e.g. "Undo"; pressing it also dismisses the toast
+interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastOptions {
   message: string;
   severity?: ToastSeverity;
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
@@ -19,6 +26,7 @@ interface ToastItem {
   id: number;
   message: string;
   severity: ToastSeverity;
+  action?: ToastAction;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -45,10 +53,10 @@ export function ToastProvider({ children }: { children: React.ReactNode }) {
   const insets = useSafeAreaInsets();
 
   const showToast = useCallback((options: ToastOptions) => {
-    const { message: msg, severity: sev = 'info', duration = 1500 } = options;
+    const { message: msg, severity: sev = 'info', duration = 1500, action } = options;
     const id = nextId.current++;
     
-    setToasts(prev => [...prev, { id, message: msg, severity: sev }]);
+    setToasts(prev => [...prev, { id, message: msg, severity: sev, action }]);
     
     // Auto remove after duration
     setTimeout(() => {
@@ -56,19 +64,23 @@ export function ToastProvider({ children }: { children: React.ReactNode }) {
     }, duration);
   }, []);
 
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
   return (
     <ToastContext.Provider value={{ showToast }}>
       {children}
-      <View style={[styles.toastWrapper, { top: insets.top + 10 }]} pointerEvents="none">
+      <View style={[styles.toastWrapper, { top: insets.top + 10 }]} pointerEvents="box-none">
         {toasts.map((toast, index) => (
-          <ToastItem key={toast.id} toast={toast} index={index} />
+          <ToastItem key={toast.id} toast={toast} index={index} onDismiss={dismissToast} />
         ))}
       </View>
     </ToastContext.Provider>
   );
 }
 
-function ToastItem({ toast, index }: { toast: ToastItem; index: number }) {
+function ToastItem({ toast, index, onDismiss }: { toast: ToastItem; index: number; onDismiss: (id: number) => void }) {
   const translateY = useRef(new Animated.Value(-100)).current;
   const opacity = useRef(new Animated.Value(0)).current;
   const colorScheme = severityColors[toast.severity];
@@ -91,6 +103,8 @@ function ToastItem({ toast, index }: { toast: ToastItem; index: number }) {
 
   return (
     <Animated.View
+      // Only toasts with an action take touches; the rest let them through
+      pointerEvents={toast.action ? 'auto' : 'none'}
       style={[
         styles.toastContainer,
         {
@@ -107,6 +121,19 @@ function ToastItem({ toast, index }: { toast: ToastItem; index: number }) {
       <Text style={[styles.toastMessage, { color: colorScheme.text }]}>
         {toast.message}
       </Text>
+      {toast.action && (
+        <TouchableOpacity
+          onPress={() => {
+            onDismiss(toast.id);
+            toast.action?.onPress();
+          }}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Text style={[styles.toastAction, { color: colorScheme.text }]}>
+            {toast.action.label}
+          </Text>
+        </TouchableOpacity>
+      )}
     </Animated.View>
   );
 }
@@ -145,4 +172,10 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  toastAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginLeft: 12,
+    textDecorationLine: 'underline',
+  },
 });
@@ -0,0 +1,111 @@
+import {
+  DEFAULT_MONTHLY_BUDGET,
+  findActiveBudget,
+  findActiveCategoryBudgets,
+  getBudgetAmountForPeriod,
+  getBudgetMonthlyAmount,
+  type Budget,
+} from '../budgets';
+import { buildCategoryBudgetProgress } from '../reports';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+function budget(overrides: Partial<Budget>): Budget {
+  return {
+    id: 'b1',
+    user_id: 'u1',
+    period: 'monthly',
+    amount: 3000,
+    start_date: '2025-01-01',
+    category_id: null,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('getBudgetMonthlyAmount', () => {
+  it('spreads a yearly budget over 12 months', () => {
+    expect(getBudgetMonthlyAmount(budget({ amount: 800 }))).toBe(800);
+    expect(getBudgetMonthlyAmount(budget({ period: 'yearly', amount: 1200 }))).toBe(100);
+  });
+});
+
+describe('getBudgetAmountForPeriod', () => {
+  const monthly = budget({ amount: 869 });
+  const yearly = budget({ period: 'yearly', amount: 5200 });
+
+  it('scales a monthly budget to a week, month and year', () => {
+    expect(getBudgetAmountForPeriod(monthly, 'week')).toBeCloseTo(200);
+    expect(getBudgetAmountForPeriod(monthly, 'month')).toBe(869);
+    expect(getBudgetAmountForPeriod(monthly, 'year')).toBe(869 * 12);
+  });
+
+  it('scales a yearly budget to a week, month and year', () => {
+    expect(getBudgetAmountForPeriod(yearly, 'week')).toBe(100);
+    expect(getBudgetAmountForPeriod(yearly, 'month')).toBeCloseTo(5200 / 12);
+    expect(getBudgetAmountForPeriod(yearly, 'year')).toBe(5200);
+  });
+
+  it('falls back to the default monthly budget', () => {
+    expect(getBudgetAmountForPeriod(null, 'month')).toBe(DEFAULT_MONTHLY_BUDGET);
+    expect(getBudgetAmountForPeriod(null, 'year')).toBe(DEFAULT_MONTHLY_BUDGET * 12);
+    expect(getBudgetAmountForPeriod(null, 'week')).toBe(Math.round(DEFAULT_MONTHLY_BUDGET / 4.345));
+  });
+});
+
+describe('active budgets', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const budgets = [
+    budget({ id: 'global-old', start_date: '2025-01-01' }),
+    budget({ id: 'global', start_date: '2025-06-01' }),
+    budget({ id: 'global-next', start_date: '2025-07-01' }),
+    budget({ id: 'food-old', category_id: 'food', start_date: '2025-02-01' }),
+    budget({ id: 'food', category_id: 'food', start_date: '2025-05-01' }),
+    budget({ id: 'travel-next', category_id: 'travel', start_date: '2025-07-01' }),
+  ];
+
+  it('picks the latest budget that has started, per category', () => {
+    expect(findActiveBudget(budgets)?.id).toBe('global');
+    expect(findActiveBudget(budgets, 'food')?.id).toBe('food');
+    expect(findActiveBudget(budgets, 'travel')).toBeNull();
+  });
+
+  it('lists the active budget of every budgeted category', () => {
+    expect(findActiveCategoryBudgets(budgets).map(active => active.id)).toEqual(['food']);
+  });
+});
+
+describe('buildCategoryBudgetProgress', () => {
+  const food = budget({ id: 'food', category_id: 'food', amount: 434.5 });
+  const travel = budget({ id: 'travel', category_id: 'travel', period: 'yearly', amount: 5200 });
+  const expenses = [
+    { amount: -50, category_id: 'food' },
+    { amount: -30, category_id: 'food' },
+    { amount: -100, category_id: 'travel' },
+    { amount: 20, category_id: 'food' },
+  ];
+
+  it('scales each category limit to the report period', () => {
+    const progress = buildCategoryBudgetProgress(expenses, expenses, [food, travel], 'week');
+
+    expect(progress.map(({ categoryId, limit, spent }) => ({ categoryId, limit, spent }))).toEqual([
+      { categoryId: 'travel', limit: 100, spent: 100 },
+      { categoryId: 'food', limit: expect.closeTo(100), spent: 80 },
+    ]);
+  });
+
+  it('uses the converted amounts for spending', () => {
+    const converted = expenses.map(expense => ({ amount: expense.amount * 2 }));
+    const [progress] = buildCategoryBudgetProgress(expenses, converted, [travel], 'year');
+
+    expect(progress).toMatchObject({ limit: 5200, spent: 200, remaining: 5000 });
+  });
+});
@@ -0,0 +1,147 @@
+import type { LocalSnapshot } from '../local-store';
+import type { Category } from '../categories';
+import { extractFeatures } from '../category-suggester';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+let mockSnapshot: LocalSnapshot | null = null;
+const mockStoreListeners: (() => void)[] = [];
+
+jest.mock('../local-store', () => ({
+  getLocalSnapshot: jest.fn(async () => mockSnapshot),
+  subscribeToLocalStore: jest.fn((listener: () => void) => {
+    mockStoreListeners.push(listener);
+    return () => {};
+  }),
+}));
+jest.mock('../outbox', () => ({ subscribeToOutbox: jest.fn(() => () => {}) }));
+
+function category(id: string, name: string): Category {
+  return { id, user_id: 'u1', name, created_at: FIXTURE_TIME };
+}
+
+const CATEGORIES = [category('coffee', 'Coffee'), category('groceries', 'Groceries'), category('transport', 'Transport')];
+
+function storeWith(transactions: LocalSnapshot['transactions']): LocalSnapshot {
+  return {
+    transactions,
+    categories: CATEGORIES,
+    budgets: [],
+    petState: null,
+    refreshedAt: FIXTURE_TIME,
+    fullRefreshedAt: FIXTURE_TIME,
+  };
+}
+
+const HISTORY = [
+  makeTransaction('t1', { merchant: 'Starbucks', category_id: 'coffee' }),
+  makeTransaction('t2', { merchant: 'STARBUCKS #12', amount: -38, category_id: 'coffee' }),
+  makeTransaction('t3', { merchant: 'Pacific Coffee', amount: -35, category_id: 'coffee' }),
+  makeTransaction('t4', { merchant: 'Wellcome', amount: -260, note: 'weekly shop', category_id: 'groceries' }),
+  makeTransaction('t5', { merchant: 'Wellcome', amount: -310, category_id: 'groceries' }),
+  makeTransaction('t6', { merchant: 'MTR', amount: -12, payment_method: 'Octopus', category_id: 'transport' }),
+];
+
+// Model state starts empty in every test
+function loadSuggester() {
+  jest.resetModules();
+  return jest.requireActual<typeof import('../category-suggester')>('../category-suggester');
+}
+
+// Let a sync started by a store change finish
+async function flushSync() {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+beforeEach(() => {
+  mockSnapshot = storeWith(HISTORY);
+  mockStoreListeners.length = 0;
+});
+
+describe('extractFeatures', () => {
+  it('weights the merchant and reads words from merchant, note and items', () => {
+    expect(extractFeatures({
+      merchant: 'Pacific Coffee #3',
+      note: 'Oat latte for the team',
+      itemNames: ['Croissant x2'],
+    })).toEqual([
+      'm:pacificcoffee',
+      'm:pacificcoffee',
+      'm:pacificcoffee',
+      'w:pacific',
+      'w:coffee',
+      'n:oat',
+      'n:latte',
+      'n:team',
+      'i:croissant',
+      'i:x2',
+    ]);
+  });
+
+  it('buckets the amount by size and direction', () => {
+    expect(extractFeatures({ amount: -42 })).toEqual(['a:-3']);
+    expect(extractFeatures({ amount: -45 })).toEqual(['a:-3']);
+    expect(extractFeatures({ amount: -420 })).toEqual(['a:-5']);
+    expect(extractFeatures({ amount: 42 })).toEqual(['a:+3']);
+    expect(extractFeatures({ amount: 0, paymentMethod: ' Octopus ' })).toEqual(['p:octopus']);
+  });
+});
+
+describe('suggestCategories', () => {
+  it('suggests the category of similar past transactions first', async () => {
+    const { suggestCategories } = loadSuggester();
+
+    const [best, ...rest] = await suggestCategories({ merchant: 'starbucks', amount: -45 });
+
+    expect(best.category.name).toBe('Coffee');
+    expect(best.confidence).toBeGreaterThan(0.5);
+    expect(rest.map(suggestion => suggestion.category.name)).toEqual(['Transport', 'Groceries']);
+    const total = [best, ...rest].reduce((sum, suggestion) => sum + suggestion.confidence, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('learns from notes and payment methods too', async () => {
+    const { suggestCategories } = loadSuggester();
+
+    expect((await suggestCategories({ note: 'shop' }, 1))[0].category.id).toBe('groceries');
+    expect((await suggestCategories({ paymentMethod: 'octopus', amount: -10 }, 1))[0].category.id).toBe('transport');
+  });
+
+  it('needs something besides the amount that it has seen before', async () => {
+    const { suggestCategories } = loadSuggester();
+
+    expect(await suggestCategories({ amount: -42 })).toEqual([]);
+    expect(await suggestCategories({ merchant: 'Pret', amount: -42 })).toEqual([]);
+  });
+
+  it('waits for enough history and ignores transfers and uncategorized transactions', async () => {
+    mockSnapshot = storeWith([
+      HISTORY[0],
+      HISTORY[1],
+      makeTransaction('t7', { merchant: 'Starbucks' }),
+      makeTransaction('t8', { merchant: 'Starbucks', category_id: 'coffee', transfer_id: 'x1' }),
+    ]);
+    const { suggestCategories } = loadSuggester();
+
+    expect(await suggestCategories({ merchant: 'Starbucks' })).toEqual([]);
+  });
+
+  it('follows recategorized and deleted transactions in the store', async () => {
+    const { startCategorySuggesterSync, suggestCategories } = loadSuggester();
+    await suggestCategories({ merchant: 'Starbucks' });
+    const stop = startCategorySuggesterSync();
+
+    mockSnapshot = storeWith([
+      ...HISTORY.slice(0, 2).map(transaction => ({ ...transaction, category_id: 'groceries' })),
+      ...HISTORY.slice(3),
+    ]);
+    mockStoreListeners.forEach(listener => listener());
+    await flushSync();
+
+    const suggestions = await suggestCategories({ merchant: 'Starbucks' });
+    expect(suggestions[0].category.id).toBe('groceries');
+    expect(suggestions.map(suggestion => suggestion.category.id)).not.toContain('coffee');
+    stop();
+  });
+});
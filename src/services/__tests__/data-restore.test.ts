@@ -0,0 +1,239 @@
+import { createAccountBackup } from '../data-export';
+import { parseAccountBackup, restoreAccountBackup } from '../data-restore';
+import type { Account } from '../accounts';
+import type { Category } from '../categories';
+import type { Tag, TransactionTag } from '../tags';
+import type { TransactionRule } from '../transaction-rules';
+import {
+  queryMethod,
+  queryStep,
+  resetSupabaseMock,
+  respondToQueries,
+  type QueryResult,
+  type RecordedQuery,
+} from '../../test-utils/supabase-mock';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+
+type Row = Record<string, any>;
+
+// Answer like a database holding `tables`: filters, ranges, inserts, updates and deletes apply to it
+function respondLikeDatabase(tables: Record<string, Row[]>) {
+  let nextId = 0;
+  return (query: RecordedQuery): QueryResult => {
+    const rows = (tables[query.table] ??= []);
+    const matches = (row: Row) => query.steps.every(([name, args]) => {
+      if (name === 'eq') return row[args[0] as string] === args[1];
+      if (name === 'in') return (args[1] as unknown[]).includes(row[args[0] as string]);
+      return true;
+    });
+    const single = queryStep(query, 'single') !== undefined;
+    const args = query.steps[0][1];
+
+    switch (queryMethod(query)) {
+      case 'select': {
+        const range = queryStep(query, 'range') as [number, number] | undefined;
+        const found = rows.filter(matches).slice(range?.[0] ?? 0, range ? range[1] + 1 : undefined);
+        if (!single) return { data: found, error: null };
+        return found[0] ? { data: found[0], error: null } : { data: null, error: { code: 'PGRST116', message: 'No rows' } };
+      }
+      case 'insert': {
+        const inserted = (args[0] as Row[]).map(row =>
+          query.table === 'transaction_tags' ? { ...row } : { id: `new-${++nextId}`, ...row }
+        );
+        rows.push(...inserted);
+        return { data: single ? inserted[0] : inserted, error: null };
+      }
+      case 'update':
+        rows.filter(matches).forEach(row => Object.assign(row, args[0]));
+        return { data: null, error: null };
+      case 'delete':
+        tables[query.table] = rows.filter(row => !matches(row));
+        return { data: null, error: null };
+      default:
+        return { data: null, error: null };
+    }
+  };
+}
+
+function category(id: string, name: string): Category {
+  return { id, user_id: 'u1', name, created_at: FIXTURE_TIME };
+}
+
+function account(id: string, name: string): Account {
+  return {
+    id,
+    user_id: 'u1',
+    name,
+    type: 'credit_card',
+    currency: 'HKD',
+    opening_balance: 0,
+    icon: null,
+    sort_order: 0,
+    is_archived: false,
+    created_at: FIXTURE_TIME,
+  };
+}
+
+function tag(id: string, name: string): Tag {
+  return { id, user_id: 'u1', name, created_at: FIXTURE_TIME };
+}
+
+function link(transactionId: string, tagId: string): TransactionTag {
+  return { transaction_id: transactionId, tag_id: tagId, user_id: 'u1', created_at: FIXTURE_TIME };
+}
+
+function transactionRule(id: string, overrides: Partial<TransactionRule>): TransactionRule {
+  return {
+    id,
+    user_id: 'u1',
+    name: id,
+    conditions: 'merchant:starbucks',
+    category_id: null,
+    payment_method: null,
+    priority: 1,
+    is_active: true,
+    created_at: FIXTURE_TIME,
+    updated_at: FIXTURE_TIME,
+    ...overrides,
+  };
+}
+
+function accountData(): Record<string, Row[]> {
+  return {
+    categories: [category('food', 'Food')],
+    accounts: [account('visa', 'HSBC Visa')],
+    transactions: [
+      makeTransaction('t1', { category_id: 'food', account_id: 'visa', payment_method: 'HSBC Visa' }),
+      makeTransaction('t2'),
+    ],
+    tags: [tag('work', 'work'), tag('trip', 'japan-trip')],
+    transaction_tags: [link('t1', 'work'), link('t2', 'trip'), link('t2', 'work')],
+    transaction_rules: [
+      transactionRule('coffee', { category_id: 'food' }),
+      transactionRule('visa', { payment_method: 'HSBC Visa', priority: 2 }),
+    ],
+  };
+}
+
+async function backUp(tables: Record<string, Row[]>) {
+  respondToQueries(respondLikeDatabase(tables));
+  // Through JSON, like a backup file
+  return parseAccountBackup(JSON.stringify(await createAccountBackup()));
+}
+
+beforeEach(() => {
+  resetSupabaseMock();
+});
+
+describe('backup and restore', () => {
+  it('brings back tags and tag links after a replace', async () => {
+    const tables = accountData();
+    const backup = await backUp(tables);
+    expect(backup.tags).toHaveLength(2);
+    expect(backup.transaction_tags).toHaveLength(3);
+
+    const report = await restoreAccountBackup(backup, 'replace');
+
+    expect(report.skipped).toEqual([]);
+    expect(report.restored).toMatchObject({ transactions: 2, tags: 2, transaction_tags: 3 });
+    expect(tables.tags).toEqual(accountData().tags);
+    expect(tables.transaction_tags).toEqual(accountData().transaction_tags);
+  });
+
+  it('links restored transactions to tags the account already has when merging', async () => {
+    const backup = await backUp(accountData());
+    const tables: Record<string, Row[]> = { tags: [tag('local-work', 'work')] };
+    respondToQueries(respondLikeDatabase(tables));
+
+    const report = await restoreAccountBackup(backup, 'merge');
+
+    expect(report.restored).toMatchObject({ tags: 1, transaction_tags: 3 });
+    expect(tables.tags.map(row => row.id)).toEqual(['local-work', 'trip']);
+    expect(tables.transaction_tags.map(row => `${row.transaction_id}/${row.tag_id}`)).toEqual([
+      't1/local-work',
+      't2/trip',
+      't2/local-work',
+    ]);
+  });
+
+  it('restores a backup made before tags were backed up', async () => {
+    const backup = await backUp(accountData());
+    const { tags: _tags, transaction_tags: _links, ...older } = backup;
+    const tables: Record<string, Row[]> = {};
+    respondToQueries(respondLikeDatabase(tables));
+
+    const report = await restoreAccountBackup(parseAccountBackup(JSON.stringify(older)), 'merge');
+
+    expect(report.restored).toMatchObject({ transactions: 2, tags: 0, transaction_tags: 0 });
+  });
+
+  it('keeps transactions on their accounts', async () => {
+    const tables = accountData();
+    const backup = await backUp(tables);
+
+    const report = await restoreAccountBackup(backup, 'replace');
+
+    expect(report.restored).toMatchObject({ accounts: 0, transactions: 2 });
+    expect(tables.accounts.map(row => row.id)).toEqual(['visa']);
+    expect(tables.transactions.map(row => row.account_id)).toEqual(['visa', null]);
+  });
+
+  it('moves transactions onto an account with the same name when merging', async () => {
+    const backup = await backUp(accountData());
+    const tables: Record<string, Row[]> = { accounts: [account('local-visa', 'hsbc visa')] };
+    respondToQueries(respondLikeDatabase(tables));
+
+    const report = await restoreAccountBackup(backup, 'merge');
+
+    expect(report.restored.accounts).toBe(0);
+    expect(tables.transactions.map(row => row.account_id)).toEqual(['local-visa', null]);
+  });
+
+  it('creates accounts the account does not have yet', async () => {
+    const backup = await backUp(accountData());
+    const tables: Record<string, Row[]> = {};
+    respondToQueries(respondLikeDatabase(tables));
+
+    const report = await restoreAccountBackup(backup, 'merge');
+
+    expect(report.restored.accounts).toBe(1);
+    expect(tables.transactions.map(row => row.account_id)).toEqual(['visa', null]);
+  });
+
+  it('links transactions by payment method when the backup has no accounts', async () => {
+    const { accounts: _accounts, ...older } = await backUp(accountData());
+    const tables: Record<string, Row[]> = { accounts: [account('local-visa', 'HSBC Visa')] };
+    respondToQueries(respondLikeDatabase(tables));
+
+    await restoreAccountBackup(parseAccountBackup(JSON.stringify(older)), 'merge');
+
+    expect(tables.transactions.map(row => row.account_id)).toEqual(['local-visa', null]);
+  });
+
+  it('brings back categorization rules pointing at the restored categories', async () => {
+    const tables = accountData();
+    const backup = await backUp(tables);
+
+    const report = await restoreAccountBackup(backup, 'replace');
+
+    expect(report.restored.transaction_rules).toBe(2);
+    const [food] = tables.categories;
+    expect(tables.transaction_rules).toEqual([
+      expect.objectContaining({ id: 'coffee', category_id: food.id }),
+      expect.objectContaining({ id: 'visa', category_id: null, payment_method: 'HSBC Visa', priority: 2 }),
+    ]);
+  });
+
+  it('skips rules the account already has when merging', async () => {
+    const backup = await backUp(accountData());
+    const tables: Record<string, Row[]> = { transaction_rules: [transactionRule('coffee', { category_id: 'x' })] };
+    respondToQueries(respondLikeDatabase(tables));
+
+    const report = await restoreAccountBackup(backup, 'merge');
+
+    expect(report.restored.transaction_rules).toBe(1);
+    expect(report.skipped).toContainEqual({ table: 'transaction_rules', id: 'coffee', reason: 'Already exists' });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  chooseTransactionToKeep,
+  dismissDuplicatePair,
+  findDuplicatePairs,
+  findPossibleDuplicates,
+  mergeDuplicates,
+  merchantSimilarity,
+  scoreDuplicate,
+} from '../duplicates';
+import { deleteTransaction, updateTransaction } from '../transactions';
+import { addReceiptItems, type ItemRow } from '../items';
+import { setTransactionTags } from '../tags';
+import { getLocalSnapshot } from '../local-store';
+import { hoursAfterFixture, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../transactions', () => ({
+  deleteTransaction: jest.fn(),
+  getAllMatchingTransactions: jest.fn(),
+  updateTransaction: jest.fn(),
+}));
+jest.mock('../items', () => ({ addReceiptItems: jest.fn() }));
+jest.mock('../tags', () => ({ setTransactionTags: jest.fn() }));
+jest.mock('../local-store', () => ({ getLocalSnapshot: jest.fn() }));
+
+const mockGetLocalSnapshot = getLocalSnapshot as jest.Mock;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('merchantSimilarity', () => {
+  it('ignores case, punctuation and store numbers', () => {
+    expect(merchantSimilarity('STARBUCKS #1234', 'starbucks')).toBe(1);
+  });
+
+  it('scores partial names and typos between 0 and 1', () => {
+    expect(merchantSimilarity('Starbucks Central', 'Starbucks')).toBe(0.8);
+    expect(merchantSimilarity('Starbucks', 'Starbukcs')).toBeGreaterThan(0.5);
+    expect(merchantSimilarity('Starbucks', 'Wellcome')).toBeLessThan(0.2);
+  });
+
+  it('treats missing and placeholder merchants as unknown', () => {
+    expect(merchantSimilarity(null, 'Starbucks')).toBe(0.5);
+    expect(merchantSimilarity('Transaction', 'Starbucks')).toBe(0.5);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  const base = makeTransaction('a');
+
+  it('scores the same purchase within an hour as certain', () => {
+    expect(scoreDuplicate(base, makeTransaction('b', { occurred_at: hoursAfterFixture(0.5) }))).toBe(1);
+  });
+
+  it('scores lower as the time, merchant and amount drift apart', () => {
+    expect(scoreDuplicate(base, makeTransaction('b', { occurred_at: hoursAfterFixture(3) }))).toBe(0.9);
+    expect(scoreDuplicate(base, makeTransaction('b', { occurred_at: hoursAfterFixture(24) }))).toBe(0.75);
+    expect(scoreDuplicate(base, makeTransaction('b', { merchant: null }))).toBe(0.83);
+    expect(scoreDuplicate(base, makeTransaction('b', { amount: -42.5 }))).toBe(0.85);
+  });
+
+  it('never matches transfers, other currencies, other signs or distant times', () => {
+    expect(scoreDuplicate(base, base)).toBe(0);
+    expect(scoreDuplicate(base, makeTransaction('b', { transfer_id: 'x' }))).toBe(0);
+    expect(scoreDuplicate(base, makeTransaction('b', { currency: 'USD' }))).toBe(0);
+    expect(scoreDuplicate(base, makeTransaction('b', { amount: 42 }))).toBe(0);
+    expect(scoreDuplicate(base, makeTransaction('b', { amount: -50 }))).toBe(0);
+    expect(scoreDuplicate(base, makeTransaction('b', { occurred_at: hoursAfterFixture(73) }))).toBe(0);
+  });
+
+  it('compares a draft without an id', () => {
+    expect(scoreDuplicate({ amount: -42, merchant: 'starbucks', occurred_at: hoursAfterFixture(0) }, base)).toBe(1);
+  });
+});
+
+describe('findPossibleDuplicates', () => {
+  it('returns likely matches from the local snapshot, most likely first', async () => {
+    const sameDay = makeTransaction('same-day', { occurred_at: hoursAfterFixture(3) });
+    const exact = makeTransaction('exact');
+    mockGetLocalSnapshot.mockResolvedValue({
+      transactions: [sameDay, makeTransaction('other', { merchant: 'Wellcome', amount: -10 }), exact],
+    });
+
+    const matches = await findPossibleDuplicates({ amount: -42, merchant: 'Starbucks', occurred_at: hoursAfterFixture(0) });
+    expect(matches.map(match => match.transaction.id)).toEqual(['exact', 'same-day']);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs likely duplicates and leaves out dismissed pairs', async () => {
+    mockGetLocalSnapshot.mockResolvedValue({
+      transactions: [
+        makeTransaction('a'),
+        makeTransaction('b', { occurred_at: hoursAfterFixture(0.5) }),
+        makeTransaction('c', { amount: -18, merchant: 'Pret' }),
+        makeTransaction('d', { amount: -18, merchant: 'Pret', occurred_at: hoursAfterFixture(2) }),
+        makeTransaction('e', { occurred_at: hoursAfterFixture(100) }),
+      ],
+    });
+
+    expect((await findDuplicatePairs()).map(pair => [pair.a.id, pair.b.id, pair.score])).toEqual([
+      ['a', 'b', 1],
+      ['c', 'd', 0.9],
+    ]);
+
+    await dismissDuplicatePair('d', 'c');
+    expect((await findDuplicatePairs()).map(pair => [pair.a.id, pair.b.id])).toEqual([['a', 'b']]);
+  });
+});
+
+describe('chooseTransactionToKeep', () => {
+  it('keeps a reconciled transaction, then the more detailed one, then the older one', () => {
+    const plain = makeTransaction('plain', { created_at: '2025-05-19T00:00:00.000Z' });
+    const noted = makeTransaction('noted', { note: 'team lunch' });
+    const reconciled = makeTransaction('reconciled', { reconciliation_id: 'r1' });
+
+    expect(chooseTransactionToKeep(plain, reconciled)).toEqual([reconciled, plain]);
+    expect(chooseTransactionToKeep(plain, noted)).toEqual([noted, plain]);
+    expect(chooseTransactionToKeep(makeTransaction('newer'), plain)).toEqual([plain, makeTransaction('newer')]);
+  });
+});
+
+describe('mergeDuplicates', () => {
+  it('fills in blanks, copies missing items and tags, then deletes the duplicate', async () => {
+    const item: ItemRow = {
+      id: 'i1',
+      transaction_id: 'keep',
+      user_id: 'u1',
+      item_name: 'Latte',
+      item_amount: 1,
+      item_price: 42,
+      category_id: null,
+    };
+    const keep = makeTransaction('keep', { note: 'lunch', items: [item] });
+    const remove = makeTransaction('remove', {
+      note: 'with Sam',
+      category_id: 'food',
+      items: [
+        { ...item, id: 'i2', transaction_id: 'remove' },
+        { ...item, id: 'i3', transaction_id: 'remove', item_name: 'Muffin', item_price: 20 },
+      ],
+      tags: [{ id: 'g1', user_id: 'u1', name: 'work', created_at: '2025-01-01T00:00:00.000Z' }],
+    });
+    (updateTransaction as jest.Mock).mockResolvedValue({ ...keep, note: 'lunch\nwith Sam', category_id: 'food' });
+
+    const merged = await mergeDuplicates(keep, remove);
+
+    expect(updateTransaction).toHaveBeenCalledWith(
+      'keep',
+      { note: 'lunch\nwith Sam', category_id: 'food' },
+      { base: keep, allowReconciled: undefined }
+    );
+    expect(addReceiptItems).toHaveBeenCalledWith('keep', [
+      { name: 'Muffin', amount: 1, price: 20, categoryId: null },
+    ]);
+    expect(setTransactionTags).toHaveBeenCalledWith('keep', ['work']);
+    expect(deleteTransaction).toHaveBeenCalledWith('remove', {
+      baseUpdatedAt: remove.updated_at,
+      allowReconciled: undefined,
+    });
+    expect(merged.note).toBe('lunch\nwith Sam');
+  });
+
+  it('refuses to merge a transaction with itself', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const only = makeTransaction('a');
+    await expect(mergeDuplicates(only, only)).rejects.toThrow('Cannot merge a transaction with itself');
+    expect(deleteTransaction).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
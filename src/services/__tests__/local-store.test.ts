@@ -0,0 +1,52 @@
+import { getOfflineUserId } from '../outbox';
+import type { PetState } from '../pet';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../outbox', () => ({
+  getOfflineUserId: jest.fn(async () => 'u1'),
+  applyPendingChanges: jest.fn(async (transactions: unknown[]) => transactions),
+  subscribeToOutbox: jest.fn(() => () => {}),
+}));
+
+// The snapshot in memory and in storage starts empty in every test
+function loadStore() {
+  jest.resetModules();
+  jest.doMock('../outbox', () => ({
+    getOfflineUserId,
+    applyPendingChanges: jest.fn(async (transactions: unknown[]) => transactions),
+    subscribeToOutbox: jest.fn(() => () => {}),
+  }));
+  return jest.requireActual<typeof import('../local-store')>('../local-store');
+}
+
+describe('snapshot updates', () => {
+  it('keeps every change when they arrive together', async () => {
+    const store = loadStore();
+
+    await Promise.all([
+      store.applyTransactionChange({ eventType: 'INSERT', new: makeTransaction('t1') }),
+      store.applyTransactionChange({ eventType: 'INSERT', new: makeTransaction('t2', { occurred_at: '2025-05-21T04:00:00.000Z' }) }),
+      store.applyCategoryChange({ eventType: 'INSERT', new: { id: 'food', user_id: 'u1', name: 'Food', created_at: FIXTURE_TIME } }),
+      store.saveLocalPetState({ user_id: 'u1' } as PetState),
+    ]);
+
+    const snapshot = await store.getLocalSnapshot();
+    expect(snapshot?.transactions.map(transaction => transaction.id)).toEqual(['t2', 't1']);
+    expect(snapshot?.categories.map(category => category.id)).toEqual(['food']);
+    expect(snapshot?.petState).toEqual({ user_id: 'u1' });
+  });
+
+  it('runs later changes after one that fails', async () => {
+    const store = loadStore();
+    (getOfflineUserId as jest.Mock).mockRejectedValueOnce(new Error('storage unavailable'));
+
+    const results = await Promise.allSettled([
+      store.applyTransactionChange({ eventType: 'INSERT', new: makeTransaction('t1') }),
+      store.applyTransactionChange({ eventType: 'INSERT', new: makeTransaction('t2') }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    expect((await store.getLocalSnapshot())?.transactions.map(transaction => transaction.id)).toEqual(['t2']);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  findMerchant,
+  getMerchants,
+  getMerchantUsage,
+  mergeMerchants,
+  normalizeMerchantKey,
+  suggestMerchantMerges,
+  updateMerchant,
+  type Merchant,
+} from '../merchants';
+import {
+  queriesTo,
+  queryMethod,
+  queryStep,
+  resetSupabaseMock,
+  respondToQueries,
+  type QueryResult,
+  type RecordedQuery,
+} from '../../test-utils/supabase-mock';
+import { FIXTURE_TIME } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+
+function merchant(id: string, name: string, aliases: string[] = []): Merchant {
+  return { id, user_id: 'u1', name, aliases, created_at: FIXTURE_TIME };
+}
+
+// Answer like a server holding `merchants` and transactions named `names`, where transaction i has id `t<i>`
+function respondWith(merchants: Merchant[], names: string[]) {
+  const transactions = names.map((name, index) => ({ id: `t${index}`, merchant: name }));
+  return (query: RecordedQuery): QueryResult => {
+    const method = queryMethod(query);
+    if (query.table === 'merchants' && method === 'select') {
+      return { data: merchants, error: null };
+    }
+    if (query.table === 'merchants') {
+      const [changes] = query.steps[0][1] as [Partial<Merchant>];
+      return { data: { ...merchants[0], ...changes }, error: null };
+    }
+    if (query.table === 'transactions' && method === 'select') {
+      const [from, to] = queryStep(query, 'range') as [number, number];
+      const filter = query.steps.find(([name, args]) => name === 'in' && args[0] === 'merchant')?.[1][1] as string[] | undefined;
+      const rows = filter ? transactions.filter(row => filter.includes(row.merchant)) : transactions;
+      return { data: rows.slice(from, to + 1), error: null };
+    }
+    if (query.table === 'transactions' && method === 'update') {
+      const [changes] = query.steps[0][1] as [{ merchant: string }];
+      const [, ids] = queryStep(query, 'in') as [string, string[]];
+      return { data: ids.map(id => ({ id, merchant: changes.merchant })), error: null };
+    }
+    return { data: null, error: null };
+  };
+}
+
+beforeEach(() => {
+  resetSupabaseMock();
+});
+
+describe('normalizeMerchantKey', () => {
+  it('ignores case, punctuation and spaces', () => {
+    expect(normalizeMerchantKey("McDonald's")).toBe('mcdonalds');
+    expect(normalizeMerchantKey('  Pacific  Coffee ')).toBe('pacificcoffee');
+  });
+
+  it('drops store and branch numbers', () => {
+    expect(normalizeMerchantKey('MCDONALDS #1234')).toBe('mcdonalds');
+    expect(normalizeMerchantKey('Wellcome Store 12')).toBe('wellcome');
+    expect(normalizeMerchantKey('Fusion Branch 3')).toBe('fusion');
+    expect(normalizeMerchantKey('PARKnSHOP 0231')).toBe('parknshop');
+  });
+
+  it('keeps numbers that are part of the name', () => {
+    expect(normalizeMerchantKey('7-Eleven')).toBe('7eleven');
+    expect(normalizeMerchantKey('Bar 7')).toBe('bar7');
+  });
+
+  it('removes accents and keeps non-Latin names', () => {
+    expect(normalizeMerchantKey('Café Crème')).toBe('cafecreme');
+    expect(normalizeMerchantKey('麥當勞')).toBe('麥當勞');
+  });
+});
+
+describe('merchant matching', () => {
+  it('finds merchants by name, alias or wildcard alias', async () => {
+    respondToQueries(respondWith([
+      merchant('m1', "McDonald's", ['麥當勞']),
+      merchant('m2', '7-Eleven', ['7-11*']),
+    ], []));
+    await getMerchants();
+
+    expect(findMerchant('MCDONALDS #88')?.id).toBe('m1');
+    expect(findMerchant('麥當勞')?.id).toBe('m1');
+    expect(findMerchant('7-11 Causeway Bay')?.id).toBe('m2');
+    expect(findMerchant('Pret')).toBeNull();
+  });
+
+  it('suggests merging names that only differ in case or store number', () => {
+    const groups = suggestMerchantMerges([
+      { name: 'STARBUCKS #12', count: 3, canonical: null },
+      { name: 'Starbucks', count: 5, canonical: null },
+      { name: 'Pret', count: 1, canonical: null },
+    ]);
+
+    expect(groups.map(group => group.map(entry => entry.name))).toEqual([['STARBUCKS #12', 'Starbucks']]);
+  });
+});
+
+describe('getMerchantUsage', () => {
+  it('counts merchants past the first page of transactions', async () => {
+    const names = [...Array(1200).fill('Starbucks'), ...Array(300).fill('Pret')];
+    respondToQueries(respondWith([], names));
+
+    expect(await getMerchantUsage()).toEqual([
+      { name: 'Starbucks', count: 1200, canonical: null },
+      { name: 'Pret', count: 300, canonical: null },
+    ]);
+  });
+});
+
+describe('renaming transactions', () => {
+  it('bumps updated_at and records history when a merchant is renamed', async () => {
+    respondToQueries(respondWith([merchant('m1', 'Starbuck')], ['Starbuck', 'Pret', 'Starbuck']));
+
+    await updateMerchant('m1', { name: 'Starbucks' });
+
+    const [rename] = queriesTo('transactions', 'update');
+    expect(rename.steps[0][1][0]).toEqual({ merchant: 'Starbucks', updated_at: expect.any(String) });
+    expect(queryStep(rename, 'in')).toEqual(['id', ['t0', 't2']]);
+    expect(queriesTo('transaction_history', 'insert')[0].steps[0][1][0]).toEqual([
+      expect.objectContaining({ transaction_id: 't0', action: 'update', changes: { merchant: { from: 'Starbuck', to: 'Starbucks' } } }),
+      expect.objectContaining({ transaction_id: 't2', action: 'update', changes: { merchant: { from: 'Starbuck', to: 'Starbucks' } } }),
+    ]);
+  });
+
+  it('renames merged names in batches', async () => {
+    const names = Array.from({ length: 250 }, (_, index) => (index % 2 ? 'STARBUCKS #1' : 'starbucks'));
+    respondToQueries(respondWith([merchant('m1', 'Starbucks')], names));
+
+    const { renamed } = await mergeMerchants('Starbucks', ['STARBUCKS #1', 'starbucks', 'Starbucks']);
+
+    expect(renamed).toBe(250);
+    expect(queriesTo('transactions', 'update')).toHaveLength(3);
+    expect(queriesTo('transaction_history', 'insert')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,317 @@
+import type { OutboxOperation } from '../outbox';
+import type { Transaction } from '../transactions';
+import {
+  queriesTo,
+  queryMethod,
+  queryStep,
+  recordedQueries,
+  resetSupabaseMock,
+  respondToQueries,
+  supabaseModule,
+  type QueryResult,
+  type RecordedQuery,
+} from '../../test-utils/supabase-mock';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../trash', () => ({ moveTransactionToTrash: jest.fn() }));
+
+const NETWORK_ERROR = { message: 'TypeError: Network request failed' };
+
+function transactionWrites() {
+  return queriesTo('transactions').filter(query => queryMethod(query) !== 'select');
+}
+
+function serverRow(id: string, overrides: Partial<Transaction> = {}): Transaction {
+  return makeTransaction(id, { amount: -5, merchant: 'Bakery', ...overrides });
+}
+
+// Answer like a server that is unreachable until `online` is set, and echo inserted rows
+function respondLikeServer(state: { online: boolean; rows?: Map<string, Transaction> }) {
+  return (query: RecordedQuery): QueryResult => {
+    if (!state.online) return { data: null, error: NETWORK_ERROR };
+    const [name, args] = query.steps[0];
+    if (query.table === 'transactions' && name === 'insert') {
+      return { data: args[0], error: null };
+    }
+    if (query.table === 'transactions' && name === 'select') {
+      const [, id] = queryStep(query, 'eq') as [string, string];
+      return { data: state.rows?.get(id) ?? null, error: null };
+    }
+    if (query.table === 'transactions' && name === 'update') {
+      return { data: { ...args[0] as object }, error: null };
+    }
+    return { data: null, error: null };
+  };
+}
+
+// Module state (the queue, listeners) starts empty in every test. The fresh
+// modules still talk to this file's copy of the recording client.
+async function loadOutbox() {
+  jest.resetModules();
+  jest.doMock('../supabase', () => supabaseModule);
+  return jest.requireActual<typeof import('../outbox')>('../outbox');
+}
+
+const BAKERY_ROW = { amount: -5, merchant: 'Bakery', occurred_at: FIXTURE_TIME, currency: 'HKD' };
+
+function addBakery(transactionId = 't1'): Extract<OutboxOperation, { kind: 'addTransaction' }> {
+  return { kind: 'addTransaction', transactionId, row: { ...BAKERY_ROW } };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  resetSupabaseMock();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('enqueue folding', () => {
+  it('folds edits into a queued add so one insert is sent', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+
+    expect(await outbox.submitOutboxOperation(addBakery())).toEqual({ status: 'pending' });
+    expect(await outbox.submitOutboxOperation({
+      kind: 'updateTransaction',
+      transactionId: 't1',
+      updates: { amount: -6, note: 'two croissants' },
+      base: { amount: -5, note: null },
+      baseUpdatedAt: null,
+    })).toEqual({ status: 'pending' });
+    expect(outbox.getOutboxState()).toMatchObject({ pendingCount: 1, pendingTransactionIds: ['t1'] });
+
+    server.online = true;
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+
+    const writes = transactionWrites();
+    expect(writes).toHaveLength(1);
+    expect(writes[0].steps[0]).toEqual(['insert', [[{
+      ...BAKERY_ROW,
+      amount: -6,
+      note: 'two croissants',
+      id: 't1',
+      user_id: 'u1',
+    }]]]);
+    expect(outbox.getOutboxState().pendingCount).toBe(0);
+  });
+
+  it('drops everything queued for a transaction deleted before it synced', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation(addBakery());
+    await outbox.submitOutboxOperation({ kind: 'setTransactionTags', transactionId: 't1', names: ['breakfast'] });
+    expect(await outbox.submitOutboxOperation({
+      kind: 'deleteTransaction',
+      transactionId: 't1',
+      baseUpdatedAt: null,
+    })).toEqual({ status: 'synced', data: null });
+    expect(outbox.getOutboxState().pendingCount).toBe(0);
+
+    server.online = true;
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+    expect(recordedQueries).toEqual([]);
+  });
+
+  it('keeps the other leg when one leg of a queued transfer is deleted', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation({
+      kind: 'addTransfer',
+      transactionId: 'out',
+      legs: [
+        { transactionId: 'out', row: { amount: -100, payment_method: 'Visa', transfer_id: 'x1' } },
+        { transactionId: 'in', row: { amount: 100, payment_method: 'Octopus', transfer_id: 'x1' } },
+      ],
+    });
+    await outbox.submitOutboxOperation({
+      kind: 'updateTransaction',
+      transactionId: 'in',
+      updates: { note: 'top-up' },
+      base: { note: null },
+      baseUpdatedAt: null,
+    });
+    expect(outbox.getOutboxState()).toMatchObject({ pendingCount: 1, pendingTransactionIds: ['out', 'in'] });
+
+    await outbox.submitOutboxOperation({ kind: 'deleteTransaction', transactionId: 'out', baseUpdatedAt: null });
+    expect(outbox.getOutboxState()).toMatchObject({ pendingCount: 1, pendingTransactionIds: ['in'] });
+
+    server.online = true;
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+    expect(transactionWrites().map(query => query.steps[0])).toEqual([['insert', [[{
+      amount: 100,
+      payment_method: 'Octopus',
+      transfer_id: 'x1',
+      note: 'top-up',
+      id: 'in',
+      user_id: 'u1',
+    }]]]]);
+  });
+
+  it('merges queued updates, keeping the base from before the first edit', async () => {
+    const server = { online: false, rows: new Map<string, Transaction>() };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+    const issues: string[] = [];
+    outbox.subscribeToOutboxIssues(issue => issues.push(`${issue.kind}: ${issue.message}`));
+
+    await outbox.submitOutboxOperation({
+      kind: 'updateTransaction',
+      transactionId: 't1',
+      updates: { amount: -6 },
+      base: { amount: -5 },
+      baseUpdatedAt: FIXTURE_TIME,
+    });
+    await outbox.submitOutboxOperation({
+      kind: 'updateTransaction',
+      transactionId: 't1',
+      updates: { amount: -7, note: 'mine' },
+      base: { amount: -6, note: null },
+      baseUpdatedAt: FIXTURE_TIME,
+    });
+    expect(outbox.getOutboxState().pendingCount).toBe(1);
+
+    // Meanwhile another device changed the note, but not the amount
+    server.rows.set('t1', serverRow('t1', { note: 'theirs', updated_at: '2999-01-01T00:00:00.000Z' }));
+    server.online = true;
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+
+    const [update] = transactionWrites();
+    expect(update.steps[0][0]).toBe('update');
+    expect(update.steps[0][1][0]).toEqual({ amount: -7, updated_at: expect.any(String) });
+    expect(issues).toEqual(['kept-server: Newer server values kept for: note']);
+  });
+});
+
+describe('replay', () => {
+  it('stops at a network error so later changes are not sent out of order', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation(addBakery());
+    await outbox.submitOutboxOperation(addBakery('t2'));
+    const inserts = () => transactionWrites().map(query => (query.steps[0][1][0] as { id: string }[])[0].id);
+    // Each attempt tried the oldest entry and stopped there
+    expect(inserts()).toEqual(['t1', 't1']);
+
+    server.online = true;
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+    expect(inserts()).toEqual(['t1', 't2']);
+  });
+
+  it('retries after a network error once the retry delay has passed', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation(addBakery());
+    server.online = true;
+    jest.advanceTimersByTime(30 * 1000);
+    await outbox.syncOutbox();
+
+    expect(outbox.getOutboxState()).toMatchObject({ pendingCount: 0, lastSyncedAt: expect.any(String) });
+  });
+
+  it('drops changes that depend on an add the server refused', async () => {
+    const server = { online: false };
+    respondToQueries(respondLikeServer(server));
+    const outbox = await loadOutbox();
+    const issues: string[] = [];
+    outbox.subscribeToOutboxIssues(issue => issues.push(`${issue.kind} ${issue.operation}`));
+
+    await outbox.submitOutboxOperation(addBakery());
+    await outbox.submitOutboxOperation({ kind: 'setTransactionTags', transactionId: 't1', names: ['breakfast'] });
+
+    server.online = true;
+    const respondOnline = respondLikeServer(server);
+    respondToQueries(query => queryMethod(query) === 'insert' && query.table === 'transactions'
+      ? { data: null, error: { code: '23514', message: 'violates check constraint' } }
+      : respondOnline(query));
+    recordedQueries.length = 0;
+    await outbox.syncOutbox();
+
+    expect(issues).toEqual(['failed addTransaction']);
+    expect(queriesTo('transaction_tags')).toEqual([]);
+    expect(outbox.getOutboxState().pendingCount).toBe(0);
+  });
+
+  it('rejects the caller waiting on a change the server refused', async () => {
+    respondToQueries(query => queryMethod(query) === 'insert' && query.table === 'transactions'
+      ? { data: null, error: { code: '23514', message: 'violates check constraint' } }
+      : { data: null, error: null });
+    const outbox = await loadOutbox();
+
+    await expect(outbox.submitOutboxOperation(addBakery())).rejects.toMatchObject({ code: '23514' });
+    expect(outbox.getOutboxState().pendingCount).toBe(0);
+  });
+
+  it('reads back the row when an insert already went through on an earlier attempt', async () => {
+    const existing = serverRow('t1');
+    respondToQueries(query => {
+      if (queryMethod(query) === 'insert') return { data: null, error: { code: '23505', message: 'duplicate key' } };
+      if (queryMethod(query) === 'select') return { data: existing, error: null };
+      return { data: null, error: null };
+    });
+    const outbox = await loadOutbox();
+
+    expect(await outbox.submitOutboxOperation(addBakery())).toEqual({ status: 'synced', data: existing });
+    // The first attempt already recorded its history entry
+    expect(queriesTo('transaction_history')).toEqual([]);
+  });
+
+  it('records who made a change once it reaches the server', async () => {
+    respondToQueries(respondLikeServer({ online: true }));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation({ ...addBakery(), actor: 'ocr' });
+
+    const [history] = queriesTo('transaction_history');
+    expect(history.steps[0][1][0]).toEqual([expect.objectContaining({
+      transaction_id: 't1',
+      action: 'create',
+      source: 'ocr',
+    })]);
+  });
+});
+
+describe('applyPendingChanges', () => {
+  it('shows queued adds, edits and deletes over server rows', async () => {
+    respondToQueries(respondLikeServer({ online: false }));
+    const outbox = await loadOutbox();
+
+    await outbox.submitOutboxOperation(addBakery());
+    await outbox.submitOutboxOperation({
+      kind: 'updateTransaction',
+      transactionId: 's1',
+      updates: { note: 'edited' },
+      base: { note: null },
+      baseUpdatedAt: null,
+    });
+    await outbox.submitOutboxOperation({ kind: 'deleteTransaction', transactionId: 's2', baseUpdatedAt: null });
+
+    const rows = await outbox.applyPendingChanges([
+      serverRow('s1', { occurred_at: '2025-05-21T04:00:00.000Z' }),
+      serverRow('s2'),
+    ]);
+    expect(rows.map(row => [row.id, row.note])).toEqual([['s1', 'edited'], ['t1', undefined]]);
+
+    const later = await outbox.applyPendingChanges([], { startDate: '2025-06-01T00:00:00.000Z' });
+    expect(later).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { getOccurrenceDate, isRuleFinished, materializeDueOccurrences, type RecurringRule } from '../recurring';
+import {
+  queriesTo,
+  resetSupabaseMock,
+  respondToQueries,
+  type QueryResult,
+  type RecordedQuery,
+} from '../../test-utils/supabase-mock';
+import { FIXTURE_TIME } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+
+// Schedules follow the device's calendar, so dates are built and read in local time
+function localStart(year: number, month: number, day: number) {
+  return new Date(year, month - 1, day, 9, 30).toISOString();
+}
+
+function localDay(date: Date) {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].join('-');
+}
+
+function rule(overrides: Partial<RecurringRule>): RecurringRule {
+  return {
+    id: 'r1',
+    user_id: 'u1',
+    amount: -120,
+    currency: 'HKD',
+    merchant: 'Netflix',
+    category_id: null,
+    note: null,
+    payment_method: null,
+    frequency: 'monthly',
+    interval: 1,
+    start_date: localStart(2025, 1, 15),
+    end_date: null,
+    max_occurrences: null,
+    occurrences_done: 0,
+    next_occurrence_at: localStart(2025, 1, 15),
+    is_paused: false,
+    created_at: FIXTURE_TIME,
+    updated_at: FIXTURE_TIME,
+    ...overrides,
+  };
+}
+
+describe('getOccurrenceDate', () => {
+  it('steps daily and weekly schedules by their interval', () => {
+    const start = localStart(2025, 2, 26);
+
+    expect(localDay(getOccurrenceDate(start, 'daily', 1, 0))).toBe('2025-2-26');
+    expect(localDay(getOccurrenceDate(start, 'daily', 3, 2))).toBe('2025-3-4');
+    expect(localDay(getOccurrenceDate(start, 'weekly', 2, 1))).toBe('2025-3-12');
+  });
+
+  it('keeps the time of day of the start date', () => {
+    const occurrence = getOccurrenceDate(localStart(2025, 1, 15), 'monthly', 1, 4);
+
+    expect([occurrence.getHours(), occurrence.getMinutes()]).toEqual([9, 30]);
+  });
+
+  it('clamps to the end of shorter months without drifting', () => {
+    const start = localStart(2025, 1, 31);
+
+    expect([0, 1, 2, 3].map(index => localDay(getOccurrenceDate(start, 'monthly', 1, index)))).toEqual([
+      '2025-1-31',
+      '2025-2-28',
+      '2025-3-31',
+      '2025-4-30',
+    ]);
+    expect(localDay(getOccurrenceDate(start, 'monthly', 13, 1))).toBe('2026-2-28');
+  });
+
+  it('lands a leap day on Feb 28 in other years', () => {
+    const start = localStart(2024, 2, 29);
+
+    expect(localDay(getOccurrenceDate(start, 'yearly', 1, 1))).toBe('2025-2-28');
+    expect(localDay(getOccurrenceDate(start, 'yearly', 1, 4))).toBe('2028-2-29');
+  });
+
+  it('treats an interval below 1 as 1', () => {
+    expect(localDay(getOccurrenceDate(localStart(2025, 1, 15), 'monthly', 0, 2))).toBe('2025-3-15');
+  });
+});
+
+describe('isRuleFinished', () => {
+  it('is finished once the occurrence limit is reached', () => {
+    expect(isRuleFinished(rule({ max_occurrences: 3, occurrences_done: 2 }))).toBe(false);
+    expect(isRuleFinished(rule({ max_occurrences: 3, occurrences_done: 3 }))).toBe(true);
+  });
+
+  it('is finished once the next occurrence falls after the end date', () => {
+    const endingMarch = { end_date: '2025-03-15' };
+
+    expect(isRuleFinished(rule({ ...endingMarch, next_occurrence_at: localStart(2025, 3, 15) }))).toBe(false);
+    expect(isRuleFinished(rule({ ...endingMarch, next_occurrence_at: localStart(2025, 4, 15) }))).toBe(true);
+  });
+
+  it('runs forever without a limit or end date', () => {
+    expect(isRuleFinished(rule({ occurrences_done: 500, next_occurrence_at: localStart(2060, 1, 15) }))).toBe(false);
+  });
+});
+
+describe('materializeDueOccurrences', () => {
+  // Answer like a server holding `rules`, a merchant with aliases and one account; posted rows get ids
+  function respondWith(rules: RecurringRule[]) {
+    return (query: RecordedQuery): QueryResult => {
+      const [method, args] = query.steps[0];
+      if (query.table === 'recurring_rules' && method === 'select') {
+        return { data: rules, error: null };
+      }
+      if (query.table === 'merchants') {
+        return { data: [{ id: 'm1', user_id: 'u1', name: 'Netflix', aliases: ['NETFLIX.COM'], created_at: FIXTURE_TIME }], error: null };
+      }
+      if (query.table === 'accounts') {
+        return { data: [{ id: 'visa', user_id: 'u1', name: 'HSBC Visa', is_archived: false }], error: null };
+      }
+      if (query.table === 'transactions' && method === 'upsert') {
+        const rows = args[0] as object[];
+        return { data: rows.map((row, index) => ({ ...row, id: `p${index}`, created_at: FIXTURE_TIME })), error: null };
+      }
+      return { data: null, error: null };
+    };
+  }
+
+  beforeEach(() => {
+    resetSupabaseMock();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('posts due occurrences like transactions added by hand', async () => {
+    respondToQueries(respondWith([rule({ merchant: 'netflix.com', payment_method: 'hsbc visa' })]));
+
+    const posted = await materializeDueOccurrences(new Date(2025, 2, 20));
+
+    expect(posted.map(transaction => localDay(new Date(transaction.occurred_at)))).toEqual(['2025-1-15', '2025-2-15', '2025-3-15']);
+    expect(posted[0]).toMatchObject({ merchant: 'Netflix', payment_method: 'hsbc visa', account_id: 'visa', source: 'recurring' });
+    expect(queriesTo('transaction_history', 'insert')[0].steps[0][1][0]).toHaveLength(3);
+    expect(queriesTo('recurring_rules', 'update')[0].steps[0][1][0]).toMatchObject({
+      occurrences_done: 3,
+      next_occurrence_at: localStart(2025, 4, 15),
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from '../search-query';
+import type { Transaction } from '../transactions';
+
+function transaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 't1',
+    user_id: 'u1',
+    amount: -60,
+    occurred_at: new Date(2025, 4, 20, 9, 30).toISOString(),
+    merchant: 'Starbucks Central',
+    category_id: 'c1',
+    source: 'manual',
+    note: null,
+    payment_method: 'Octopus',
+    currency: 'HKD',
+    created_at: '2025-05-20T01:30:00.000Z',
+    updated_at: '2025-05-20T01:30:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('parseSearchQuery', () => {
+  it('parses fields, negation, quotes, tags and bare words', () => {
+    const { clauses, errors } = parseSearchQuery(
+      'merchant:"7 eleven" amount:>50 cat:food -note:work #japan coffee before:2025-06-01'
+    );
+
+    expect(errors).toEqual([]);
+    expect(clauses).toEqual([
+      { field: 'merchant', value: '7 eleven', negate: false },
+      { field: 'amount', comparison: { op: '>', value: 50 }, negate: false },
+      { field: 'category', value: 'food', negate: false },
+      { field: 'note', value: 'work', negate: true },
+      { field: 'tag', value: 'japan', negate: false },
+      { field: 'text', value: 'coffee', negate: false },
+      { field: 'before', date: '2025-06-01', negate: false },
+    ]);
+  });
+
+  it('resolves aliases and parses amount ranges, sources and types', () => {
+    expect(parseSearchQuery('amt:10..30 shop:a pay:visa source:OCR type:income date:2025-01-31').clauses).toEqual([
+      { field: 'amount', comparison: { op: 'range', min: 10, max: 30 }, negate: false },
+      { field: 'merchant', value: 'a', negate: false },
+      { field: 'payment', value: 'visa', negate: false },
+      { field: 'source', value: 'ocr', negate: false },
+      { field: 'type', value: 'income', negate: false },
+      { field: 'on', date: '2025-01-31', negate: false },
+    ]);
+  });
+
+  it('keeps times and URLs as plain words', () => {
+    expect(parseSearchQuery('10:30 http://example.com').clauses).toEqual([
+      { field: 'text', value: '10:30', negate: false },
+      { field: 'text', value: 'http://example.com', negate: false },
+    ]);
+  });
+
+  it('treats a lone dash as a word rather than a negation', () => {
+    expect(parseSearchQuery('- tea').clauses).toEqual([
+      { field: 'text', value: '-', negate: false },
+      { field: 'text', value: 'tea', negate: false },
+    ]);
+  });
+
+  it('reports invalid tokens with their position and keeps the valid ones', () => {
+    const input = 'merchnt:x amount:abc on:2025-02-30 type:refund "open tea';
+    const { clauses, errors } = parseSearchQuery(input);
+
+    expect(clauses).toEqual([]);
+    expect(errors.map(error => error.message)).toEqual([
+      'Unknown field "merchnt". Did you mean "merchant:"?',
+      'Invalid amount "abc". Use e.g. amount:>50, amount:<=20 or amount:10..30',
+      'Invalid date "2025-02-30". Use YYYY-MM-DD',
+      'Unknown type "refund". Use income, expense or transfer',
+      'Missing closing quote',
+    ]);
+    expect(input.slice(errors[0].start, errors[0].end)).toBe('merchnt:x');
+    expect(input.slice(errors[4].start, errors[4].end)).toBe('"open tea');
+  });
+
+  it('reports a field without a value', () => {
+    expect(parseSearchQuery('note:').errors).toEqual([
+      { message: 'Missing value after "note:"', start: 0, end: 5 },
+    ]);
+  });
+
+  it('rejects a range whose minimum is above its maximum', () => {
+    expect(parseSearchQuery('amount:30..10').errors).toHaveLength(1);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  const coffee = transaction({
+    category: { id: 'c1', user_id: 'u1', name: 'Food & Drink', created_at: '2025-01-01T00:00:00.000Z' },
+    tags: [{ id: 'g1', user_id: 'u1', name: 'japan-trip', created_at: '2025-01-01T00:00:00.000Z' }],
+  });
+
+  it('requires every clause to match, honouring negation', () => {
+    expect(matchesSearchQuery(coffee, parseSearchQuery('starbucks cat:food amount:>=60 #japan').clauses)).toBe(true);
+    expect(matchesSearchQuery(coffee, parseSearchQuery('starbucks -pay:octopus').clauses)).toBe(false);
+  });
+
+  it('compares absolute amounts and local days', () => {
+    expect(matchesSearchQuery(coffee, parseSearchQuery('amount:50..60 on:2025-05-20').clauses)).toBe(true);
+    expect(matchesSearchQuery(coffee, parseSearchQuery('after:2025-05-20').clauses)).toBe(false);
+    expect(matchesSearchQuery(coffee, parseSearchQuery('before:2025-05-21').clauses)).toBe(true);
+  });
+
+  it('tells income, expenses and transfers apart', () => {
+    const transfer = transaction({ transfer_id: 'x1' });
+    expect(matchesSearchQuery(coffee, parseSearchQuery('type:expense').clauses)).toBe(true);
+    expect(matchesSearchQuery(transfer, parseSearchQuery('type:expense').clauses)).toBe(false);
+    expect(matchesSearchQuery(transfer, parseSearchQuery('type:transfer').clauses)).toBe(true);
+  });
+});
+
+describe('getSearchSuggestions', () => {
+  it('completes field names and keeps a negation prefix', () => {
+    const [suggestion] = getSearchSuggestions('coffee -me');
+    expect(suggestion).toMatchObject({ label: 'merchant:', text: '-merchant:', start: 7, end: 10 });
+    expect(applySearchSuggestion('coffee -me', suggestion)).toEqual({ text: 'coffee -merchant:', cursor: 17 });
+  });
+
+  it('completes values, quoting ones with spaces', () => {
+    const suggestions = getSearchSuggestions('pay:card', undefined, {
+      paymentMethods: ['Credit Card', 'Debit card', 'Cash'],
+    });
+    expect(suggestions.map(suggestion => suggestion.text)).toEqual([
+      'pay:"Credit Card" ',
+      'pay:"Debit card" ',
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { diffTransactionFields, recordTransactionHistoryEntries } from '../transaction-history';
+import { queriesTo, resetSupabaseMock, TEST_USER_ID } from '../../test-utils/supabase-mock';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+
+beforeEach(() => {
+  resetSupabaseMock();
+});
+
+describe('diffTransactionFields', () => {
+  it('lists only the audited fields that changed', () => {
+    const before = makeTransaction('t1', { note: 'latte' });
+    const after = { ...before, amount: -45, note: 'oat latte', updated_at: '2025-05-21T00:00:00.000Z' };
+
+    expect(diffTransactionFields(before, after)).toEqual({
+      amount: { from: -42, to: -45 },
+      note: { from: 'latte', to: 'oat latte' },
+    });
+    expect(diffTransactionFields(before, { ...before })).toEqual({});
+  });
+
+  it('treats missing and undefined values as null', () => {
+    expect(diffTransactionFields({ note: null, account_id: undefined }, { category_id: null })).toEqual({});
+    expect(diffTransactionFields({ merchant: 'Pret' }, { note: 'lunch' })).toEqual({
+      merchant: { from: 'Pret', to: null },
+      note: { from: null, to: 'lunch' },
+    });
+  });
+
+  it('compares against all nulls for a create or delete', () => {
+    const transaction = makeTransaction('t1', { account_id: 'visa' });
+    const created = {
+      amount: { from: null, to: -42 },
+      occurred_at: { from: null, to: FIXTURE_TIME },
+      merchant: { from: null, to: 'Starbucks' },
+      account_id: { from: null, to: 'visa' },
+      currency: { from: null, to: 'HKD' },
+      source: { from: null, to: 'manual' },
+    };
+
+    expect(diffTransactionFields(null, transaction)).toEqual(created);
+    expect(Object.keys(diffTransactionFields(transaction, null))).toEqual(Object.keys(created));
+  });
+
+  it('does not count a zero amount as missing', () => {
+    expect(diffTransactionFields({ amount: 0 }, {})).toEqual({ amount: { from: 0, to: null } });
+  });
+});
+
+describe('recordTransactionHistoryEntries', () => {
+  it('skips updates that changed nothing', async () => {
+    await recordTransactionHistoryEntries(TEST_USER_ID, [
+      { transactionId: 't1', action: 'update', source: 'manual', changes: {} },
+      { transactionId: 't2', action: 'update', source: 'rule', changes: { note: { from: null, to: 'x' } } },
+      { transactionId: 't3', action: 'delete', source: 'manual', changes: {} },
+    ]);
+
+    const [insert] = queriesTo('transaction_history', 'insert');
+    expect((insert.steps[0][1][0] as { transaction_id: string }[]).map(row => row.transaction_id)).toEqual(['t2', 't3']);
+  });
+
+  it('sends nothing when no entry is left', async () => {
+    await recordTransactionHistoryEntries(TEST_USER_ID, [
+      { transactionId: 't1', action: 'update', source: 'manual', changes: {} },
+    ]);
+
+    expect(queriesTo('transaction_history')).toEqual([]);
+  });
+});
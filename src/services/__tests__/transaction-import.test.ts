@@ -0,0 +1,224 @@
+import {
+  buildImportPreview,
+  detectImportFormat,
+  guessColumnMapping,
+  parseImportAmount,
+  parseImportDate,
+  parseImportFile,
+  type ImportOptions,
+} from '../transaction-import';
+import { getTransactionsByDateRange } from '../transactions';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../transactions', () => ({ getTransactionsByDateRange: jest.fn() }));
+
+const mockGetTransactionsByDateRange = getTransactionsByDateRange as jest.Mock;
+
+const options: ImportOptions = {
+  dateFormat: 'auto',
+  defaultCurrency: 'HKD',
+  defaultPaymentMethod: null,
+  invertAmounts: false,
+};
+
+describe('parseImportFile', () => {
+  it('parses CSV with quoted fields, escaped quotes and embedded newlines', () => {
+    const csv = '\uFEFFDate,Amount,Description\r\n'
+      + '2024-03-01,-12.50,"Coffee, large"\r\n'
+      + '2024-03-02,-8,"Say ""hi""\nsecond line"\r\n'
+      + '\r\n';
+
+    expect(parseImportFile(csv, 'csv')).toEqual({
+      format: 'csv',
+      headers: ['Date', 'Amount', 'Description'],
+      rows: [
+        ['2024-03-01', '-12.50', 'Coffee, large'],
+        ['2024-03-02', '-8', 'Say "hi"\nsecond line'],
+      ],
+    });
+  });
+
+  it('detects semicolon and tab delimiters from the header line', () => {
+    expect(parseImportFile('Date;Amount\n01/03/2024;12,50', 'csv').rows).toEqual([['01/03/2024', '12,50']]);
+    expect(parseImportFile('Date\tAmount\n2024-03-01\t3', 'csv').rows).toEqual([['2024-03-01', '3']]);
+  });
+
+  it('parses SGML OFX with unclosed leaf tags', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<CURDEF>USD',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240301120000[-5:EST]',
+      '<TRNAMT>-42.10',
+      '<FITID>abc1',
+      '<NAME>Tom &amp; Jerry',
+      '<MEMO>Lunch',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20240305',
+      '<TRNAMT>1000',
+      '<FITID>abc2',
+      '<PAYEE>Employer',
+      '</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+
+    const table = parseImportFile(ofx, 'ofx');
+    expect(table.headers).toEqual(['Date', 'Amount', 'Name', 'Memo', 'Currency', 'Type', 'FITID']);
+    expect(table.rows).toEqual([
+      ['2024-03-01', '-42.10', 'Tom & Jerry', 'Lunch', 'USD', 'DEBIT', 'abc1'],
+      ['2024-03-05', '1000', 'Employer', '', 'USD', 'CREDIT', 'abc2'],
+    ]);
+  });
+
+  it('parses XML OFX with closed tags', () => {
+    const ofx = '<OFX><CURDEF>EUR</CURDEF><STMTTRN><DTPOSTED>20240102</DTPOSTED>'
+      + '<TRNAMT>-5.00</TRNAMT><NAME>Bakery</NAME></STMTTRN></OFX>';
+
+    expect(parseImportFile(ofx, 'ofx').rows).toEqual([
+      ['2024-01-02', '-5.00', 'Bakery', '', 'EUR', '', ''],
+    ]);
+  });
+
+  it('parses QIF records and keeps the first value of split lines', () => {
+    const qif = [
+      '!Type:Bank',
+      "D3/ 1'24",
+      'T-20.00',
+      'PSupermarket',
+      'MWeekly shop',
+      'LGroceries',
+      'SGroceries',
+      'LHousehold',
+      '^',
+      'D3/2/2024',
+      'U15',
+      'PRefund',
+      '^',
+    ].join('\n');
+
+    expect(parseImportFile(qif, 'qif')).toEqual({
+      format: 'qif',
+      headers: ['Date', 'Amount', 'Payee', 'Memo', 'Category', 'Number'],
+      rows: [
+        ['3/ 1/24', '-20.00', 'Supermarket', 'Weekly shop', 'Groceries', ''],
+        ['3/2/2024', '15', 'Refund', '', '', ''],
+      ],
+    });
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('uses the extension first, then the content', () => {
+    expect(detectImportFormat('statement.QFX', '')).toBe('ofx');
+    expect(detectImportFormat('statement.qif', '')).toBe('qif');
+    expect(detectImportFormat('statement.tsv', '<OFX>')).toBe('csv');
+    expect(detectImportFormat('download', 'OFXHEADER:100')).toBe('ofx');
+    expect(detectImportFormat('download', '  !Type:Bank\n')).toBe('qif');
+    expect(detectImportFormat('download', 'a,b,c')).toBe('csv');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps dates before amounts so "Value Date" is not taken as the amount', () => {
+    expect(guessColumnMapping(['Value Date', 'Description', 'Amount', 'CCY', 'Memo'])).toEqual({
+      occurred_at: 0,
+      merchant: 1,
+      amount: 2,
+      currency: 3,
+      payment_method: null,
+      note: 4,
+    });
+  });
+});
+
+describe('parseImportAmount', () => {
+  it.each([
+    ['12.50', 12.5],
+    ['-12.50', -12.5],
+    ['$1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['12,50', 12.5],
+    ['(12.50)', -12.5],
+    ['12.50-', -12.5],
+    ['HK$ 30', 30],
+  ])('parses %s', (input, expected) => {
+    expect(parseImportAmount(input)).toBe(expected);
+  });
+
+  it('rejects empty and non-numeric cells', () => {
+    expect(parseImportAmount('')).toBeNull();
+    expect(parseImportAmount('n/a')).toBeNull();
+    expect(parseImportAmount('1.2.3')).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads year-first and compact dates as noon UTC', () => {
+    expect(parseImportDate('2024-03-01')).toBe('2024-03-01T12:00:00.000Z');
+    expect(parseImportDate('20240301')).toBe('2024-03-01T12:00:00.000Z');
+  });
+
+  it('reads ambiguous dates as DD/MM in auto mode unless only MM/DD fits', () => {
+    expect(parseImportDate('03/04/2024')).toBe('2024-04-03T12:00:00.000Z');
+    expect(parseImportDate('04/13/2024')).toBe('2024-04-13T12:00:00.000Z');
+    expect(parseImportDate('03/04/2024', 'MM/DD/YYYY')).toBe('2024-03-04T12:00:00.000Z');
+    expect(parseImportDate('1.2.24')).toBe('2024-02-01T12:00:00.000Z');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseImportDate('2024-02-30')).toBeNull();
+    expect(parseImportDate('31/04/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseImportDate('')).toBeNull();
+  });
+});
+
+describe('buildImportPreview', () => {
+  const mapping = guessColumnMapping(['Date', 'Amount', 'Payee']);
+
+  it('flags rows matching an existing transaction or an earlier row', async () => {
+    mockGetTransactionsByDateRange.mockResolvedValue([
+      { amount: -12.5, currency: 'HKD', occurred_at: '2024-03-02T08:00:00.000Z', merchant: 'STARBUCKS #123' },
+    ]);
+
+    const preview = await buildImportPreview({
+      format: 'csv',
+      headers: ['Date', 'Amount', 'Payee'],
+      rows: [
+        ['2024-03-01', '-12.50', 'Starbucks'],
+        ['2024-03-05', '-40', 'Cinema'],
+        ['2024-03-05', '-40', 'cinema'],
+        ['bad date', '-1', 'Nowhere'],
+      ],
+    }, mapping, options);
+
+    expect(preview.map(row => row.duplicateOf?.merchant ?? null)).toEqual([
+      'STARBUCKS #123',
+      null,
+      'Cinema',
+      null,
+    ]);
+    expect(preview[3]).toMatchObject({ draft: null, errors: ['Invalid date "bad date"'] });
+  });
+
+  it('does not treat rows without a payee as duplicates', async () => {
+    mockGetTransactionsByDateRange.mockResolvedValue([
+      { amount: -5, currency: 'HKD', occurred_at: '2024-03-01T12:00:00.000Z', merchant: 'Bakery' },
+    ]);
+
+    const preview = await buildImportPreview({
+      format: 'csv',
+      headers: ['Date', 'Amount', 'Payee'],
+      rows: [
+        ['2024-03-01', '-5', ''],
+        ['2024-03-01', '-5', ''],
+      ],
+    }, mapping, options);
+
+    expect(preview.map(row => row.duplicateOf)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,114 @@
+import { applyRuleChanges, evaluateRules, type RuleChange, type TransactionRule } from '../transaction-rules';
+import { updateTransaction } from '../transactions';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../transactions', () => ({
+  getAllMatchingTransactions: jest.fn(),
+  updateTransaction: jest.fn(),
+}));
+
+const mockUpdateTransaction = updateTransaction as jest.Mock;
+
+function rule(id: string, conditions: string, overrides: Partial<TransactionRule> = {}): TransactionRule {
+  return {
+    id,
+    user_id: 'u1',
+    name: id,
+    conditions,
+    category_id: null,
+    payment_method: null,
+    priority: 1,
+    is_active: true,
+    created_at: FIXTURE_TIME,
+    updated_at: FIXTURE_TIME,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('evaluateRules', () => {
+  const coffee = rule('coffee', 'merchant:starbucks', { category_id: 'drinks' });
+  const bigSpend = rule('big', 'amount:>40', { category_id: 'treats', payment_method: 'HSBC Visa', priority: 2 });
+  const octopus = rule('octopus', 'merchant:starbucks', { payment_method: 'Octopus', priority: 3 });
+
+  it('lets the first matching rule set each field', () => {
+    expect(evaluateRules(makeTransaction('t1'), [coffee, bigSpend, octopus])).toEqual({
+      category_id: 'drinks',
+      payment_method: 'HSBC Visa',
+      matched: [coffee, bigSpend],
+    });
+  });
+
+  it('follows the order it is given, which is priority order', () => {
+    expect(evaluateRules(makeTransaction('t1'), [bigSpend, coffee])).toEqual({
+      category_id: 'treats',
+      payment_method: 'HSBC Visa',
+      matched: [bigSpend],
+    });
+  });
+
+  it('only uses active rules whose conditions match', () => {
+    const rules = [
+      { ...coffee, is_active: false },
+      rule('broken', 'amount:lots', { category_id: 'broken' }),
+      rule('income', 'type:income', { category_id: 'salary' }),
+      octopus,
+    ];
+    expect(evaluateRules(makeTransaction('t1'), rules)).toEqual({ payment_method: 'Octopus', matched: [octopus] });
+    expect(evaluateRules(makeTransaction('t1', { merchant: 'Pret' }), rules)).toEqual({ matched: [] });
+  });
+
+  it('only fills in empty fields when asked to', () => {
+    const categorized = makeTransaction('t1', { category_id: 'coffee-shops' });
+    expect(evaluateRules(categorized, [coffee, octopus], { onlyEmpty: true })).toEqual({
+      payment_method: 'Octopus',
+      matched: [octopus],
+    });
+    expect(evaluateRules(categorized, [coffee])).toEqual({ category_id: 'drinks', matched: [coffee] });
+  });
+
+  it('never categorizes transfers', () => {
+    expect(evaluateRules(makeTransaction('t1', { transfer_id: 'x1' }), [coffee, octopus])).toEqual({ matched: [] });
+  });
+});
+
+describe('applyRuleChanges', () => {
+  const coffee = rule('coffee', 'merchant:starbucks', { category_id: 'drinks' });
+  const changes: RuleChange[] = [
+    { transaction: makeTransaction('open'), updates: { category_id: 'drinks' }, rule: coffee },
+    { transaction: makeTransaction('reconciled', { reconciliation_id: 'r1' }), updates: { category_id: 'drinks' }, rule: coffee },
+  ];
+
+  it('leaves reconciled transactions alone unless allowed', async () => {
+    expect(await applyRuleChanges(changes)).toEqual({ updated: 1, failed: 0, skipped: 1 });
+    expect(mockUpdateTransaction).toHaveBeenCalledTimes(1);
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('open', { category_id: 'drinks' }, expect.objectContaining({
+      allowReconciled: false,
+      actor: 'rule',
+    }));
+  });
+
+  it('changes reconciled transactions the user allowed', async () => {
+    const onProgress = jest.fn();
+
+    expect(await applyRuleChanges(changes, { allowReconciled: true, onProgress })).toEqual({
+      updated: 2,
+      failed: 0,
+      skipped: 0,
+    });
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('reconciled', { category_id: 'drinks' }, expect.objectContaining({
+      allowReconciled: true,
+    }));
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+  });
+
+  it('counts changes that fail and saves the rest', async () => {
+    mockUpdateTransaction.mockRejectedValueOnce(new Error('offline'));
+
+    expect(await applyRuleChanges(changes, { allowReconciled: true })).toEqual({ updated: 1, failed: 1, skipped: 0 });
+  });
+});
@@ -0,0 +1,144 @@
+import { buildAmountCondition, buildSpendingBreakdown, splitTransactionByCategory } from '../transactions';
+import type { ItemRow } from '../items';
+import type { AmountComparison } from '../search-query';
+import { FIXTURE_TIME, makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+function item(name: string, quantity: number, price: number, categoryId: string | null): ItemRow {
+  return {
+    id: name,
+    transaction_id: 't1',
+    item_name: name,
+    item_amount: quantity,
+    item_price: price,
+    user_id: 'u1',
+    category_id: categoryId,
+    category: categoryId ? { id: categoryId, user_id: 'u1', name: categoryId, created_at: FIXTURE_TIME } : undefined,
+  };
+}
+
+const groceries = {
+  amount: -100,
+  category_id: 'groceries',
+  category: { id: 'groceries', user_id: 'u1', name: 'Groceries', created_at: FIXTURE_TIME },
+};
+
+describe('splitTransactionByCategory', () => {
+  it('gives the whole amount to the transaction category without categorized items', () => {
+    expect(splitTransactionByCategory({ ...groceries, items: [item('Milk', 2, 15, null)] })).toEqual([
+      { categoryId: 'groceries', categoryName: 'Groceries', amount: 100 },
+    ]);
+  });
+
+  it('gives items their line total and the remainder to the transaction category', () => {
+    const splits = splitTransactionByCategory({
+      ...groceries,
+      items: [item('Wine', 2, 20, 'Alcohol'), item('Soap', 1, 10, 'Household'), item('Beer', 1, 5, 'Alcohol')],
+    });
+
+    expect(splits).toEqual([
+      { categoryId: 'Alcohol', categoryName: 'Alcohol', amount: 45 },
+      { categoryId: 'Household', categoryName: 'Household', amount: 10 },
+      { categoryId: 'groceries', categoryName: 'Groceries', amount: 45 },
+    ]);
+  });
+
+  it('scales items down when they add up to more than the transaction', () => {
+    const splits = splitTransactionByCategory({
+      ...groceries,
+      items: [item('Wine', 1, 90, 'Alcohol'), item('Soap', 1, 30, 'Household')],
+    });
+
+    expect(splits.map(split => [split.categoryId, split.amount])).toEqual([
+      ['Alcohol', 75],
+      ['Household', 25],
+    ]);
+  });
+
+  it('splits a converted total in the same proportions', () => {
+    const splits = splitTransactionByCategory({ ...groceries, items: [item('Wine', 1, 40, 'Alcohol')] }, 12.8);
+
+    expect(splits.map(split => split.amount)).toEqual([5.12, 7.68]);
+  });
+
+  it('files transactions without a category under Uncategorized', () => {
+    expect(splitTransactionByCategory({ amount: 25, category_id: null })).toEqual([
+      { categoryId: null, categoryName: 'Uncategorized', amount: 25 },
+    ]);
+    expect(splitTransactionByCategory({ amount: 0, category_id: null })).toEqual([]);
+  });
+});
+
+describe('buildSpendingBreakdown', () => {
+  it('sums expenses by category and leaves out income and transfers', () => {
+    const breakdown = buildSpendingBreakdown([
+      makeTransaction('t1', { ...groceries, items: [item('Wine', 1, 40, 'Alcohol')] }),
+      makeTransaction('t2', groceries),
+      makeTransaction('t3', { amount: 5000, category_id: null }),
+      makeTransaction('t4', { ...groceries, transfer_id: 'x1' }),
+    ]);
+
+    expect(breakdown).toEqual({ Alcohol: 40, Groceries: 160 });
+  });
+});
+
+// Whether `amount` passes a PostgREST or() filter on the amount column
+function matchesOrFilter(filter: string, amount: number): boolean {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < filter.length; index++) {
+    if (filter[index] === '(') depth++;
+    if (filter[index] === ')') depth--;
+    if (filter[index] === ',' && depth === 0) {
+      parts.push(filter.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(filter.slice(start));
+
+  return parts.some(part => {
+    if (part.startsWith('and(')) {
+      return part.slice(4, -1).split(',').every(condition => matchesOrFilter(condition, amount));
+    }
+    const [, op, value] = part.match(/^amount\.(\w+)\.(.+)$/) ?? [];
+    const bound = Number(value);
+    switch (op) {
+      case 'eq': return amount === bound;
+      case 'neq': return amount !== bound;
+      case 'gt': return amount > bound;
+      case 'gte': return amount >= bound;
+      case 'lt': return amount < bound;
+      case 'lte': return amount <= bound;
+      default: throw new Error(`Unexpected condition ${part}`);
+    }
+  });
+}
+
+describe('buildAmountCondition', () => {
+  const amounts = [-120, -50, -49.99, -20, -10, 0, 10, 20, 49.99, 50, 120];
+  const comparisons: [AmountComparison, (size: number) => boolean][] = [
+    [{ op: '=', value: 50 }, size => size === 50],
+    [{ op: '>', value: 20 }, size => size > 20],
+    [{ op: '>=', value: 20 }, size => size >= 20],
+    [{ op: '<', value: 20 }, size => size < 20],
+    [{ op: '<=', value: 20 }, size => size <= 20],
+    [{ op: 'range', min: 10, max: 50 }, size => size >= 10 && size <= 50],
+  ];
+
+  it('compares the size of the amount, for expenses and income alike', () => {
+    expect(buildAmountCondition({ op: '>', value: 20 }, false)).toBe('amount.gt.20,amount.lt.-20');
+    for (const [comparison, expected] of comparisons) {
+      expect(amounts.filter(amount => matchesOrFilter(buildAmountCondition(comparison, false), amount)))
+        .toEqual(amounts.filter(amount => expected(Math.abs(amount))));
+    }
+  });
+
+  it('matches exactly the other amounts when negated', () => {
+    for (const [comparison, expected] of comparisons) {
+      expect(amounts.filter(amount => matchesOrFilter(buildAmountCondition(comparison, true), amount)))
+        .toEqual(amounts.filter(amount => !expected(Math.abs(amount))));
+    }
+  });
+});
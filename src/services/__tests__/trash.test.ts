@@ -0,0 +1,197 @@
+import { getTrashExpiry, purgeTrash, restoreFromTrash, type TrashEntry } from '../trash';
+import { removeAttachmentFiles } from '../attachments';
+import type { Transaction } from '../transactions';
+import {
+  queriesTo,
+  queryMethod,
+  queryStep,
+  recordedQueries,
+  resetSupabaseMock,
+  respondToQueries,
+  type QueryResult,
+  type RecordedQuery,
+} from '../../test-utils/supabase-mock';
+import { makeTransaction } from '../../test-utils/fixtures';
+
+jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+jest.mock('../attachments', () => ({ removeAttachmentFiles: jest.fn() }));
+
+function trashEntry(id: string, overrides: Partial<Transaction> = {}, extra: Partial<TrashEntry> = {}): TrashEntry {
+  return {
+    id,
+    user_id: 'u1',
+    transaction: makeTransaction(id, overrides),
+    items: [],
+    tags: [],
+    attachments: [],
+    deleted_at: '2025-05-21T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+// Answer like a server holding `trash`, where only the `existing` rows of other tables remain
+function respondWith(trash: TrashEntry[], existing: Record<string, string[]> = {}) {
+  return (query: RecordedQuery): QueryResult => {
+    const method = queryMethod(query);
+    if (query.table === 'deleted_transactions' && method === 'select' && queryStep(query, 'range')) {
+      const [from, to] = queryStep(query, 'range') as [number, number];
+      return { data: trash.slice(from, to + 1), error: null };
+    }
+    if (query.table === 'deleted_transactions' && method === 'select') {
+      const [column, values] = queryStep(query, 'in') as [string, string[]];
+      const matches = trash.filter(entry =>
+        column === 'id' ? values.includes(entry.id) : values.includes(entry.transaction.transfer_id ?? '')
+      );
+      return { data: matches, error: null };
+    }
+    if (query.table === 'tags' && method === 'upsert') {
+      const rows = query.steps[0][1][0] as { name: string }[];
+      return { data: rows.map(row => ({ id: `tag-${row.name}` })), error: null };
+    }
+    if (method === 'select') {
+      const [, ids] = queryStep(query, 'in') as [string, string[]];
+      return { data: ids.filter(id => existing[query.table]?.includes(id)).map(id => ({ id })), error: null };
+    }
+    return { data: null, error: null };
+  };
+}
+
+beforeEach(() => {
+  resetSupabaseMock();
+  jest.clearAllMocks();
+});
+
+describe('getTrashExpiry', () => {
+  it('is the retention period after the delete', () => {
+    expect(getTrashExpiry({ deleted_at: '2025-05-01T00:00:00.000Z' }).toISOString()).toBe('2025-05-31T00:00:00.000Z');
+  });
+});
+
+describe('restoreFromTrash', () => {
+  it('puts back the transaction with its items, tags and attachments', async () => {
+    const entry = trashEntry('t1', { category_id: 'food', reconciliation_id: 'gone' }, {
+      items: [{
+        id: 'i1',
+        transaction_id: 't1',
+        user_id: 'u1',
+        item_name: 'Latte',
+        item_amount: 1,
+        item_price: 42,
+        category_id: 'drinks',
+      }],
+      tags: ['work'],
+      attachments: [{
+        id: 'a1',
+        user_id: 'u1',
+        transaction_id: 't1',
+        storage_path: 'u1/t1/receipt.jpg',
+        file_name: 'receipt.jpg',
+        mime_type: 'image/jpeg',
+        size: 1024,
+        created_at: '2025-05-20T04:00:00.000Z',
+      }],
+    });
+    respondToQueries(respondWith([entry], { categories: ['food'] }));
+
+    const restored = await restoreFromTrash(['t1'], { actor: 'ai' });
+
+    expect(restored).toEqual([entry.transaction]);
+    const [transactionUpsert] = queriesTo('transactions', 'upsert');
+    // The reconciliation was deleted in the meantime, the category was not
+    expect(transactionUpsert.steps[0][1][0]).toMatchObject({ id: 't1', category_id: 'food', reconciliation_id: null });
+    expect(queriesTo('items', 'upsert')[0].steps[0][1][0]).toEqual([
+      expect.objectContaining({ id: 'i1', category_id: null }),
+    ]);
+    expect(queriesTo('transaction_tags', 'upsert')[0].steps[0][1][0]).toEqual([
+      { transaction_id: 't1', tag_id: 'tag-work', user_id: 'u1' },
+    ]);
+    expect(queriesTo('attachments', 'upsert')).toHaveLength(1);
+
+    const [trashDelete] = queriesTo('deleted_transactions', 'delete');
+    expect(queryStep(trashDelete, 'eq')).toEqual(['id', 't1']);
+    expect(queriesTo('transaction_history', 'insert')[0].steps[0][1][0]).toEqual([
+      expect.objectContaining({ transaction_id: 't1', action: 'restore', source: 'ai' }),
+    ]);
+  });
+
+  it('restores both legs of a transfer when one is chosen', async () => {
+    const out = trashEntry('out', { amount: -100, transfer_id: 'x1' });
+    const into = trashEntry('in', { amount: 100, transfer_id: 'x1' });
+    respondToQueries(respondWith([out, into, trashEntry('other')]));
+
+    const restored = await restoreFromTrash(['out']);
+
+    expect(restored.map(transaction => transaction.id)).toEqual(['out', 'in']);
+    expect(queriesTo('transactions', 'upsert').map(query => (query.steps[0][1][0] as Transaction).id)).toEqual(['out', 'in']);
+  });
+
+  it('does nothing without ids', async () => {
+    expect(await restoreFromTrash([])).toEqual([]);
+    expect(recordedQueries).toEqual([]);
+  });
+
+  it('keeps the entry in the trash when the transaction cannot be put back', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const respond = respondWith([trashEntry('t1')]);
+    respondToQueries(query => query.table === 'transactions'
+      ? { data: null, error: { code: '42501', message: 'permission denied' } }
+      : respond(query));
+
+    await expect(restoreFromTrash(['t1'])).rejects.toMatchObject({ code: '42501' });
+    expect(queriesTo('deleted_transactions', 'delete')).toEqual([]);
+    consoleError.mockRestore();
+  });
+
+  it('takes the transaction back out when a later step fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const entry = trashEntry('t1', {}, {
+      items: [{ id: 'i1', transaction_id: 't1', user_id: 'u1', item_name: 'Latte', item_amount: 1, item_price: 42 }],
+      tags: ['work'],
+    });
+    const respond = respondWith([entry]);
+    respondToQueries(query => query.table === 'transaction_tags'
+      ? { data: null, error: { code: '08006', message: 'connection failure' } }
+      : respond(query));
+
+    await expect(restoreFromTrash(['t1'])).rejects.toMatchObject({ code: '08006' });
+
+    expect(queriesTo('transactions', 'upsert')).toHaveLength(1);
+    expect(queryStep(queriesTo('items', 'delete')[0], 'in')).toEqual(['id', ['i1']]);
+    expect(queryStep(queriesTo('transactions', 'delete')[0], 'eq')).toEqual(['id', 't1']);
+    expect(queriesTo('deleted_transactions', 'delete')).toEqual([]);
+    expect(queriesTo('transaction_history')).toEqual([]);
+    consoleError.mockRestore();
+  });
+});
+
+describe('purgeTrash', () => {
+  it('empties a trash longer than one page', async () => {
+    const trash = Array.from({ length: 1500 }, (_, index) => trashEntry(`t${index}`));
+    respondToQueries(respondWith(trash));
+
+    expect(await purgeTrash()).toBe(1500);
+
+    const purged = queriesTo('deleted_transactions', 'delete').flatMap(query => (queryStep(query, 'in') as [string, string[]])[1]);
+    expect(purged).toHaveLength(1500);
+    expect(new Set(purged).size).toBe(1500);
+  });
+
+  it('leaves the files of a transaction that is back alone', async () => {
+    const attachment = (id: string) => ({
+      id: `a-${id}`,
+      user_id: 'u1',
+      transaction_id: id,
+      storage_path: `u1/${id}/receipt.jpg`,
+      file_name: 'receipt.jpg',
+      mime_type: 'image/jpeg',
+      size: 1024,
+      created_at: '2025-05-20T04:00:00.000Z',
+    });
+    const trash = ['gone', 'back'].map(id => trashEntry(id, {}, { attachments: [attachment(id)] }));
+    respondToQueries(respondWith(trash, { transactions: ['back'] }));
+
+    await purgeTrash();
+
+    expect(removeAttachmentFiles).toHaveBeenCalledWith(['u1/gone/receipt.jpg']);
+  });
+});
@@ -0,0 +1,325 @@
+import { supabase } from './supabase';
+import { getProfile, createProfile } from './profiles';
+
+export type AccountType = 'cash' | 'bank' | 'credit_card' | 'debit_card' | 'stored_value' | 'e_wallet' | 'other';
+
+/**
+ * A place the user keeps or spends money from ("HSBC Visa", "BOC Octopus").
+ * Transactions point at it with account_id; their payment_method keeps the
+ * account's name for display, search and older clients.
+ */
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  // Balance before the first recorded transaction, in the account's currency
+  opening_balance: number;
+  icon: string | null;
+  sort_order: number;
+  is_archived: boolean;
+  created_at: string;
+}
+
+export type AccountInput = Partial<Omit<Account, 'id' | 'user_id' | 'created_at'>>;
+
+export const ACCOUNT_TYPES: { value: AccountType; label: string; icon: string }[] = [
+  { value: 'cash', label: 'Cash', icon: 'cash-outline' },
+  { value: 'bank', label: 'Bank Account', icon: 'business-outline' },
+  { value: 'credit_card', label: 'Credit Card', icon: 'card-outline' },
+  { value: 'debit_card', label: 'Debit Card', icon: 'card-outline' },
+  { value: 'stored_value', label: 'Stored Value Card', icon: 'wallet-outline' },
+  { value: 'e_wallet', label: 'E-Wallet', icon: 'phone-portrait-outline' },
+  { value: 'other', label: 'Other', icon: 'ellipsis-horizontal' },
+];
+
+// Created for new users, and for existing users with no payment method history
+const DEFAULT_ACCOUNTS: { name: string; type: AccountType }[] = [
+  { name: 'Cash', type: 'cash' },
+  { name: 'Octopus', type: 'stored_value' },
+  { name: 'Credit Card', type: 'credit_card' },
+  { name: 'Debit Card', type: 'debit_card' },
+];
+
+// Last accounts loaded, so ids can be resolved from names while offline
+let cachedAccounts: Account[] = [];
+
+export function getAccountTypeIcon(type: AccountType) {
+  return ACCOUNT_TYPES.find(option => option.value === type)?.icon ?? 'wallet-outline';
+}
+
+/**
+ * Best guess of the account type behind a free-text payment method
+ */
+export function guessAccountType(name: string): AccountType {
+  const value = name.toLowerCase();
+  if (value.includes('cash')) return 'cash';
+  if (value.includes('octopus') || value.includes('stored value')) return 'stored_value';
+  if (value.includes('credit') || /\b(visa|mastercard|amex|american express)\b/.test(value)) return 'credit_card';
+  if (value.includes('debit')) return 'debit_card';
+  if (value.includes('bank') || value.includes('transfer')) return 'bank';
+  if (/pay\b|wallet|alipay|paypal/.test(value)) return 'e_wallet';
+  return 'other';
+}
+
+function sameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Id of the account with this name (case-insensitive), from the last loaded
+ * accounts. Works offline; returns null when no account matches.
+ */
+export function findAccountIdByName(name: string | null | undefined): string | null {
+  if (!name) return null;
+  return cachedAccounts.find(account => sameName(account.name, name))?.id ?? null;
+}
+
+/**
+ * Get the current user's accounts in display order.
+ * Falls back to the last loaded accounts if the request fails (e.g. offline).
+ */
+export async function getAccounts(options?: { includeArchived?: boolean }) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('sort_order')
+    .order('name');
+
+  let accounts: Account[];
+  if (error) {
+    console.error('Error fetching accounts:', error);
+    if (cachedAccounts.length === 0) throw error;
+    accounts = cachedAccounts;
+  } else {
+    accounts = cachedAccounts = data as Account[];
+  }
+
+  return options?.includeArchived ? accounts : accounts.filter(account => !account.is_archived);
+}
+
+/**
+ * Add an account. Type, icon and sort order default from the name and the
+ * existing accounts.
+ */
+export async function addAccount(input: AccountInput & { name: string }) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const name = input.name.trim();
+  if (!name) throw new Error('Account name is required');
+
+  let profile;
+  try {
+    profile = await getProfile();
+  } catch {
+    profile = await createProfile();
+  }
+
+  const type = input.type ?? guessAccountType(name);
+  const { data, error } = await supabase
+    .from('accounts')
+    .insert([{
+      user_id: user.id,
+      name,
+      type,
+      currency: input.currency ?? profile?.primary_currency ?? 'HKD',
+      opening_balance: input.opening_balance ?? 0,
+      icon: input.icon ?? getAccountTypeIcon(type),
+      sort_order: input.sort_order ?? cachedAccounts.length + 1,
+      is_archived: input.is_archived ?? false,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding account:', error);
+    throw error;
+  }
+
+  cachedAccounts = [...cachedAccounts, data as Account];
+  return data as Account;
+}
+
+/**
+ * Update an account. Renaming it also renames the payment_method of its
+ * transactions.
+ */
+export async function updateAccount(id: string, updates: AccountInput) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (updates.name !== undefined && !updates.name.trim()) {
+    throw new Error('Account name is required');
+  }
+
+  const payload = { ...updates, ...(updates.name !== undefined ? { name: updates.name.trim() } : {}) };
+  const { data, error } = await supabase
+    .from('accounts')
+    .update(payload)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating account:', error);
+    throw error;
+  }
+
+  const account = data as Account;
+  if (payload.name !== undefined) {
+    const { error: txError } = await supabase
+      .from('transactions')
+      .update({ payment_method: account.name })
+      .eq('account_id', id)
+      .eq('user_id', user.id);
+
+    if (txError) {
+      console.error('Error renaming account on transactions:', txError);
+      throw txError;
+    }
+  }
+
+  cachedAccounts = cachedAccounts.map(existing => (existing.id === id ? account : existing));
+  return account;
+}
+
+/**
+ * Archive (hide from pickers) or restore an account. Its transactions are kept.
+ */
+export async function setAccountArchived(id: string, archived: boolean) {
+  return updateAccount(id, { is_archived: archived });
+}
+
+/**
+ * Save a new display order; ids are given in the order to show them
+ */
+export async function reorderAccounts(ids: string[]) {
+  for (let index = 0; index < ids.length; index++) {
+    await updateAccount(ids[index], { sort_order: index + 1 });
+  }
+}
+
+/**
+ * Delete an account that no transaction uses. Accounts with transactions
+ * should be archived instead, so their history and balance stay intact.
+ */
+export async function deleteAccount(id: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { count, error: countError } = await supabase
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('account_id', id)
+    .eq('user_id', user.id);
+
+  if (countError) {
+    console.error('Error counting account transactions:', countError);
+    throw countError;
+  }
+  if (count) {
+    throw new Error('This account has transactions. Archive it instead.');
+  }
+
+  const { error } = await supabase
+    .from('accounts')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting account:', error);
+    throw error;
+  }
+
+  cachedAccounts = cachedAccounts.filter(account => account.id !== id);
+  return true;
+}
+
+/**
+ * Link transactions that only have a free-text payment_method to an account
+ * with the same name (case-insensitive), creating accounts for names that
+ * have none. Users left without any account get the default ones.
+ * Safe to run repeatedly; it only touches unlinked transactions.
+ *
+ * @returns The number of accounts created and transactions linked
+ */
+export async function migratePaymentMethodsToAccounts() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('payment_method, currency')
+      .eq('user_id', user.id)
+      .is('account_id', null)
+      .not('payment_method', 'is', null);
+
+    if (error) {
+      console.error('Error fetching unlinked payment methods:', error);
+      throw error;
+    }
+
+    // Distinct names (first spelling wins) with their most used currency
+    const names = new Map<string, { name: string; currencies: Record<string, number> }>();
+    for (const row of (data ?? []) as { payment_method: string; currency: string }[]) {
+      const name = row.payment_method.trim();
+      if (!name) continue;
+      const key = name.toLowerCase();
+      const entry = names.get(key) ?? { name, currencies: {} };
+      entry.currencies[row.currency] = (entry.currencies[row.currency] || 0) + 1;
+      names.set(key, entry);
+    }
+
+    let accounts = await getAccounts({ includeArchived: true });
+    let created = 0;
+    let linked = 0;
+
+    for (const { name, currencies } of names.values()) {
+      let account = accounts.find(existing => sameName(existing.name, name));
+      if (!account) {
+        const currency = Object.entries(currencies).sort(([, a], [, b]) => b - a)[0]?.[0];
+        account = await addAccount({ name, currency });
+        accounts = [...accounts, account];
+        created++;
+      }
+
+      const { data: updated, error: linkError } = await supabase
+        .from('transactions')
+        .update({ account_id: account.id })
+        .eq('user_id', user.id)
+        .is('account_id', null)
+        .ilike('payment_method', name.replace(/[\\%_]/g, char => `\\${char}`))
+        .select('id');
+
+      if (linkError) {
+        console.error('Error linking transactions to account:', linkError);
+        throw linkError;
+      }
+      linked += updated?.length ?? 0;
+    }
+
+    if (accounts.length === 0) {
+      for (const account of DEFAULT_ACCOUNTS) {
+        await addAccount(account);
+        created++;
+      }
+    }
+
+    return { created, linked };
+  } catch (error) {
+    console.error('Failed to migrate payment methods to accounts:', error);
+    throw error;
+  }
+}
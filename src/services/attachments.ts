@@ -0,0 +1,300 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { supabase } from './supabase';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+
+// Signed URLs are only used to display a file right away
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface Attachment {
+  id: string;
+  user_id: string;
+  transaction_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size: number | null;
+  created_at: string;
+}
+
+/**
+ * A local file to attach (from the camera, image picker or document picker)
+ */
+export interface AttachmentFile {
+  uri: string;
+  name?: string | null;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+/**
+ * Where attachment files live. Supabase Storage in the app; swap in the
+ * local stand-in (see createLocalAttachmentStorage) to run without a bucket.
+ */
+export interface AttachmentStorage {
+  upload(path: string, file: AttachmentFile, mimeType: string): Promise<void>;
+  getViewUrls(paths: string[]): Promise<Record<string, string>>;
+  remove(paths: string[]): Promise<void>;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+};
+
+/**
+ * Guess a MIME type from a file name or URI extension
+ */
+export function guessMimeType(nameOrUri: string): string {
+  const extension = nameOrUri.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, 'mime_type'>): boolean {
+  return attachment.mime_type.startsWith('image/');
+}
+
+// ============================================================
+// Storage backends
+// ============================================================
+
+/**
+ * Read a local file into something the Storage client can upload
+ * - Web: Blob via fetch
+ * - Native: base64 via expo-file-system, decoded to an ArrayBuffer
+ */
+async function readFileBody(uri: string): Promise<Blob | ArrayBuffer> {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return await response.blob();
+  }
+
+  const base64: string = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export const supabaseAttachmentStorage: AttachmentStorage = {
+  async upload(path, file, mimeType) {
+    const body = await readFileBody(file.uri);
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, body, { contentType: mimeType, upsert: false });
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+  },
+
+  async getViewUrls(paths) {
+    if (paths.length === 0) return {};
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+    if (error) {
+      console.error('Error creating attachment URLs:', error);
+      throw error;
+    }
+    const urls: Record<string, string> = {};
+    (data ?? []).forEach(entry => {
+      if (entry.path && entry.signedUrl) {
+        urls[entry.path] = entry.signedUrl;
+      }
+    });
+    return urls;
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+    if (error) {
+      console.error('Error removing attachments:', error);
+      throw error;
+    }
+  },
+};
+
+/**
+ * In-memory stand-in for Supabase Storage. Files are not copied: the stored
+ * path simply points back at the original local URI.
+ */
+export function createLocalAttachmentStorage(): AttachmentStorage {
+  const files = new Map<string, string>();
+  return {
+    async upload(path, file) {
+      files.set(path, file.uri);
+    },
+    async getViewUrls(paths) {
+      const urls: Record<string, string> = {};
+      paths.forEach(path => {
+        const uri = files.get(path);
+        if (uri) urls[path] = uri;
+      });
+      return urls;
+    },
+    async remove(paths) {
+      paths.forEach(path => files.delete(path));
+    },
+  };
+}
+
+let attachmentStorage: AttachmentStorage = supabaseAttachmentStorage;
+
+export function setAttachmentStorage(storage: AttachmentStorage) {
+  attachmentStorage = storage;
+}
+
+// ============================================================
+// Attachments
+// ============================================================
+
+function buildStoragePath(userId: string, transactionId: string, fileName: string) {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-80) || 'file';
+  return `${userId}/${transactionId}/${Date.now()}-${safeName}`;
+}
+
+/**
+ * Upload a file and link it to a transaction
+ */
+export async function addTransactionAttachment(transactionId: string, file: AttachmentFile) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const fileName = file.name || file.uri.split('/').pop()?.split('?')[0] || 'attachment';
+    const mimeType = file.mimeType || guessMimeType(fileName);
+    const storagePath = buildStoragePath(user.id, transactionId, fileName);
+
+    await attachmentStorage.upload(storagePath, file, mimeType);
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .insert([{
+        user_id: user.id,
+        transaction_id: transactionId,
+        storage_path: storagePath,
+        file_name: fileName,
+        mime_type: mimeType,
+        size: file.size ?? null,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding attachment:', error);
+      // Don't leave an orphaned file behind
+      await attachmentStorage.remove([storagePath]).catch(() => {});
+      throw error;
+    }
+
+    return data as Attachment;
+  } catch (error) {
+    console.error('Failed to add attachment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the attachments of a transaction, oldest first
+ */
+export async function getTransactionAttachments(transactionId: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching attachments:', error);
+      throw error;
+    }
+
+    return (data ?? []) as Attachment[];
+  } catch (error) {
+    console.error('Failed to get attachments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get viewable URLs for attachments, keyed by attachment id
+ */
+export async function getAttachmentUrls(attachments: Attachment[]) {
+  try {
+    const urlsByPath = await attachmentStorage.getViewUrls(attachments.map(a => a.storage_path));
+    const urls: Record<string, string> = {};
+    attachments.forEach(attachment => {
+      const url = urlsByPath[attachment.storage_path];
+      if (url) urls[attachment.id] = url;
+    });
+    return urls;
+  } catch (error) {
+    console.error('Failed to get attachment URLs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an attachment row and its file
+ */
+export async function deleteAttachment(attachment: Attachment) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('attachments')
+      .delete()
+      .eq('id', attachment.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting attachment:', error);
+      throw error;
+    }
+
+    await attachmentStorage.remove([attachment.storage_path]);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete attachment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove stored attachment files by path.
+ * Rows go away with the transaction (ON DELETE CASCADE), but files are kept
+ * while it is in the trash and removed here when it is purged (see trash.ts).
+ */
+export async function removeAttachmentFiles(paths: string[]) {
+  if (paths.length === 0) return;
+  await attachmentStorage.remove(paths);
+}
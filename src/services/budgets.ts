@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import type { Category } from './categories';
 
 // Default budget constants (exported so other modules can reference)
 export const DEFAULT_MONTHLY_BUDGET = 3000;
@@ -9,15 +10,75 @@ export interface Budget {
   period: 'monthly' | 'yearly';
   amount: number;
   start_date: string;
+  // null = global budget covering all spending
+  category_id: string | null;
   created_at: string;
   updated_at: string;
+  // Joined data (optional)
+  category?: Category;
+}
+
+/**
+ * Convert a budget to its monthly amount
+ * Yearly budgets are spread evenly over 12 months
+ */
+export function getBudgetMonthlyAmount(budget: Budget): number {
+  return budget.period === 'monthly' ? budget.amount : budget.amount / 12;
+}
+
+/**
+ * Scale a budget to a report period (the same factors as getWeeklyBudgetAmount)
+ * Falls back to DEFAULT_MONTHLY_BUDGET when there is no budget
+ */
+export function getBudgetAmountForPeriod(budget: Budget | null, period: 'week' | 'month' | 'year'): number {
+  if (!budget) {
+    if (period === 'year') return DEFAULT_MONTHLY_BUDGET * 12;
+    if (period === 'week') return Math.round(DEFAULT_MONTHLY_BUDGET / 4.345);
+    return DEFAULT_MONTHLY_BUDGET;
+  }
+  if (period === 'year') {
+    return budget.period === 'yearly' ? budget.amount : budget.amount * 12;
+  }
+  if (period === 'week') {
+    return budget.period === 'monthly' ? budget.amount / 4.345 : budget.amount / 52;
+  }
+  return getBudgetMonthlyAmount(budget);
+}
+
+/**
+ * Pick the active budget from a list of budgets (e.g. the local snapshot):
+ * the most recent one that has started, for the given category (null = global)
+ */
+export function findActiveBudget(budgets: Budget[], categoryId: string | null = null): Budget | null {
+  const today = new Date().toISOString().split('T')[0];
+  return budgets
+    .filter(budget => (budget.category_id ?? null) === categoryId && budget.start_date <= today)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))[0] ?? null;
+}
+
+/**
+ * Pick the active budget of every category that has one from a list of budgets
+ */
+export function findActiveCategoryBudgets(budgets: Budget[]): Budget[] {
+  const today = new Date().toISOString().split('T')[0];
+  const activeByCategory = new Map<string, Budget>();
+  [...budgets]
+    .filter(budget => budget.category_id && budget.start_date <= today)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))
+    .forEach(budget => {
+      if (!activeByCategory.has(budget.category_id!)) {
+        activeByCategory.set(budget.category_id!, budget);
+      }
+    });
+  return Array.from(activeByCategory.values());
 }
 
 /**
  * Get current active budget for the user
  * Returns the most recent budget that has started (start_date <= today)
+ * Without a categoryId the global budget is returned, otherwise the budget for that category
  */
-export async function getCurrentBudget(): Promise<Budget | null> {
+export async function getCurrentBudget(categoryId: string | null = null): Promise<Budget | null> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     
@@ -27,11 +88,15 @@ export async function getCurrentBudget(): Promise<Budget | null> {
 
     const now = new Date().toISOString().split('T')[0];
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('budgets')
       .select('*')
       .eq('user_id', user.id)
-      .lte('start_date', now)
+      .lte('start_date', now);
+
+    query = categoryId ? query.eq('category_id', categoryId) : query.is('category_id', null);
+
+    const { data, error } = await query
       .order('start_date', { ascending: false })
       .limit(1)
       .single();
@@ -102,13 +167,15 @@ export async function getWeeklyBudgetAmount(): Promise<number> {
 
 /**
  * Create or update budget
- * If a budget with the same period and start_date exists, it will be updated
+ * If a budget with the same period, start_date and category exists, it will be updated
  * Otherwise, a new budget will be created
+ * Pass a categoryId to cap a single category; omit it for the global budget
  */
 export async function setBudget(
   amount: number, 
   period: 'monthly' | 'yearly', 
-  startDate: string
+  startDate: string,
+  categoryId: string | null = null
 ): Promise<Budget> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -117,14 +184,19 @@ export async function setBudget(
       throw new Error('User not authenticated');
     }
 
-    // Check if a budget already exists for this period and start date
-    const { data: existingBudget } = await supabase
+    // Check if a budget already exists for this period, start date and category
+    let existingQuery = supabase
       .from('budgets')
       .select('*')
       .eq('user_id', user.id)
       .eq('period', period)
-      .eq('start_date', startDate)
-      .single();
+      .eq('start_date', startDate);
+
+    existingQuery = categoryId
+      ? existingQuery.eq('category_id', categoryId)
+      : existingQuery.is('category_id', null);
+
+    const { data: existingBudget } = await existingQuery.single();
 
     if (existingBudget) {
       // Update existing budget
@@ -153,6 +225,7 @@ export async function setBudget(
             amount,
             period,
             start_date: startDate,
+            category_id: categoryId,
             user_id: user.id,
           }
         ])
@@ -174,7 +247,7 @@ export async function setBudget(
 
 /**
  * Update current budget amount
- * Updates the most recent budget for the user
+ * Updates the most recent global budget for the user
  */
 export async function updateCurrentBudget(amount: number): Promise<Budget> {
   try {
@@ -230,10 +303,13 @@ export async function deleteBudget(id: string): Promise<void> {
 }
 
 /**
- * Get all budgets for the current user
+ * Get all global budgets for the current user
  * Ordered by start_date descending
+ * Pass includeCategoryBudgets to also return category-scoped budgets
  */
-export async function getAllBudgets(): Promise<Budget[]> {
+export async function getAllBudgets(
+  options?: { includeCategoryBudgets?: boolean }
+): Promise<Budget[]> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     
@@ -241,11 +317,16 @@ export async function getAllBudgets(): Promise<Budget[]> {
       throw new Error('User not authenticated');
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('budgets')
       .select('*')
-      .eq('user_id', user.id)
-      .order('start_date', { ascending: false });
+      .eq('user_id', user.id);
+
+    if (!options?.includeCategoryBudgets) {
+      query = query.is('category_id', null);
+    }
+
+    const { data, error } = await query.order('start_date', { ascending: false });
 
     if (error) {
       console.error('Error fetching budgets:', error);
@@ -258,3 +339,74 @@ export async function getAllBudgets(): Promise<Budget[]> {
     throw error;
   }
 }
+
+/**
+ * Get the active budget of every category that has one
+ * For each category, returns the most recent budget that has started (start_date <= today)
+ */
+export async function getCategoryBudgets(): Promise<Budget[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const now = new Date().toISOString().split('T')[0];
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .select(`
+        *,
+        category:categories(*)
+      `)
+      .eq('user_id', user.id)
+      .not('category_id', 'is', null)
+      .lte('start_date', now)
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching category budgets:', error);
+      throw error;
+    }
+
+    return findActiveCategoryBudgets(data as Budget[]);
+  } catch (error) {
+    console.error('Failed to fetch category budgets:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update the amount and/or period of a budget by ID
+ */
+export async function updateBudget(
+  id: string,
+  updates: { amount?: number; period?: 'monthly' | 'yearly' }
+): Promise<Budget> {
+  try {
+    if (!id) {
+      throw new Error('Budget ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating budget:', error);
+      throw error;
+    }
+
+    return data as Budget;
+  } catch (error) {
+    console.error('Failed to update budget:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,446 @@
+import { supabase } from './supabase';
+import { deleteTransaction, updateTransaction, type Transaction, type TransactionUpdateInput } from './transactions';
+import { deleteTransfer } from './transfers';
+import { normalizeTagName, resolveTags, setTransactionTags } from './tags';
+import { findAccountIdByName } from './accounts';
+import { getOutboxState } from './outbox';
+import { moveTransactionsToTrash } from './trash';
+import { diffTransactionFields, recordTransactionHistoryEntries } from './transaction-history';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * A change applied to many transactions at once from the transaction history
+ */
+export type BulkAction =
+  | { kind: 'setCategory'; categoryId: string | null }
+  | { kind: 'setPaymentMethod'; paymentMethod: string | null }
+  | { kind: 'setCurrency'; currency: string }
+  | { kind: 'addTags'; names: string[] }
+  | { kind: 'removeTags'; names: string[] }
+  | { kind: 'delete' };
+
+export interface BulkFailure {
+  transaction: Transaction;
+  message: string;
+}
+
+export interface BulkActionResult {
+  succeeded: number;
+  failed: BulkFailure[];
+  // Transactions moved to the trash by a delete, including the other leg of a transfer
+  deletedIds: string[];
+}
+
+// Batches (or single writes) in flight at once
+const BULK_CONCURRENCY = 4;
+
+// Transactions per batched request: their ids go in the URL
+const BULK_BATCH_SIZE = 100;
+
+type FieldAction = Extract<BulkAction, { kind: 'setCategory' | 'setPaymentMethod' | 'setCurrency' }>;
+type TagAction = Extract<BulkAction, { kind: 'addTags' | 'removeTags' }>;
+
+function tagsAfter(transaction: Transaction, action: TagAction) {
+  const current = (transaction.tags ?? []).map(tag => tag.name);
+  const names = action.names.map(normalizeTagName).filter(Boolean);
+  if (action.kind === 'addTags') {
+    return Array.from(new Set([...current, ...names]));
+  }
+  return current.filter(name => !names.includes(normalizeTagName(name)));
+}
+
+/**
+ * Whether `action` would change the transaction. Throws for transactions it
+ * doesn't apply to.
+ */
+function needsChange(transaction: Transaction, action: BulkAction) {
+  switch (action.kind) {
+    case 'setCategory':
+      // Transfers move money between accounts and are never categorized
+      if (transaction.transfer_id) throw new Error('Transfers have no category');
+      return transaction.category_id !== action.categoryId;
+
+    case 'setPaymentMethod':
+      if (transaction.transfer_id) throw new Error('Change a transfer\'s accounts by editing the transfer');
+      return transaction.payment_method !== action.paymentMethod;
+
+    case 'setCurrency':
+      return transaction.currency !== action.currency;
+
+    case 'addTags':
+    case 'removeTags': {
+      const current = (transaction.tags ?? []).map(tag => tag.name);
+      return tagsAfter(transaction, action).join(',') !== current.join(',');
+    }
+
+    case 'delete':
+      return true;
+  }
+}
+
+function fieldUpdates(action: FieldAction): TransactionUpdateInput {
+  switch (action.kind) {
+    case 'setCategory':
+      return { category_id: action.categoryId };
+    case 'setPaymentMethod':
+      return { payment_method: action.paymentMethod };
+    case 'setCurrency':
+      return { currency: action.currency };
+  }
+}
+
+/**
+ * Write one transaction (or transfer) through the offline outbox. Used for
+ * what a batch can't take: transactions with queued offline changes, ones
+ * that changed on the server, and batches that failed.
+ */
+async function applyToTransaction(
+  transaction: Transaction,
+  action: BulkAction,
+  allowReconciled: boolean
+): Promise<string[] | void> {
+  switch (action.kind) {
+    case 'setCategory':
+    case 'setPaymentMethod':
+    case 'setCurrency':
+      await updateTransaction(transaction.id, fieldUpdates(action), { base: transaction, allowReconciled });
+      return;
+
+    case 'addTags':
+    case 'removeTags':
+      await setTransactionTags(transaction.id, tagsAfter(transaction, action));
+      return;
+
+    case 'delete':
+      if (transaction.transfer_id) {
+        return await deleteTransfer(transaction.transfer_id, { allowReconciled });
+      }
+      await deleteTransaction(transaction.id, { baseUpdatedAt: transaction.updated_at, allowReconciled });
+      return [transaction.id];
+  }
+}
+
+// Changed on the server after the user loaded it: left to the outbox, which keeps newer edits
+function changedSince(server: Transaction, seen: Transaction | undefined) {
+  return !!seen?.updated_at && !!server.updated_at
+    && new Date(server.updated_at).getTime() > new Date(seen.updated_at).getTime();
+}
+
+interface BatchResult {
+  // Selected transactions the batch took care of
+  handled: Set<string>;
+  deletedIds: string[];
+}
+
+/**
+ * Set one field on a batch of transactions in a single update, with the same
+ * checks as a replayed edit (see outbox.ts)
+ */
+async function updateFieldsInBatch(
+  userId: string,
+  transactions: Transaction[],
+  action: FieldAction,
+  allowReconciled: boolean
+): Promise<BatchResult> {
+  const seen = new Map(transactions.map(transaction => [transaction.id, transaction]));
+  const { data: server, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', Array.from(seen.keys()));
+  if (error) throw error;
+
+  const before = new Map((server as Transaction[])
+    .filter(row => (allowReconciled || !row.reconciliation_id) && !changedSince(row, seen.get(row.id)))
+    .map(row => [row.id, row]));
+  if (before.size === 0) return { handled: new Set(), deletedIds: [] };
+
+  const updates = fieldUpdates(action);
+  if (updates.payment_method !== undefined) {
+    // Keep the account link in step with the payment method, like updateTransaction
+    updates.account_id = findAccountIdByName(updates.payment_method);
+  }
+
+  const changedAt = new Date().toISOString();
+  let query = supabase
+    .from('transactions')
+    .update({ ...updates, updated_at: changedAt })
+    .eq('user_id', userId)
+    .in('id', Array.from(before.keys()));
+  if (!allowReconciled) {
+    query = query.is('reconciliation_id', null);
+  }
+  const { data, error: updateError } = await query.select('*');
+  if (updateError) throw updateError;
+
+  const updated = (data ?? []) as Transaction[];
+  await recordTransactionHistoryEntries(userId, updated.map(row => ({
+    transactionId: row.id,
+    action: 'update',
+    source: 'manual',
+    changes: diffTransactionFields(before.get(row.id) ?? null, row),
+    changedAt,
+  })));
+  return { handled: new Set(updated.map(row => row.id)), deletedIds: [] };
+}
+
+/**
+ * Add or remove tags on a batch of transactions with one write to
+ * transaction_tags. Tags aren't in the edit history.
+ */
+async function setTagsInBatch(userId: string, transactions: Transaction[], action: TagAction): Promise<BatchResult> {
+  const names = Array.from(new Set(action.names.map(normalizeTagName).filter(Boolean)));
+  const ids = transactions.map(transaction => transaction.id);
+
+  if (action.kind === 'addTags') {
+    const tags = await resolveTags(names, userId);
+    const { error } = await supabase
+      .from('transaction_tags')
+      .upsert(
+        ids.flatMap(id => tags.map(tag => ({ transaction_id: id, tag_id: tag.id, user_id: userId }))),
+        { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  } else {
+    const { data: tags, error } = await supabase
+      .from('tags')
+      .select('id')
+      .eq('user_id', userId)
+      .in('name', names);
+    if (error) throw error;
+
+    if (tags && tags.length > 0) {
+      const { error: removeError } = await supabase
+        .from('transaction_tags')
+        .delete()
+        .eq('user_id', userId)
+        .in('transaction_id', ids)
+        .in('tag_id', tags.map((tag: { id: string }) => tag.id));
+      if (removeError) throw removeError;
+    }
+  }
+
+  return { handled: new Set(ids), deletedIds: [] };
+}
+
+/**
+ * Move a batch of transactions to the trash and delete them, with the other
+ * leg of any transfer among them. A transfer is only deleted here if all of
+ * its legs can be.
+ */
+async function deleteInBatch(
+  userId: string,
+  transactions: Transaction[],
+  allowReconciled: boolean,
+  pendingIds: Set<string>
+): Promise<BatchResult> {
+  const seen = new Map(transactions.map(transaction => [transaction.id, transaction]));
+  const transferIds = Array.from(new Set(transactions.map(t => t.transfer_id).filter((id): id is string => !!id)));
+
+  const [selected, legs] = await Promise.all([
+    supabase.from('transactions').select('*').eq('user_id', userId).in('id', Array.from(seen.keys())),
+    transferIds.length > 0
+      ? supabase.from('transactions').select('*').eq('user_id', userId).in('transfer_id', transferIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (selected.error) throw selected.error;
+  if (legs.error) throw legs.error;
+
+  const server = new Map([...(selected.data ?? []), ...(legs.data ?? [])].map((row: Transaction) => [row.id, row]));
+  const deletable = (row: Transaction) =>
+    (allowReconciled || !row.reconciliation_id) && !changedSince(row, seen.get(row.id)) && !pendingIds.has(row.id);
+  const blockedTransfers = new Set(
+    Array.from(server.values()).filter(row => row.transfer_id && !deletable(row)).map(row => row.transfer_id)
+  );
+  const rows = Array.from(server.values())
+    .filter(row => deletable(row) && !(row.transfer_id && blockedTransfers.has(row.transfer_id)));
+
+  const trashed = await moveTransactionsToTrash(rows.map(row => row.id), userId);
+  const deletedIds = trashed.map(row => row.id);
+  if (deletedIds.length > 0) {
+    const { error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', deletedIds);
+    if (error) throw error;
+
+    const changedAt = new Date().toISOString();
+    await recordTransactionHistoryEntries(userId, trashed.map(row => ({
+      transactionId: row.id,
+      action: 'delete',
+      source: 'manual',
+      changes: diffTransactionFields(row, null),
+      changedAt,
+    })));
+  }
+
+  // Already gone from the server counts as deleted, as it does for a single delete
+  const handled = new Set(Array.from(seen.keys()).filter(id => deletedIds.includes(id) || !server.has(id)));
+  return { handled, deletedIds };
+}
+
+function applyBatch(
+  userId: string,
+  transactions: Transaction[],
+  action: BulkAction,
+  allowReconciled: boolean,
+  pendingIds: Set<string>
+): Promise<BatchResult> {
+  switch (action.kind) {
+    case 'setCategory':
+    case 'setPaymentMethod':
+    case 'setCurrency':
+      return updateFieldsInBatch(userId, transactions, action, allowReconciled);
+    case 'addTags':
+    case 'removeTags':
+      return setTagsInBatch(userId, transactions, action);
+    case 'delete':
+      return deleteInBatch(userId, transactions, allowReconciled, pendingIds);
+  }
+}
+
+// Split jobs into batches of about `size` transactions, never splitting a job
+function toBatches(jobs: Transaction[][], size: number) {
+  const batches: Transaction[][][] = [];
+  let current: Transaction[][] = [];
+  let count = 0;
+  for (const job of jobs) {
+    if (count > 0 && count + job.length > size) {
+      batches.push(current);
+      current = [];
+      count = 0;
+    }
+    current.push(job);
+    count += job.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Apply one change to many transactions. Every transaction is attempted: a
+ * failure is reported with its reason and the rest still go through, so the
+ * result can list exactly what wasn't changed.
+ *
+ * Transactions are written in batches of BULK_BATCH_SIZE, one request per
+ * batch (plus one for the edit history). Those a batch can't take
+ * (queued offline changes, edits made elsewhere in the meantime, a failed
+ * batch, e.g. while offline) are written one by one through the outbox.
+ *
+ * Deleting one leg of a transfer deletes the whole transfer, as it does for a
+ * single transaction.
+ *
+ * @param options.allowReconciled - The user confirmed changing reconciled transactions
+ * @param options.onProgress - Called as transactions are done with the number done so far
+ *
+ * @example
+ * ```typescript
+ * const { succeeded, failed } = await runBulkAction(selected, { kind: 'setCategory', categoryId }, {
+ *   onProgress: (done, total) => setProgress(done / total),
+ * });
+ * ```
+ */
+export async function runBulkAction(
+  transactions: Transaction[],
+  action: BulkAction,
+  options?: { allowReconciled?: boolean; onProgress?: (done: number, total: number) => void }
+): Promise<BulkActionResult> {
+  const allowReconciled = options?.allowReconciled ?? false;
+  const total = transactions.length;
+  let done = 0;
+  const progress = (count: number) => {
+    if (count === 0) return;
+    done += count;
+    options?.onProgress?.(done, total);
+  };
+
+  const failed: BulkFailure[] = [];
+  const deletedIds: string[] = [];
+  const toWrite: Transaction[] = [];
+  for (const transaction of transactions) {
+    try {
+      if (needsChange(transaction, action)) toWrite.push(transaction);
+    } catch (error) {
+      failed.push({ transaction, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  progress(total - toWrite.length);
+
+  // Both legs of a transfer go in one job so the transfer is deleted only once
+  const jobs: Transaction[][] = [];
+  const transferJobs = new Map<string, Transaction[]>();
+  for (const transaction of toWrite) {
+    if (action.kind === 'delete' && transaction.transfer_id) {
+      const legs = transferJobs.get(transaction.transfer_id);
+      if (legs) {
+        legs.push(transaction);
+        continue;
+      }
+      const job = [transaction];
+      transferJobs.set(transaction.transfer_id, job);
+      jobs.push(job);
+    } else {
+      jobs.push([transaction]);
+    }
+  }
+
+  // Queued offline changes must reach the server first, so these stay in the outbox's order
+  const pendingIds = new Set(getOutboxState().pendingTransactionIds);
+  const isQueued = (job: Transaction[]) => job.some(transaction => pendingIds.has(transaction.id));
+  const oneByOne = jobs.filter(isQueued);
+
+  const { data: { user } } = await supabase.auth.getUser().catch(error => {
+    console.warn('[Bulk Actions] Could not check the session, writing one by one:', error);
+    return { data: { user: null } };
+  });
+  const batchable = jobs.filter(job => !isQueued(job));
+  if (!user) {
+    oneByOne.push(...batchable);
+  } else {
+    const batches = toBatches(batchable, BULK_BATCH_SIZE);
+    const batchResults = await mapWithConcurrency(batches, BULK_CONCURRENCY, batch =>
+      applyBatch(user.id, batch.flat(), action, allowReconciled, pendingIds)
+    );
+    batchResults.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`[Bulk Actions] ${action.kind}: batch failed, writing it one by one:`, result.reason);
+        oneByOne.push(...batches[index]);
+        return;
+      }
+      const { handled } = result.value;
+      deletedIds.push(...result.value.deletedIds);
+      for (const job of batches[index]) {
+        if (job.every(transaction => handled.has(transaction.id))) {
+          progress(job.length);
+        } else {
+          oneByOne.push(job);
+        }
+      }
+    });
+  }
+
+  const results = await mapWithConcurrency(oneByOne, BULK_CONCURRENCY, async job => {
+    try {
+      return await applyToTransaction(job[0], action, allowReconciled);
+    } finally {
+      progress(job.length);
+    }
+  });
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      deletedIds.push(...(result.value ?? []));
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      for (const transaction of oneByOne[index]) {
+        failed.push({ transaction, message });
+      }
+    }
+  });
+
+  if (failed.length > 0) {
+    console.warn(`[Bulk Actions] ${action.kind}: ${failed.length} of ${total} transaction(s) failed`);
+  }
+  return { succeeded: total - failed.length, failed, deletedIds: Array.from(new Set(deletedIds)) };
+}
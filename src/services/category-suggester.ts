@@ -0,0 +1,279 @@
+import { getLocalSnapshot, subscribeToLocalStore } from './local-store';
+import { subscribeToOutbox } from './outbox';
+import { normalizeMerchantKey } from './merchants';
+import type { Category } from './categories';
+import type { Transaction } from './transactions';
+
+/**
+ * On-device category suggestions learned from the user's own history, so
+ * manual entry gets suggestions without an AI service or API key.
+ *
+ * A naive Bayes classifier over merchant, note and item words, the amount's
+ * size and the payment method. It trains on the local store (see
+ * local-store.ts) and is updated per transaction when the store changes.
+ */
+
+export interface SuggestionInput {
+  merchant?: string | null;
+  note?: string | null;
+  itemNames?: string[];
+  amount?: number | null;
+  paymentMethod?: string | null;
+}
+
+export interface CategorySuggestion {
+  category: Category;
+  // Share of the probability among all categories, 0-1
+  confidence: number;
+}
+
+interface Example {
+  categoryId: string;
+  features: string[];
+  signature: string;
+}
+
+interface CategoryModel {
+  examples: Map<string, Example>;
+  // Category id -> number of transactions
+  categoryCounts: Map<string, number>;
+  // Category id -> feature -> count
+  featureCounts: Map<string, Map<string, number>>;
+  // Category id -> total feature count
+  featureTotals: Map<string, number>;
+  // Feature -> count over all categories, for the vocabulary size
+  vocabulary: Map<string, number>;
+}
+
+// The whole merchant is a stronger signal than any single word
+const MERCHANT_WEIGHT = 3;
+// Below this many labelled transactions, suggestions are mostly noise
+const MIN_EXAMPLES = 3;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'of', 'to', 'in', 'at', 'on', 'a', 'an']);
+
+function createModel(): CategoryModel {
+  return {
+    examples: new Map(),
+    categoryCounts: new Map(),
+    featureCounts: new Map(),
+    featureTotals: new Map(),
+    vocabulary: new Map(),
+  };
+}
+
+let model = createModel();
+let categories: Category[] = [];
+let syncPromise: Promise<void> | null = null;
+let syncQueued = false;
+
+function words(text: string | null | undefined) {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+/**
+ * Features of a transaction (or of a form being filled in)
+ */
+export function extractFeatures(input: SuggestionInput): string[] {
+  const features: string[] = [];
+
+  const merchantKey = input.merchant ? normalizeMerchantKey(input.merchant) : '';
+  if (merchantKey) {
+    for (let i = 0; i < MERCHANT_WEIGHT; i++) features.push(`m:${merchantKey}`);
+  }
+  for (const word of words(input.merchant)) features.push(`w:${word}`);
+  for (const word of words(input.note)) features.push(`n:${word}`);
+  for (const name of input.itemNames ?? []) {
+    for (const word of words(name)) features.push(`i:${word}`);
+  }
+
+  if (input.amount) {
+    // Order of magnitude plus direction: coffee and rent rarely share a bucket
+    const bucket = Math.floor(Math.log10(Math.max(1, Math.abs(input.amount))) * 2);
+    features.push(`a:${input.amount > 0 ? '+' : '-'}${bucket}`);
+  }
+  if (input.paymentMethod?.trim()) {
+    features.push(`p:${input.paymentMethod.trim().toLowerCase()}`);
+  }
+
+  return features;
+}
+
+function toInput(transaction: Transaction): SuggestionInput {
+  return {
+    merchant: transaction.merchant,
+    note: transaction.note,
+    itemNames: transaction.items?.map(item => item.item_name) ?? [],
+    amount: transaction.amount,
+    paymentMethod: transaction.payment_method,
+  };
+}
+
+function increment(map: Map<string, number>, key: string, by: number) {
+  const next = (map.get(key) ?? 0) + by;
+  if (next > 0) map.set(key, next);
+  else map.delete(key);
+}
+
+function countExample(example: Example, sign: 1 | -1) {
+  increment(model.categoryCounts, example.categoryId, sign);
+  increment(model.featureTotals, example.categoryId, sign * example.features.length);
+
+  let counts = model.featureCounts.get(example.categoryId);
+  if (!counts) {
+    counts = new Map();
+    model.featureCounts.set(example.categoryId, counts);
+  }
+  for (const feature of example.features) {
+    increment(counts, feature, sign);
+    increment(model.vocabulary, feature, sign);
+  }
+}
+
+function learn(id: string, transaction: Transaction) {
+  const previous = model.examples.get(id);
+  // Transfers and uncategorized transactions teach nothing
+  if (!transaction.category_id || transaction.transfer_id) {
+    if (previous) forget(id);
+    return;
+  }
+
+  const features = extractFeatures(toInput(transaction));
+  const signature = `${transaction.category_id}|${features.join(' ')}`;
+  if (previous?.signature === signature) return;
+
+  if (previous) forget(id);
+  const example = { categoryId: transaction.category_id, features, signature };
+  model.examples.set(id, example);
+  countExample(example, 1);
+}
+
+function forget(id: string) {
+  const example = model.examples.get(id);
+  if (!example) return;
+  countExample(example, -1);
+  model.examples.delete(id);
+}
+
+/**
+ * Bring the model in line with the local store: only transactions that were
+ * added, changed or removed since the last sync are (un)learned.
+ */
+async function syncModel() {
+  const snapshot = await getLocalSnapshot();
+  if (!snapshot) {
+    model = createModel();
+    categories = [];
+    return;
+  }
+
+  categories = snapshot.categories;
+  const seen = new Set<string>();
+  for (const transaction of snapshot.transactions) {
+    seen.add(transaction.id);
+    learn(transaction.id, transaction);
+  }
+  for (const id of Array.from(model.examples.keys())) {
+    if (!seen.has(id)) forget(id);
+  }
+}
+
+function requestSync(): Promise<void> {
+  if (syncPromise) {
+    // A change arrived mid-sync: run once more afterwards
+    syncQueued = true;
+    return syncPromise;
+  }
+  syncPromise = syncModel()
+    .catch(error => console.error('[Category Suggester] Failed to update model:', error))
+    .finally(() => {
+      syncPromise = null;
+      if (syncQueued) {
+        syncQueued = false;
+        requestSync();
+      }
+    });
+  return syncPromise;
+}
+
+/**
+ * Score every known category for a set of features. Pure, for the model's
+ * current state.
+ */
+function rank(features: string[]) {
+  const total = Array.from(model.categoryCounts.values()).reduce((sum, count) => sum + count, 0);
+  const vocabularySize = model.vocabulary.size + 1;
+
+  const scores: { categoryId: string; logScore: number }[] = [];
+  for (const [categoryId, count] of model.categoryCounts) {
+    const counts = model.featureCounts.get(categoryId);
+    const denominator = (model.featureTotals.get(categoryId) ?? 0) + vocabularySize;
+    let logScore = Math.log(count / total);
+    for (const feature of features) {
+      // Features never seen with any category say nothing either way
+      if (!model.vocabulary.has(feature)) continue;
+      logScore += Math.log(((counts?.get(feature) ?? 0) + 1) / denominator);
+    }
+    scores.push({ categoryId, logScore });
+  }
+
+  // Normalize to probabilities without overflowing exp()
+  const best = Math.max(...scores.map(score => score.logScore));
+  const weights = scores.map(score => ({ ...score, weight: Math.exp(score.logScore - best) }));
+  const sum = weights.reduce((acc, score) => acc + score.weight, 0);
+  return weights
+    .map(score => ({ categoryId: score.categoryId, confidence: score.weight / sum }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Most likely categories for a transaction being entered, best first.
+ * Returns nothing until there is enough history, or if the input has no
+ * feature the model has seen before.
+ *
+ * @example
+ * ```typescript
+ * const suggestions = await suggestCategories({ merchant: 'Starbucks', amount: -42 });
+ * // [{ category: { name: 'Coffee', ... }, confidence: 0.83 }, ...]
+ * ```
+ */
+export async function suggestCategories(input: SuggestionInput, limit: number = 3): Promise<CategorySuggestion[]> {
+  if (model.examples.size === 0) {
+    await requestSync();
+  }
+  if (model.examples.size < MIN_EXAMPLES) return [];
+
+  const features = extractFeatures(input).filter(feature => model.vocabulary.has(feature));
+  // The amount alone isn't enough to go on
+  if (!features.some(feature => !feature.startsWith('a:'))) return [];
+
+  const suggestions: CategorySuggestion[] = [];
+  for (const { categoryId, confidence } of rank(features)) {
+    const category = categories.find(item => item.id === categoryId);
+    if (category) suggestions.push({ category, confidence });
+    if (suggestions.length >= limit) break;
+  }
+  return suggestions;
+}
+
+/**
+ * Keep the model in step with the local store and queued offline writes.
+ * Returns a function that stops listening.
+ */
+export function startCategorySuggesterSync() {
+  const unsubscribeStore = subscribeToLocalStore(() => {
+    requestSync();
+  });
+  const unsubscribeOutbox = subscribeToOutbox(() => {
+    requestSync();
+  });
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeOutbox();
+  };
+}
@@ -1,6 +1,12 @@
 import { getCategories, addCategory, updateCategory, deleteCategory } from './categories';
-import { getRecentTransactions, getTransactionsByDateRange, getSpendingBreakdown, getIncomeAndExpenses, addTransaction, updateTransaction, deleteTransaction } from './transactions';
-import { getCurrentBudget, setBudget } from './budgets';
+import { getRecentTransactions, getTransactionsByDateRange, getSpendingBreakdown, getIncomeAndExpenses, addTransaction, updateTransaction, deleteTransaction, undoDeleteTransactions, getTransactionsPage } from './transactions';
+import { parseSearchQuery, SEARCH_FIELDS } from './search-query';
+import { setTransactionTags } from './tags';
+import { addTransfer } from './transfers';
+import { getAccounts } from './accounts';
+import { applyTransactionRules } from './transaction-rules';
+import { findPossibleDuplicates } from './duplicates';
+import { getCurrentBudget, getCategoryBudgets, setBudget } from './budgets';
 import { getProfile } from './profiles';
 
 export interface Tool {
@@ -14,6 +20,21 @@ export interface Tool {
   function: (...args: any[]) => Promise<any>;
 }
 
+/**
+ * Resolves a category given either its ID or its name
+ */
+async function resolveCategoryId(category: string): Promise<string> {
+  const categories = await getCategories();
+  const match =
+    categories.find(c => c.id === category) ||
+    categories.find(c => c.name.toLowerCase() === category.trim().toLowerCase());
+
+  if (!match) {
+    throw new Error(`Category "${category}" not found`);
+  }
+  return match.id;
+}
+
 // Categories tools
 export const categoryTools: Tool[] = [
   {
@@ -191,6 +212,52 @@ export const transactionTools: Tool[] = [
     function: async (args: { startDate: string; endDate: string }) => 
       getTransactionsByDateRange(args.startDate, args.endDate)
   },
+  {
+    name: 'searchTransactions',
+    description: 'Search transactions with the app\'s search syntax: space-separated "field:value" clauses that must all match, plus bare words matching merchant, category, note or item names ("#name" is short for tag:name). Prefix a clause with "-" to exclude it and quote values with spaces. Fields: '
+      + SEARCH_FIELDS.map(field => `${field.name} (${field.description.toLowerCase()}, e.g. ${field.example})`).join('; ')
+      + '. Dates are YYYY-MM-DD. Example: merchant:starbucks amount:>50 cat:food before:2025-06-01 -note:work',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query, e.g. "cat:food amount:>50 after:2025-05-01"'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of transactions to return, newest first (default: 50)',
+          default: 50
+        }
+      },
+      required: ['query']
+    },
+    function: async (args: { query: string; limit?: number }) => {
+      const { clauses, errors } = parseSearchQuery(args.query ?? '');
+      if (errors.length > 0) {
+        return { success: false, errors: errors.map(error => error.message) };
+      }
+      const page = await getTransactionsPage({ query: clauses }, { pageSize: args.limit ?? 50 });
+      return {
+        success: true,
+        count: page.transactions.length,
+        hasMore: page.nextCursor !== null,
+        transactions: page.transactions.map(t => ({
+          id: t.id,
+          occurred_at: t.occurred_at,
+          merchant: t.merchant,
+          amount: t.amount,
+          currency: t.currency,
+          category: t.category?.name ?? null,
+          payment_method: t.payment_method,
+          note: t.note,
+          source: t.source,
+          items: t.items?.map(item => item.item_name) ?? [],
+          tags: t.tags?.map(tag => tag.name) ?? [],
+        })),
+      };
+    }
+  },
   {
     name: 'getSpendingBreakdown',
     description: 'Get spending breakdown by category for a date range',
@@ -251,7 +318,7 @@ export const transactionTools: Tool[] = [
         },
         category_id: {
           type: 'string',
-          description: 'Category ID (optional)'
+          description: 'Category ID (optional; leave it out to let the user\'s categorization rules pick one)'
         },
         note: {
           type: 'string',
@@ -259,17 +326,26 @@ export const transactionTools: Tool[] = [
         },
         payment_method: {
           type: 'string',
-          description: 'Payment method (optional)'
+          description: 'Payment method: the name of one of the user\'s accounts (optional, see getAccounts)'
         },
         source: {
           type: 'string',
           enum: ['manual', 'ocr', 'ai'],
           description: 'Source of transaction (default: manual)'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Free-form tags such as "japan-trip" or "work-claimable" (optional)'
+        },
+        allow_duplicate: {
+          type: 'boolean',
+          description: 'Save even if it looks like a transaction the user already has. Only set this after the user confirmed it is a separate purchase (default: false)'
         }
       },
       required: ['amount', 'occurred_at']
     },
-    function: async (args: { amount: number; occurred_at: string; merchant?: string; category_id?: string; note?: string; payment_method?: string; source?: 'manual' | 'ocr' | 'ai' }) => {
+    function: async (args: { amount: number; occurred_at: string; merchant?: string; category_id?: string; note?: string; payment_method?: string; source?: 'manual' | 'ocr' | 'ai'; tags?: string[]; allow_duplicate?: boolean }) => {
       const transactionData: any = {
         amount: args.amount,
         occurred_at: args.occurred_at,
@@ -279,7 +355,87 @@ export const transactionTools: Tool[] = [
       if (args.category_id !== undefined) transactionData.category_id = args.category_id;
       if (args.note !== undefined) transactionData.note = args.note;
       if (args.payment_method !== undefined) transactionData.payment_method = args.payment_method;
-      return addTransaction(transactionData);
+      // The user's rules fill in a category or payment method left out
+      const { transaction: ruled } = await applyTransactionRules(transactionData);
+      if (!args.allow_duplicate) {
+        const duplicates = await findPossibleDuplicates({ ...ruled, merchant: ruled.merchant ?? null });
+        if (duplicates.length > 0) {
+          return {
+            success: false,
+            message: 'Not saved: this looks like a transaction the user already has. Ask the user whether it is a separate purchase; if so, call addTransaction again with allow_duplicate: true',
+            possibleDuplicates: duplicates.slice(0, 3).map(({ transaction: t, score }) => ({
+              id: t.id,
+              occurred_at: t.occurred_at,
+              merchant: t.merchant,
+              amount: t.amount,
+              currency: t.currency,
+              score,
+            })),
+          };
+        }
+      }
+      // The agent made it, whatever source it was given
+      const transaction = await addTransaction(ruled, { actor: 'ai' });
+      if (args.tags && args.tags.length > 0) {
+        const tags = await setTransactionTags(transaction.id, args.tags);
+        return { ...transaction, tags: tags ?? undefined };
+      }
+      return transaction;
+    }
+  },
+  {
+    name: 'getAccounts',
+    description: 'Get the user\'s accounts (payment methods such as "HSBC Visa" or "Octopus") with their type, currency and opening balance',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: []
+    },
+    function: async () => getAccounts()
+  },
+  {
+    name: 'addTransfer',
+    description: 'Move money between two of the user\'s payment methods (e.g. topping up Octopus from a bank account). Changes balances but is not income or spending',
+    parameters: {
+      type: 'object',
+      properties: {
+        amount: {
+          type: 'number',
+          description: 'Amount moved (positive)'
+        },
+        from: {
+          type: 'string',
+          description: 'Payment method the money leaves'
+        },
+        to: {
+          type: 'string',
+          description: 'Payment method the money goes to'
+        },
+        occurred_at: {
+          type: 'string',
+          description: 'Date of the transfer (ISO format)'
+        },
+        currency: {
+          type: 'string',
+          description: 'Currency code (optional, defaults to the user\'s primary currency)'
+        },
+        note: {
+          type: 'string',
+          description: 'Additional note (optional)'
+        }
+      },
+      required: ['amount', 'from', 'to', 'occurred_at']
+    },
+    function: async (args: { amount: number; from: string; to: string; occurred_at: string; currency?: string; note?: string }) => {
+      const currency = args.currency || (await getProfile())?.primary_currency || 'HKD';
+      return addTransfer({
+        amount: Math.abs(args.amount),
+        currency,
+        from: args.from,
+        to: args.to,
+        occurred_at: args.occurred_at,
+        note: args.note ?? null,
+      }, { actor: 'ai' });
     }
   },
   {
@@ -327,12 +483,12 @@ export const transactionTools: Tool[] = [
       if (args.category_id !== undefined) updates.category_id = args.category_id;
       if (args.note !== undefined) updates.note = args.note;
       if (args.payment_method !== undefined) updates.payment_method = args.payment_method;
-      return updateTransaction(args.id, updates);
+      return updateTransaction(args.id, updates, { actor: 'ai' });
     }
   },
   {
     name: 'deleteTransaction',
-    description: 'Delete a transaction',
+    description: 'Delete a transaction. It is moved to the trash and can be restored for 30 days',
     parameters: {
       type: 'object',
       properties: {
@@ -343,21 +499,61 @@ export const transactionTools: Tool[] = [
       },
       required: ['id']
     },
-    function: async (args: { id: string }) => deleteTransaction(args.id)
+    function: async (args: { id: string }) => deleteTransaction(args.id, { actor: 'ai' })
+  },
+  {
+    name: 'restoreTransaction',
+    description: 'Restore a deleted transaction from the trash (e.g. when the user asks to undo a delete)',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'ID of the deleted transaction'
+        }
+      },
+      required: ['id']
+    },
+    function: async (args: { id: string }) => {
+      const restored = await undoDeleteTransactions([args.id], { actor: 'ai' });
+      return restored > 0
+        ? { success: true }
+        : { success: false, message: 'Transaction not found in the trash' };
+    }
   },
   {
     name: 'getCurrentBudget',
-    description: 'Get the current budget for the user',
+    description: 'Get the current budget for the user. Without a category, returns the global budget; with a category, returns that category\'s budget',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          description: 'Category name or ID (optional, omit for the global budget)'
+        }
+      },
+      required: []
+    },
+    function: async (args: { category?: string } = {}) => {
+      if (!args.category) {
+        return getCurrentBudget();
+      }
+      return getCurrentBudget(await resolveCategoryId(args.category));
+    }
+  },
+  {
+    name: 'getCategoryBudgets',
+    description: 'Get all active per-category budgets for the user',
     parameters: {
       type: 'object',
       properties: {},
       required: []
     },
-    function: async () => getCurrentBudget()
+    function: async () => getCategoryBudgets()
   },
   {
     name: 'setBudget',
-    description: 'Set or update the budget',
+    description: 'Set or update the budget. Without a category, sets the global budget; with a category, caps spending in that category only',
     parameters: {
       type: 'object',
       properties: {
@@ -373,12 +569,18 @@ export const transactionTools: Tool[] = [
         startDate: {
           type: 'string',
           description: 'Start date in YYYY-MM-DD format'
+        },
+        category: {
+          type: 'string',
+          description: 'Category name or ID (optional, omit for the global budget)'
         }
       },
       required: ['amount', 'period', 'startDate']
     },
-    function: async (args: { amount: number; period: 'monthly' | 'yearly'; startDate: string }) => 
-      setBudget(args.amount, args.period, args.startDate)
+    function: async (args: { amount: number; period: 'monthly' | 'yearly'; startDate: string; category?: string }) => {
+      const categoryId = args.category ? await resolveCategoryId(args.category) : null;
+      return setBudget(args.amount, args.period, args.startDate, categoryId);
+    }
   }
 ];
 
@@ -704,6 +906,9 @@ ALWAYS think about efficiency to minimize API calls and save the user money:
 
 3. **Use specific tools for specific tasks:**
    - Need date range data? Use "getTransactionsByDateRange" not "getRecentTransactions"
+   - Looking for specific transactions (a merchant, amount, category, payment method...)? Use "searchTransactions"
+   - Moving money between the user's own payment methods (top-ups, paying off a card)? Use "addTransfer", not an expense plus an income
+   - "addTransaction" reports possible duplicates instead of saving them: tell the user what matched and only retry with allow_duplicate after they confirm
    - Need spending analysis? Use "getSpendingBreakdown" 
 
 **REQUIRED JSON FORMAT FOR TOOL CALLS:**
@@ -0,0 +1,267 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { supabase } from './supabase';
+import { fetchAllPages } from '../utils/pagination';
+import type { Transaction } from './transactions';
+import type { Category } from './categories';
+import type { ItemRow } from './items';
+import type { Budget } from './budgets';
+import type { Profile } from './profiles';
+import type { PetState, UserPet } from './pet';
+import type { RecurringRule } from './recurring';
+import type { TransactionRule } from './transaction-rules';
+import type { Tag, TransactionTag } from './tags';
+import type { Account } from './accounts';
+
+export const BACKUP_VERSION = 1;
+
+/**
+ * Full account backup. Rows are stored exactly as they come from the
+ * database (no joined data) so the file can be restored without loss.
+ */
+export interface AccountBackup {
+  version: number;
+  exported_at: string;
+  profile: Profile | null;
+  categories: Category[];
+  accounts: Account[];
+  transactions: Transaction[];
+  items: ItemRow[];
+  tags: Tag[];
+  transaction_tags: TransactionTag[];
+  budgets: Budget[];
+  recurring_rules: RecurringRule[];
+  transaction_rules: TransactionRule[];
+  user_pets: UserPet[];
+  pet_state: PetState | null;
+}
+
+const TRANSACTION_COLUMNS = [
+  'transaction_id',
+  'date',
+  'merchant',
+  'amount',
+  'currency',
+  'category',
+  'payment_method',
+  'source',
+  'note',
+] as const;
+
+const ITEM_COLUMNS = ['item_name', 'item_amount', 'item_price', 'item_category'] as const;
+
+type ExportCell = string | number | null;
+
+// ============================================================
+// Row builders
+// ============================================================
+
+function toTransactionRow(transaction: Transaction): ExportCell[] {
+  return [
+    transaction.id,
+    transaction.occurred_at,
+    transaction.merchant,
+    transaction.amount,
+    transaction.currency,
+    transaction.category?.name ?? null,
+    transaction.payment_method,
+    transaction.source,
+    transaction.note,
+  ];
+}
+
+function toItemCells(item: ItemRow | null): ExportCell[] {
+  return item
+    ? [item.item_name, item.item_amount, item.item_price, item.category?.name ?? null]
+    : [null, null, null, null];
+}
+
+/**
+ * Flatten transactions into a single table: one row per item, repeating the
+ * transaction columns. Transactions without items get one row with empty item cells.
+ */
+function buildFlatRows(transactions: Transaction[]): ExportCell[][] {
+  const rows: ExportCell[][] = [];
+  for (const transaction of transactions) {
+    const base = toTransactionRow(transaction);
+    const items = transaction.items ?? [];
+    if (items.length === 0) {
+      rows.push([...base, ...toItemCells(null)]);
+    } else {
+      items.forEach(item => rows.push([...base, ...toItemCells(item)]));
+    }
+  }
+  return rows;
+}
+
+function escapeCSVCell(value: ExportCell): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV string of transactions and their items
+ */
+export function buildTransactionsCSV(transactions: Transaction[]): string {
+  const header = [...TRANSACTION_COLUMNS, ...ITEM_COLUMNS];
+  const lines = [header, ...buildFlatRows(transactions)].map(row => row.map(escapeCSVCell).join(','));
+  // BOM so spreadsheet apps detect UTF-8 (merchant names are often Chinese)
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+// ============================================================
+// Backup
+// ============================================================
+
+// Paged, so tables past PostgREST's row limit are backed up in full; any failed page fails the backup.
+// `orderColumns` must identify a row, e.g. both halves of a composite key.
+async function fetchUserRows<T>(
+  table: string,
+  userColumn: string,
+  userId: string,
+  orderColumns: string[] = ['id']
+): Promise<T[]> {
+  try {
+    return await fetchAllPages<T>((from, to) =>
+      orderColumns
+        .reduce((query, column) => query.order(column), supabase.from(table).select('*').eq(userColumn, userId))
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error(`Error fetching ${table} for backup:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Collect every row the current user owns into a backup object
+ */
+export async function createAccountBackup(): Promise<AccountBackup> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [
+      profiles,
+      categories,
+      accounts,
+      transactions,
+      items,
+      tags,
+      transactionTags,
+      budgets,
+      recurringRules,
+      transactionRules,
+      userPets,
+      petStates,
+    ] = await Promise.all([
+      fetchUserRows<Profile>('profiles', 'id', user.id),
+      fetchUserRows<Category>('categories', 'user_id', user.id),
+      fetchUserRows<Account>('accounts', 'user_id', user.id),
+      fetchUserRows<Transaction>('transactions', 'user_id', user.id),
+      fetchUserRows<ItemRow>('items', 'user_id', user.id),
+      fetchUserRows<Tag>('tags', 'user_id', user.id),
+      fetchUserRows<TransactionTag>('transaction_tags', 'user_id', user.id, ['transaction_id', 'tag_id']),
+      fetchUserRows<Budget>('budgets', 'user_id', user.id),
+      fetchUserRows<RecurringRule>('recurring_rules', 'user_id', user.id),
+      fetchUserRows<TransactionRule>('transaction_rules', 'user_id', user.id),
+      fetchUserRows<UserPet>('user_pets', 'user_id', user.id),
+      fetchUserRows<PetState>('pet_state', 'user_id', user.id, ['user_id']),
+    ]);
+
+    return {
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      profile: profiles[0] ?? null,
+      categories,
+      accounts,
+      transactions,
+      items,
+      tags,
+      transaction_tags: transactionTags,
+      budgets,
+      recurring_rules: recurringRules,
+      transaction_rules: transactionRules,
+      user_pets: userPets,
+      pet_state: petStates[0] ?? null,
+    };
+  } catch (error) {
+    console.error('Failed to create account backup:', error);
+    throw error;
+  }
+}
+
+// ============================================================
+// File output
+// ============================================================
+
+function getExportTimestamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Save a file and hand it to the user
+ * - Web: browser download
+ * - Native: write to the cache directory and open the share sheet
+ */
+async function saveAndShareFile(fileName: string, content: string, mimeType: string) {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, content, { encoding: FileSystem.EncodingType.UTF8 });
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: fileName });
+}
+
+/**
+ * Export the given transactions (with their items) as CSV, which spreadsheet
+ * apps such as Excel open directly.
+ * Pass the already filtered list to export only what the user is looking at.
+ */
+export async function exportTransactions(transactions: Transaction[]) {
+  try {
+    await saveAndShareFile(
+      `transactions-${getExportTimestamp()}.csv`,
+      buildTransactionsCSV(transactions),
+      'text/csv'
+    );
+  } catch (error) {
+    console.error('Failed to export transactions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Export the full account as a JSON backup file
+ */
+export async function exportAccountBackup() {
+  try {
+    const backup = await createAccountBackup();
+    await saveAndShareFile(
+      `backup-${getExportTimestamp()}.json`,
+      JSON.stringify(backup, null, 2),
+      'application/json'
+    );
+    return backup;
+  } catch (error) {
+    console.error('Failed to export account backup:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,553 @@
+import { supabase } from './supabase';
+import { fetchAllPages } from '../utils/pagination';
+import { BACKUP_VERSION, type AccountBackup } from './data-export';
+import { findAccountIdByName, getAccounts } from './accounts';
+
+/**
+ * Restore a JSON backup created by exportAccountBackup
+ *
+ * - merge: keep everything in the account and add what is missing
+ * - replace: wipe the account's data first, then restore the backup
+ *
+ * Categories, accounts and tags are matched by name so transactions and
+ * budgets point at the account's own ones. Other rows keep their original IDs, which keeps
+ * links (items -> transactions, transactions -> recurring rules) intact.
+ */
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreTable =
+  | 'profiles'
+  | 'categories'
+  | 'accounts'
+  | 'transactions'
+  | 'items'
+  | 'tags'
+  | 'transaction_tags'
+  | 'budgets'
+  | 'recurring_rules'
+  | 'transaction_rules'
+  | 'user_pets'
+  | 'pet_state';
+
+export interface RestoreSkip {
+  table: RestoreTable;
+  id: string | null;
+  reason: string;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  restored: Record<RestoreTable, number>;
+  skipped: RestoreSkip[];
+}
+
+const RESTORE_BATCH_SIZE = 100;
+
+/**
+ * Parse and validate backup file content
+ */
+export function parseAccountBackup(content: string): AccountBackup {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.version !== 'number') {
+    throw new Error('File is not an AuraSpend backup');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('Backup was created by a newer version of the app');
+  }
+
+  const listKeys = [
+    'categories',
+    'accounts',
+    'transactions',
+    'items',
+    'tags',
+    'transaction_tags',
+    'budgets',
+    'recurring_rules',
+    'transaction_rules',
+    'user_pets',
+  ] as const;
+  for (const key of listKeys) {
+    if (parsed[key] === undefined) {
+      parsed[key] = [];
+    } else if (!Array.isArray(parsed[key])) {
+      throw new Error(`Backup field "${key}" is invalid`);
+    }
+  }
+
+  return {
+    ...parsed,
+    profile: parsed.profile ?? null,
+    pet_state: parsed.pet_state ?? null,
+  } as AccountBackup;
+}
+
+function normalizeName(name: string | null | undefined): string {
+  return (name ?? '').trim().toLowerCase();
+}
+
+function createReport(mode: RestoreMode): RestoreReport {
+  return {
+    mode,
+    restored: {
+      profiles: 0,
+      categories: 0,
+      accounts: 0,
+      transactions: 0,
+      items: 0,
+      tags: 0,
+      transaction_tags: 0,
+      budgets: 0,
+      recurring_rules: 0,
+      transaction_rules: 0,
+      user_pets: 0,
+      pet_state: 0,
+    },
+    skipped: [],
+  };
+}
+
+async function fetchIds(table: RestoreTable | 'reconciliations', userId: string): Promise<Set<string>> {
+  try {
+    // Paged: ids past the row limit would otherwise be restored again as duplicates
+    const rows = await fetchAllPages<{ id: string }>((from, to) =>
+      supabase.from(table).select('id').eq('user_id', userId).order('id').range(from, to)
+    );
+    return new Set(rows.map(row => row.id));
+  } catch (error) {
+    console.error(`Error fetching ${table} IDs:`, error);
+    throw error;
+  }
+}
+
+async function deleteUserRows(table: RestoreTable, userId: string) {
+  const { error } = await supabase.from(table).delete().eq('user_id', userId);
+  if (error) {
+    console.error(`Error clearing ${table}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Insert rows in batches. When a batch fails, retry its rows one by one so a
+ * single bad row is reported as skipped instead of failing the whole restore.
+ */
+async function insertRows(table: RestoreTable, rows: Record<string, any>[], report: RestoreReport) {
+  for (let start = 0; start < rows.length; start += RESTORE_BATCH_SIZE) {
+    const batch = rows.slice(start, start + RESTORE_BATCH_SIZE);
+    const { error } = await supabase.from(table).insert(batch);
+    if (!error) {
+      report.restored[table] += batch.length;
+      continue;
+    }
+
+    console.warn(`Batch insert into ${table} failed, retrying row by row:`, error.message);
+    for (const row of batch) {
+      const { error: rowError } = await supabase.from(table).insert([row]);
+      if (rowError) {
+        report.skipped.push({ table, id: row.id ?? null, reason: rowError.message });
+      } else {
+        report.restored[table] += 1;
+      }
+    }
+  }
+}
+
+async function clearAccountData(userId: string) {
+  // Children first so foreign keys never block a delete
+  await deleteUserRows('transaction_tags', userId);
+  await deleteUserRows('tags', userId);
+  await deleteUserRows('items', userId);
+  await deleteUserRows('transactions', userId);
+  await deleteUserRows('recurring_rules', userId);
+  await deleteUserRows('transaction_rules', userId);
+  await deleteUserRows('budgets', userId);
+
+  const { error: petStateError } = await supabase
+    .from('pet_state')
+    .update({ current_pet_id: null })
+    .eq('user_id', userId);
+  if (petStateError) {
+    console.error('Error detaching current pet:', petStateError);
+    throw petStateError;
+  }
+
+  await deleteUserRows('user_pets', userId);
+  await deleteUserRows('categories', userId);
+}
+
+async function restoreProfile(backup: AccountBackup, mode: RestoreMode, userId: string, report: RestoreReport) {
+  const source = backup.profile as Record<string, any> | null;
+  if (!source) return;
+
+  const { data: current, error: fetchError } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .single();
+  if (fetchError && fetchError.code !== 'PGRST116') {
+    console.error('Error fetching profile for restore:', fetchError);
+    throw fetchError;
+  }
+
+  const fields = ['username', 'primary_currency', 'income', 'preferred_language'];
+  const payload: Record<string, any> = {};
+  for (const field of fields) {
+    if (source[field] === undefined || source[field] === null) continue;
+    // Merge only fills in blanks; replace takes the backup's values
+    if (mode === 'merge' && current && current[field] !== null && current[field] !== undefined) continue;
+    payload[field] = source[field];
+  }
+
+  if (Object.keys(payload).length === 0) return;
+
+  const { error } = current
+    ? await supabase.from('profiles').update(payload).eq('id', userId)
+    : await supabase.from('profiles').insert([{ id: userId, ...payload }]);
+
+  if (error) {
+    report.skipped.push({ table: 'profiles', id: userId, reason: error.message });
+  } else {
+    report.restored.profiles += 1;
+  }
+}
+
+/**
+ * Map backup category IDs to the account's categories by name,
+ * creating categories that do not exist yet.
+ */
+async function restoreCategories(backup: AccountBackup, userId: string, report: RestoreReport) {
+  const { data: existing, error } = await supabase
+    .from('categories')
+    .select('id, name')
+    .eq('user_id', userId);
+  if (error) {
+    console.error('Error fetching categories for restore:', error);
+    throw error;
+  }
+
+  const idsByName = new Map<string, string>();
+  (existing ?? []).forEach((category: { id: string; name: string }) => {
+    idsByName.set(normalizeName(category.name), category.id);
+  });
+
+  const categoryIdMap = new Map<string, string>();
+  for (const category of backup.categories) {
+    const key = normalizeName(category.name);
+    if (!key) {
+      report.skipped.push({ table: 'categories', id: category.id, reason: 'Category has no name' });
+      continue;
+    }
+
+    const matchedId = idsByName.get(key);
+    if (matchedId) {
+      categoryIdMap.set(category.id, matchedId);
+      continue;
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('categories')
+      .insert([{ name: category.name.trim(), user_id: userId }])
+      .select('id')
+      .single();
+    if (insertError || !data) {
+      report.skipped.push({ table: 'categories', id: category.id, reason: insertError?.message ?? 'Insert failed' });
+      continue;
+    }
+
+    idsByName.set(key, data.id);
+    categoryIdMap.set(category.id, data.id);
+    report.restored.categories += 1;
+  }
+
+  return categoryIdMap;
+}
+
+async function fetchIdsByName(table: 'tags' | 'accounts', userId: string, keyOf: (name: string) => string) {
+  try {
+    const rows = await fetchAllPages<{ id: string; name: string }>((from, to) =>
+      supabase.from(table).select('id, name').eq('user_id', userId).order('id').range(from, to)
+    );
+    return new Map(rows.map(row => [keyOf(row.name), row.id]));
+  } catch (error) {
+    console.error(`Error fetching ${table} for restore:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Map backup IDs of tags or accounts to the account's own rows with the same
+ * name (`keyOf` decides what counts as the same), inserting the missing ones
+ * with their original IDs
+ */
+async function restoreByName(
+  table: 'tags' | 'accounts',
+  source: { id: string; name: string }[],
+  userId: string,
+  report: RestoreReport,
+  keyOf: (name: string) => string
+) {
+  const existingKeys = new Set((await fetchIdsByName(table, userId, keyOf)).keys());
+  const rows: Record<string, any>[] = [];
+  for (const row of source) {
+    const key = keyOf(row.name ?? '');
+    if (!key) {
+      report.skipped.push({ table, id: row.id, reason: 'Name is missing' });
+      continue;
+    }
+    if (existingKeys.has(key)) continue;
+    existingKeys.add(key);
+    rows.push({ ...row, user_id: userId });
+  }
+  await insertRows(table, rows, report);
+
+  // Read back rather than trust the backup's ids: matched rows keep the account's own
+  const idsByKey = await fetchIdsByName(table, userId, keyOf);
+  const idMap = new Map<string, string>();
+  for (const row of source) {
+    const id = idsByKey.get(keyOf(row.name ?? ''));
+    if (id) idMap.set(row.id, id);
+  }
+  return idMap;
+}
+
+function remapCategory(categoryId: string | null | undefined, categoryIdMap: Map<string, string>): string | null {
+  if (!categoryId) return null;
+  return categoryIdMap.get(categoryId) ?? null;
+}
+
+async function restorePets(backup: AccountBackup, userId: string, report: RestoreReport) {
+  const existingIds = await fetchIds('user_pets', userId);
+  const { data: ownedPets, error } = await supabase
+    .from('user_pets')
+    .select('pet_breed, is_active')
+    .eq('user_id', userId);
+  if (error) {
+    console.error('Error fetching pets for restore:', error);
+    throw error;
+  }
+
+  const ownedBreeds = new Set((ownedPets ?? []).map((pet: { pet_breed: string }) => pet.pet_breed));
+  const hasActivePet = (ownedPets ?? []).some((pet: { is_active: boolean }) => pet.is_active);
+
+  const rows: Record<string, any>[] = [];
+  for (const pet of backup.user_pets) {
+    if (existingIds.has(pet.id) || ownedBreeds.has(pet.pet_breed)) {
+      report.skipped.push({ table: 'user_pets', id: pet.id, reason: 'Pet already owned' });
+      continue;
+    }
+    ownedBreeds.add(pet.pet_breed);
+    rows.push({
+      ...pet,
+      user_id: userId,
+      // Never end up with two active pets when merging
+      is_active: hasActivePet ? false : pet.is_active,
+    });
+  }
+
+  await insertRows('user_pets', rows, report);
+}
+
+async function restorePetState(backup: AccountBackup, mode: RestoreMode, userId: string, report: RestoreReport) {
+  const source = backup.pet_state;
+  if (!source) return;
+
+  const { data: current, error } = await supabase
+    .from('pet_state')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching pet state for restore:', error);
+    throw error;
+  }
+
+  if (current && mode === 'merge') {
+    report.skipped.push({ table: 'pet_state', id: userId, reason: 'Account already has a pet' });
+    return;
+  }
+
+  const petIds = await fetchIds('user_pets', userId);
+  const payload = {
+    ...source,
+    user_id: userId,
+    current_pet_id: source.current_pet_id && petIds.has(source.current_pet_id) ? source.current_pet_id : null,
+  };
+
+  const { error: upsertError } = await supabase.from('pet_state').upsert(payload, { onConflict: 'user_id' });
+  if (upsertError) {
+    report.skipped.push({ table: 'pet_state', id: userId, reason: upsertError.message });
+  } else {
+    report.restored.pet_state += 1;
+  }
+}
+
+/**
+ * Restore a backup into the signed-in account
+ */
+export async function restoreAccountBackup(backup: AccountBackup, mode: RestoreMode): Promise<RestoreReport> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const report = createReport(mode);
+
+    if (mode === 'replace') {
+      await clearAccountData(user.id);
+    }
+
+    await restoreProfile(backup, mode, user.id, report);
+    const categoryIdMap = await restoreCategories(backup, user.id, report);
+
+    // Recurring rules (transactions may point at them)
+    const existingRuleIds = await fetchIds('recurring_rules', user.id);
+    const ruleRows = backup.recurring_rules
+      .filter(rule => {
+        if (!existingRuleIds.has(rule.id)) return true;
+        report.skipped.push({ table: 'recurring_rules', id: rule.id, reason: 'Already exists' });
+        return false;
+      })
+      .map(rule => ({ ...rule, user_id: user.id, category_id: remapCategory(rule.category_id, categoryIdMap) }));
+    await insertRows('recurring_rules', ruleRows, report);
+    const ruleIds = await fetchIds('recurring_rules', user.id);
+
+    // Accounts are kept on replace, since reconciliations (not in the backup) hang off them
+    const accountIdMap = await restoreByName('accounts', backup.accounts, user.id, report, normalizeName);
+    // Loads the accounts findAccountIdByName looks in
+    await getAccounts({ includeArchived: true });
+
+    // Transactions
+    const existingTransactionIds = await fetchIds('transactions', user.id);
+    // Reconciliations are not in the backup either; keep only links to ones still in the account
+    const reconciliationIds = await fetchIds('reconciliations', user.id);
+    const restoredTransactionIds = new Set<string>();
+    const transactionRows: Record<string, any>[] = [];
+    for (const transaction of backup.transactions) {
+      if (existingTransactionIds.has(transaction.id)) {
+        report.skipped.push({ table: 'transactions', id: transaction.id, reason: 'Already exists' });
+        continue;
+      }
+      // Drop joined data in case the backup was produced from a joined query
+      const { category: _category, items: _items, ...row } = transaction;
+      transactionRows.push({
+        ...row,
+        user_id: user.id,
+        category_id: remapCategory(transaction.category_id, categoryIdMap),
+        recurring_rule_id:
+          transaction.recurring_rule_id && ruleIds.has(transaction.recurring_rule_id)
+            ? transaction.recurring_rule_id
+            : null,
+        // Backups from before accounts were included are linked again by payment method name
+        account_id:
+          (transaction.account_id && accountIdMap.get(transaction.account_id)) ||
+          findAccountIdByName(transaction.payment_method),
+        reconciliation_id:
+          transaction.reconciliation_id && reconciliationIds.has(transaction.reconciliation_id)
+            ? transaction.reconciliation_id
+            : null,
+      });
+      restoredTransactionIds.add(transaction.id);
+    }
+    await insertRows('transactions', transactionRows, report);
+
+    // Items only for transactions that now exist in the account
+    const transactionIds = await fetchIds('transactions', user.id);
+    const existingItemIds = await fetchIds('items', user.id);
+    const itemRows: Record<string, any>[] = [];
+    for (const item of backup.items) {
+      if (existingItemIds.has(item.id)) {
+        report.skipped.push({ table: 'items', id: item.id, reason: 'Already exists' });
+      } else if (!transactionIds.has(item.transaction_id) || !restoredTransactionIds.has(item.transaction_id)) {
+        report.skipped.push({ table: 'items', id: item.id, reason: 'Transaction was not restored' });
+      } else {
+        const { category: _category, ...row } = item;
+        itemRows.push({ ...row, user_id: user.id, category_id: remapCategory(item.category_id, categoryIdMap) });
+      }
+    }
+    await insertRows('items', itemRows, report);
+
+    // Tag links, like items, only for restored transactions
+    // Tag names are unique as stored, so only an exact match is the same tag
+    const tagIdMap = await restoreByName('tags', backup.tags, user.id, report, name => name);
+    const linkRows: Record<string, any>[] = [];
+    for (const link of backup.transaction_tags) {
+      const id = `${link.transaction_id}/${link.tag_id}`;
+      const tagId = tagIdMap.get(link.tag_id);
+      if (!transactionIds.has(link.transaction_id) || !restoredTransactionIds.has(link.transaction_id)) {
+        report.skipped.push({ table: 'transaction_tags', id, reason: 'Transaction was not restored' });
+      } else if (!tagId) {
+        report.skipped.push({ table: 'transaction_tags', id, reason: 'Tag was not restored' });
+      } else {
+        linkRows.push({ ...link, user_id: user.id, tag_id: tagId });
+      }
+    }
+    await insertRows('transaction_tags', linkRows, report);
+
+    // Budgets: skip ones that already cover the same category, period and start date
+    const { data: existingBudgets, error: budgetError } = await supabase
+      .from('budgets')
+      .select('category_id, period, start_date')
+      .eq('user_id', user.id);
+    if (budgetError) {
+      console.error('Error fetching budgets for restore:', budgetError);
+      throw budgetError;
+    }
+    const budgetKey = (categoryId: string | null, period: string, startDate: string) =>
+      `${categoryId ?? 'global'}|${period}|${startDate.split('T')[0]}`;
+    const budgetKeys = new Set(
+      (existingBudgets ?? []).map((budget: { category_id: string | null; period: string; start_date: string }) =>
+        budgetKey(budget.category_id, budget.period, budget.start_date)
+      )
+    );
+    const budgetRows: Record<string, any>[] = [];
+    for (const budget of backup.budgets) {
+      const categoryId = remapCategory(budget.category_id, categoryIdMap);
+      if (budget.category_id && !categoryId) {
+        report.skipped.push({ table: 'budgets', id: budget.id, reason: 'Category was not restored' });
+        continue;
+      }
+      const key = budgetKey(categoryId, budget.period, budget.start_date);
+      if (budgetKeys.has(key)) {
+        report.skipped.push({ table: 'budgets', id: budget.id, reason: 'A budget for this period already exists' });
+        continue;
+      }
+      budgetKeys.add(key);
+      const { id: _id, category: _category, ...row } = budget;
+      budgetRows.push({ ...row, user_id: user.id, category_id: categoryId });
+    }
+    await insertRows('budgets', budgetRows, report);
+
+    // Categorization rules: a rule whose category is gone has nothing left to set
+    const existingTransactionRuleIds = await fetchIds('transaction_rules', user.id);
+    const transactionRuleRows: Record<string, any>[] = [];
+    for (const rule of backup.transaction_rules) {
+      const categoryId = remapCategory(rule.category_id, categoryIdMap);
+      if (existingTransactionRuleIds.has(rule.id)) {
+        report.skipped.push({ table: 'transaction_rules', id: rule.id, reason: 'Already exists' });
+      } else if (!categoryId && !rule.payment_method) {
+        report.skipped.push({ table: 'transaction_rules', id: rule.id, reason: 'Category was not restored' });
+      } else {
+        transactionRuleRows.push({ ...rule, user_id: user.id, category_id: categoryId });
+      }
+    }
+    await insertRows('transaction_rules', transactionRuleRows, report);
+
+    await restorePets(backup, user.id, report);
+    await restorePetState(backup, mode, user.id, report);
+
+    return report;
+  } catch (error) {
+    console.error('Failed to restore account backup:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,308 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  deleteTransaction,
+  getAllMatchingTransactions,
+  updateTransaction,
+  type Transaction,
+  type TransactionUpdateInput,
+} from './transactions';
+import { addReceiptItems } from './items';
+import { setTransactionTags } from './tags';
+import { getLocalSnapshot } from './local-store';
+import { canonicalMerchantName, normalizeMerchantKey } from './merchants';
+
+/**
+ * Duplicate detection: the same receipt scanned twice, or a purchase logged by
+ * hand and again through the chat agent.
+ *
+ * Pairs are scored from 0 to 1 by amount, merchant similarity and how close in
+ * time they are; transfers and pairs in different currencies never match.
+ */
+
+// Fields a transaction needs to be compared; a draft about to be saved has no id yet
+export type DuplicateTarget = Pick<Transaction, 'amount' | 'occurred_at' | 'merchant'>
+  & Partial<Pick<Transaction, 'id' | 'currency' | 'transfer_id'>>;
+
+export interface DuplicateMatch {
+  transaction: Transaction;
+  score: number;
+}
+
+export interface DuplicatePair {
+  a: Transaction;
+  b: Transaction;
+  score: number;
+}
+
+// Same amount and merchant on the same day scores 0.9; a daily coffee a day apart 0.75
+export const DUPLICATE_THRESHOLD = 0.8;
+// Pairs further apart than this are never duplicates
+const MAX_HOURS_APART = 72;
+const DISMISSED_STORAGE_KEY = 'dismissed_duplicates_v1';
+
+// Merchant used by add.tsx when nothing better was entered
+const PLACEHOLDER_MERCHANT = 'transaction';
+
+function merchantKey(merchant: string | null | undefined) {
+  const key = merchant ? normalizeMerchantKey(canonicalMerchantName(merchant)) : '';
+  return key === PLACEHOLDER_MERCHANT ? '' : key;
+}
+
+function bigrams(value: string) {
+  const result = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.slice(i, i + 2);
+    result.set(bigram, (result.get(bigram) ?? 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Similarity of two merchant names, 0-1. Unknown merchants count as 0.5, so
+ * a missing name neither confirms nor rules out a duplicate.
+ */
+export function merchantSimilarity(a: string | null | undefined, b: string | null | undefined) {
+  const keyA = merchantKey(a);
+  const keyB = merchantKey(b);
+  if (!keyA || !keyB) return 0.5;
+  if (keyA === keyB) return 1;
+  if (Math.min(keyA.length, keyB.length) >= 3 && (keyA.includes(keyB) || keyB.includes(keyA))) return 0.8;
+
+  // Dice coefficient over character bigrams, for OCR typos and abbreviations
+  const bigramsA = bigrams(keyA);
+  const bigramsB = bigrams(keyB);
+  let shared = 0;
+  for (const [bigram, count] of bigramsA) {
+    shared += Math.min(count, bigramsB.get(bigram) ?? 0);
+  }
+  const total = keyA.length - 1 + keyB.length - 1;
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function isSameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * How likely two transactions are the same purchase, 0-1
+ */
+export function scoreDuplicate(a: DuplicateTarget, b: DuplicateTarget) {
+  if (a.id && a.id === b.id) return 0;
+  if (a.transfer_id || b.transfer_id) return 0;
+  if (a.currency && b.currency && a.currency !== b.currency) return 0;
+  if (Math.sign(a.amount) !== Math.sign(b.amount)) return 0;
+
+  // Amount: exact, or within 2% for rounding and tips
+  const difference = Math.abs(a.amount - b.amount);
+  const largest = Math.max(Math.abs(a.amount), Math.abs(b.amount));
+  let score: number;
+  if (difference < 0.005) score = 0.4;
+  else if (largest > 0 && difference / largest <= 0.02) score = 0.25;
+  else return 0;
+
+  score += 0.35 * merchantSimilarity(a.merchant, b.merchant);
+
+  // Time: scanning later usually keeps the receipt's date, manual entry may not have a time
+  const dateA = new Date(a.occurred_at);
+  const dateB = new Date(b.occurred_at);
+  const hoursApart = Math.abs(dateA.getTime() - dateB.getTime()) / 3_600_000;
+  if (!(hoursApart <= MAX_HOURS_APART)) return 0;
+  if (hoursApart <= 1) score += 0.25;
+  else if (isSameDay(dateA, dateB)) score += 0.15;
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Transactions to compare against: the local snapshot, or the server if
+ * nothing has been cached yet
+ */
+async function loadTransactions(around?: string) {
+  const snapshot = await getLocalSnapshot();
+  if (snapshot && snapshot.transactions.length > 0) {
+    return snapshot.transactions;
+  }
+
+  if (!around) {
+    return getAllMatchingTransactions({ type: 'all' });
+  }
+  const center = new Date(around).getTime();
+  const window = MAX_HOURS_APART * 3_600_000;
+  return getAllMatchingTransactions({
+    type: 'all',
+    startDate: new Date(center - window).toISOString(),
+    endDate: new Date(center + window).toISOString(),
+  });
+}
+
+/**
+ * Existing transactions a new one may duplicate, most likely first
+ *
+ * @example
+ * ```typescript
+ * const matches = await findPossibleDuplicates({ amount: -42, merchant: 'Starbucks', occurred_at });
+ * if (matches.length > 0) {
+ *   // ask before saving
+ * }
+ * ```
+ */
+export async function findPossibleDuplicates(draft: DuplicateTarget): Promise<DuplicateMatch[]> {
+  try {
+    const transactions = await loadTransactions(draft.occurred_at);
+    return transactions
+      .map(transaction => ({ transaction, score: scoreDuplicate(draft, transaction) }))
+      .filter(match => match.score >= DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.error('Failed to check for duplicate transactions:', error);
+    throw error;
+  }
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+async function getDismissedPairs() {
+  try {
+    const stored = await AsyncStorage.getItem(DISMISSED_STORAGE_KEY);
+    return new Set<string>(stored ? JSON.parse(stored) : []);
+  } catch (error) {
+    console.warn('Failed to load dismissed duplicates:', error);
+    return new Set<string>();
+  }
+}
+
+/**
+ * Likely duplicate pairs in the user's history, most likely first. Pairs the
+ * user marked as not duplicates are left out.
+ */
+export async function findDuplicatePairs(): Promise<DuplicatePair[]> {
+  try {
+    const [transactions, dismissed] = await Promise.all([loadTransactions(), getDismissedPairs()]);
+    const sorted = [...transactions].sort(
+      (a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+    );
+    const window = MAX_HOURS_APART * 3_600_000;
+
+    const pairs: DuplicatePair[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      const start = new Date(sorted[i].occurred_at).getTime();
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (new Date(sorted[j].occurred_at).getTime() - start > window) break;
+        if (dismissed.has(pairKey(sorted[i].id, sorted[j].id))) continue;
+
+        const score = scoreDuplicate(sorted[i], sorted[j]);
+        if (score >= DUPLICATE_THRESHOLD) {
+          pairs.push({ a: sorted[i], b: sorted[j], score });
+        }
+      }
+    }
+
+    return pairs.sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.error('Failed to find duplicate transactions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remember that two transactions are not duplicates
+ */
+export async function dismissDuplicatePair(a: string, b: string) {
+  const dismissed = await getDismissedPairs();
+  dismissed.add(pairKey(a, b));
+  await AsyncStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(Array.from(dismissed)));
+}
+
+/**
+ * Which of two duplicates to keep by default: a reconciled one, then the one
+ * with more detail (items, note), then the older one
+ */
+export function chooseTransactionToKeep(a: Transaction, b: Transaction): [keep: Transaction, remove: Transaction] {
+  const detail = (transaction: Transaction) =>
+    (transaction.reconciliation_id ? 1000 : 0)
+    + (transaction.items?.length ?? 0) * 10
+    + (transaction.note?.trim() ? 1 : 0)
+    + (transaction.category_id ? 1 : 0);
+
+  const difference = detail(a) - detail(b);
+  if (difference !== 0) return difference > 0 ? [a, b] : [b, a];
+  return a.created_at <= b.created_at ? [a, b] : [b, a];
+}
+
+function itemKey(item: { item_name: string; item_amount: number; item_price: number }) {
+  return `${item.item_name.trim().toLowerCase()}|${item.item_amount}|${item.item_price}`;
+}
+
+/**
+ * Merge a duplicate into the transaction kept: notes are combined, items and
+ * tags from both are kept (items already on the kept transaction aren't
+ * copied twice), and blank merchant, category and payment method are filled
+ * in. The duplicate is then deleted.
+ *
+ * @param options.allowReconciled - The user confirmed changing a reconciled transaction
+ * @returns The transaction kept
+ */
+export async function mergeDuplicates(
+  keep: Transaction,
+  remove: Transaction,
+  options?: { allowReconciled?: boolean }
+) {
+  try {
+    if (keep.id === remove.id) {
+      throw new Error('Cannot merge a transaction with itself');
+    }
+
+    const updates: TransactionUpdateInput = {};
+    const keepNote = keep.note?.trim() ?? '';
+    const removeNote = remove.note?.trim() ?? '';
+    if (removeNote && !keepNote.includes(removeNote)) {
+      updates.note = keepNote ? `${keepNote}\n${removeNote}` : removeNote;
+    }
+    if (!merchantKey(keep.merchant) && merchantKey(remove.merchant)) updates.merchant = remove.merchant;
+    if (!keep.category_id && remove.category_id) updates.category_id = remove.category_id;
+    if (!keep.payment_method && remove.payment_method) updates.payment_method = remove.payment_method;
+
+    let merged = keep;
+    if (Object.keys(updates).length > 0) {
+      merged = await updateTransaction(keep.id, updates, { base: keep, allowReconciled: options?.allowReconciled });
+    }
+
+    // Items the kept transaction doesn't have yet (the same receipt scanned twice has them all)
+    const remaining = new Map<string, number>();
+    for (const item of keep.items ?? []) {
+      remaining.set(itemKey(item), (remaining.get(itemKey(item)) ?? 0) + 1);
+    }
+    const newItems = (remove.items ?? []).filter(item => {
+      const count = remaining.get(itemKey(item)) ?? 0;
+      if (count === 0) return true;
+      remaining.set(itemKey(item), count - 1);
+      return false;
+    });
+    if (newItems.length > 0) {
+      await addReceiptItems(keep.id, newItems.map(item => ({
+        name: item.item_name,
+        amount: item.item_amount,
+        price: item.item_price,
+        categoryId: item.category_id ?? null,
+      })));
+    }
+
+    const keepTags = (keep.tags ?? []).map(tag => tag.name);
+    const tagNames = Array.from(new Set([...keepTags, ...(remove.tags ?? []).map(tag => tag.name)]));
+    if (tagNames.length > keepTags.length) {
+      await setTransactionTags(keep.id, tagNames);
+    }
+
+    await deleteTransaction(remove.id, {
+      baseUpdatedAt: remove.updated_at,
+      allowReconciled: options?.allowReconciled,
+    });
+
+    return merged;
+  } catch (error) {
+    console.error('Failed to merge duplicate transactions:', error);
+    throw error;
+  }
+}
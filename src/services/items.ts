@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import type { Category } from './categories';
+import { generateClientId, getOfflineUserId, getPendingItems, submitOutboxOperation } from './outbox';
 
 // 与 items 表对应的类型
 // 注意：根据数据库结构，created_at 和 updated_at 字段不存在
@@ -9,6 +11,10 @@ export interface ItemRow {
   item_amount: number;
   item_price: number;
   user_id: string;
+  // 可选：条目自己的分类（为空时归入交易的分类）
+  category_id?: string | null;
+  // 关联数据（可选）
+  category?: Category;
 }
 
 // Add.tsx 中的 ReceiptItem 接口的简化映射
@@ -16,10 +22,12 @@ export interface ReceiptItemInput {
   name: string;      // item_name
   amount: number;    // item_amount
   price: number;     // item_price (单价)
+  categoryId?: string | null; // category_id（可选）
 }
 
 /**
  * 批量为某个交易(transaction)插入收据条目
+ * 通过离线队列(outbox)写入：离线时先保存在本地，联网后按顺序同步
  * @param transactionId 交易 ID
  * @param items ReceiptItemInput 数组
  */
@@ -34,31 +42,30 @@ export async function addReceiptItems(
     return [] as ItemRow[]; // 无需插入
   }
 
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
+  const userId = await getOfflineUserId();
+  if (!userId) {
     throw new Error('用户未认证，无法保存条目');
   }
 
-  // 构造待插入的行
+  // 构造待插入的行（ID 在本地生成，离线时也能引用）
   const rows = items.map(it => ({
+    id: generateClientId(),
     transaction_id: transactionId,
     item_name: it.name?.trim() || 'Item',
     item_amount: Number.isFinite(it.amount) ? it.amount : 1,
     item_price: Number.isFinite(it.price) ? it.price : 0,
-    user_id: user.id,
+    category_id: it.categoryId ?? null,
+    user_id: userId,
   }));
 
-  const { data, error } = await supabase
-    .from('items')
-    .insert(rows)
-    .select();
-
-  if (error) {
+  try {
+    const result = await submitOutboxOperation<ItemRow[]>({ kind: 'addReceiptItems', transactionId, rows });
+    // 离线时返回本地的行
+    return result.status === 'synced' && result.data ? result.data : rows;
+  } catch (error) {
     console.error('[items] 插入收据条目失败:', error);
     throw error;
   }
-
-  return data as ItemRow[];
 }
 
 /**
@@ -73,7 +80,7 @@ export async function getItemsByTransaction(transactionId: string) {
   console.log(`[getItemsByTransaction] User ID: ${user.id}`);
   const { data, error } = await supabase
     .from('items')
-    .select('*')
+    .select('*, category:categories(*)')
     .eq('transaction_id', transactionId)
     .eq('user_id', user.id);
   if (error) {
@@ -82,7 +89,9 @@ export async function getItemsByTransaction(transactionId: string) {
   }
   console.log(`[getItemsByTransaction] Query result:`, data);
   console.log(`[getItemsByTransaction] Found ${data?.length || 0} items`);
-  return data as ItemRow[];
+  // 加上尚未同步的条目
+  const pending = await getPendingItems(transactionId);
+  return [...(data as ItemRow[]), ...pending.filter(p => !data?.some(row => row.id === p.id))];
 }
 
 /**
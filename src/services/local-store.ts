@@ -0,0 +1,377 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getAllTransactions,
+  getTransactionsUpdatedSince,
+  subscribeToTransactionChanges,
+  type Transaction,
+  type TransactionChange,
+} from './transactions';
+import { getCategories, subscribeToCategoryChanges, type Category, type CategoryChange } from './categories';
+import { getAllBudgets, type Budget } from './budgets';
+import { getPetState, type PetState } from './pet';
+import { applyPendingChanges, getOfflineUserId, subscribeToOutbox } from './outbox';
+import { getTrashedIdsSince } from './trash';
+
+const STORAGE_KEY_PREFIX = 'local_store_v2:';
+// Kept the whole snapshot under one key; removed on first load
+const LEGACY_STORAGE_KEY_PREFIX = 'local_store_v1:';
+
+// Changes are fetched from a little before the last refresh, for clocks that disagree
+const REFRESH_OVERLAP_MS = 5 * 60 * 1000;
+// Renames, item edits and the like don't touch updated_at; a full refresh this often picks them up
+const FULL_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local mirror of the user's data, persisted in AsyncStorage so screens can
+ * render before (or without) a network round trip.
+ * Transactions carry their category and items, like getAllTransactions().
+ */
+export interface LocalSnapshot {
+  transactions: Transaction[];
+  categories: Category[];
+  // Global and category budgets
+  budgets: Budget[];
+  petState: PetState | null;
+  // When the last refresh started; the next one fetches changes since then
+  refreshedAt: string | null;
+  // When every transaction was last downloaded
+  fullRefreshedAt: string | null;
+}
+
+// Transactions are stored by month (see monthKey), everything else under the user's key
+type StoredSnapshot = Omit<LocalSnapshot, 'transactions'> & { months: string[] };
+
+const EMPTY_SNAPSHOT: LocalSnapshot = {
+  transactions: [],
+  categories: [],
+  budgets: [],
+  petState: null,
+  refreshedAt: null,
+  fullRefreshedAt: null,
+};
+
+let snapshot: LocalSnapshot | null = null;
+let snapshotUserId: string | null = null;
+// Month keys as last written, so a save only rewrites the months that changed
+let storedMonths: { userId: string; chunks: Map<string, string> } | null = null;
+let refreshPromise: Promise<LocalSnapshot | null> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+// Updates run one at a time, so each builds on the snapshot the previous one saved
+let updateChain: Promise<void> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+// ============================================================
+// Persistence
+// ============================================================
+
+// A whole history under one key can outgrow what AsyncStorage reads back in one go
+function monthKey(userId: string, month: string) {
+  return `${STORAGE_KEY_PREFIX}${userId}:transactions:${month}`;
+}
+
+async function loadSnapshot(userId: string): Promise<LocalSnapshot | null> {
+  if (snapshotUserId === userId) return snapshot;
+
+  let loaded: LocalSnapshot | null = null;
+  let written: Map<string, string> | null = null;
+  try {
+    AsyncStorage.removeItem(LEGACY_STORAGE_KEY_PREFIX + userId).catch(() => {});
+
+    const stored = await AsyncStorage.getItem(STORAGE_KEY_PREFIX + userId);
+    if (stored) {
+      const { months, ...rest } = JSON.parse(stored) as StoredSnapshot;
+      const chunks = await AsyncStorage.multiGet(months.map(month => monthKey(userId, month)));
+      written = new Map(chunks.filter((chunk): chunk is [string, string] => chunk[1] !== null));
+      loaded = {
+        ...EMPTY_SNAPSHOT,
+        ...rest,
+        transactions: sortTransactions(Array.from(written.values()).flatMap(chunk => JSON.parse(chunk) as Transaction[])),
+      };
+    }
+  } catch (error) {
+    console.error('[Local Store] Failed to load snapshot:', error);
+  }
+
+  // Loaded or saved by someone else while reading: that copy is at least as new
+  if (snapshotUserId === userId) return snapshot;
+  if (written) storedMonths = { userId, chunks: written };
+  snapshot = loaded;
+  snapshotUserId = userId;
+  return snapshot;
+}
+
+async function writeSnapshot(userId: string, next: LocalSnapshot) {
+  const byMonth = new Map<string, Transaction[]>();
+  for (const transaction of next.transactions) {
+    const month = transaction.occurred_at.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), transaction]);
+  }
+
+  const chunks = new Map(
+    Array.from(byMonth, ([month, transactions]) => [monthKey(userId, month), JSON.stringify(transactions)])
+  );
+  const written = storedMonths?.userId === userId ? storedMonths.chunks : new Map<string, string>();
+  const changed = Array.from(chunks).filter(([key, chunk]) => written.get(key) !== chunk);
+  const removed = Array.from(written.keys()).filter(key => !chunks.has(key));
+
+  const { transactions, ...rest } = next;
+  const stored: StoredSnapshot = { ...rest, months: Array.from(byMonth.keys()) };
+  await AsyncStorage.multiSet([...changed, [STORAGE_KEY_PREFIX + userId, JSON.stringify(stored)]]);
+  if (removed.length > 0) {
+    await AsyncStorage.multiRemove(removed);
+  }
+  storedMonths = { userId, chunks };
+}
+
+function saveSnapshot(userId: string, next: LocalSnapshot) {
+  snapshot = next;
+  snapshotUserId = userId;
+  listeners.forEach(listener => listener());
+
+  // Serialize writes so an older snapshot never overwrites a newer one
+  writeChain = writeChain
+    .then(() => writeSnapshot(userId, next))
+    .catch(error => console.error('[Local Store] Failed to save snapshot:', error));
+}
+
+/**
+ * Apply a change to the current user's snapshot (creating an empty one if needed)
+ */
+function updateSnapshot(update: (current: LocalSnapshot) => LocalSnapshot): Promise<void> {
+  const run = updateChain.then(async () => {
+    const userId = await getOfflineUserId();
+    if (!userId) return;
+    const current = (await loadSnapshot(userId)) ?? EMPTY_SNAPSHOT;
+    saveSnapshot(userId, update(current));
+  });
+  updateChain = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Listen for snapshot changes. Returns an unsubscribe function.
+ */
+export function subscribeToLocalStore(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================
+// Reads
+// ============================================================
+
+/**
+ * The cached data for the signed-in user, with queued offline writes applied.
+ * Returns null if nothing has been cached yet.
+ */
+export async function getLocalSnapshot(): Promise<LocalSnapshot | null> {
+  const userId = await getOfflineUserId();
+  if (!userId) return null;
+
+  const cached = await loadSnapshot(userId);
+  if (!cached) return null;
+
+  return { ...cached, transactions: await applyPendingChanges(cached.transactions) };
+}
+
+// ============================================================
+// Writes
+// ============================================================
+
+function joinCategory(transaction: Transaction, categories: Category[]): Transaction {
+  return {
+    ...transaction,
+    category: transaction.category_id
+      ? categories.find(category => category.id === transaction.category_id)
+      : undefined,
+  };
+}
+
+function sortTransactions(transactions: Transaction[]) {
+  return transactions.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime());
+}
+
+/**
+ * Replace the cached transactions with a full list fetched from the server
+ */
+export async function saveLocalTransactions(transactions: Transaction[]) {
+  const now = new Date().toISOString();
+  await updateSnapshot(current => ({
+    ...current,
+    transactions,
+    refreshedAt: now,
+    fullRefreshedAt: now,
+  }));
+}
+
+export async function saveLocalPetState(petState: PetState) {
+  await updateSnapshot(current => ({ ...current, petState }));
+}
+
+/**
+ * Patch cached transactions from a realtime event. Realtime rows carry no
+ * joins, so the category comes from the cached categories and items are kept.
+ */
+export async function applyTransactionChange(change: TransactionChange) {
+  await updateSnapshot(current => {
+    if (change.eventType === 'DELETE') {
+      const id = change.old?.id;
+      return id ? { ...current, transactions: current.transactions.filter(t => t.id !== id) } : current;
+    }
+
+    const row = change.new;
+    if (!row) return current;
+
+    const existing = current.transactions.find(t => t.id === row.id);
+    const merged = joinCategory({ ...existing, ...row, items: existing?.items }, current.categories);
+    const others = current.transactions.filter(t => t.id !== row.id);
+    return { ...current, transactions: sortTransactions([merged, ...others]) };
+  });
+}
+
+/**
+ * Patch cached categories (and the category joined on each transaction) from a realtime event
+ */
+export async function applyCategoryChange(change: CategoryChange) {
+  await updateSnapshot(current => {
+    let categories = current.categories;
+    if (change.eventType === 'DELETE') {
+      const id = change.old?.id;
+      if (!id) return current;
+      categories = categories.filter(category => category.id !== id);
+    } else if (change.new) {
+      const row = change.new;
+      categories = [...categories.filter(category => category.id !== row.id), row]
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } else {
+      return current;
+    }
+
+    return {
+      ...current,
+      categories,
+      transactions: current.transactions.map(t => (t.category_id ? joinCategory(t, categories) : t)),
+    };
+  });
+}
+
+type TransactionChanges =
+  | { kind: 'all'; transactions: Transaction[] }
+  | { kind: 'since'; updated: Transaction[]; deletedIds: string[] };
+
+/**
+ * Transactions changed since `since` (added, edited or moved to the trash),
+ * or all of them when there is no earlier refresh to build on
+ */
+async function fetchTransactionChanges(since: string | null): Promise<TransactionChanges> {
+  if (!since) {
+    return { kind: 'all', transactions: await getAllTransactions() };
+  }
+  const [updated, deletedIds] = await Promise.all([
+    getTransactionsUpdatedSince(since),
+    getTrashedIdsSince(since),
+  ]);
+  return { kind: 'since', updated, deletedIds };
+}
+
+function applyTransactionChanges(current: Transaction[], changes: TransactionChanges) {
+  if (changes.kind === 'all') return changes.transactions;
+
+  const replaced = new Set([...changes.deletedIds, ...changes.updated.map(t => t.id)]);
+  return sortTransactions([...current.filter(t => !replaced.has(t.id)), ...changes.updated]);
+}
+
+/**
+ * Fetch what changed since the last refresh and store it. Transactions are
+ * downloaded in full the first time, once FULL_REFRESH_INTERVAL_MS has passed
+ * or when `options.full` is set (e.g. pull to refresh); otherwise only those
+ * added, edited or deleted since. Parts that fail to load (e.g. while
+ * offline) keep their cached values. Concurrent calls share one fetch.
+ */
+export function refreshLocalStore(options: { full?: boolean } = {}): Promise<LocalSnapshot | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const userId = await getOfflineUserId();
+      const cached = userId ? await loadSnapshot(userId) : null;
+      const startedAt = new Date();
+      const upToDate = !!cached?.refreshedAt && !!cached.fullRefreshedAt
+        && startedAt.getTime() - new Date(cached.fullRefreshedAt).getTime() < FULL_REFRESH_INTERVAL_MS;
+      const since = !options.full && upToDate
+        ? new Date(new Date(cached!.refreshedAt!).getTime() - REFRESH_OVERLAP_MS).toISOString()
+        : null;
+
+      const [transactions, categories, budgets, petState] = await Promise.allSettled([
+        fetchTransactionChanges(since),
+        getCategories(),
+        getAllBudgets({ includeCategoryBudgets: true }),
+        getPetState(),
+      ]);
+
+      const fetched = transactions.status === 'fulfilled' ? transactions.value : null;
+      await updateSnapshot(current => ({
+        transactions: fetched ? applyTransactionChanges(current.transactions, fetched) : current.transactions,
+        categories: categories.status === 'fulfilled' ? categories.value : current.categories,
+        budgets: budgets.status === 'fulfilled' ? budgets.value : current.budgets,
+        petState: petState.status === 'fulfilled' ? petState.value : current.petState,
+        refreshedAt: fetched ? startedAt.toISOString() : current.refreshedAt,
+        fullRefreshedAt: fetched?.kind === 'all' ? startedAt.toISOString() : current.fullRefreshedAt,
+      }));
+
+      if (transactions.status === 'rejected') {
+        console.warn('[Local Store] Refresh failed, keeping cached data:', transactions.reason);
+      }
+      return getLocalSnapshot();
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Keep the snapshot fresh: refresh now, patch it from realtime changes and
+ * refresh again whenever queued offline writes finish syncing.
+ * Returns a function that stops listening.
+ */
+export function startLocalStoreSync() {
+  let stopped = false;
+  let unsubscribeTransactions: (() => Promise<void>) | null = null;
+  let unsubscribeCategories: (() => Promise<void>) | null = null;
+  let lastSyncedAt: string | null = null;
+
+  (async () => {
+    const [stopTransactions, stopCategories] = await Promise.all([
+      subscribeToTransactionChanges(change => {
+        applyTransactionChange(change);
+      }),
+      subscribeToCategoryChanges(change => {
+        applyCategoryChange(change);
+      }),
+    ]);
+    if (stopped) {
+      stopTransactions().catch(() => {});
+      stopCategories().catch(() => {});
+      return;
+    }
+    unsubscribeTransactions = stopTransactions;
+    unsubscribeCategories = stopCategories;
+  })();
+
+  const unsubscribeOutbox = subscribeToOutbox(state => {
+    if (state.lastSyncedAt && state.lastSyncedAt !== lastSyncedAt) {
+      lastSyncedAt = state.lastSyncedAt;
+      refreshLocalStore();
+    }
+  });
+
+  refreshLocalStore();
+
+  return () => {
+    stopped = true;
+    unsubscribeOutbox();
+    unsubscribeTransactions?.().catch(() => {});
+    unsubscribeCategories?.().catch(() => {});
+  };
+}
@@ -0,0 +1,387 @@
+import { supabase } from './supabase';
+import { diffTransactionFields, recordTransactionHistoryEntries } from './transaction-history';
+import type { Transaction } from './transactions';
+import { fetchAllPages } from '../utils/pagination';
+
+/**
+ * A merchant under its canonical name. Transactions whose merchant matches the
+ * name or one of the aliases are saved under the canonical name, so
+ * "MCDONALDS #1234", "McDonald's" and "麥當勞" all count as one merchant.
+ *
+ * Aliases are compared after normalization (case, punctuation and store
+ * numbers are ignored) and may use `*` as a wildcard, e.g. `7-eleven*`.
+ */
+export interface Merchant {
+  id: string;
+  user_id: string;
+  name: string;
+  aliases: string[];
+  created_at: string;
+}
+
+/**
+ * Merchant names found in the user's transactions, with how often they occur
+ */
+export interface MerchantUsage {
+  name: string;
+  count: number;
+  // Registry merchant the name resolves to, if any
+  canonical: string | null;
+}
+
+// Last merchants loaded, so names can be resolved without a request (and offline)
+let cachedMerchants: Merchant[] | null = null;
+
+// Transactions renamed per request, so the list of ids fits in a URL
+const RENAME_BATCH_SIZE = 100;
+
+/**
+ * Comparison key of a merchant name: lowercase, without accents, punctuation,
+ * spaces and trailing store/branch numbers.
+ *
+ * @example
+ * normalizeMerchantKey("MCDONALDS #1234") // "mcdonalds"
+ * normalizeMerchantKey("McDonald's")      // "mcdonalds"
+ */
+export function normalizeMerchantKey(name: string) {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\b(store|shop|branch|no\.?)\s*\d+\b/g, ' ')
+    .replace(/\s\d{2,}\s*$/, ' ')
+    .replace(/[^a-z0-9\u00c0-\uffff]+/g, '');
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function aliasMatches(alias: string, key: string) {
+  if (!alias.includes('*')) {
+    return normalizeMerchantKey(alias) === key;
+  }
+  const pattern = alias.split('*').map(part => escapeRegExp(normalizeMerchantKey(part))).join('.*');
+  return new RegExp(`^${pattern}$`).test(key);
+}
+
+/**
+ * The registry merchant a name belongs to, from the last loaded merchants
+ */
+export function findMerchant(name: string | null | undefined): Merchant | null {
+  if (!name || !cachedMerchants) return null;
+  const key = normalizeMerchantKey(name);
+  if (!key) return null;
+
+  return cachedMerchants.find(merchant => normalizeMerchantKey(merchant.name) === key)
+    ?? cachedMerchants.find(merchant => merchant.aliases.some(alias => aliasMatches(alias, key)))
+    ?? null;
+}
+
+/**
+ * Canonical name for a merchant, or the trimmed name if no registry merchant
+ * matches. Uses the last loaded merchants; see resolveMerchantName.
+ */
+export function canonicalMerchantName(name: string): string;
+export function canonicalMerchantName(name: string | null | undefined): string | null;
+export function canonicalMerchantName(name: string | null | undefined) {
+  if (name == null) return null;
+  return findMerchant(name)?.name ?? name.trim();
+}
+
+/**
+ * Like canonicalMerchantName, loading the merchants first if they haven't
+ * been. Names are kept as they are if the merchants can't be loaded.
+ */
+export async function resolveMerchantName(name: string | null | undefined) {
+  if (!name) return name ?? null;
+  if (!cachedMerchants) {
+    await getMerchants().catch(error => {
+      console.warn('Failed to load merchants, keeping merchant name as entered:', error);
+    });
+  }
+  return canonicalMerchantName(name);
+}
+
+/**
+ * Get the current user's merchant registry, sorted by name.
+ * Falls back to the last loaded merchants if the request fails (e.g. offline).
+ */
+export async function getMerchants() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('merchants')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching merchants:', error);
+    if (!cachedMerchants) throw error;
+    return cachedMerchants;
+  }
+
+  cachedMerchants = (data as Merchant[]).map(merchant => ({ ...merchant, aliases: merchant.aliases ?? [] }));
+  return cachedMerchants;
+}
+
+function cleanAliases(name: string, aliases: string[]) {
+  const seen = new Set([normalizeMerchantKey(name)]);
+  return aliases
+    .map(alias => alias.trim())
+    .filter(alias => {
+      const key = alias.includes('*') ? alias.toLowerCase() : normalizeMerchantKey(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Add a merchant to the registry, or add aliases to the merchant with this
+ * name if it already exists
+ */
+export async function saveMerchant(name: string, aliases: string[] = []) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const canonical = name.trim();
+  if (!canonical) throw new Error('Merchant name is required');
+
+  const merchants = await getMerchants();
+  const existing = merchants.find(merchant => normalizeMerchantKey(merchant.name) === normalizeMerchantKey(canonical));
+
+  const { data, error } = existing
+    ? await supabase
+        .from('merchants')
+        .update({ aliases: cleanAliases(existing.name, [...existing.aliases, ...aliases]) })
+        .eq('id', existing.id)
+        .eq('user_id', user.id)
+        .select()
+        .single()
+    : await supabase
+        .from('merchants')
+        .insert([{ user_id: user.id, name: canonical, aliases: cleanAliases(canonical, aliases) }])
+        .select()
+        .single();
+
+  if (error) {
+    console.error('Error saving merchant:', error);
+    throw error;
+  }
+
+  const merchant = data as Merchant;
+  cachedMerchants = [...merchants.filter(item => item.id !== merchant.id), merchant]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return merchant;
+}
+
+/**
+ * Rename the user's transactions whose merchant is one of `names`. Like a bulk
+ * edit, this bumps updated_at, so other devices pick the change up and queued
+ * offline edits are checked against it, and records the edit history.
+ *
+ * @returns The number of transactions renamed
+ */
+async function renameTransactionMerchants(userId: string, names: string[], name: string) {
+  type MerchantRow = Pick<Transaction, 'id' | 'merchant'>;
+  const rows = await fetchAllPages<MerchantRow>((from, to) =>
+    supabase
+      .from('transactions')
+      .select('id, merchant')
+      .eq('user_id', userId)
+      .in('merchant', names)
+      .order('id')
+      .range(from, to)
+  );
+  const before = new Map(rows.map(row => [row.id, row]));
+
+  let renamed = 0;
+  for (let start = 0; start < rows.length; start += RENAME_BATCH_SIZE) {
+    const changedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('transactions')
+      .update({ merchant: name, updated_at: changedAt })
+      .eq('user_id', userId)
+      .in('id', rows.slice(start, start + RENAME_BATCH_SIZE).map(row => row.id))
+      // Leave transactions renamed in the meantime alone
+      .in('merchant', names)
+      .select('id, merchant');
+    if (error) throw error;
+
+    const updated = (data ?? []) as MerchantRow[];
+    await recordTransactionHistoryEntries(userId, updated.map(row => ({
+      transactionId: row.id,
+      action: 'update',
+      source: 'manual',
+      changes: diffTransactionFields(before.get(row.id) ?? null, row),
+      changedAt,
+    })));
+    renamed += updated.length;
+  }
+  return renamed;
+}
+
+/**
+ * Rename a merchant or replace its aliases. Renaming also renames its
+ * transactions.
+ */
+export async function updateMerchant(id: string, updates: { name?: string; aliases?: string[] }) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const merchants = await getMerchants();
+  const current = merchants.find(merchant => merchant.id === id);
+  if (!current) throw new Error('Merchant not found');
+
+  const name = updates.name?.trim() ?? current.name;
+  if (!name) throw new Error('Merchant name is required');
+
+  const { data, error } = await supabase
+    .from('merchants')
+    .update({ name, aliases: cleanAliases(name, updates.aliases ?? current.aliases) })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating merchant:', error);
+    throw error;
+  }
+
+  if (name !== current.name) {
+    try {
+      await renameTransactionMerchants(user.id, [current.name], name);
+    } catch (txError) {
+      console.error('Error renaming merchant on transactions:', txError);
+      throw txError;
+    }
+  }
+
+  const merchant = data as Merchant;
+  cachedMerchants = merchants.map(item => (item.id === id ? merchant : item));
+  return merchant;
+}
+
+/**
+ * Remove a merchant from the registry. Its transactions keep their merchant name.
+ */
+export async function deleteMerchant(id: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('merchants')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting merchant:', error);
+    throw error;
+  }
+
+  cachedMerchants = cachedMerchants?.filter(merchant => merchant.id !== id) ?? null;
+  return true;
+}
+
+/**
+ * Distinct merchant names used in the user's transactions, most used first
+ */
+export async function getMerchantUsage(): Promise<MerchantUsage[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [rows] = await Promise.all([
+      fetchAllPages<{ merchant: string }>((from, to) =>
+        supabase
+          .from('transactions')
+          .select('id, merchant')
+          .eq('user_id', user.id)
+          .is('transfer_id', null)
+          .not('merchant', 'is', null)
+          .order('id')
+          .range(from, to)
+      ).catch(error => {
+        console.error('Error fetching merchant names:', error);
+        throw error;
+      }),
+      getMerchants(),
+    ]);
+
+    const counts = new Map<string, number>();
+    for (const { merchant } of rows) {
+      const name = merchant.trim();
+      if (name) counts.set(name, (counts.get(name) || 0) + 1);
+    }
+
+    return Array.from(counts, ([name, count]) => ({ name, count, canonical: findMerchant(name)?.name ?? null }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Failed to fetch merchant usage:', error);
+    throw error;
+  }
+}
+
+/**
+ * Groups of merchant names that only differ in case, punctuation or store
+ * number and aren't merged yet, as merge suggestions
+ */
+export function suggestMerchantMerges(usage: MerchantUsage[]): MerchantUsage[][] {
+  const groups = new Map<string, MerchantUsage[]>();
+  for (const entry of usage) {
+    const key = normalizeMerchantKey(entry.canonical ?? entry.name);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+/**
+ * Merge merchant names into one: the names become aliases of the canonical
+ * merchant (created if needed) and existing transactions are renamed, so
+ * reports count them together from now on.
+ *
+ * @returns The canonical merchant and the number of transactions renamed
+ *
+ * @example
+ * ```typescript
+ * await mergeMerchants("McDonald's", ['MCDONALDS #1234', '麥當勞']);
+ * ```
+ */
+export async function mergeMerchants(canonicalName: string, names: string[]) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const canonical = canonicalName.trim();
+    const variants = Array.from(new Set(names.map(name => name.trim()).filter(name => name && name !== canonical)));
+    const merchant = await saveMerchant(canonical, variants);
+
+    let renamed = 0;
+    if (variants.length > 0) {
+      try {
+        renamed = await renameTransactionMerchants(user.id, variants, merchant.name);
+      } catch (error) {
+        console.error('Error renaming merged merchants:', error);
+        throw error;
+      }
+    }
+
+    return { merchant, renamed };
+  } catch (error) {
+    console.error('Failed to merge merchants:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * OCR 层 - 可插拔的文字识别接口
+ *
+ * 收据流程会先用 OCR 把图片转成文本，再交给（更便宜的）纯文本模型提取结构化数据。
+ * 任何实现了 OCRProvider 的服务都可以注册进来：
+ * - 内置：本地 ML Kit 文字识别（设备端运行，不上传图片）
+ * - 可扩展：Tesseract、云端 OCR 服务等
+ *
+ * 没有可用的 OCR 提供者时（Web、Expo Go 等），流程会回退到多模态 LLM 直接看图。
+ */
+
+import { NativeModules, Platform } from 'react-native';
+import TextRecognition, { TextRecognitionScript } from '@react-native-ml-kit/text-recognition';
+
+/**
+ * OCR 识别结果
+ */
+export interface OCRResult {
+  rawText: string;         // 识别的原始文本（按阅读顺序逐行拼接）
+  confidence?: number;     // 置信度 (0-1)
+  language?: string;       // 识别的语言
+  providerId?: string;     // 产生该结果的 OCR 提供者
+}
+
+/**
+ * OCR 输入：同时提供 URI 和 base64，提供者按需使用
+ */
+export interface OCRInput {
+  imageUri: string;
+  imageBase64: string;
+  languageHint?: string;   // 用户偏好语言，如 'en'、'zh'
+}
+
+/**
+ * OCR 提供者接口
+ * onProgress 的取值范围为 0-1，由调用方映射到整体进度
+ */
+export interface OCRProvider {
+  id: string;
+  name: string;
+  isAvailable(): boolean;
+  recognize(input: OCRInput, onProgress?: (fraction: number) => void): Promise<OCRResult>;
+}
+
+/**
+ * ============================================================
+ * 本地实现：ML Kit 文字识别
+ * ============================================================
+ *
+ * 需要开发构建（expo prebuild / EAS build）才会链接原生模块，
+ * Expo Go 和 Web 上不可用。
+ */
+const ML_KIT_SCRIPTS: Record<string, TextRecognitionScript> = {
+  zh: TextRecognitionScript.CHINESE,
+  ja: TextRecognitionScript.JAPANESE,
+  ko: TextRecognitionScript.KOREAN,
+  hi: TextRecognitionScript.DEVANAGARI,
+};
+
+interface MLKitFrame {
+  top: number;
+  left: number;
+}
+
+interface MLKitLine {
+  text: string;
+  frame?: MLKitFrame;
+  recognizedLanguages?: { languageCode: string }[];
+}
+
+interface MLKitBlock {
+  lines: MLKitLine[];
+}
+
+export const localOCRProvider: OCRProvider = {
+  id: 'mlkit',
+  name: 'On-device (ML Kit)',
+
+  isAvailable() {
+    return Platform.OS !== 'web' && !!NativeModules.TextRecognition;
+  },
+
+  async recognize(input, onProgress) {
+    const languageCode = (input.languageHint || 'en').slice(0, 2).toLowerCase();
+    const script = ML_KIT_SCRIPTS[languageCode] || TextRecognitionScript.LATIN;
+
+    onProgress?.(0.1);
+    const result = await TextRecognition.recognize(input.imageUri, script);
+    onProgress?.(0.8);
+
+    // 收据是单栏排版：按行的纵坐标排序，同一行内再按横坐标排序
+    const lines: MLKitLine[] = (result.blocks as MLKitBlock[]).flatMap(block => block.lines);
+    const rowTolerance = 8;
+    lines.sort((a, b) => {
+      const dy = (a.frame?.top ?? 0) - (b.frame?.top ?? 0);
+      if (Math.abs(dy) > rowTolerance) return dy;
+      return (a.frame?.left ?? 0) - (b.frame?.left ?? 0);
+    });
+
+    const languageCounts = new Map<string, number>();
+    lines.forEach(line => {
+      line.recognizedLanguages?.forEach(({ languageCode: code }) => {
+        if (code && code !== 'und') {
+          languageCounts.set(code, (languageCounts.get(code) || 0) + 1);
+        }
+      });
+    });
+    const language = [...languageCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    onProgress?.(1);
+
+    return {
+      rawText: lines.map(line => line.text.trim()).filter(Boolean).join('\n'),
+      language,
+      providerId: this.id,
+    };
+  },
+};
+
+/**
+ * ============================================================
+ * 提供者注册表
+ * ============================================================
+ */
+const providers: OCRProvider[] = [localOCRProvider];
+
+/**
+ * 注册 OCR 提供者。后注册的优先级更高，同 id 的提供者会被替换。
+ */
+export function registerOCRProvider(provider: OCRProvider) {
+  const existingIndex = providers.findIndex(p => p.id === provider.id);
+  if (existingIndex !== -1) {
+    providers.splice(existingIndex, 1);
+  }
+  providers.unshift(provider);
+}
+
+export function unregisterOCRProvider(id: string) {
+  const index = providers.findIndex(p => p.id === id);
+  if (index !== -1) {
+    providers.splice(index, 1);
+  }
+}
+
+export function getOCRProviders(): OCRProvider[] {
+  return [...providers];
+}
+
+/**
+ * 返回当前平台上第一个可用的提供者，没有则返回 null
+ */
+export function getAvailableOCRProvider(): OCRProvider | null {
+  return providers.find(provider => {
+    try {
+      return provider.isAvailable();
+    } catch (error) {
+      console.warn(`[OCR] Provider ${provider.id} availability check failed:`, error);
+      return false;
+    }
+  }) ?? null;
+}
+
+/**
+ * 判断 OCR 文本是否足以做纯文本提取：需要有一定长度并包含数字（金额）
+ */
+export function isUsableOCRText(result: OCRResult): boolean {
+  const text = result.rawText.trim();
+  if (text.length < 20 || !/\d/.test(text)) {
+    return false;
+  }
+  return result.confidence === undefined || result.confidence >= 0.5;
+}
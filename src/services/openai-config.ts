@@ -10,6 +10,7 @@ export interface OpenAIConfig {
   receiptModel: string;
   chatModel: string;
   fallbackModel: string;
+  ocrTextModel: string; // 纯文本模型，用于 OCR 文本提取（为空则始终使用收据模型看图）
   userId: string; // 添加用户ID字段
   // Backward compatibility
   primaryModel?: string;
@@ -103,6 +104,7 @@ async function syncConfigToSupabase(config: OpenAIConfig): Promise<void> {
       receipt_key: config.receiptModel,
       chat_model: config.chatModel,
       fallback_model: config.fallbackModel,
+      ocr_text_model: config.ocrTextModel || null,
     };
     
     console.log('[DEBUG] Config data to save:', {
@@ -204,7 +206,7 @@ async function fetchConfigFromSupabase(): Promise<OpenAIConfig | null> {
 
     const { data, error } = await supabase
       .from('api')
-      .select('url, key, receipt_key, chat_model, fallback_model')
+      .select('url, key, receipt_key, chat_model, fallback_model, ocr_text_model')
       .eq('id', user.id)
       .single();
 
@@ -229,6 +231,7 @@ async function fetchConfigFromSupabase(): Promise<OpenAIConfig | null> {
       receiptModel: data.receipt_key,
       chatModel: data.chat_model,
       fallbackModel: data.fallback_model,
+      ocrTextModel: data.ocr_text_model || '',
       userId: user.id, // 添加用户ID
     };
   } catch (error) {
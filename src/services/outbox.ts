@@ -0,0 +1,797 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { supabase } from './supabase';
+import { moveTransactionToTrash } from './trash';
+import { diffTransactionFields, recordTransactionHistory, type AuditSource } from './transaction-history';
+import type { Transaction } from './transactions';
+import type { ItemRow } from './items';
+import { resolveTags } from './tags';
+
+const OUTBOX_STORAGE_KEY = 'transaction_outbox_v1';
+
+// How long to wait before retrying after a network failure, while the device reports being online
+const RETRY_DELAY_MS = 30 * 1000;
+
+// Fields compared when a queued update meets a row that changed on the server
+type TransactionFields = Partial<Omit<Transaction, 'category' | 'items' | 'tags'>>;
+
+/**
+ * A write recorded while (possibly) offline. Transaction ids are generated on
+ * the device so later operations can refer to a transaction before it exists
+ * on the server.
+ */
+export type OutboxOperation =
+  // `actor` is who made the change, for the audit trail (see transaction-history.ts); 'manual' if unset
+  | { kind: 'addTransaction'; transactionId: string; row: TransactionFields; actor?: AuditSource }
+  // Both legs of a transfer, inserted together so one never exists without the other.
+  // `transactionId` is the first remaining leg's id
+  | {
+      kind: 'addTransfer';
+      transactionId: string;
+      legs: { transactionId: string; row: TransactionFields }[];
+      actor?: AuditSource;
+    }
+  | {
+      kind: 'updateTransaction';
+      transactionId: string;
+      updates: TransactionFields;
+      // Values of the changed fields when the edit was made, used to detect conflicting edits
+      base: TransactionFields | null;
+      baseUpdatedAt: string | null;
+      // Set when the user confirmed changing a reconciled transaction
+      allowReconciled?: boolean;
+      actor?: AuditSource;
+    }
+  | {
+      kind: 'deleteTransaction';
+      transactionId: string;
+      baseUpdatedAt: string | null;
+      allowReconciled?: boolean;
+      actor?: AuditSource;
+    }
+  | { kind: 'addReceiptItems'; transactionId: string; rows: Omit<ItemRow, 'category'>[] }
+  // Tags by (normalized) name; missing tags are created on replay
+  | { kind: 'setTransactionTags'; transactionId: string; names: string[] };
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+  op: OutboxOperation;
+}
+
+export type OutboxIssueKind = 'kept-server' | 'failed';
+
+/**
+ * Something the user should know about after a replay: a queued change that
+ * lost against a newer server edit, or one the server rejected.
+ */
+export interface OutboxIssue {
+  kind: OutboxIssueKind;
+  operation: OutboxOperation['kind'];
+  transactionId: string;
+  message: string;
+  at: string;
+}
+
+export interface OutboxState {
+  pendingCount: number;
+  pendingTransactionIds: string[];
+  syncing: boolean;
+  online: boolean;
+  lastSyncedAt: string | null;
+}
+
+export type OutboxSubmitResult<T> =
+  | { status: 'synced'; data: T | null }
+  | { status: 'pending' };
+
+type EntryOutcome =
+  | { status: 'synced'; data: unknown }
+  | { status: 'pending' }
+  | { status: 'failed'; error: unknown };
+
+class OutboxConflictError extends Error {}
+
+let queue: OutboxEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+let syncChain: Promise<void> = Promise.resolve();
+let syncing = false;
+let online = true;
+let lastSyncedAt: string | null = null;
+let lastKnownUserId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Outcomes of entries a caller is waiting on in submitOutboxOperation
+const awaitedEntryIds = new Set<string>();
+const outcomes = new Map<string, EntryOutcome>();
+const stateListeners = new Set<(state: OutboxState) => void>();
+const issueListeners = new Set<(issue: OutboxIssue) => void>();
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * RFC 4122 version 4 UUID, usable as a primary key before the row reaches the server
+ */
+export function generateClientId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Errors from PostgREST/Postgres carry a code; a failed fetch does not.
+ * Only the latter is worth retrying later.
+ */
+function isNetworkError(error: any): boolean {
+  if (!error || error.code) return false;
+  const message = String(error.message ?? error);
+  return /network|fetch|load failed|timed? ?out|offline|abort/i.test(message);
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+function sameValue(a: unknown, b: unknown) {
+  if ((a ?? null) === (b ?? null)) return true;
+  if (a == null || b == null) return false;
+  // The server formats timestamps differently from toISOString()
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  return String(a) === String(b);
+}
+
+function isNewer(a: string | null | undefined, b: string | null | undefined) {
+  if (!a || !b) return false;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+/**
+ * The signed-in user's id without a network round trip, so writes can be
+ * queued offline (getUser() always asks the server)
+ */
+export async function getOfflineUserId(): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session?.user) {
+      lastKnownUserId = session.user.id;
+    }
+  } catch (error) {
+    console.warn('[Outbox] Could not read session, using last known user:', error);
+  }
+  return lastKnownUserId;
+}
+
+// ============================================================
+// Persistence & listeners
+// ============================================================
+
+function ensureLoaded() {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+      .then(stored => {
+        queue = stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+      })
+      .catch(error => {
+        console.error('[Outbox] Failed to load queued changes:', error);
+        queue = [];
+      });
+  }
+  return loadPromise;
+}
+
+async function persist() {
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('[Outbox] Failed to save queued changes:', error);
+  }
+}
+
+// Transactions an operation writes to
+function operationTransactionIds(op: OutboxOperation) {
+  return op.kind === 'addTransfer' ? op.legs.map(leg => leg.transactionId) : [op.transactionId];
+}
+
+export function getOutboxState(): OutboxState {
+  return {
+    pendingCount: queue.length,
+    pendingTransactionIds: Array.from(new Set(queue.flatMap(entry => operationTransactionIds(entry.op)))),
+    syncing,
+    online,
+    lastSyncedAt,
+  };
+}
+
+function notify() {
+  const state = getOutboxState();
+  stateListeners.forEach(listener => listener(state));
+}
+
+function reportIssue(entry: OutboxEntry, kind: OutboxIssueKind, message: string) {
+  console.warn(`[Outbox] ${entry.op.kind} ${entry.op.transactionId}: ${message}`);
+  const issue: OutboxIssue = {
+    kind,
+    operation: entry.op.kind,
+    transactionId: entry.op.transactionId,
+    message,
+    at: new Date().toISOString(),
+  };
+  issueListeners.forEach(listener => listener(issue));
+}
+
+/**
+ * Listen for queue changes. Returns an unsubscribe function.
+ */
+export function subscribeToOutbox(listener: (state: OutboxState) => void) {
+  stateListeners.add(listener);
+  ensureLoaded().then(() => listener(getOutboxState()));
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for conflicts and rejected changes found during replay
+ */
+export function subscribeToOutboxIssues(listener: (issue: OutboxIssue) => void) {
+  issueListeners.add(listener);
+  return () => {
+    issueListeners.delete(listener);
+  };
+}
+
+// ============================================================
+// Enqueue
+// ============================================================
+
+/**
+ * Add an operation to the queue, folding it into queued operations on the
+ * same transaction where possible. Returns the id of the entry whose outcome
+ * answers for this operation, or null when nothing is left to send.
+ */
+function enqueue(userId: string, op: OutboxOperation): string | null {
+  const forTransaction = (entry: OutboxEntry) =>
+    entry.userId === userId && entry.op.transactionId === op.transactionId;
+  const pendingAdd = queue.find(entry => forTransaction(entry) && entry.op.kind === 'addTransaction');
+  const pendingTransfer = queue.find(entry =>
+    entry.userId === userId
+    && entry.op.kind === 'addTransfer'
+    && entry.op.legs.some(leg => leg.transactionId === op.transactionId)
+  );
+
+  if (op.kind === 'updateTransaction') {
+    const { updates, base } = op;
+    if (pendingAdd && pendingAdd.op.kind === 'addTransaction') {
+      pendingAdd.op.row = { ...pendingAdd.op.row, ...updates };
+      return pendingAdd.id;
+    }
+    if (pendingTransfer && pendingTransfer.op.kind === 'addTransfer') {
+      pendingTransfer.op.legs = pendingTransfer.op.legs.map(leg =>
+        leg.transactionId === op.transactionId ? { ...leg, row: { ...leg.row, ...updates } } : leg
+      );
+      return pendingTransfer.id;
+    }
+    const pendingUpdate = queue.find(entry => forTransaction(entry) && entry.op.kind === 'updateTransaction');
+    if (pendingUpdate && pendingUpdate.op.kind === 'updateTransaction') {
+      // Keep the oldest base values: they describe what the server had before any queued edit
+      const queued = pendingUpdate.op;
+      const mergedBase: Record<string, unknown> = { ...queued.base };
+      Object.keys(updates).forEach(field => {
+        if (!(field in queued.updates) && base && field in base) {
+          mergedBase[field] = (base as Record<string, unknown>)[field];
+        }
+      });
+      queued.updates = { ...queued.updates, ...updates };
+      queued.base = queued.base || base ? (mergedBase as TransactionFields) : null;
+      queued.allowReconciled = queued.allowReconciled || op.allowReconciled;
+      return pendingUpdate.id;
+    }
+  }
+
+  if (op.kind === 'setTransactionTags') {
+    // Only the latest tag set matters
+    queue = queue.filter(entry => !(forTransaction(entry) && entry.op.kind === 'setTransactionTags'));
+  }
+
+  if (op.kind === 'deleteTransaction') {
+    if (pendingAdd) {
+      // Never reached the server: forget everything queued for it
+      queue = queue.filter(entry => !forTransaction(entry));
+      return null;
+    }
+    if (pendingTransfer && pendingTransfer.op.kind === 'addTransfer') {
+      // Same, but the other leg may still be queued in the same insert
+      const transfer = pendingTransfer.op;
+      queue = queue.filter(entry => entry === pendingTransfer || !forTransaction(entry));
+      transfer.legs = transfer.legs.filter(leg => leg.transactionId !== op.transactionId);
+      if (transfer.legs.length === 0) {
+        queue = queue.filter(entry => entry !== pendingTransfer);
+      } else {
+        transfer.transactionId = transfer.legs[0].transactionId;
+      }
+      return null;
+    }
+    const pendingUpdate = queue.find(entry => forTransaction(entry) && entry.op.kind === 'updateTransaction');
+    queue = queue.filter(entry => !(forTransaction(entry) && entry.op.kind === 'updateTransaction'));
+    if (pendingUpdate && pendingUpdate.op.kind === 'updateTransaction') {
+      op = { ...op, baseUpdatedAt: pendingUpdate.op.baseUpdatedAt ?? op.baseUpdatedAt };
+    }
+  }
+
+  const entry: OutboxEntry = {
+    id: generateClientId(),
+    userId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+    op,
+  };
+  queue.push(entry);
+  return entry.id;
+}
+
+/**
+ * Record a write and try to send it right away.
+ * - Resolves `synced` with the server row once it is applied (data is null when
+ *   the operation was absorbed locally, e.g. deleting a never-synced transaction)
+ * - Resolves `pending` when the device is offline; it replays later
+ * - Rejects when the server refuses the write
+ */
+export async function submitOutboxOperation<T>(op: OutboxOperation): Promise<OutboxSubmitResult<T>> {
+  const userId = await getOfflineUserId();
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+
+  await ensureLoaded();
+  const entryId = enqueue(userId, op);
+  await persist();
+  notify();
+
+  if (!entryId) {
+    return { status: 'synced', data: null };
+  }
+
+  awaitedEntryIds.add(entryId);
+  await syncOutbox();
+
+  const outcome = outcomes.get(entryId);
+  awaitedEntryIds.delete(entryId);
+  outcomes.delete(entryId);
+  if (outcome?.status === 'synced') {
+    return { status: 'synced', data: outcome.data as T };
+  }
+  if (outcome?.status === 'failed') {
+    throw outcome.error;
+  }
+  return { status: 'pending' };
+}
+
+/**
+ * Drop a queued delete that hasn't reached the server yet, e.g. to undo it
+ * while offline. Returns false if no delete is queued for the transaction.
+ */
+export async function cancelQueuedDelete(transactionId: string) {
+  await ensureLoaded();
+  const userId = await getOfflineUserId();
+  const before = queue.length;
+  queue = queue.filter(entry =>
+    !(entry.userId === userId && entry.op.kind === 'deleteTransaction' && entry.op.transactionId === transactionId)
+  );
+  if (queue.length === before) return false;
+
+  await persist();
+  notify();
+  return true;
+}
+
+// ============================================================
+// Replay
+// ============================================================
+
+async function fetchServerRow(transactionId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Transaction | null;
+}
+
+async function applyEntry(entry: OutboxEntry): Promise<unknown> {
+  const { op, userId } = entry;
+
+  switch (op.kind) {
+    case 'addTransaction': {
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert([{ ...op.row, id: op.transactionId, user_id: userId }])
+        .select(`
+          *,
+          category:categories(*)
+        `)
+        .single();
+      // 23505: the insert went through on an earlier attempt but the response was lost
+      if (error?.code === '23505') {
+        return await fetchServerRow(op.transactionId, userId);
+      }
+      if (error) throw error;
+      await recordTransactionHistory(userId, {
+        transactionId: op.transactionId,
+        action: 'create',
+        source: op.actor ?? 'manual',
+        changes: diffTransactionFields(null, data),
+        changedAt: entry.createdAt,
+      });
+      return data;
+    }
+
+    case 'addTransfer': {
+      const ids = op.legs.map(leg => leg.transactionId);
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert(op.legs.map(leg => ({ ...leg.row, id: leg.transactionId, user_id: userId })))
+        .select(`
+          *,
+          category:categories(*)
+        `);
+      // 23505: as above; the legs went in together, so both are there
+      if (error?.code === '23505') {
+        return await Promise.all(ids.map(id => fetchServerRow(id, userId)));
+      }
+      if (error) throw error;
+      const rows = ids
+        .map(id => (data as Transaction[]).find(row => row.id === id))
+        .filter((row): row is Transaction => !!row);
+      for (const row of rows) {
+        await recordTransactionHistory(userId, {
+          transactionId: row.id,
+          action: 'create',
+          source: op.actor ?? 'manual',
+          changes: diffTransactionFields(null, row),
+          changedAt: entry.createdAt,
+        });
+      }
+      return rows;
+    }
+
+    case 'addReceiptItems': {
+      const { data, error } = await supabase
+        .from('items')
+        .insert(op.rows.map(row => ({ ...row, user_id: userId })))
+        .select();
+      if (error?.code === '23505') return op.rows;
+      if (error) throw error;
+      return data;
+    }
+
+    case 'setTransactionTags': {
+      const tags = await resolveTags(op.names, userId);
+      const tagIds = tags.map(tag => tag.id);
+
+      let removal = supabase
+        .from('transaction_tags')
+        .delete()
+        .eq('transaction_id', op.transactionId)
+        .eq('user_id', userId);
+      if (tagIds.length > 0) {
+        removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+      }
+      const { error: removeError } = await removal;
+      if (removeError) throw removeError;
+
+      if (tags.length > 0) {
+        const { error } = await supabase
+          .from('transaction_tags')
+          .upsert(
+            tags.map(tag => ({ transaction_id: op.transactionId, tag_id: tag.id, user_id: userId })),
+            { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true }
+          );
+        if (error) throw error;
+      }
+      return tags;
+    }
+
+    case 'updateTransaction': {
+      const server = await fetchServerRow(op.transactionId, userId);
+      if (!server) {
+        throw new OutboxConflictError('Transaction was deleted on another device; edit discarded');
+      }
+      if (server.reconciliation_id && !op.allowReconciled) {
+        throw new Error('Transaction is reconciled; edit discarded');
+      }
+
+      // A field changed on the server since the edit was made: the later change wins
+      let updates = op.updates;
+      if (op.baseUpdatedAt && isNewer(server.updated_at, op.baseUpdatedAt) && isNewer(server.updated_at, entry.createdAt)) {
+        const serverRow = server as unknown as Record<string, unknown>;
+        const base = (op.base ?? {}) as Record<string, unknown>;
+        updates = Object.fromEntries(
+          Object.entries(op.updates).filter(([field]) =>
+            field in base && sameValue(serverRow[field], base[field])
+          )
+        );
+        const skipped = Object.keys(op.updates).filter(field => !(field in updates));
+        if (skipped.length > 0) {
+          reportIssue(entry, 'kept-server', `Newer server values kept for: ${skipped.join(', ')}`);
+        }
+        if (Object.keys(updates).length === 0) {
+          return server;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', op.transactionId)
+        .eq('user_id', userId)
+        .select(`
+          *,
+          category:categories(*)
+        `)
+        .single();
+      if (error) throw error;
+      await recordTransactionHistory(userId, {
+        transactionId: op.transactionId,
+        action: 'update',
+        source: op.actor ?? 'manual',
+        changes: diffTransactionFields(server, data),
+        changedAt: entry.createdAt,
+      });
+      return data;
+    }
+
+    case 'deleteTransaction': {
+      const server = await fetchServerRow(op.transactionId, userId);
+      if (!server) return true;
+      if (server.reconciliation_id && !op.allowReconciled) {
+        throw new Error('Transaction is reconciled; delete discarded');
+      }
+
+      if (op.baseUpdatedAt && isNewer(server.updated_at, op.baseUpdatedAt) && isNewer(server.updated_at, entry.createdAt)) {
+        throw new OutboxConflictError('Transaction was edited on another device after it was deleted here; kept');
+      }
+
+      // Keep a copy (with items, tags and attachments) so the delete can be undone
+      await moveTransactionToTrash(op.transactionId, userId);
+
+      const { error } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('id', op.transactionId)
+        .eq('user_id', userId);
+      if (error) throw error;
+      await recordTransactionHistory(userId, {
+        transactionId: op.transactionId,
+        action: 'delete',
+        source: op.actor ?? 'manual',
+        changes: diffTransactionFields(server, null),
+        changedAt: entry.createdAt,
+      });
+      return true;
+    }
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncOutbox();
+  }, RETRY_DELAY_MS);
+}
+
+function recordOutcome(entryId: string, outcome: EntryOutcome) {
+  if (awaitedEntryIds.has(entryId)) {
+    outcomes.set(entryId, outcome);
+  }
+}
+
+async function replay() {
+  await ensureLoaded();
+  const userId = await getOfflineUserId();
+  const entries = queue.filter(entry => entry.userId === userId);
+  if (!userId || entries.length === 0) return;
+
+  syncing = true;
+  notify();
+
+  const failedAdds = new Set<string>();
+  for (const entry of entries) {
+    if (failedAdds.has(entry.op.transactionId)) {
+      // Depends on a transaction the server refused
+      queue = queue.filter(queued => queued.id !== entry.id);
+      recordOutcome(entry.id, { status: 'failed', error: new Error('Transaction could not be saved') });
+      continue;
+    }
+
+    try {
+      const data = await applyEntry(entry);
+      queue = queue.filter(queued => queued.id !== entry.id);
+      recordOutcome(entry.id, { status: 'synced', data });
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        entry.attempts += 1;
+        entry.lastError = String(error?.message ?? error);
+        recordOutcome(entry.id, { status: 'pending' });
+        scheduleRetry();
+        // Keep the order: nothing after this entry may go first
+        break;
+      }
+
+      queue = queue.filter(queued => queued.id !== entry.id);
+      if (error instanceof OutboxConflictError) {
+        reportIssue(entry, 'kept-server', error.message);
+        recordOutcome(entry.id, { status: 'synced', data: null });
+      } else {
+        console.error('[Outbox] Server rejected queued change:', error);
+        reportIssue(entry, 'failed', String(error?.message ?? error));
+        recordOutcome(entry.id, { status: 'failed', error });
+        if (entry.op.kind === 'addTransaction' || entry.op.kind === 'addTransfer') {
+          operationTransactionIds(entry.op).forEach(id => failedAdds.add(id));
+        }
+      }
+    }
+    await persist();
+  }
+
+  if (!queue.some(entry => entry.userId === userId)) {
+    lastSyncedAt = new Date().toISOString();
+  }
+  await persist();
+  syncing = false;
+  notify();
+}
+
+/**
+ * Replay queued changes in order. Calls are serialized; the returned promise
+ * settles once this call's replay has finished.
+ */
+export function syncOutbox(): Promise<void> {
+  syncChain = syncChain.then(replay).catch(error => {
+    console.error('[Outbox] Sync failed:', error);
+    syncing = false;
+    notify();
+  });
+  return syncChain;
+}
+
+/**
+ * Replay the queue whenever connectivity returns or the app comes to the
+ * foreground. Returns a function that stops listening.
+ */
+export function startOutboxSync() {
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+    const cameOnline = isOnline && !online;
+    online = isOnline;
+    notify();
+    if (cameOnline) {
+      syncOutbox();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      syncOutbox();
+    }
+  });
+
+  syncOutbox();
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+}
+
+// ============================================================
+// Local view of queued changes
+// ============================================================
+
+/**
+ * Lay queued changes over rows fetched from the server so reads show writes
+ * that have not synced yet: queued adds are inserted (within the date range,
+ * if given), queued edits applied and queued deletes removed.
+ * Pass includeAdds: false for pages after the first of a paginated list.
+ */
+export async function applyPendingChanges(
+  transactions: Transaction[],
+  options: { startDate?: string; endDate?: string; limit?: number; includeAdds?: boolean } = {}
+): Promise<Transaction[]> {
+  await ensureLoaded();
+  const userId = await getOfflineUserId();
+  const entries = queue.filter(entry => entry.userId === userId);
+  if (entries.length === 0) return transactions;
+
+  // Category joins for rows whose category changed locally
+  const categories = new Map(
+    transactions.filter(t => t.category).map(t => [t.category!.id, t.category!])
+  );
+  const withCategory = (transaction: Transaction): Transaction => ({
+    ...transaction,
+    category: transaction.category_id ? categories.get(transaction.category_id) : undefined,
+  });
+
+  let result = [...transactions];
+  const addRow = (transactionId: string, fields: TransactionFields, createdAt: string) => {
+    if (options.includeAdds === false) return;
+    const row = withCategory({
+      ...(fields as Transaction),
+      id: transactionId,
+      user_id: userId!,
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+    const inRange = (!options.startDate || row.occurred_at >= options.startDate)
+      && (!options.endDate || row.occurred_at <= options.endDate);
+    if (inRange && !result.some(t => t.id === row.id)) {
+      result.push(row);
+    }
+  };
+
+  for (const { op, createdAt } of entries) {
+    switch (op.kind) {
+      case 'addTransaction':
+        addRow(op.transactionId, op.row, createdAt);
+        break;
+      case 'addTransfer':
+        op.legs.forEach(leg => addRow(leg.transactionId, leg.row, createdAt));
+        break;
+      case 'updateTransaction':
+        result = result.map(t => (t.id === op.transactionId ? withCategory({ ...t, ...op.updates }) : t));
+        break;
+      case 'deleteTransaction':
+        result = result.filter(t => t.id !== op.transactionId);
+        break;
+      case 'addReceiptItems':
+        result = result.map(t =>
+          t.id === op.transactionId && !t.items?.length
+            ? { ...t, items: op.rows.map(row => ({ ...row, user_id: userId! })) }
+            : t
+        );
+        break;
+      case 'setTransactionTags':
+        result = result.map(t =>
+          t.id === op.transactionId
+            ? {
+                ...t,
+                tags: op.names.map(name =>
+                  t.tags?.find(tag => tag.name === name) ?? { id: `pending:${name}`, user_id: userId!, name, created_at: createdAt }
+                ),
+              }
+            : t
+        );
+        break;
+    }
+  }
+
+  result.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime());
+  return options.limit !== undefined ? result.slice(0, options.limit) : result;
+}
+
+/**
+ * Items queued for a transaction that have not reached the server yet
+ */
+export async function getPendingItems(transactionId: string): Promise<ItemRow[]> {
+  await ensureLoaded();
+  return queue.flatMap(entry =>
+    entry.op.kind === 'addReceiptItems' && entry.op.transactionId === transactionId
+      ? entry.op.rows.map(row => ({ ...row, user_id: entry.userId }))
+      : []
+  );
+}
@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { getAccounts, type Account, type AccountType } from './accounts';
 
 export interface PaymentMethod {
   id: string;
@@ -6,32 +6,57 @@ export interface PaymentMethod {
   icon?: string;
   is_default: boolean;
   sort_order: number;
+  // Set when the payment method is one of the user's accounts
+  type?: AccountType;
+  currency?: string;
+}
+
+// Shown when the user's accounts cannot be loaded (e.g. signed out or offline on first launch)
+const PRESET_PAYMENT_METHODS: PaymentMethod[] = [
+  { id: '1', name: 'Cash', icon: 'cash-outline', is_default: true, sort_order: 1 },
+  { id: '2', name: 'Octopus', icon: 'wallet-outline', is_default: false, sort_order: 2 },
+  { id: '3', name: 'Credit Card', icon: 'card-outline', is_default: false, sort_order: 3 },
+  { id: '4', name: 'Debit Card', icon: 'card-outline', is_default: false, sort_order: 4 },
+  { id: '5', name: 'VISA', icon: 'card-outline', is_default: false, sort_order: 5 },
+  { id: '6', name: 'Mastercard', icon: 'card-outline', is_default: false, sort_order: 6 },
+  { id: '7', name: 'American Express', icon: 'card-outline', is_default: false, sort_order: 7 },
+  { id: '8', name: 'Apple Pay', icon: 'logo-apple', is_default: false, sort_order: 8 },
+  { id: '9', name: 'Google Pay', icon: 'logo-google', is_default: false, sort_order: 9 },
+  { id: '10', name: 'PayPal', icon: 'logo-paypal', is_default: false, sort_order: 10 },
+  { id: '11', name: 'WeChat Pay', icon: 'chatbubbles-outline', is_default: false, sort_order: 11 },
+  { id: '12', name: 'Alipay', icon: 'wallet-outline', is_default: false, sort_order: 12 },
+  { id: '13', name: 'Bank Transfer', icon: 'business-outline', is_default: false, sort_order: 13 },
+  { id: '14', name: 'Other', icon: 'ellipsis-horizontal', is_default: false, sort_order: 14 },
+];
+
+function toPaymentMethod(account: Account, index: number): PaymentMethod {
+  return {
+    id: account.id,
+    name: account.name,
+    icon: account.icon ?? undefined,
+    is_default: index === 0,
+    sort_order: account.sort_order,
+    type: account.type,
+    currency: account.currency,
+  };
 }
 
 /**
  * Get all payment methods
- * Returns predefined payment methods in the correct order
+ * Returns the user's active accounts in their display order (the first one is
+ * the default), or the preset list if accounts cannot be loaded
  */
 export async function getPaymentMethods(): Promise<PaymentMethod[]> {
-  // Predefined payment methods with common options
-  const paymentMethods: PaymentMethod[] = [
-    { id: '1', name: 'Cash', icon: 'cash-outline', is_default: true, sort_order: 1 },
-    { id: '2', name: 'Octopus', icon: 'wallet-outline', is_default: false, sort_order: 2 },
-    { id: '3', name: 'Credit Card', icon: 'card-outline', is_default: false, sort_order: 3 },
-    { id: '4', name: 'Debit Card', icon: 'card-outline', is_default: false, sort_order: 4 },
-    { id: '5', name: 'VISA', icon: 'card-outline', is_default: false, sort_order: 5 },
-    { id: '6', name: 'Mastercard', icon: 'card-outline', is_default: false, sort_order: 6 },
-    { id: '7', name: 'American Express', icon: 'card-outline', is_default: false, sort_order: 7 },
-    { id: '8', name: 'Apple Pay', icon: 'logo-apple', is_default: false, sort_order: 8 },
-    { id: '9', name: 'Google Pay', icon: 'logo-google', is_default: false, sort_order: 9 },
-    { id: '10', name: 'PayPal', icon: 'logo-paypal', is_default: false, sort_order: 10 },
-    { id: '11', name: 'WeChat Pay', icon: 'chatbubbles-outline', is_default: false, sort_order: 11 },
-    { id: '12', name: 'Alipay', icon: 'wallet-outline', is_default: false, sort_order: 12 },
-    { id: '13', name: 'Bank Transfer', icon: 'business-outline', is_default: false, sort_order: 13 },
-    { id: '14', name: 'Other', icon: 'ellipsis-horizontal', is_default: false, sort_order: 14 },
-  ];
-
-  return paymentMethods;
+  try {
+    const accounts = await getAccounts();
+    if (accounts.length > 0) {
+      return accounts.map(toPaymentMethod);
+    }
+  } catch (error) {
+    console.warn('Failed to load accounts, using preset payment methods:', error);
+  }
+
+  return PRESET_PAYMENT_METHODS;
 }
 
 /**
@@ -40,16 +65,16 @@ export async function getPaymentMethods(): Promise<PaymentMethod[]> {
  */
 export async function getPaymentMethodByName(name: string): Promise<PaymentMethod | null> {
   if (!name) return null;
-  
+
   const methods = await getPaymentMethods();
   const normalizedName = name.trim().toLowerCase();
-  
+
   return methods.find(m => m.name.toLowerCase() === normalizedName) || null;
 }
 
 /**
  * Get default payment method
- * Returns the default payment method (Cash)
+ * Returns the default payment method (the first account, or Cash)
  */
 export async function getDefaultPaymentMethod(): Promise<PaymentMethod> {
   const methods = await getPaymentMethods();
@@ -0,0 +1,314 @@
+import { processReceiptImage, type ReceiptData, type ReceiptItem } from './receipt-processor';
+import { addTransaction, type Transaction } from './transactions';
+import { addReceiptItems, type ReceiptItemInput } from './items';
+import { addCategory, getCategories, type Category } from './categories';
+import { addTransactionAttachment } from './attachments';
+import { evaluateRules, type TransactionRule } from './transaction-rules';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { formatDateTimeISO } from '../utils/datetime';
+
+/** How many receipt images are sent to the AI service at the same time */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * A queued image. `continuesPrevious` marks the image as the next page of the
+ * receipt before it, so both pages become one transaction.
+ */
+export interface ReceiptBatchPage {
+  id: string;
+  uri: string;
+  continuesPrevious: boolean;
+}
+
+/** One receipt (one future transaction) made of one or more pages */
+export interface ReceiptBatchGroup {
+  id: string;
+  pageUris: string[];
+}
+
+export type ReceiptBatchStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface ReceiptBatchResult {
+  groupId: string;
+  pageUris: string[];
+  status: ReceiptBatchStatus;
+  progress: number; // 0-100, averaged over the pages
+  data: ReceiptData | null;
+  error: string | null;
+  failedPages: number;
+}
+
+/**
+ * Editable form of a processed receipt, shown in the review list
+ */
+export interface ReceiptBatchDraft {
+  merchant: string;
+  amount: number;
+  currency: string;
+  occurredAt: string; // YYYY-MM-DDTHH:MM (local)
+  categoryId: string | null;
+  newCategoryName: string | null; // suggested category that does not exist yet
+  paymentMethod: string | null;
+  note: string;
+  items: ReceiptItemInput[];
+}
+
+/**
+ * Split the queue into receipts: a page flagged `continuesPrevious` joins the group before it
+ */
+export function groupBatchPages(pages: ReceiptBatchPage[]): ReceiptBatchGroup[] {
+  const groups: ReceiptBatchGroup[] = [];
+  for (const page of pages) {
+    const current = groups[groups.length - 1];
+    if (page.continuesPrevious && current) {
+      current.pageUris.push(page.uri);
+    } else {
+      groups.push({ id: page.id, pageUris: [page.uri] });
+    }
+  }
+  return groups;
+}
+
+function isSameItem(a: ReceiptItem, b: ReceiptItem) {
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase()
+    && a.amount === b.amount
+    && a.price === b.price;
+}
+
+/**
+ * Merge the results of each page of a long receipt into one receipt.
+ * - Header fields (merchant, date, category) come from the first page that has them
+ * - Payment method comes from the last page (it is printed in the footer)
+ * - Items are concatenated; an item repeated across a page boundary (overlapping photos) is kept once
+ * - The total is the largest printed total, or the item sum if no page shows one
+ */
+export function stitchReceiptPages(pages: ReceiptData[]): ReceiptData {
+  if (pages.length === 0) {
+    throw new Error('No pages to stitch');
+  }
+  if (pages.length === 1) {
+    return pages[0];
+  }
+
+  const first = pages[0];
+  const merchant = pages.find(page => page.merchant && page.merchant !== 'Unknown Merchant')?.merchant ?? first.merchant;
+  const categoryPage = pages.find(page => page.category) ?? first;
+
+  const items: ReceiptItem[] = [];
+  for (const page of pages) {
+    const pageItems = page.items ?? [];
+    pageItems.forEach((item, index) => {
+      const last = items[items.length - 1];
+      if (index === 0 && last && isSameItem(last, item)) return;
+      items.push(item);
+    });
+  }
+
+  const printedTotal = Math.max(0, ...pages.map(page => page.amount || 0));
+  const itemTotal = items.reduce((sum, item) => sum + item.amount * item.price, 0);
+
+  const descriptions = Array.from(new Set(pages.map(page => page.description?.trim()).filter(Boolean)));
+  const paymentMethod = [...pages].reverse().find(page => page.payment_method)?.payment_method ?? null;
+
+  return {
+    merchant,
+    amount: printedTotal > 0 ? printedTotal : Math.round(itemTotal * 100) / 100,
+    date: pages.find(page => page.date)?.date,
+    items,
+    description: descriptions.join(' '),
+    category: categoryPage.category,
+    isNewCategory: categoryPage.isNewCategory,
+    currency: pages.find(page => page.currency)?.currency,
+    payment_method: paymentMethod,
+  };
+}
+
+/**
+ * Process every page of every group through `processReceiptImage` with bounded
+ * concurrency, then stitch each group's pages into one receipt.
+ * `onUpdate` fires whenever a group's status or progress changes.
+ */
+export async function processReceiptBatch(
+  groups: ReceiptBatchGroup[],
+  options: {
+    concurrency?: number;
+    onUpdate?: (result: ReceiptBatchResult) => void;
+  } = {}
+): Promise<ReceiptBatchResult[]> {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, onUpdate } = options;
+
+  const results: ReceiptBatchResult[] = groups.map(group => ({
+    groupId: group.id,
+    pageUris: group.pageUris,
+    status: 'queued',
+    progress: 0,
+    data: null,
+    error: null,
+    failedPages: 0,
+  }));
+  const pageProgress = groups.map(group => group.pageUris.map(() => 0));
+  const pageData: (ReceiptData | null)[][] = groups.map(group => group.pageUris.map(() => null));
+  const pageErrors: (string | null)[][] = groups.map(group => group.pageUris.map(() => null));
+  const pendingPages = groups.map(group => group.pageUris.length);
+
+  const emit = (groupIndex: number, changes: Partial<ReceiptBatchResult>) => {
+    results[groupIndex] = { ...results[groupIndex], ...changes };
+    onUpdate?.(results[groupIndex]);
+  };
+
+  const averageProgress = (groupIndex: number) => {
+    const values = pageProgress[groupIndex];
+    return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  };
+
+  const finishGroup = (groupIndex: number) => {
+    const succeeded = pageData[groupIndex].filter((data): data is ReceiptData => data !== null);
+    const failedPages = pageData[groupIndex].length - succeeded.length;
+    if (succeeded.length === 0) {
+      emit(groupIndex, {
+        status: 'failed',
+        progress: 100,
+        error: pageErrors[groupIndex].find(Boolean) ?? 'Failed to process receipt',
+        failedPages,
+      });
+      return;
+    }
+    emit(groupIndex, {
+      status: 'done',
+      progress: 100,
+      data: stitchReceiptPages(succeeded),
+      error: failedPages > 0 ? pageErrors[groupIndex].find(Boolean) ?? null : null,
+      failedPages,
+    });
+  };
+
+  const jobs = groups.flatMap((group, groupIndex) =>
+    group.pageUris.map((uri, pageIndex) => ({ uri, groupIndex, pageIndex }))
+  );
+
+  await mapWithConcurrency(jobs, concurrency, async ({ uri, groupIndex, pageIndex }) => {
+    if (results[groupIndex].status === 'queued') {
+      emit(groupIndex, { status: 'processing' });
+    }
+    try {
+      pageData[groupIndex][pageIndex] = await processReceiptImage(uri, progress => {
+        pageProgress[groupIndex][pageIndex] = progress.progress;
+        emit(groupIndex, { progress: averageProgress(groupIndex) });
+      });
+    } catch (error: any) {
+      console.error('[Receipt Batch] Page failed:', uri, error);
+      pageErrors[groupIndex][pageIndex] = error?.message || 'Failed to process receipt';
+    }
+    pageProgress[groupIndex][pageIndex] = 100;
+    pendingPages[groupIndex] -= 1;
+    if (pendingPages[groupIndex] === 0) {
+      finishGroup(groupIndex);
+    } else {
+      emit(groupIndex, { progress: averageProgress(groupIndex) });
+    }
+  });
+
+  return results;
+}
+
+function findCategoryByName(categories: Category[], name: string | undefined | null) {
+  const target = name?.trim().toLowerCase();
+  return target ? categories.find(category => category.name.toLowerCase() === target) : undefined;
+}
+
+/**
+ * Turn a processed receipt into an editable draft, matching suggested
+ * categories against the user's categories. The user's rules (see
+ * transaction-rules.ts) win over the category and payment method read from
+ * the receipt.
+ */
+export function buildReceiptBatchDraft(
+  data: ReceiptData,
+  categories: Category[],
+  rules: TransactionRule[] = []
+): ReceiptBatchDraft {
+  const category = findCategoryByName(categories, data.category);
+  const receiptCategory = data.category?.trim().toLowerCase();
+  const occurredAt = data.date || formatDateTimeISO(new Date());
+  const ruled = evaluateRules({
+    amount: -Math.abs(data.amount),
+    merchant: data.merchant,
+    occurred_at: new Date(occurredAt).toISOString(),
+    source: 'ocr',
+    payment_method: data.payment_method ?? null,
+  }, rules);
+
+  return {
+    merchant: data.merchant,
+    amount: data.amount,
+    currency: data.currency || 'HKD',
+    occurredAt,
+    categoryId: ruled.category_id ?? category?.id ?? null,
+    newCategoryName: ruled.category_id || category || !data.category?.trim() ? null : data.category.trim(),
+    paymentMethod: ruled.payment_method ?? data.payment_method ?? null,
+    note: data.description ?? '',
+    items: (data.items ?? []).map(item => {
+      // Items in the receipt's own category (or a category that does not exist yet) follow the transaction
+      const itemCategory = item.category?.trim().toLowerCase() === receiptCategory
+        ? undefined
+        : findCategoryByName(categories, item.category);
+      return {
+        name: item.name,
+        amount: item.amount,
+        price: item.price,
+        categoryId: itemCategory?.id ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Save an accepted draft as an expense transaction with its items and page photos.
+ * A suggested new category is created first, unless it was created meanwhile.
+ */
+export async function saveReceiptBatchDraft(draft: ReceiptBatchDraft, pageUris: string[] = []): Promise<Transaction> {
+  try {
+    let categoryId = draft.categoryId;
+    if (!categoryId && draft.newCategoryName) {
+      const existing = findCategoryByName(await getCategories(), draft.newCategoryName);
+      categoryId = existing ? existing.id : (await addCategory(draft.newCategoryName)).id;
+    }
+
+    const occurredAt = new Date(draft.occurredAt);
+    const transaction = await addTransaction({
+      amount: -Math.abs(draft.amount),
+      occurred_at: (isNaN(occurredAt.getTime()) ? new Date() : occurredAt).toISOString(),
+      merchant: draft.merchant.trim() || draft.items[0]?.name || 'Transaction',
+      category_id: categoryId,
+      source: 'ocr',
+      note: draft.note.trim() || null,
+      payment_method: draft.paymentMethod,
+      currency: draft.currency,
+    });
+
+    if (draft.items.length > 0) {
+      try {
+        await addReceiptItems(transaction.id, draft.items);
+      } catch (error) {
+        console.error('[Receipt Batch] Failed to insert items (transaction kept):', error);
+      }
+    }
+
+    for (const [index, uri] of pageUris.entries()) {
+      try {
+        await addTransactionAttachment(transaction.id, {
+          uri,
+          name: pageUris.length > 1 ? `receipt-page-${index + 1}.jpg` : 'receipt.jpg',
+          mimeType: 'image/jpeg',
+        });
+      } catch (error) {
+        console.error('[Receipt Batch] Failed to upload receipt photo (transaction kept):', error);
+      }
+    }
+
+    return transaction;
+  } catch (error) {
+    console.error('Failed to save batch receipt:', error);
+    throw error;
+  }
+}
@@ -3,8 +3,8 @@
  * 
  * 这个文件负责处理从图片上传到最终结构化数据的完整流程
  * 架构设计：
- * 1. OCR 层（预留接口，暂未实现）
- * 2. 多模态 LLM 直接分析层（当前使用）
+ * 1. OCR 层（可插拔提供者，见 ./ocr.ts）+ 纯文本模型提取
+ * 2. 多模态 LLM 直接分析层（没有 OCR 或 OCR 结果不可用时使用）
  * 3. 数据清洗和验证层
  */
 
@@ -13,8 +13,11 @@ import { getOpenAIConfig } from './openai-config';
 import { getCategories } from './categories';
 import { getCurrencies } from './currencies';
 import { getPaymentMethods } from './payment-methods';
+import { canonicalMerchantName, getMerchants } from './merchants';
 import { getProfile } from './profiles';
 import type { Currency } from './currencies';
+import { getAvailableOCRProvider, isUsableOCRText } from './ocr';
+import type { OCRResult } from './ocr';
 import { formatDateTimeISO, getCurrentLocalTimeISO, getTimezoneOffset, normalizeDateFromLLM } from '../utils/datetime';
 
 /**
@@ -24,6 +27,8 @@ export interface ReceiptItem {
   name: string;    // Item name
   amount: number;  // Quantity
   price: number;   // Unit price
+  category?: string;       // 条目分类建议（为空时沿用整张收据的分类）
+  isNewCategory?: boolean; // 条目分类是否不在现有分类列表中
 }
 
 export interface ReceiptData {
@@ -38,14 +43,7 @@ export interface ReceiptData {
   payment_method?: string | null; // 支付方式 (Cash, VISA, Apple Pay, etc.)
 }
 
-/**
- * OCR 识别结果（预留接口）
- */
-export interface OCRResult {
-  rawText: string;         // 识别的原始文本
-  confidence?: number;     // 置信度 (0-1)
-  language?: string;       // 识别的语言
-}
+export type { OCRResult } from './ocr';
 
 /**
  * 处理进度回调
@@ -173,92 +171,94 @@ async function convertImageToBase64(imageUri: string): Promise<string> {
 
 /**
  * ============================================================
- * 步骤 2: OCR 识别（预留接口，暂不实现）
+ * 步骤 2: OCR 识别（可插拔，见 ./ocr.ts）
  * ============================================================
  * 
- * 未来可以在这里集成：
- * - Tesseract.js (开源 OCR)
- * - Google Vision API
- * - AWS Textract
- * - Azure Computer Vision
- * 
- * 目前跳过此步骤，直接使用多模态 LLM
+ * 只有在配置了纯文本模型并且当前平台有可用的 OCR 提供者时才执行。
+ * 返回 null 表示跳过 OCR，后续直接使用多模态 LLM 看图。
+ * 提供者报告的 0-1 进度会映射到整体进度的 OCR 区间。
  */
-async function performOCR(imageBase64: string): Promise<OCRResult> {
-  console.log('[Receipt Processor] OCR step - Currently skipped, using multimodal LLM instead');
-  
-  // TODO: 实现 OCR 逻辑
-  // 示例接口：
-  // const result = await someOCRService.recognize(imageBase64);
-  // return {
-  //   rawText: result.text,
-  //   confidence: result.confidence,
-  //   language: result.language
-  // };
-  
-  return {
-    rawText: '', // OCR 暂未实现，返回空
-    confidence: 0,
+const OCR_PROGRESS_START = 15;
+const OCR_PROGRESS_END = 45;
+
+async function performOCR(
+  imageUri: string,
+  imageBase64: string,
+  languageHint: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<OCRResult | null> {
+  const provider = getAvailableOCRProvider();
+  if (!provider) {
+    console.log('[Receipt Processor] No OCR provider available on', Platform.OS);
+    return null;
+  }
+
+  console.log('[Receipt Processor] Running OCR with provider:', provider.id);
+  const reportProgress = (fraction: number) => {
+    const clamped = Math.min(1, Math.max(0, fraction));
+    onProgress?.({
+      step: 'ocr',
+      message: `Reading receipt text (${provider.name})...`,
+      progress: Math.round(OCR_PROGRESS_START + (OCR_PROGRESS_END - OCR_PROGRESS_START) * clamped),
+    });
   };
+
+  reportProgress(0);
+  try {
+    const result = await provider.recognize({ imageUri, imageBase64, languageHint }, reportProgress);
+    reportProgress(1);
+    console.log('[Receipt Processor] OCR text length:', result.rawText.length, 'language:', result.language);
+    return result;
+  } catch (error) {
+    console.warn('[Receipt Processor] OCR failed, falling back to image analysis:', error);
+    return null;
+  }
 }
 
 /**
- * ============================================================
- * 步骤 3: 使用多模态 LLM 直接分析收据图片
- * ============================================================
+ * LLM 提取所需的上下文（分类、货币、支付方式、用户语言）
  */
-async function analyzeReceiptWithMultimodalLLM(
-  imageBase64: string,
-  existingCategories: string[],
-  availableCurrencies: string[],
-  availablePaymentMethods: string[]
-): Promise<ReceiptData> {
-  try {
-    // 从 settings 读取用户配置
-    const config = await getOpenAIConfig();
-    
-    if (!config) {
-      throw new Error('OpenAI is not configured. Please go to Settings and configure your API.');
-    }
+interface ReceiptAnalysisContext {
+  existingCategories: string[];
+  availableCurrencies: string[];
+  availablePaymentMethods: string[];
+  userLanguage: string;
+}
 
-    const { apiUrl, apiKey, receiptModel } = config;
-    
-    console.log('[Receipt Processor] Using model:', receiptModel);
-    console.log('[Receipt Processor] API URL:', apiUrl);
+/**
+ * 构建收据提取 prompt（看图和纯文本两种输入共用）
+ */
+function buildReceiptSystemPrompt(context: ReceiptAnalysisContext, input: 'image' | 'ocr-text'): string {
+  const { existingCategories, availableCurrencies, availablePaymentMethods, userLanguage } = context;
 
-    // Get user's preferred language from profile
-    let userLanguage = 'en'; // default
-    try {
-      const profile = await getProfile();
-      if (profile?.preferred_language) {
-        userLanguage = profile.preferred_language;
-      }
-    } catch (error) {
-      console.warn('[Receipt Processor] Failed to load user language, using default:', error);
-    }
-    console.log('[Receipt Processor] User language:', userLanguage);
+  const categoryList = existingCategories.length > 0 
+    ? existingCategories.join(', ') 
+    : 'No existing categories';
+  
+  const currencyList = availableCurrencies.length > 0
+    ? availableCurrencies.join(', ')
+    : 'USD, HKD, CNY';
+  
+  const paymentMethodList = availablePaymentMethods.length > 0
+    ? availablePaymentMethods.join(', ')
+    : 'Cash, Credit Card, Debit Card, VISA, Mastercard, American Express, Apple Pay, Google Pay, PayPal, WeChat Pay, Alipay, Bank Transfer, Other';
 
-    // 构建 API 请求
-    const baseUrl = apiUrl.endsWith('/') ? apiUrl.slice(0, -1) : apiUrl;
-    const endpoint = `${baseUrl}/chat/completions`;
+  const sourceDescription = input === 'image'
+    ? 'extract structured data from receipt images'
+    : 'extract structured data from receipt text produced by OCR';
 
-    // 构建 prompt - 要求 LLM 直接从图片中提取信息
-    const categoryList = existingCategories.length > 0 
-      ? existingCategories.join(', ') 
-      : 'No existing categories';
-    
-    const currencyList = availableCurrencies.length > 0
-      ? availableCurrencies.join(', ')
-      : 'USD, HKD, CNY';
-    
-    const paymentMethodList = availablePaymentMethods.length > 0
-      ? availablePaymentMethods.join(', ')
-      : 'Cash, Credit Card, Debit Card, VISA, Mastercard, American Express, Apple Pay, Google Pay, PayPal, WeChat Pay, Alipay, Bank Transfer, Other';
-    
-    const currentLocalTime = getCurrentLocalTimeISO();
-    const tzOffset = getTimezoneOffset();
+  const ocrNote = input === 'ocr-text'
+    ? `
+🔎 OCR INPUT NOTES
+
+The receipt text was recognized by OCR, line by line in reading order.
+- Characters may be misread (e.g. O/0, l/1, S/5); correct them using context.
+- Item names and prices may be split across lines; prices are usually at the end of a line or on the next line.
+- Prefer the line labelled TOTAL / 合计 / 總計 for the amount; ignore subtotal, tax and change lines unless no total exists.
+`
+    : '';
 
-    const systemPrompt = `You are a professional receipt analysis expert. Your task is to extract structured data from receipt images with maximum accuracy.
+  return `You are a professional receipt analysis expert. Your task is to ${sourceDescription} with maximum accuracy.
 
 ⚠️  CRITICAL OUTPUT REQUIREMENTS
 
@@ -275,8 +275,8 @@ async function analyzeReceiptWithMultimodalLLM(
   "currency": "USD",
   "date": "2025-11-17T14:30",
   "items": [
-    {"name": "Item Name", "amount": 2, "price": 12.50},
-    {"name": "Another Item", "amount": 1, "price": 20.67}
+    {"name": "Item Name", "amount": 2, "price": 12.50, "category": "category name", "isNewCategory": false},
+    {"name": "Another Item", "amount": 1, "price": 20.67, "category": "category name", "isNewCategory": false}
   ],
   "description": "Brief purchase summary",
   "category": "category name",
@@ -297,9 +297,12 @@ async function analyzeReceiptWithMultimodalLLM(
   Available: ${categoryList}
 - isNewCategory (required, boolean): true if you suggested new category, false otherwise
 - items (required, array): Individual line items as objects with EXACT structure: 
-  {name: "item name", amount: quantity (number), price: unit price (number)}
+  {name: "item name", amount: quantity (number), price: unit price (number), category: "category name", isNewCategory: boolean}
   If receipt shows "2 x $3.50", then amount=2, price=3.50
   If item quantity unclear, use amount=1
+  Each item's category follows the same rules as the receipt category. Receipts often mix
+  categories (e.g. groceries and household goods in one supermarket bill), so choose per item.
+  Prefer the available categories; only suggest a new one (isNewCategory=true) if none fits.
   Return empty array [] if no items visible
 - payment_method (optional, string): Payment method used for this transaction.
   Look for payment information in the receipt footer/payment section.
@@ -307,7 +310,7 @@ async function analyzeReceiptWithMultimodalLLM(
   Available: ${paymentMethodList}
 - merchant (required, string): The store/restaurant name. Extract from receipt header or footer.
 - description (required, string): Brief (1-2 sentence) summary of purchase
-
+${ocrNote}
 🌐 LANGUAGE GUIDANCE
 
 User's selected language: ${userLanguage}
@@ -319,89 +322,155 @@ User's selected language: ${userLanguage}
 **RESPONSE FORMAT:**
 Output NOTHING but the JSON object. No markdown formatting, no backticks, no explanation.
 If you cannot extract information, use sensible defaults or empty values.`;
+}
 
-  // Add a short instruction to use user's local current time as a reference where needed
-  const timeReferenceNote = `\n🕒 USER CURRENT LOCAL TIME (REFERENCE)\nThe user's current local time is: ${currentLocalTime} (timezone offset: ${tzOffset}).\nIf the receipt lacks a year or a time, use the user's current local date/time as a reference to fill missing fields.\nIf the receipt gives only month and day (e.g., 11/17 or Nov 17) but no year, assume the year is ${new Date().getFullYear()} unless context suggests otherwise.\nIf the receipt gives no time, assume 12:00 (noon) unless a more accurate time can be inferred from the receipt.\n`;
+/**
+ * 发送收据提取请求并解析、清洗返回的 JSON
+ */
+async function requestReceiptExtraction(
+  model: string,
+  context: ReceiptAnalysisContext,
+  input: 'image' | 'ocr-text',
+  userContent: string | { type: string; [key: string]: any }[]
+): Promise<ReceiptData> {
+  // 从 settings 读取用户配置
+  const config = await getOpenAIConfig();
+  
+  if (!config) {
+    throw new Error('OpenAI is not configured. Please go to Settings and configure your API.');
+  }
 
-    const requestBody = {
-      model: receiptModel,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt + timeReferenceNote,
-        },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Analyze this receipt and return ONLY the JSON object with no other text:',
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${imageBase64}`,
-              },
-            },
-          ],
-        },
-      ],
-      temperature: 0.2, // 极低温度确保一致输出
-      max_tokens: 800,
-      top_p: 0.9,
-    };
+  const { apiUrl, apiKey } = config;
+  
+  console.log('[Receipt Processor] Using model:', model, `(${input})`);
+  console.log('[Receipt Processor] API URL:', apiUrl);
+
+  // 构建 API 请求
+  const baseUrl = apiUrl.endsWith('/') ? apiUrl.slice(0, -1) : apiUrl;
+  const endpoint = `${baseUrl}/chat/completions`;
 
-    console.log('[Receipt Processor] Sending request to LLM...');
-    console.log('[Receipt Processor] Current local time reference:', currentLocalTime, 'tz offset:', tzOffset);
+  const currentLocalTime = getCurrentLocalTimeISO();
+  const tzOffset = getTimezoneOffset();
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
+  // Add a short instruction to use user's local current time as a reference where needed
+  const timeReferenceNote = `\n🕒 USER CURRENT LOCAL TIME (REFERENCE)\nThe user's current local time is: ${currentLocalTime} (timezone offset: ${tzOffset}).\nIf the receipt lacks a year or a time, use the user's current local date/time as a reference to fill missing fields.\nIf the receipt gives only month and day (e.g., 11/17 or Nov 17) but no year, assume the year is ${new Date().getFullYear()} unless context suggests otherwise.\nIf the receipt gives no time, assume 12:00 (noon) unless a more accurate time can be inferred from the receipt.\n`;
+
+  const requestBody = {
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: buildReceiptSystemPrompt(context, input) + timeReferenceNote,
       },
-      body: JSON.stringify(requestBody),
-    });
+      {
+        role: 'user',
+        content: userContent,
+      },
+    ],
+    temperature: 0.2, // 极低温度确保一致输出
+    max_tokens: 1200, // 条目分类会增加输出长度
+    top_p: 0.9,
+  };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[Receipt Processor] API Error:', errorText);
-      throw new Error(`API request failed (${response.status}): ${errorText}`);
-    }
+  console.log('[Receipt Processor] Sending request to LLM...');
+  console.log('[Receipt Processor] Current local time reference:', currentLocalTime, 'tz offset:', tzOffset);
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('[Receipt Processor] API Error:', errorText);
+    throw new Error(`API request failed (${response.status}): ${errorText}`);
+  }
 
-    const data = await response.json();
-    console.log('[Receipt Processor] API Response received');
-    console.log('[Receipt Processor] Status:', data.model);
-    
-    // 提取响应内容
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in API response');
-    }
+  const data = await response.json();
+  console.log('[Receipt Processor] API Response received');
+  console.log('[Receipt Processor] Status:', data.model);
+  
+  // 提取响应内容
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content in API response');
+  }
 
-    console.log('[Receipt Processor] ===== LLM Raw Response =====');
-    console.log(content);
-    console.log('[Receipt Processor] ===== End Raw Response =====');
+  console.log('[Receipt Processor] ===== LLM Raw Response =====');
+  console.log(content);
+  console.log('[Receipt Processor] ===== End Raw Response =====');
 
-    // 解析 JSON（处理可能的 markdown 包装）
-    const parsedData = parseJSONFromResponse(content);
-    
-    console.log('[Receipt Processor] ===== Parsed Data =====');
-    console.log(JSON.stringify(parsedData, null, 2));
-    console.log('[Receipt Processor] ===== End Parsed Data =====');
-    
-    // 验证和清洗数据
-    const cleanedData = sanitizeReceiptData(parsedData, existingCategories);
-    
-    console.log('[Receipt Processor] Final receipt data:', cleanedData);
-    return cleanedData;
+  // 解析 JSON（处理可能的 markdown 包装）
+  const parsedData = parseJSONFromResponse(content);
+  
+  console.log('[Receipt Processor] ===== Parsed Data =====');
+  console.log(JSON.stringify(parsedData, null, 2));
+  console.log('[Receipt Processor] ===== End Parsed Data =====');
+  
+  // 验证和清洗数据
+  const cleanedData = sanitizeReceiptData(parsedData, context.existingCategories);
+  
+  console.log('[Receipt Processor] Final receipt data:', cleanedData);
+  return cleanedData;
+}
 
+/**
+ * ============================================================
+ * 步骤 3a: 使用多模态 LLM 直接分析收据图片
+ * ============================================================
+ */
+async function analyzeReceiptWithMultimodalLLM(
+  imageBase64: string,
+  model: string,
+  context: ReceiptAnalysisContext
+): Promise<ReceiptData> {
+  try {
+    return await requestReceiptExtraction(model, context, 'image', [
+      {
+        type: 'text',
+        text: 'Analyze this receipt and return ONLY the JSON object with no other text:',
+      },
+      {
+        type: 'image_url',
+        image_url: {
+          url: `data:image/jpeg;base64,${imageBase64}`,
+        },
+      },
+    ]);
   } catch (error: any) {
     console.error('[Receipt Processor] Analysis failed:', error);
     throw new Error(error.message || 'Failed to analyze receipt with AI');
   }
 }
 
+/**
+ * ============================================================
+ * 步骤 3b: 使用纯文本模型分析 OCR 文本（更便宜，不需要视觉能力）
+ * ============================================================
+ */
+async function analyzeReceiptTextWithLLM(
+  ocrResult: OCRResult,
+  model: string,
+  context: ReceiptAnalysisContext
+): Promise<ReceiptData> {
+  try {
+    const languageLine = ocrResult.language ? `Detected text language: ${ocrResult.language}\n` : '';
+    return await requestReceiptExtraction(
+      model,
+      context,
+      'ocr-text',
+      `${languageLine}Receipt text (OCR):\n"""\n${ocrResult.rawText}\n"""\n\nReturn ONLY the JSON object with no other text:`
+    );
+  } catch (error: any) {
+    console.error('[Receipt Processor] Text analysis failed:', error);
+    throw new Error(error.message || 'Failed to analyze receipt text with AI');
+  }
+}
+
 /**
  * ============================================================
  * 辅助函数：从 LLM 响应中提取 JSON
@@ -489,6 +558,18 @@ function sanitizeReceiptData(data: any, existingCategories: string[]): ReceiptDa
   // 确保所有必需字段存在且格式正确
   const category = String(data.category || 'Other').trim();
   const isNewCategory = data.isNewCategory === true || !existingCategories.includes(category);
+
+  // 条目分类：大小写不敏感地匹配现有分类，匹配不到则标记为新分类
+  const resolveItemCategory = (value: any): Pick<ReceiptItem, 'category' | 'isNewCategory'> => {
+    const name = String(value || '').trim();
+    if (!name) {
+      return { category, isNewCategory };
+    }
+    const existing = existingCategories.find(c => c.toLowerCase() === name.toLowerCase());
+    return existing
+      ? { category: existing, isNewCategory: false }
+      : { category: name, isNewCategory: true };
+  };
   
   // 处理 currency - 验证并提供默认值
   let currency = String(data.currency || 'USD').trim().toUpperCase();
@@ -509,12 +590,14 @@ function sanitizeReceiptData(data: any, existingCategories: string[]): ReceiptDa
             name: String(item.name || '').trim(),
             amount: Math.max(0, Number(item.amount) || 1),
             price: Math.max(0, Number(item.price) || 0),
+            ...resolveItemCategory(item.category),
           };
         } else if (typeof item === 'string') {
           return {
             name: String(item).trim(),
             amount: 1,
             price: 0,
+            ...resolveItemCategory(null),
           };
         }
         return null;
@@ -527,7 +610,7 @@ function sanitizeReceiptData(data: any, existingCategories: string[]): ReceiptDa
   
   const normalizedDate = normalizeDateFromLLM(data.date);
   return {
-    merchant: String(data.merchant || 'Unknown Merchant').trim(),
+    merchant: canonicalMerchantName(String(data.merchant || 'Unknown Merchant').trim()),
     amount: Math.max(0, Number(data.amount) || 0),
     date: normalizedDate,
     items: items,
@@ -584,15 +667,7 @@ export async function processReceiptImage(
     });
     const base64Image = await convertImageToBase64(imageUri);
 
-    // 步骤 2: OCR（当前跳过）
-    onProgress?.({
-      step: 'ocr',
-      message: 'OCR processing (skipped)...',
-      progress: 30,
-    });
-    // const ocrResult = await performOCR(base64Image); // 暂时跳过
-
-    // 步骤 3: 获取现有分类列表、货币列表和支付方式列表
+    // 步骤 2: 获取现有分类列表、货币列表、支付方式列表和用户语言
     let existingCategories: string[] = [];
     let availableCurrencies: string[] = [];
     let availablePaymentMethods: string[] = [];
@@ -622,13 +697,69 @@ export async function processReceiptImage(
       availablePaymentMethods = ['Cash', 'Credit Card', 'Debit Card', 'VISA', 'Mastercard', 'American Express', 'Apple Pay', 'Google Pay', 'PayPal', 'WeChat Pay', 'Alipay', 'Bank Transfer', 'Other'];
     }
 
-    // 步骤 4: 使用多模态 LLM 直接分析
+    // 加载商家别名，清洗时把商家名称归并到规范名称
+    try {
+      await getMerchants();
+    } catch (error) {
+      console.warn('[Receipt Processor] Failed to load merchants, keeping merchant names as read:', error);
+    }
+
+    // Get user's preferred language from profile
+    let userLanguage = 'en'; // default
+    try {
+      const profile = await getProfile();
+      if (profile?.preferred_language) {
+        userLanguage = profile.preferred_language;
+      }
+    } catch (error) {
+      console.warn('[Receipt Processor] Failed to load user language, using default:', error);
+    }
+    console.log('[Receipt Processor] User language:', userLanguage);
+
+    const context: ReceiptAnalysisContext = {
+      existingCategories,
+      availableCurrencies,
+      availablePaymentMethods,
+      userLanguage,
+    };
+
+    const config = await getOpenAIConfig();
+    if (!config) {
+      throw new Error('OpenAI is not configured. Please go to Settings and configure your API.');
+    }
+
+    // 步骤 3: OCR（仅在配置了纯文本模型时运行）
+    let ocrResult: OCRResult | null = null;
+    if (config.ocrTextModel) {
+      ocrResult = await performOCR(imageUri, base64Image, userLanguage, onProgress);
+    }
+    if (!ocrResult) {
+      onProgress?.({
+        step: 'ocr',
+        message: config.ocrTextModel ? 'OCR unavailable, reading image directly...' : 'OCR skipped...',
+        progress: OCR_PROGRESS_END,
+      });
+    }
+
+    // 步骤 4: OCR 文本可用时用纯文本模型提取，否则（或失败时）用多模态 LLM 看图
     onProgress?.({
       step: 'analyzing',
       message: 'Analyzing receipt with AI...',
       progress: 50,
     });
-    const receiptData = await analyzeReceiptWithMultimodalLLM(base64Image, existingCategories, availableCurrencies, availablePaymentMethods);
+    let receiptData: ReceiptData | null = null;
+    if (ocrResult && isUsableOCRText(ocrResult)) {
+      try {
+        receiptData = await analyzeReceiptTextWithLLM(ocrResult, config.ocrTextModel, context);
+      } catch (error) {
+        console.warn('[Receipt Processor] Text-only extraction failed, falling back to image analysis:', error);
+      }
+    } else if (ocrResult) {
+      console.log('[Receipt Processor] OCR text not usable, falling back to image analysis');
+    }
+    if (!receiptData) {
+      receiptData = await analyzeReceiptWithMultimodalLLM(base64Image, config.receiptModel, context);
+    }
 
     // 步骤 5: 完成
     onProgress?.({
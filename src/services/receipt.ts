@@ -1,6 +1,7 @@
 import * as FileSystem from 'expo-file-system';
 import { sendChatCompletion, type ChatMessage } from './openai-client';
 import { formatDateISO } from '../utils/datetime';
+import { canonicalMerchantName, getMerchants } from './merchants';
 
 /**
  * 收据处理服务
@@ -151,6 +152,11 @@ export async function parseReceiptData(ocrText: string): Promise<ReceiptData> {
 
     const parsedData: ReceiptData = JSON.parse(jsonMatch[0]);
 
+    // 加载商家别名，让商家名称归并到规范名称
+    await getMerchants().catch(error => {
+      console.warn('Failed to load merchants, keeping merchant name as read:', error);
+    });
+
     // 数据验证和清理
     return sanitizeReceiptData(parsedData);
   } catch (error) {
@@ -166,7 +172,7 @@ export async function parseReceiptData(ocrText: string): Promise<ReceiptData> {
  */
 function sanitizeReceiptData(data: ReceiptData): ReceiptData {
   return {
-    merchant: String(data.merchant || '').trim() || 'Unknown Merchant',
+    merchant: canonicalMerchantName(String(data.merchant || '').trim()) || 'Unknown Merchant',
     amount: Math.max(0, Number(data.amount) || 0),
     date: data.date ? formatDateISO(data.date) : undefined,
     items: Array.isArray(data.items) ? data.items.filter(Boolean) : [],
@@ -0,0 +1,237 @@
+import { supabase } from './supabase';
+import type { Account } from './accounts';
+import type { Transaction } from './transactions';
+
+/**
+ * A finished reconciliation: the account's transactions up to a statement
+ * date were ticked off against the statement's ending balance. Transactions
+ * it covers carry its id in reconciliation_id and are locked from edits.
+ */
+export interface Reconciliation {
+  id: string;
+  user_id: string;
+  account_id: string;
+  statement_date: string;
+  statement_balance: number;
+  created_at: string;
+}
+
+export interface ReconciliationSummary {
+  // Opening balance plus everything reconciled before
+  startingBalance: number;
+  // Sum of the transactions ticked off in this reconciliation
+  clearedTotal: number;
+  clearedBalance: number;
+  statementBalance: number;
+  // Statement balance minus cleared balance; 0 when the account reconciles
+  difference: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare the cleared transactions against a statement ending balance.
+ * Amounts are taken as they are, in the account's currency.
+ */
+export function buildReconciliationSummary(
+  startingBalance: number,
+  cleared: Pick<Transaction, 'amount'>[],
+  statementBalance: number
+): ReconciliationSummary {
+  const clearedTotal = round(cleared.reduce((sum, transaction) => sum + transaction.amount, 0));
+  const clearedBalance = round(startingBalance + clearedTotal);
+  return {
+    startingBalance: round(startingBalance),
+    clearedTotal,
+    clearedBalance,
+    statementBalance: round(statementBalance),
+    difference: round(statementBalance - clearedBalance),
+  };
+}
+
+/**
+ * Past reconciliations of an account, newest statement first
+ */
+export async function getReconciliations(accountId: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('reconciliations')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('account_id', accountId)
+    .order('statement_date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching reconciliations:', error);
+    throw error;
+  }
+
+  return data as Reconciliation[];
+}
+
+/**
+ * Everything needed to start reconciling an account: the balance already
+ * reconciled and the unreconciled transactions up to the statement date
+ * (end of day), oldest first.
+ */
+export async function getReconcileState(account: Account, statementDate: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const end = new Date(`${statementDate}T23:59:59.999`);
+    if (isNaN(end.getTime())) {
+      throw new Error('Invalid statement date');
+    }
+
+    const [reconciled, open] = await Promise.all([
+      supabase
+        .from('transactions')
+        .select('amount')
+        .eq('user_id', user.id)
+        .eq('account_id', account.id)
+        .not('reconciliation_id', 'is', null),
+      supabase
+        .from('transactions')
+        .select('*, category:categories(*)')
+        .eq('user_id', user.id)
+        .eq('account_id', account.id)
+        .is('reconciliation_id', null)
+        .lte('occurred_at', end.toISOString())
+        .order('occurred_at', { ascending: true }),
+    ]);
+
+    if (reconciled.error || open.error) {
+      const error = reconciled.error || open.error;
+      console.error('Error fetching transactions to reconcile:', error);
+      throw error;
+    }
+
+    const reconciledTotal = ((reconciled.data ?? []) as { amount: number }[])
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    return {
+      startingBalance: round((account.opening_balance || 0) + reconciledTotal),
+      transactions: (open.data ?? []) as Transaction[],
+    };
+  } catch (error) {
+    console.error('Failed to load reconcile state:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a reconciliation and lock the cleared transactions. Only allowed
+ * when the cleared balance matches the statement balance.
+ *
+ * @example
+ * ```typescript
+ * const { startingBalance, transactions } = await getReconcileState(account, '2026-09-30');
+ * await finishReconciliation(account, '2026-09-30', 1520.4, startingBalance, transactions.filter(isTicked));
+ * ```
+ */
+export async function finishReconciliation(
+  account: Account,
+  statementDate: string,
+  statementBalance: number,
+  startingBalance: number,
+  cleared: Transaction[]
+) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const summary = buildReconciliationSummary(startingBalance, cleared, statementBalance);
+    if (summary.difference !== 0) {
+      throw new Error(`Cleared balance is off by ${summary.difference.toFixed(2)}`);
+    }
+
+    const { data, error } = await supabase
+      .from('reconciliations')
+      .insert([{
+        user_id: user.id,
+        account_id: account.id,
+        statement_date: statementDate,
+        statement_balance: summary.statementBalance,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding reconciliation:', error);
+      throw error;
+    }
+
+    const reconciliation = data as Reconciliation;
+    if (cleared.length > 0) {
+      const { error: lockError } = await supabase
+        .from('transactions')
+        .update({ reconciliation_id: reconciliation.id })
+        .eq('user_id', user.id)
+        .is('reconciliation_id', null)
+        .in('id', cleared.map(transaction => transaction.id));
+
+      if (lockError) {
+        console.error('Error locking reconciled transactions:', lockError);
+        // Don't leave a reconciliation without its transactions behind
+        await supabase.from('reconciliations').delete().eq('id', reconciliation.id).eq('user_id', user.id);
+        throw lockError;
+      }
+    }
+
+    return reconciliation;
+  } catch (error) {
+    console.error('Failed to finish reconciliation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Undo a reconciliation: its transactions become editable and can be
+ * reconciled again
+ */
+export async function undoReconciliation(id: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error: unlockError } = await supabase
+      .from('transactions')
+      .update({ reconciliation_id: null })
+      .eq('user_id', user.id)
+      .eq('reconciliation_id', id);
+
+    if (unlockError) {
+      console.error('Error unlocking reconciled transactions:', unlockError);
+      throw unlockError;
+    }
+
+    const { error } = await supabase
+      .from('reconciliations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting reconciliation:', error);
+      throw error;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to undo reconciliation:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,500 @@
+import { supabase } from './supabase';
+import type { Category } from './categories';
+import { getAccounts } from './accounts';
+import { prepareTransactionRow, type Transaction } from './transactions';
+import { recordTransactionCreates } from './transaction-history';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  user_id: string;
+  amount: number;
+  currency: string;
+  merchant: string | null;
+  category_id: string | null;
+  note: string | null;
+  payment_method: string | null;
+  frequency: RecurrenceFrequency;
+  interval: number;                  // every N days/weeks/months/years
+  start_date: string;                // first occurrence (ISO timestamp)
+  end_date: string | null;           // last day an occurrence may fall on (inclusive)
+  max_occurrences: number | null;    // stop after this many occurrences
+  occurrences_done: number;          // occurrences posted or skipped so far
+  next_occurrence_at: string;        // next occurrence that hasn't been posted or skipped
+  is_paused: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined data (optional)
+  category?: Category;
+}
+
+export type RecurringRuleInput = Pick<
+  RecurringRule,
+  'amount' | 'currency' | 'merchant' | 'category_id' | 'note' | 'payment_method' | 'frequency' | 'start_date'
+> & {
+  interval?: number;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+};
+
+export type RecurringRuleUpdateInput = Partial<
+  Pick<
+    RecurringRule,
+    'amount' | 'currency' | 'merchant' | 'category_id' | 'note' | 'payment_method' | 'end_date' | 'max_occurrences'
+  >
+>;
+
+/**
+ * Calculate the date of the Nth occurrence (0-based) of a schedule
+ * Occurrences are always computed from the start date, so a rule starting on Jan 31
+ * falls on Feb 28/29 and then goes back to Mar 31 instead of drifting
+ */
+export function getOccurrenceDate(
+  startDate: string,
+  frequency: RecurrenceFrequency,
+  interval: number,
+  index: number
+): Date {
+  const start = new Date(startDate);
+  const step = Math.max(1, interval) * index;
+  const date = new Date(start);
+
+  switch (frequency) {
+    case 'daily':
+      date.setDate(start.getDate() + step);
+      break;
+    case 'weekly':
+      date.setDate(start.getDate() + step * 7);
+      break;
+    case 'monthly':
+    case 'yearly': {
+      const monthsToAdd = frequency === 'monthly' ? step : step * 12;
+      const targetMonth = start.getMonth() + monthsToAdd;
+      // Clamp to the last day of the target month
+      const lastDay = new Date(start.getFullYear(), targetMonth + 1, 0).getDate();
+      date.setDate(1);
+      date.setMonth(targetMonth);
+      date.setDate(Math.min(start.getDate(), lastDay));
+      break;
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Whether a rule has no occurrences left (occurrence limit reached or past its end date)
+ */
+export function isRuleFinished(rule: RecurringRule): boolean {
+  if (rule.max_occurrences !== null && rule.occurrences_done >= rule.max_occurrences) {
+    return true;
+  }
+  if (rule.end_date) {
+    const end = new Date(`${rule.end_date.split('T')[0]}T23:59:59.999`);
+    if (new Date(rule.next_occurrence_at) > end) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Advance a rule past its next occurrence
+ * Returns the fields to persist
+ */
+function advanceRule(rule: RecurringRule): Pick<RecurringRule, 'occurrences_done' | 'next_occurrence_at'> {
+  const occurrencesDone = rule.occurrences_done + 1;
+  return {
+    occurrences_done: occurrencesDone,
+    next_occurrence_at: getOccurrenceDate(rule.start_date, rule.frequency, rule.interval, occurrencesDone).toISOString(),
+  };
+}
+
+/**
+ * Get all recurring rules for the current user
+ */
+export async function getRecurringRules(): Promise<RecurringRule[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .select(`
+        *,
+        category:categories(*)
+      `)
+      .eq('user_id', user.id)
+      .order('next_occurrence_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching recurring rules:', error);
+      throw error;
+    }
+
+    return data as RecurringRule[];
+  } catch (error) {
+    console.error('Failed to fetch recurring rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single recurring rule by ID
+ */
+export async function getRecurringRule(id: string): Promise<RecurringRule | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
+      console.error('Error fetching recurring rule:', error);
+      throw error;
+    }
+
+    return data as RecurringRule | null;
+  } catch (error) {
+    console.error('Failed to fetch recurring rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a recurring rule
+ * The first occurrence is the start date; due occurrences are posted by materializeDueOccurrences
+ */
+export async function addRecurringRule(input: RecurringRuleInput): Promise<RecurringRule> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!input.start_date || isNaN(new Date(input.start_date).getTime())) {
+      throw new Error('A valid start date is required');
+    }
+
+    if (input.max_occurrences !== undefined && input.max_occurrences !== null && input.max_occurrences < 1) {
+      throw new Error('Occurrence count must be at least 1');
+    }
+
+    const startDate = new Date(input.start_date).toISOString();
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .insert([
+        {
+          ...input,
+          interval: Math.max(1, Math.floor(input.interval ?? 1)),
+          start_date: startDate,
+          next_occurrence_at: startDate,
+          occurrences_done: 0,
+          is_paused: false,
+          user_id: user.id,
+        }
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding recurring rule:', error);
+      throw error;
+    }
+
+    return data as RecurringRule;
+  } catch (error) {
+    console.error('Failed to add recurring rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a recurring rule
+ * Changes apply to occurrences that haven't been posted yet; posted transactions are left as they are
+ */
+export async function updateRecurringRule(
+  id: string,
+  updates: RecurringRuleUpdateInput
+): Promise<RecurringRule> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating recurring rule:', error);
+      throw error;
+    }
+
+    return data as RecurringRule;
+  } catch (error) {
+    console.error('Failed to update recurring rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pause or resume a recurring rule
+ * Occurrences that fall due while paused are skipped when the rule is resumed
+ */
+export async function setRecurringRulePaused(id: string, paused: boolean): Promise<RecurringRule> {
+  try {
+    const rule = await getRecurringRule(id);
+
+    if (!rule) {
+      throw new Error('Recurring rule not found');
+    }
+
+    const updates: Partial<RecurringRule> = {
+      is_paused: paused,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!paused) {
+      // Fast-forward past everything that fell due during the pause
+      let current = rule;
+      const now = new Date();
+      while (!isRuleFinished(current) && new Date(current.next_occurrence_at) < now) {
+        current = { ...current, ...advanceRule(current) };
+      }
+      updates.occurrences_done = current.occurrences_done;
+      updates.next_occurrence_at = current.next_occurrence_at;
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', rule.user_id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error pausing recurring rule:', error);
+      throw error;
+    }
+
+    return data as RecurringRule;
+  } catch (error) {
+    console.error('Failed to pause recurring rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Skip the next upcoming occurrence of a rule without posting it
+ */
+export async function skipNextOccurrence(id: string): Promise<RecurringRule> {
+  try {
+    const rule = await getRecurringRule(id);
+
+    if (!rule) {
+      throw new Error('Recurring rule not found');
+    }
+
+    if (isRuleFinished(rule)) {
+      throw new Error('This recurring rule has no upcoming occurrences');
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .update({
+        ...advanceRule(rule),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', rule.user_id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error skipping occurrence:', error);
+      throw error;
+    }
+
+    return data as RecurringRule;
+  } catch (error) {
+    console.error('Failed to skip occurrence:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a recurring rule
+ * Transactions already posted by the rule are kept and simply lose their link to it
+ */
+export async function deleteRecurringRule(id: string): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error: txError } = await supabase
+      .from('transactions')
+      .update({ recurring_rule_id: null })
+      .eq('recurring_rule_id', id)
+      .eq('user_id', user.id);
+
+    if (txError) {
+      console.error('Error unlinking recurring transactions:', txError);
+      throw txError;
+    }
+
+    const { error } = await supabase
+      .from('recurring_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting recurring rule:', error);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Failed to delete recurring rule:', error);
+    throw error;
+  }
+}
+
+// Shared in-flight run so the app opening and a manual refresh don't post the same occurrence twice
+let materializeInFlight: Promise<Transaction[]> | null = null;
+
+/**
+ * Post every occurrence that has fallen due for the current user's active rules
+ * Called when the app opens; returns the transactions that were created
+ */
+export async function materializeDueOccurrences(now: Date = new Date()): Promise<Transaction[]> {
+  if (materializeInFlight) {
+    return materializeInFlight;
+  }
+
+  materializeInFlight = (async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data: rules, error } = await supabase
+        .from('recurring_rules')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('is_paused', false)
+        .lte('next_occurrence_at', now.toISOString());
+
+      if (error) {
+        console.error('Error fetching due recurring rules:', error);
+        throw error;
+      }
+
+      const created: Transaction[] = [];
+
+      if (rules && rules.length > 0) {
+        // Payment methods are linked to accounts by name, like a transaction added by hand
+        await getAccounts().catch(accountError => {
+          console.warn('Failed to load accounts, posting occurrences without them:', accountError);
+        });
+      }
+
+      for (const rule of (rules || []) as RecurringRule[]) {
+        let current = rule;
+        const rows: Omit<Transaction, 'id' | 'created_at' | 'updated_at'>[] = [];
+
+        while (!isRuleFinished(current) && new Date(current.next_occurrence_at) <= now) {
+          rows.push(await prepareTransactionRow({
+            user_id: user.id,
+            amount: current.amount,
+            currency: current.currency,
+            occurred_at: current.next_occurrence_at,
+            merchant: current.merchant,
+            category_id: current.category_id,
+            note: current.note,
+            payment_method: current.payment_method,
+            source: 'recurring',
+            recurring_rule_id: current.id,
+          }));
+          current = { ...current, ...advanceRule(current) };
+        }
+
+        if (rows.length === 0) continue;
+
+        // Unique per (recurring_rule_id, occurred_at): an occurrence posted by an earlier run whose
+        // rule update failed, or by another device, is skipped instead of posted twice. That needs
+        // the server, so occurrences are written here rather than queued in the outbox.
+        // History is recorded below, as the outbox would.
+        const { data: inserted, error: insertError } = await supabase
+          .from('transactions')
+          .upsert(rows, { onConflict: 'recurring_rule_id,occurred_at', ignoreDuplicates: true })
+          .select();
+
+        if (insertError) {
+          // Leave the rule untouched so the next run retries it
+          console.error(`Error posting occurrences for recurring rule ${rule.id}:`, insertError);
+          continue;
+        }
+
+        await recordTransactionCreates(user.id, inserted as Transaction[], 'recurring');
+
+        const { error: ruleError } = await supabase
+          .from('recurring_rules')
+          .update({
+            occurrences_done: current.occurrences_done,
+            next_occurrence_at: current.next_occurrence_at,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', rule.id)
+          .eq('user_id', user.id);
+
+        if (ruleError) {
+          console.error(`Error advancing recurring rule ${rule.id}:`, ruleError);
+        }
+
+        created.push(...(inserted as Transaction[]));
+      }
+
+      if (created.length > 0) {
+        console.log(`[Recurring] Posted ${created.length} due occurrence(s)`);
+      }
+
+      return created;
+    } catch (error) {
+      console.error('Failed to materialize recurring transactions:', error);
+      throw error;
+    } finally {
+      materializeInFlight = null;
+    }
+  })();
+
+  return materializeInFlight;
+}
@@ -1,16 +1,31 @@
 import { supabase } from './supabase';
-import type { Transaction } from './transactions';
-import { getAllBudgets, getMonthlyBudgetAmount, type Budget } from './budgets';
+import { buildSpendingBreakdown, splitTransactionByCategory, type Transaction } from './transactions';
+import {
+  findActiveBudget,
+  findActiveCategoryBudgets,
+  getAllBudgets,
+  getBudgetAmountForPeriod,
+  getBudgetMonthlyAmount,
+  getCategoryBudgets,
+  getMonthlyBudgetAmount,
+  DEFAULT_MONTHLY_BUDGET,
+  type Budget,
+} from './budgets';
 import { getProfile } from './profiles';
 import { convertCurrency } from './currency-converter';
+import { canonicalMerchantName, getMerchants } from './merchants';
+import { getLocalSnapshot } from './local-store';
 
 /**
  * Convert transaction amounts to user's primary currency
+ * Pass userCurrency to skip the profile lookup (e.g. while offline)
  */
-async function convertTransactionsToUserCurrency(transactions: Transaction[]): Promise<Transaction[]> {
+async function convertTransactionsToUserCurrency<T extends Pick<Transaction, 'amount' | 'currency'>>(
+  transactions: T[],
+  knownUserCurrency?: string
+): Promise<T[]> {
   try {
-    const profile = await getProfile();
-    const userCurrency = profile?.primary_currency || 'HKD';
+    const userCurrency = knownUserCurrency || (await getProfile())?.primary_currency || 'HKD';
     
     // Convert all transactions
     const convertedTransactions = await Promise.all(
@@ -66,6 +81,16 @@ export interface SpendingSummary {
   transactionCount: number;
 }
 
+export interface CategoryBudgetProgress {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+}
+
 export interface MerchantSummary {
   merchant: string;
   amount: number;
@@ -73,6 +98,74 @@ export interface MerchantSummary {
   percentage: number;
 }
 
+export interface TagSpending {
+  tagId: string;
+  tagName: string;
+  amount: number;
+  transactionCount: number;
+  // Share of all expenses in the period; tags overlap, so these can sum past 100
+  percentage: number;
+}
+
+/**
+ * Sum expenses per month for the last N months, paired with the global budget
+ * in effect each month
+ * @param expenses - Expenses already converted to the user's currency
+ * @param budgets - Global budgets, in any order
+ * @param defaultBudget - Monthly target for months before the first budget
+ *                        (defaults to the latest budget, or DEFAULT_MONTHLY_BUDGET)
+ */
+export function buildMonthlyTrends(
+  expenses: Pick<Transaction, 'amount' | 'occurred_at'>[],
+  budgets: Budget[],
+  monthsCount: number = 6,
+  defaultBudget?: number
+): MonthlyTrend[] {
+  const sortedBudgets = [...budgets].sort((a, b) => a.start_date.localeCompare(b.start_date));
+  const fallbackBudget = defaultBudget ?? (sortedBudgets.length > 0
+    ? getBudgetMonthlyAmount(sortedBudgets[sortedBudgets.length - 1])
+    : DEFAULT_MONTHLY_BUDGET);
+
+  const findBudgetForMonth = (date: Date) => {
+    for (let i = sortedBudgets.length - 1; i >= 0; i -= 1) {
+      const budgetDate = new Date(`${sortedBudgets[i].start_date}T00:00:00`);
+      if (budgetDate <= date) {
+        return getBudgetMonthlyAmount(sortedBudgets[i]);
+      }
+    }
+    return fallbackBudget;
+  };
+
+  // Group by month
+  const monthlyData: Record<string, number> = {};
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+  expenses.forEach((transaction) => {
+    if (transaction.amount >= 0) return;
+    const date = new Date(transaction.occurred_at);
+    const key = `${date.getFullYear()}-${date.getMonth()}`;
+    monthlyData[key] = (monthlyData[key] || 0) + Math.abs(transaction.amount);
+  });
+
+  // Build trends array for the last N months
+  const trends: MonthlyTrend[] = [];
+  const today = new Date();
+
+  for (let i = monthsCount - 1; i >= 0; i--) {
+    const targetDate = new Date(today.getFullYear(), today.getMonth() - i, 1);
+    const key = `${targetDate.getFullYear()}-${targetDate.getMonth()}`;
+
+    trends.push({
+      month: months[targetDate.getMonth()],
+      year: targetDate.getFullYear(),
+      actualSpending: monthlyData[key] || 0,
+      budgetTarget: findBudgetForMonth(targetDate),
+    });
+  }
+
+  return trends;
+}
+
 /**
  * Get monthly spending trends for the past N months
  */
@@ -86,24 +179,7 @@ export async function getMonthlyTrends(monthsCount: number = 6): Promise<Monthly
 
     // Get budgets configured by user for month-level targeting
     const userBudgets = await getAllBudgets();
-    const sortedBudgets = [...userBudgets].sort((a, b) => a.start_date.localeCompare(b.start_date));
-
-    const convertBudgetToMonthly = (budget: Budget) =>
-      budget.period === 'monthly' ? budget.amount : budget.amount / 12;
-
-    const defaultBudget = sortedBudgets.length > 0
-      ? convertBudgetToMonthly(sortedBudgets[sortedBudgets.length - 1])
-      : await getMonthlyBudgetAmount();
-
-    const findBudgetForMonth = (date: Date) => {
-      for (let i = sortedBudgets.length - 1; i >= 0; i -= 1) {
-        const budgetDate = new Date(`${sortedBudgets[i].start_date}T00:00:00`);
-        if (budgetDate <= date) {
-          return convertBudgetToMonthly(sortedBudgets[i]);
-        }
-      }
-      return defaultBudget;
-    };
+    const defaultBudget = userBudgets.length > 0 ? undefined : await getMonthlyBudgetAmount();
 
     // Calculate date range
     const endDate = new Date();
@@ -116,7 +192,8 @@ export async function getMonthlyTrends(monthsCount: number = 6): Promise<Monthly
       .eq('user_id', user.id)
       .gte('occurred_at', startDate.toISOString())
       .lte('occurred_at', endDate.toISOString())
-      .lt('amount', 0); // Only expenses
+      .lt('amount', 0) // Only expenses
+      .is('transfer_id', null);
 
     if (error) {
       console.error('Error fetching monthly trends:', error);
@@ -126,37 +203,7 @@ export async function getMonthlyTrends(monthsCount: number = 6): Promise<Monthly
     // Convert transactions to user's currency
     const convertedTransactions = await convertTransactionsToUserCurrency(data as Transaction[]);
 
-    // Group by month
-    const monthlyData: Record<string, number> = {};
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    convertedTransactions.forEach((transaction) => {
-      const date = new Date(transaction.occurred_at);
-      const key = `${date.getFullYear()}-${date.getMonth()}`;
-      
-      if (!monthlyData[key]) {
-        monthlyData[key] = 0;
-      }
-      monthlyData[key] += Math.abs(transaction.amount);
-    });
-
-    // Build trends array for the last N months
-    const trends: MonthlyTrend[] = [];
-    const today = new Date();
-    
-    for (let i = monthsCount - 1; i >= 0; i--) {
-      const targetDate = new Date(today.getFullYear(), today.getMonth() - i, 1);
-      const key = `${targetDate.getFullYear()}-${targetDate.getMonth()}`;
-      
-      trends.push({
-        month: months[targetDate.getMonth()],
-        year: targetDate.getFullYear(),
-        actualSpending: monthlyData[key] || 0,
-        budgetTarget: findBudgetForMonth(targetDate),
-      });
-    }
-
-    return trends;
+    return buildMonthlyTrends(convertedTransactions, userBudgets, monthsCount, defaultBudget);
   } catch (error) {
     console.error('Failed to fetch monthly trends:', error);
     throw error;
@@ -191,7 +238,8 @@ export async function getWeeklySpending(): Promise<WeeklySpending[]> {
       .eq('user_id', user.id)
       .gte('occurred_at', startOfWeek.toISOString())
       .lte('occurred_at', endOfWeek.toISOString())
-      .lt('amount', 0); // Only expenses
+      .lt('amount', 0) // Only expenses
+      .is('transfer_id', null);
 
     if (error) {
       console.error('Error fetching weekly spending:', error);
@@ -227,6 +275,23 @@ export async function getWeeklySpending(): Promise<WeeklySpending[]> {
   }
 }
 
+/**
+ * Total expenses of transactions already converted to the user's currency
+ */
+export function summarizeSpending(transactions: Pick<Transaction, 'amount'>[]): SpendingSummary {
+  const expenses = Math.abs(
+    transactions
+      .filter(t => t.amount < 0)
+      .reduce((sum, t) => sum + t.amount, 0)
+  );
+
+  return {
+    totalExpenses: expenses,
+    balance: 0, // Balance will be calculated by caller using budget
+    transactionCount: transactions.length,
+  };
+}
+
 /**
  * Get spending summary for a date range
  */
@@ -243,7 +308,8 @@ export async function getSpendingSummary(startDate: string, endDate: string): Pr
       .select('amount, currency')
       .eq('user_id', user.id)
       .gte('occurred_at', startDate)
-      .lte('occurred_at', endDate);
+      .lte('occurred_at', endDate)
+      .is('transfer_id', null);
 
     if (error) {
       console.error('Error fetching spending summary:', error);
@@ -252,18 +318,8 @@ export async function getSpendingSummary(startDate: string, endDate: string): Pr
 
     // Convert transactions to user's currency
     const convertedTransactions = await convertTransactionsToUserCurrency(data as Transaction[]);
-    
-    const expenses = Math.abs(
-      convertedTransactions
-        .filter(t => t.amount < 0)
-        .reduce((sum, t) => sum + t.amount, 0)
-    );
 
-    return {
-      totalExpenses: expenses,
-      balance: 0, // Balance will be calculated by caller using budget
-      transactionCount: convertedTransactions.length,
-    };
+    return summarizeSpending(convertedTransactions);
   } catch (error) {
     console.error('Failed to fetch spending summary:', error);
     throw error;
@@ -288,6 +344,7 @@ export async function getTopMerchants(startDate: string, endDate: string, limit:
       .gte('occurred_at', startDate)
       .lte('occurred_at', endDate)
       .lt('amount', 0) // Only expenses
+      .is('transfer_id', null)
       .not('merchant', 'is', null);
 
     if (error) {
@@ -298,12 +355,15 @@ export async function getTopMerchants(startDate: string, endDate: string, limit:
     // Convert transactions to user's currency
     const convertedTransactions = await convertTransactionsToUserCurrency(data as Transaction[]);
 
-    // Group by merchant
+    // Group by merchant; spellings that haven't been merged yet count under their canonical name
+    await getMerchants().catch(error => {
+      console.warn('Failed to load merchants, grouping by merchant name as saved:', error);
+    });
     const merchantData: Record<string, { amount: number; count: number }> = {};
     let totalSpending = 0;
 
     convertedTransactions.forEach((transaction) => {
-      const merchant = transaction.merchant || 'Unknown';
+      const merchant = canonicalMerchantName(transaction.merchant) || 'Unknown';
       const amount = Math.abs(transaction.amount);
       
       if (!merchantData[merchant]) {
@@ -386,22 +446,24 @@ export async function getCategoryTrends(
     // Fetch current period
     const { data: currentData, error: currentError } = await supabase
       .from('transactions')
-      .select('amount, currency, category:categories(name)')
+      .select('amount, currency, category_id, category:categories(name), items(item_amount, item_price, category_id, category:categories(name))')
       .eq('user_id', user.id)
       .gte('occurred_at', currentStart)
       .lte('occurred_at', currentEnd)
-      .lt('amount', 0);
+      .lt('amount', 0)
+      .is('transfer_id', null);
 
     if (currentError) throw currentError;
 
     // Fetch previous period
     const { data: previousData, error: previousError } = await supabase
       .from('transactions')
-      .select('amount, currency, category:categories(name)')
+      .select('amount, currency, category_id, category:categories(name), items(item_amount, item_price, category_id, category:categories(name))')
       .eq('user_id', user.id)
       .gte('occurred_at', previousStart)
       .lte('occurred_at', previousEnd)
-      .lt('amount', 0);
+      .lt('amount', 0)
+      .is('transfer_id', null);
 
     if (previousError) throw previousError;
 
@@ -409,18 +471,21 @@ export async function getCategoryTrends(
     const convertedCurrentData = await convertTransactionsToUserCurrency(currentData as any[]);
     const convertedPreviousData = await convertTransactionsToUserCurrency(previousData as any[]);
 
-    // Calculate current breakdown
+    // Calculate current breakdown. Items are in the original currency, so split the
+    // original transaction and scale it to the converted total.
     const currentBreakdown: Record<string, number> = {};
-    convertedCurrentData.forEach((t: any) => {
-      const category = t.category?.name || 'Uncategorized';
-      currentBreakdown[category] = (currentBreakdown[category] || 0) + Math.abs(t.amount);
+    convertedCurrentData.forEach((t: any, index) => {
+      splitTransactionByCategory((currentData as any[])[index], Math.abs(t.amount)).forEach(({ categoryName, amount }) => {
+        currentBreakdown[categoryName] = (currentBreakdown[categoryName] || 0) + amount;
+      });
     });
 
     // Calculate previous breakdown
     const previousBreakdown: Record<string, number> = {};
-    convertedPreviousData.forEach((t: any) => {
-      const category = t.category?.name || 'Uncategorized';
-      previousBreakdown[category] = (previousBreakdown[category] || 0) + Math.abs(t.amount);
+    convertedPreviousData.forEach((t: any, index) => {
+      splitTransactionByCategory((previousData as any[])[index], Math.abs(t.amount)).forEach(({ categoryName, amount }) => {
+        previousBreakdown[categoryName] = (previousBreakdown[categoryName] || 0) + amount;
+      });
     });
 
     // Combine and compare
@@ -450,3 +515,206 @@ export async function getCategoryTrends(
     throw error;
   }
 }
+
+/**
+ * Spending against each active category budget
+ * @param transactions - Expenses in their original currency (with items)
+ * @param converted - The same expenses converted to the user's currency, in the same order
+ * @param budgets - Active category budgets
+ */
+export function buildCategoryBudgetProgress(
+  transactions: Pick<Transaction, 'amount' | 'category_id' | 'category' | 'items'>[],
+  converted: Pick<Transaction, 'amount'>[],
+  budgets: Budget[],
+  period: 'week' | 'month' | 'year' = 'month'
+): CategoryBudgetProgress[] {
+  const spentByCategory: Record<string, number> = {};
+  converted.forEach((transaction, index) => {
+    if (transaction.amount >= 0) return;
+    splitTransactionByCategory(transactions[index], Math.abs(transaction.amount)).forEach(({ categoryId, amount }) => {
+      if (!categoryId) return;
+      spentByCategory[categoryId] = (spentByCategory[categoryId] || 0) + amount;
+    });
+  });
+
+  return budgets
+    .map((budget) => {
+      const limit = getBudgetAmountForPeriod(budget, period);
+      const spent = spentByCategory[budget.category_id as string] || 0;
+
+      return {
+        budgetId: budget.id,
+        categoryId: budget.category_id as string,
+        categoryName: budget.category?.name || 'Uncategorized',
+        limit,
+        spent,
+        remaining: limit - spent,
+        percentage: limit > 0 ? (spent / limit) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.percentage - a.percentage);
+}
+
+/**
+ * Get spending against each category budget for a date range
+ * Category budgets are scaled to the report period the same way as the global budget
+ */
+export async function getCategoryBudgetProgress(
+  startDate: string,
+  endDate: string,
+  period: 'week' | 'month' | 'year' = 'month'
+): Promise<CategoryBudgetProgress[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const budgets = await getCategoryBudgets();
+    if (budgets.length === 0) {
+      return [];
+    }
+
+    // Not filtered by category: itemized lines can carry a budgeted category
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('amount, currency, category_id, items(item_amount, item_price, category_id)')
+      .eq('user_id', user.id)
+      .gte('occurred_at', startDate)
+      .lte('occurred_at', endDate)
+      .lt('amount', 0) // Only expenses
+      .is('transfer_id', null);
+
+    if (error) {
+      console.error('Error fetching category budget progress:', error);
+      throw error;
+    }
+
+    // Convert transactions to user's currency
+    const convertedTransactions = await convertTransactionsToUserCurrency(data as Transaction[]);
+
+    return buildCategoryBudgetProgress(data as Transaction[], convertedTransactions, budgets, period);
+  } catch (error) {
+    console.error('Failed to fetch category budget progress:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sum expenses per tag. A transaction with several tags counts towards each.
+ * @param expenses - Expenses with their tags, already converted to the user's currency
+ */
+export function buildTagSpending(expenses: Pick<Transaction, 'amount' | 'tags'>[]): TagSpending[] {
+  const tagData: Record<string, TagSpending> = {};
+  let totalSpending = 0;
+
+  expenses.forEach((transaction) => {
+    if (transaction.amount >= 0) return;
+    const amount = Math.abs(transaction.amount);
+    totalSpending += amount;
+
+    transaction.tags?.forEach((tag) => {
+      if (!tagData[tag.id]) {
+        tagData[tag.id] = { tagId: tag.id, tagName: tag.name, amount: 0, transactionCount: 0, percentage: 0 };
+      }
+      tagData[tag.id].amount += amount;
+      tagData[tag.id].transactionCount += 1;
+    });
+  });
+
+  return Object.values(tagData)
+    .map((tag) => ({
+      ...tag,
+      amount: Math.round(tag.amount * 100) / 100,
+      percentage: totalSpending > 0 ? (tag.amount / totalSpending) * 100 : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Get spending per tag for a date range
+ */
+export async function getTagSpending(startDate: string, endDate: string): Promise<TagSpending[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('amount, currency, tags(*)')
+      .eq('user_id', user.id)
+      .gte('occurred_at', startDate)
+      .lte('occurred_at', endDate)
+      .lt('amount', 0) // Only expenses
+      .is('transfer_id', null);
+
+    if (error) {
+      console.error('Error fetching tag spending:', error);
+      throw error;
+    }
+
+    const convertedTransactions = await convertTransactionsToUserCurrency(
+      (data ?? []) as Pick<Transaction, 'amount' | 'currency' | 'tags'>[]
+    );
+    return buildTagSpending(convertedTransactions);
+  } catch (error) {
+    console.error('Failed to fetch tag spending:', error);
+    throw error;
+  }
+}
+
+export interface LocalReport {
+  summary: SpendingSummary;
+  breakdown: Record<string, number>;
+  budgetAmount: number;
+  trends: MonthlyTrend[];
+  categoryBudgets: CategoryBudgetProgress[];
+  tagSpending: TagSpending[];
+}
+
+/**
+ * Build the reports screen data from the local snapshot, without network
+ * access (currency rates come from the converter's cache).
+ * Returns null if nothing has been cached yet.
+ */
+export async function getReportFromLocalStore(
+  startDate: string,
+  endDate: string,
+  period: 'week' | 'month' | 'year',
+  options: { userCurrency: string; monthsCount?: number }
+): Promise<LocalReport | null> {
+  const snapshot = await getLocalSnapshot();
+  if (!snapshot?.refreshedAt) return null;
+
+  const { userCurrency, monthsCount = 6 } = options;
+  // Transfers only move money between payment methods, so no report counts them
+  const inRange = (from: string, to: string) =>
+    snapshot.transactions.filter(t => t.occurred_at >= from && t.occurred_at <= to && !t.transfer_id);
+
+  const periodTransactions = inRange(startDate, endDate);
+  const convertedPeriod = await convertTransactionsToUserCurrency(periodTransactions, userCurrency);
+
+  const trendStart = new Date();
+  trendStart.setMonth(trendStart.getMonth() - monthsCount);
+  const trendExpenses = inRange(trendStart.toISOString(), new Date().toISOString()).filter(t => t.amount < 0);
+  const convertedTrend = await convertTransactionsToUserCurrency(trendExpenses, userCurrency);
+
+  const globalBudgets = snapshot.budgets.filter(budget => !budget.category_id);
+  const categoryBudgets = findActiveCategoryBudgets(snapshot.budgets).map(budget => ({
+    ...budget,
+    category: snapshot.categories.find(category => category.id === budget.category_id),
+  }));
+
+  return {
+    summary: summarizeSpending(convertedPeriod),
+    breakdown: buildSpendingBreakdown(periodTransactions),
+    budgetAmount: getBudgetAmountForPeriod(findActiveBudget(snapshot.budgets), period),
+    trends: buildMonthlyTrends(convertedTrend, globalBudgets, monthsCount),
+    categoryBudgets: buildCategoryBudgetProgress(periodTransactions, convertedPeriod, categoryBudgets, period),
+    tagSpending: buildTagSpending(convertedPeriod),
+  };
+}
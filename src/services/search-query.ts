@@ -0,0 +1,499 @@
+import type { Transaction } from './transactions';
+
+/**
+ * Structured search for transactions, e.g.
+ * `merchant:starbucks amount:>50 cat:food before:2025-06-01 pay:octopus -note:work`
+ *
+ * - `field:value` filters one field; a `-` prefix negates the clause
+ * - Values with spaces are quoted: `merchant:"7 eleven"`
+ * - Bare words match merchant, category, note or item names, like the old search box
+ * - `#word` is short for `tag:word`
+ * - All clauses must match (AND)
+ */
+
+export type SearchTextField = 'text' | 'merchant' | 'category' | 'note' | 'item' | 'tag' | 'payment';
+export type SearchDateField = 'before' | 'after' | 'on';
+export type SearchField = SearchTextField | SearchDateField | 'amount' | 'source' | 'type';
+
+/** Comparison on the absolute amount, so it applies to income and expenses alike */
+export type AmountComparison =
+  | { op: '>' | '>=' | '<' | '<=' | '='; value: number }
+  | { op: 'range'; min: number; max: number };
+
+export type SearchClause =
+  | { field: SearchTextField; value: string; negate: boolean }
+  | { field: 'amount'; comparison: AmountComparison; negate: boolean }
+  | { field: SearchDateField; date: string; negate: boolean } // YYYY-MM-DD, local day
+  | { field: 'source'; value: Transaction['source']; negate: boolean }
+  | { field: 'type'; value: 'income' | 'expense' | 'transfer'; negate: boolean };
+
+export interface SearchQueryError {
+  message: string;
+  // Character range of the offending token in the input
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  errors: SearchQueryError[];
+}
+
+export interface SearchFieldInfo {
+  name: string;
+  field: Exclude<SearchField, 'text'>;
+  description: string;
+  example: string;
+}
+
+/** Field names shown in autocomplete and help, in display order */
+export const SEARCH_FIELDS: SearchFieldInfo[] = [
+  { name: 'merchant', field: 'merchant', description: 'Merchant contains', example: 'merchant:starbucks' },
+  { name: 'amount', field: 'amount', description: 'Amount (>, >=, <, <=, = or min..max)', example: 'amount:>50' },
+  { name: 'cat', field: 'category', description: 'Category name contains', example: 'cat:food' },
+  { name: 'before', field: 'before', description: 'Before a date', example: 'before:2025-06-01' },
+  { name: 'after', field: 'after', description: 'After a date', example: 'after:2025-01-31' },
+  { name: 'on', field: 'on', description: 'On a date', example: 'on:2025-05-20' },
+  { name: 'pay', field: 'payment', description: 'Payment method contains', example: 'pay:octopus' },
+  { name: 'note', field: 'note', description: 'Note contains', example: 'note:work' },
+  { name: 'item', field: 'item', description: 'Item name contains', example: 'item:latte' },
+  { name: 'tag', field: 'tag', description: 'Tag name contains', example: 'tag:japan-trip' },
+  { name: 'source', field: 'source', description: 'How it was recorded', example: 'source:ocr' },
+  { name: 'type', field: 'type', description: 'Income, expense or transfer', example: 'type:income' },
+];
+
+const FIELD_ALIASES: Record<string, Exclude<SearchField, 'text'>> = {
+  merchant: 'merchant',
+  shop: 'merchant',
+  amount: 'amount',
+  amt: 'amount',
+  cat: 'category',
+  category: 'category',
+  before: 'before',
+  after: 'after',
+  on: 'on',
+  date: 'on',
+  pay: 'payment',
+  payment: 'payment',
+  method: 'payment',
+  note: 'note',
+  notes: 'note',
+  item: 'item',
+  items: 'item',
+  tag: 'tag',
+  tags: 'tag',
+  source: 'source',
+  type: 'type',
+};
+
+const SOURCES: Transaction['source'][] = ['manual', 'ocr', 'ai', 'recurring', 'import'];
+const TYPES = ['income', 'expense', 'transfer'] as const;
+
+const AMOUNT_PATTERN = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/;
+const AMOUNT_RANGE_PATTERN = /^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+interface SearchToken {
+  negate: boolean;
+  // Text before the first unquoted colon, or null for a bare word
+  field: string | null;
+  value: string;
+  start: number;
+  end: number;
+  unclosedQuote: boolean;
+}
+
+function tokenize(input: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let negate = false;
+    if (input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      negate = true;
+      index++;
+    }
+
+    let field: string | null = null;
+    let value = '';
+    let unclosedQuote = false;
+
+    while (index < input.length && !/\s/.test(input[index])) {
+      const char = input[index];
+      if (char === '"') {
+        const close = input.indexOf('"', index + 1);
+        if (close === -1) {
+          value += input.slice(index + 1);
+          index = input.length;
+          unclosedQuote = true;
+          break;
+        }
+        value += input.slice(index + 1, close);
+        index = close + 1;
+        continue;
+      }
+      if (char === ':' && field === null && value.length > 0) {
+        field = value;
+        value = '';
+        index++;
+        continue;
+      }
+      value += char;
+      index++;
+    }
+
+    tokens.push({ negate, field, value, start, end: index, unclosedQuote });
+  }
+
+  return tokens;
+}
+
+// ============================================================
+// Parser
+// ============================================================
+
+function editDistance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function closestFieldName(name: string) {
+  let best: { name: string; distance: number } | null = null;
+  for (const candidate of Object.keys(FIELD_ALIASES)) {
+    const distance = candidate.startsWith(name) ? 0 : editDistance(name, candidate);
+    if (!best || distance < best.distance) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best && best.distance <= 2 ? best.name : null;
+}
+
+function isValidDate(text: string) {
+  const match = DATE_PATTERN.exec(text);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function parseAmount(text: string): AmountComparison | null {
+  const range = AMOUNT_RANGE_PATTERN.exec(text);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return min <= max ? { op: 'range', min, max } : null;
+  }
+  const match = AMOUNT_PATTERN.exec(text);
+  if (!match) return null;
+  return { op: (match[1] as '>' | '>=' | '<' | '<=' | '=' | undefined) ?? '=', value: Number(match[2]) };
+}
+
+/**
+ * Parse a search box string into clauses. Tokens with errors are skipped, so
+ * the valid part of a query can still be applied while the user is typing.
+ *
+ * @example
+ * ```typescript
+ * const { clauses, errors } = parseSearchQuery('merchant:starbucks amount:>50 -note:work');
+ * ```
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const token of tokenize(input)) {
+    const { negate, start, end } = token;
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (token.unclosedQuote) {
+      fail('Missing closing quote');
+      continue;
+    }
+
+    // "10:30" or "http://..." are plain words, not fields
+    if (token.field !== null && (!/^[a-z]+$/i.test(token.field) || token.value.startsWith('//'))) {
+      clauses.push({ field: 'text', value: `${token.field}:${token.value}`, negate });
+      continue;
+    }
+
+    if (token.field === null) {
+      if (/^#[^#]/.test(token.value)) {
+        clauses.push({ field: 'tag', value: token.value.slice(1), negate });
+      } else if (token.value) {
+        clauses.push({ field: 'text', value: token.value, negate });
+      }
+      continue;
+    }
+
+    const fieldName = token.field.toLowerCase();
+    const field = FIELD_ALIASES[fieldName];
+    if (!field) {
+      const suggestion = closestFieldName(fieldName);
+      fail(suggestion
+        ? `Unknown field "${token.field}". Did you mean "${suggestion}:"?`
+        : `Unknown field "${token.field}"`);
+      continue;
+    }
+
+    const value = token.value.trim();
+    if (!value) {
+      fail(`Missing value after "${token.field}:"`);
+      continue;
+    }
+
+    switch (field) {
+      case 'amount': {
+        const comparison = parseAmount(value);
+        if (!comparison) {
+          fail(`Invalid amount "${value}". Use e.g. amount:>50, amount:<=20 or amount:10..30`);
+          continue;
+        }
+        clauses.push({ field, comparison, negate });
+        break;
+      }
+      case 'before':
+      case 'after':
+      case 'on':
+        if (!isValidDate(value)) {
+          fail(`Invalid date "${value}". Use YYYY-MM-DD`);
+          continue;
+        }
+        clauses.push({ field, date: value, negate });
+        break;
+      case 'source': {
+        const source = SOURCES.find(option => option === value.toLowerCase());
+        if (!source) {
+          fail(`Unknown source "${value}". Use one of: ${SOURCES.join(', ')}`);
+          continue;
+        }
+        clauses.push({ field, value: source, negate });
+        break;
+      }
+      case 'type': {
+        const type = TYPES.find(option => option === value.toLowerCase());
+        if (!type) {
+          fail(`Unknown type "${value}". Use income, expense or transfer`);
+          continue;
+        }
+        clauses.push({ field, value: type, negate });
+        break;
+      }
+      default:
+        clauses.push({ field, value, negate });
+    }
+  }
+
+  return { clauses, errors };
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+/**
+ * Local-time bounds of a YYYY-MM-DD day, as used by before:, after: and on:
+ */
+export function getSearchDateBounds(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return {
+    start: new Date(year, month - 1, day, 0, 0, 0, 0),
+    end: new Date(year, month - 1, day, 23, 59, 59, 999),
+  };
+}
+
+export function matchesAmountComparison(amount: number, comparison: AmountComparison) {
+  const value = Math.abs(amount);
+  switch (comparison.op) {
+    case '>': return value > comparison.value;
+    case '>=': return value >= comparison.value;
+    case '<': return value < comparison.value;
+    case '<=': return value <= comparison.value;
+    case '=': return value === comparison.value;
+    case 'range': return value >= comparison.min && value <= comparison.max;
+  }
+}
+
+function contains(text: string | null | undefined, value: string) {
+  return !!text && text.toLowerCase().includes(value.toLowerCase());
+}
+
+function matchesClause(transaction: Transaction, clause: SearchClause): boolean {
+  switch (clause.field) {
+    case 'text':
+      return contains(transaction.merchant, clause.value)
+        || contains(transaction.category?.name, clause.value)
+        || contains(transaction.note, clause.value)
+        || !!transaction.items?.some(item => contains(item.item_name, clause.value));
+    case 'merchant':
+      return contains(transaction.merchant, clause.value);
+    case 'category':
+      return contains(transaction.category?.name, clause.value);
+    case 'note':
+      return contains(transaction.note, clause.value);
+    case 'item':
+      return !!transaction.items?.some(item => contains(item.item_name, clause.value));
+    case 'tag':
+      return !!transaction.tags?.some(tag => contains(tag.name, clause.value));
+    case 'payment':
+      return contains(transaction.payment_method, clause.value);
+    case 'amount':
+      return matchesAmountComparison(transaction.amount, clause.comparison);
+    case 'before':
+    case 'after':
+    case 'on': {
+      const time = new Date(transaction.occurred_at).getTime();
+      const { start, end } = getSearchDateBounds(clause.date);
+      if (clause.field === 'before') return time < start.getTime();
+      if (clause.field === 'after') return time > end.getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    }
+    case 'source':
+      return transaction.source === clause.value;
+    case 'type':
+      if (clause.value === 'transfer') return !!transaction.transfer_id;
+      if (transaction.transfer_id) return false;
+      return clause.value === 'income' ? transaction.amount > 0 : transaction.amount < 0;
+  }
+}
+
+/**
+ * In-memory counterpart of the server-side search in getTransactionsPage.
+ * Category and item clauses need the joined category and items.
+ */
+export function matchesSearchQuery(transaction: Transaction, clauses: SearchClause[]) {
+  return clauses.every(clause => matchesClause(transaction, clause) !== clause.negate);
+}
+
+// ============================================================
+// Autocomplete
+// ============================================================
+
+export interface SearchSuggestion {
+  label: string;
+  description?: string;
+  // Replacement for input.slice(start, end)
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchSuggestionContext {
+  categories?: string[];
+  paymentMethods?: string[];
+  merchants?: string[];
+  tags?: string[];
+}
+
+function quoteIfNeeded(value: string) {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function todayISODate() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function valueOptions(field: Exclude<SearchField, 'text'>, context: SearchSuggestionContext): string[] {
+  switch (field) {
+    case 'merchant': return context.merchants ?? [];
+    case 'category': return context.categories ?? [];
+    case 'payment': return context.paymentMethods ?? [];
+    case 'tag': return context.tags ?? [];
+    case 'source': return SOURCES;
+    case 'type': return [...TYPES];
+    case 'amount': return ['>50', '>=100', '<20', '10..30'];
+    case 'before':
+    case 'after':
+    case 'on': return [todayISODate()];
+    default: return [];
+  }
+}
+
+/**
+ * Completions for the token under the cursor: field names while typing a
+ * bare word, values (categories, payment methods, ...) after `field:`.
+ */
+export function getSearchSuggestions(
+  input: string,
+  cursor: number = input.length,
+  context: SearchSuggestionContext = {},
+  limit: number = 8
+): SearchSuggestion[] {
+  const before = input.slice(0, cursor);
+  const start = before.search(/\S*$/);
+  const afterCursor = input.slice(cursor).search(/\s|$/);
+  const end = cursor + afterCursor;
+  const token = input.slice(start, cursor);
+
+  const prefix = token.startsWith('-') ? '-' : '';
+  const body = token.slice(prefix.length);
+  const colon = body.indexOf(':');
+
+  if (colon === -1) {
+    const typed = body.toLowerCase();
+    return SEARCH_FIELDS
+      .filter(info => info.name.startsWith(typed) && info.name !== typed)
+      .slice(0, limit)
+      .map(info => ({
+        label: `${info.name}:`,
+        description: info.description,
+        text: `${prefix}${info.name}:`,
+        start,
+        end,
+      }));
+  }
+
+  const field = FIELD_ALIASES[body.slice(0, colon).toLowerCase()];
+  if (!field) return [];
+
+  const fieldText = body.slice(0, colon + 1);
+  const typed = body.slice(colon + 1).replace(/^"/, '').toLowerCase();
+  const seen = new Set<string>();
+
+  return valueOptions(field, context)
+    .filter(option => {
+      const key = option.toLowerCase();
+      if (seen.has(key) || !key.includes(typed) || key === typed) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(typed)) - Number(!b.toLowerCase().startsWith(typed)))
+    .slice(0, limit)
+    .map(option => ({
+      label: option,
+      text: `${prefix}${fieldText}${quoteIfNeeded(option)} `,
+      start,
+      end,
+    }));
+}
+
+/**
+ * Insert a suggestion into the input. Returns the new text and cursor position.
+ */
+export function applySearchSuggestion(input: string, suggestion: SearchSuggestion) {
+  let rest = input.slice(suggestion.end);
+  if (suggestion.text.endsWith(' ') && rest.startsWith(' ')) {
+    rest = rest.slice(1);
+  }
+  const text = input.slice(0, suggestion.start) + suggestion.text + rest;
+  return { text, cursor: suggestion.start + suggestion.text.length };
+}
@@ -0,0 +1,189 @@
+import { supabase } from './supabase';
+import { getProfile, createProfile } from './profiles';
+import { submitOutboxOperation } from './outbox';
+
+/**
+ * Free-form label such as `japan-trip` or `work-claimable`. Unlike categories,
+ * a transaction can carry any number of tags (via transaction_tags).
+ */
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+/**
+ * Link between a transaction and one of its tags
+ */
+export interface TransactionTag {
+  transaction_id: string;
+  tag_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+/**
+ * Canonical tag name: no leading '#', lowercase, spaces become dashes
+ * ("#Japan Trip" → "japan-trip")
+ */
+export function normalizeTagName(name: string) {
+  return name
+    .trim()
+    .replace(/^#+/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+}
+
+function normalizeTagNames(names: string[]) {
+  return Array.from(new Set(names.map(normalizeTagName).filter(Boolean)));
+}
+
+/**
+ * Look up tags by name, creating the missing ones
+ */
+export async function resolveTags(names: string[], userId: string): Promise<Tag[]> {
+  if (names.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', userId)
+    .in('name', names);
+  if (error) throw error;
+
+  const existing = (data ?? []) as Tag[];
+  const missing = names.filter(name => !existing.some(tag => tag.name === name));
+  if (missing.length === 0) return existing;
+
+  const { data: created, error: createError } = await supabase
+    .from('tags')
+    .upsert(missing.map(name => ({ name, user_id: userId })), { onConflict: 'user_id,name' })
+    .select();
+  if (createError) throw createError;
+  return [...existing, ...((created ?? []) as Tag[])];
+}
+
+/**
+ * Get all tags for current user
+ */
+export async function getTags() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching tags:', error);
+    throw error;
+  }
+
+  return data as Tag[];
+}
+
+/**
+ * Add a tag, or return the existing one with the same name
+ */
+export async function addTag(name: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const tagName = normalizeTagName(name);
+  if (!tagName) throw new Error('Tag name is required');
+
+  try {
+    await getProfile();
+  } catch {
+    await createProfile();
+  }
+
+  const { data, error } = await supabase
+    .from('tags')
+    .upsert([{ name: tagName, user_id: user.id }], { onConflict: 'user_id,name' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding tag:', error);
+    throw error;
+  }
+
+  return data as Tag;
+}
+
+/**
+ * Rename a tag; it stays attached to its transactions
+ */
+export async function updateTag(id: string, name: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const tagName = normalizeTagName(name);
+  if (!tagName) throw new Error('Tag name is required');
+
+  const { data, error } = await supabase
+    .from('tags')
+    .update({ name: tagName })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating tag:', error);
+    throw error;
+  }
+
+  return data as Tag;
+}
+
+/**
+ * Delete a tag. Its transaction_tags rows cascade; the transactions are kept.
+ */
+export async function deleteTag(id: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting tag:', error);
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Replace the tags on a transaction. Tags are given by name and created if
+ * they do not exist yet. Goes through the offline outbox, so it also works
+ * for a transaction that has not synced yet.
+ *
+ * @example
+ * ```typescript
+ * await setTransactionTags(transaction.id, ['japan-trip', '#gift']);
+ * ```
+ */
+export async function setTransactionTags(transactionId: string, names: string[]) {
+  try {
+    if (!transactionId) {
+      throw new Error('Transaction ID is required');
+    }
+
+    const tagNames = normalizeTagNames(names);
+    const result = await submitOutboxOperation<Tag[]>({ kind: 'setTransactionTags', transactionId, names: tagNames });
+    return result.status === 'synced' && result.data ? result.data : null;
+  } catch (error) {
+    console.error('Failed to set transaction tags:', error);
+    throw error;
+  }
+}
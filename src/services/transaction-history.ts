@@ -0,0 +1,221 @@
+import { supabase } from './supabase';
+import type { Transaction } from './transactions';
+
+/**
+ * Audit trail for transactions: one entry per create, update, delete and
+ * restore, with the fields that changed and who made the change.
+ *
+ * Entries are written when a change reaches the server (see outbox.ts), so
+ * an edit made offline is recorded once it syncs, with the time it was made.
+ * Items, tags and attachments are not tracked.
+ */
+
+// Who made a change: the user in the app, a scanned receipt, the chat agent,
+// a statement import, a categorization rule or a recurring rule
+export type AuditSource = 'manual' | 'ocr' | 'ai' | 'import' | 'rule' | 'recurring';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface TransactionHistoryEntry {
+  id: string;
+  user_id: string;
+  // Not a foreign key: the history outlives the transaction
+  transaction_id: string;
+  action: AuditAction;
+  source: AuditSource;
+  // Field name -> old and new value
+  changes: Record<string, FieldChange>;
+  changed_at: string;
+}
+
+// Transaction columns the audit trail follows: the ones updateTransaction can change
+export const AUDITED_FIELDS = [
+  'amount',
+  'occurred_at',
+  'merchant',
+  'category_id',
+  'note',
+  'payment_method',
+  'account_id',
+  'currency',
+  'source',
+] as const;
+
+export type AuditedField = typeof AUDITED_FIELDS[number];
+
+type AuditedRow = Partial<Pick<Transaction, AuditedField>>;
+
+function sameValue(a: unknown, b: unknown) {
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Audited fields that differ between two versions of a transaction. A
+ * missing version (before a create, after a delete) counts as all nulls.
+ */
+export function diffTransactionFields(before: AuditedRow | null, after: AuditedRow | null) {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of AUDITED_FIELDS) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameValue(from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+export interface TransactionHistoryInput {
+  transactionId: string;
+  action: AuditAction;
+  source: AuditSource;
+  changes: Record<string, FieldChange>;
+  changedAt?: string;
+}
+
+/**
+ * Record a change. The write it describes has already happened, so a
+ * failure is logged rather than thrown.
+ */
+export async function recordTransactionHistory(userId: string, entry: TransactionHistoryInput) {
+  await recordTransactionHistoryEntries(userId, [entry]);
+}
+
+/**
+ * Record many changes in one insert, e.g. after a bulk edit. Updates that
+ * changed nothing are skipped; failures are logged like recordTransactionHistory.
+ */
+export async function recordTransactionHistoryEntries(userId: string, entries: TransactionHistoryInput[]) {
+  const rows = entries
+    .filter(entry => entry.action !== 'update' || Object.keys(entry.changes).length > 0)
+    .map(entry => ({
+      user_id: userId,
+      transaction_id: entry.transactionId,
+      action: entry.action,
+      source: entry.source,
+      changes: entry.changes,
+      changed_at: entry.changedAt ?? new Date().toISOString(),
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('transaction_history')
+    .insert(rows);
+  if (error) {
+    console.warn('[Transaction History] Failed to record change:', error);
+  }
+}
+
+/**
+ * Record transactions inserted in bulk outside the outbox (statement imports,
+ * recurring occurrences). Like recordTransactionHistory, failures are logged.
+ */
+export async function recordTransactionCreates(userId: string, rows: Transaction[], source: AuditSource) {
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('transaction_history')
+    .insert(rows.map(row => ({
+      user_id: userId,
+      transaction_id: row.id,
+      action: 'create',
+      source,
+      changes: diffTransactionFields(null, row),
+      changed_at: row.created_at ?? new Date().toISOString(),
+    })));
+  if (error) {
+    console.warn('[Transaction History] Failed to record new transactions:', error);
+  }
+}
+
+/**
+ * A transaction's history, newest first
+ */
+export async function getTransactionHistory(transactionId: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('transaction_history')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('transaction_id', transactionId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching transaction history:', error);
+      throw error;
+    }
+
+    return (data ?? []) as TransactionHistoryEntry[];
+  } catch (error) {
+    console.error('Failed to fetch transaction history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove the history of transactions that are gone for good
+ */
+export async function deleteTransactionHistory(transactionIds: string[], userId: string) {
+  if (transactionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('transaction_history')
+    .delete()
+    .eq('user_id', userId)
+    .in('transaction_id', transactionIds);
+  if (error) throw error;
+}
+
+/**
+ * The changes that would bring a transaction back to how it was right after
+ * `entryId`: later entries are undone one by one, newest first. Fields no
+ * later entry touched are left out.
+ *
+ * @param history - The transaction's history, newest first
+ *
+ * @example
+ * ```typescript
+ * const history = await getTransactionHistory(transaction.id);
+ * const updates = getRevertChanges(transaction, history, history[2].id);
+ * await updateTransaction(transaction.id, updates, { base: transaction });
+ * ```
+ */
+export function getRevertChanges(
+  current: Transaction,
+  history: TransactionHistoryEntry[],
+  entryId: string
+): Partial<Pick<Transaction, AuditedField>> {
+  const target = history.findIndex(entry => entry.id === entryId);
+  if (target === -1) {
+    throw new Error('History entry not found');
+  }
+  if (history[target].action === 'delete') {
+    throw new Error('Cannot revert to a deleted version');
+  }
+
+  const version: Record<string, unknown> = {};
+  for (const field of AUDITED_FIELDS) {
+    version[field] = current[field] ?? null;
+  }
+  for (const entry of history.slice(0, target)) {
+    for (const [field, change] of Object.entries(entry.changes)) {
+      version[field] = change.from ?? null;
+    }
+  }
+
+  const changes: Record<string, unknown> = {};
+  for (const field of AUDITED_FIELDS) {
+    if (!sameValue(version[field], current[field])) {
+      changes[field] = version[field];
+    }
+  }
+  return changes as Partial<Pick<Transaction, AuditedField>>;
+}
@@ -0,0 +1,606 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { supabase } from './supabase';
+import { getTransactionsByDateRange, type Transaction } from './transactions';
+import { evaluateRules, getTransactionRules, type TransactionRule } from './transaction-rules';
+import { recordTransactionCreates } from './transaction-history';
+
+/**
+ * Statement import (CSV / OFX / QIF)
+ *
+ * Every supported format is first normalized into a plain table of
+ * headers + string rows. The user then maps columns to transaction fields,
+ * reviews a preview (with likely duplicates flagged) and bulk inserts.
+ */
+
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif';
+
+export type ImportField = 'amount' | 'occurred_at' | 'merchant' | 'currency' | 'payment_method' | 'note';
+
+export const IMPORT_FIELDS: ImportField[] = ['amount', 'occurred_at', 'merchant', 'currency', 'payment_method', 'note'];
+
+export type ImportDateFormat = 'auto' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/** Column index per field, or null when the field is not mapped */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportTable {
+  format: ImportFileFormat;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportOptions {
+  dateFormat: ImportDateFormat;
+  // Used when no currency column is mapped or the cell is empty
+  defaultCurrency: string;
+  // Used when no payment method column is mapped or the cell is empty
+  defaultPaymentMethod: string | null;
+  // Flip signs for statements that list spending as positive numbers
+  invertAmounts: boolean;
+}
+
+export type ImportDraft = Omit<Transaction, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export interface ImportPreviewRow {
+  rowIndex: number;
+  draft: ImportDraft | null;
+  errors: string[];
+  // Existing transaction (or earlier row in the same file) this row likely duplicates
+  duplicateOf: Transaction | ImportDraft | null;
+}
+
+export interface ImportResult {
+  inserted: number;
+  failed: number;
+}
+
+const IMPORT_BATCH_SIZE = 100;
+const DUPLICATE_DAY_WINDOW = 1;
+const DAY_MS = 86400000;
+
+// ============================================================
+// File reading
+// ============================================================
+
+/**
+ * Read a picked file as text
+ * - Web: Fetch API
+ * - Native: expo-file-system
+ */
+export async function readImportFile(uri: string): Promise<string> {
+  try {
+    if (Platform.OS === 'web') {
+      const response = await fetch(uri);
+      if (!response.ok) {
+        throw new Error(`Failed to read file: ${response.status}`);
+      }
+      return await response.text();
+    }
+
+    return await FileSystem.readAsStringAsync(uri);
+  } catch (error) {
+    console.error('Failed to read import file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Guess the file format from its name, falling back to the content
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv' || extension === 'txt' || extension === 'tsv') return 'csv';
+
+  const head = content.slice(0, 500).toUpperCase();
+  if (head.includes('<OFX>') || head.includes('OFXHEADER')) return 'ofx';
+  if (head.trimStart().startsWith('!TYPE:')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Parse file content into a normalized table
+ */
+export function parseImportFile(content: string, format: ImportFileFormat): ImportTable {
+  const text = content.replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'ofx':
+      return parseOFX(text);
+    case 'qif':
+      return parseQIF(text);
+    default:
+      return parseCSV(text);
+  }
+}
+
+// ============================================================
+// Parsers
+// ============================================================
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 style CSV parser (quoted fields, escaped quotes, embedded newlines).
+ * The delimiter is detected from the header line.
+ */
+function parseCSV(text: string): ImportTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = detectDelimiter(firstLine);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+
+  const [headers = [], ...rows] = nonEmpty;
+  return { format: 'csv', headers, rows };
+}
+
+function getOFXTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOFXEntities(match[1].trim()) : '';
+}
+
+function decodeOFXEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[-5:EST]] */
+function formatOFXDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
+
+/**
+ * OFX / QFX parser. Handles both SGML (unclosed leaf tags) and XML variants.
+ */
+function parseOFX(text: string): ImportTable {
+  const currency = getOFXTag(text, 'CURDEF');
+  const headers = ['Date', 'Amount', 'Name', 'Memo', 'Currency', 'Type', 'FITID'];
+  const rows: string[][] = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(text)) !== null) {
+    const block = match[1];
+    rows.push([
+      formatOFXDate(getOFXTag(block, 'DTPOSTED')),
+      getOFXTag(block, 'TRNAMT'),
+      getOFXTag(block, 'NAME') || getOFXTag(block, 'PAYEE'),
+      getOFXTag(block, 'MEMO'),
+      getOFXTag(block, 'CURSYM') || currency,
+      getOFXTag(block, 'TRNTYPE'),
+      getOFXTag(block, 'FITID'),
+    ]);
+  }
+
+  return { format: 'ofx', headers, rows };
+}
+
+/**
+ * QIF parser. Records are separated by "^"; each line starts with a field code.
+ */
+function parseQIF(text: string): ImportTable {
+  const headers = ['Date', 'Amount', 'Payee', 'Memo', 'Category', 'Number'];
+  const rows: string[][] = [];
+  let current: Record<string, string> = {};
+
+  const flush = () => {
+    if (Object.keys(current).length > 0) {
+      rows.push([
+        (current.D ?? '').replace(/'\s?/g, '/'),
+        current.T ?? current.U ?? '',
+        current.P ?? '',
+        current.M ?? '',
+        current.L ?? '',
+        current.N ?? '',
+      ]);
+    }
+    current = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line === '^') {
+      flush();
+      continue;
+    }
+    const code = line[0];
+    // Keep the first value for repeated codes (e.g. split lines)
+    if (current[code] === undefined) {
+      current[code] = line.slice(1).trim();
+    }
+  }
+  flush();
+
+  return { format: 'qif', headers, rows };
+}
+
+// ============================================================
+// Column mapping
+// ============================================================
+
+const HEADER_HINTS: Record<ImportField, string[]> = {
+  amount: ['amount', 'amt', 'value', 'sum', 'total', 'debit', '金額', '金额'],
+  occurred_at: ['date', 'posted', 'time', 'occurred', '日期', '時間', '时间'],
+  merchant: ['merchant', 'payee', 'name', 'description', 'desc', 'shop', 'store', '商戶', '商户', '商家'],
+  currency: ['currency', 'ccy', 'cur', '貨幣', '货币'],
+  payment_method: ['payment', 'method', 'account', 'card', '付款', '支付'],
+  note: ['note', 'memo', 'remark', 'comment', 'details', '備註', '备注'],
+};
+
+/**
+ * Suggest a column mapping from header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {
+    amount: null,
+    occurred_at: null,
+    merchant: null,
+    currency: null,
+    payment_method: null,
+    note: null,
+  };
+  const used = new Set<number>();
+  const normalized = headers.map(header => header.toLowerCase().trim());
+
+  // Dates first so headers like "Value Date" are not taken as the amount
+  const order: ImportField[] = ['occurred_at', 'currency', 'amount', 'merchant', 'payment_method', 'note'];
+  for (const field of order) {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && HEADER_HINTS[field].some(hint => header.includes(hint))
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+// ============================================================
+// Value parsing
+// ============================================================
+
+/**
+ * Parse an amount cell. Supports currency symbols, thousands separators,
+ * decimal commas, "(12.50)" and trailing minus notation.
+ */
+export function parseImportAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[^\d.,-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  // "1.234,56" or "12,50" -> decimal comma
+  if (/^\d{1,3}(\.\d{3})*,\d{1,2}$/.test(text) || /^\d+,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const amount = parseFloat(text);
+  if (Number.isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function buildIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Parse a date cell into an ISO timestamp (noon UTC for date-only values).
+ * In 'auto' mode ambiguous day/month values are read as DD/MM.
+ */
+export function parseImportDate(value: string, format: ImportDateFormat = 'auto'): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return buildIsoDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+  }
+
+  const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s](\d{1,2}):(\d{2}))?/);
+  if (yearFirst && (format === 'auto' || format === 'YYYY-MM-DD')) {
+    const iso = buildIsoDate(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+    if (iso && yearFirst[4] !== undefined) {
+      const withTime = new Date(text);
+      if (!Number.isNaN(withTime.getTime())) return withTime.toISOString();
+    }
+    return iso;
+  }
+
+  const dayOrMonthFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (dayOrMonthFirst) {
+    const first = Number(dayOrMonthFirst[1]);
+    const second = Number(dayOrMonthFirst[2]);
+    const year = Number(dayOrMonthFirst[3]);
+
+    let monthFirst = format === 'MM/DD/YYYY';
+    if (format === 'auto') {
+      monthFirst = second > 12 && first <= 12;
+    }
+    return monthFirst
+      ? buildIsoDate(year, first, second)
+      : buildIsoDate(year, second, first);
+  }
+
+  if (format === 'auto') {
+    const parsed = new Date(text);
+    if (!Number.isNaN(parsed.getTime())) return parsed.toISOString();
+  }
+
+  return null;
+}
+
+// ============================================================
+// Preview & duplicate detection
+// ============================================================
+
+function normalizeMerchant(value: string | null | undefined): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9\u4e00-\u9fff]+/g, ' ').trim();
+}
+
+function merchantsLookAlike(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeMerchant(a);
+  const right = normalizeMerchant(b);
+  // Without a merchant on both sides there is nothing to compare, and an
+  // empty payee would otherwise match every transaction with the same amount
+  if (!left || !right) return false;
+  if (left.includes(right) || right.includes(left)) return true;
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = right.split(' ');
+  const shared = rightTokens.filter(token => token.length > 1 && leftTokens.has(token)).length;
+  return shared / Math.max(leftTokens.size, rightTokens.length) >= 0.5;
+}
+
+function isLikelyDuplicate(draft: ImportDraft, other: Pick<Transaction, 'amount' | 'currency' | 'occurred_at' | 'merchant'>): boolean {
+  if (Math.abs(draft.amount - other.amount) >= 0.005) return false;
+  if ((draft.currency || '').toUpperCase() !== (other.currency || '').toUpperCase()) return false;
+
+  const dayDiff = Math.abs(new Date(draft.occurred_at).getTime() - new Date(other.occurred_at).getTime()) / DAY_MS;
+  if (dayDiff > DUPLICATE_DAY_WINDOW) return false;
+
+  return merchantsLookAlike(draft.merchant, other.merchant);
+}
+
+function getCell(row: string[], index: number | null): string {
+  if (index === null || index < 0 || index >= row.length) return '';
+  return row[index].trim();
+}
+
+/**
+ * Convert a table row into a transaction draft using the mapping
+ */
+export function buildImportDraft(
+  row: string[],
+  mapping: ColumnMapping,
+  options: ImportOptions
+): { draft: ImportDraft | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const rawAmount = getCell(row, mapping.amount);
+  const amount = parseImportAmount(rawAmount);
+  if (amount === null) {
+    errors.push(rawAmount ? `Invalid amount "${rawAmount}"` : 'Missing amount');
+  }
+
+  const rawDate = getCell(row, mapping.occurred_at);
+  const occurredAt = parseImportDate(rawDate, options.dateFormat);
+  if (!occurredAt) {
+    errors.push(rawDate ? `Invalid date "${rawDate}"` : 'Missing date');
+  }
+
+  const rawCurrency = getCell(row, mapping.currency).toUpperCase();
+  const currency = /^[A-Z]{3}$/.test(rawCurrency) ? rawCurrency : options.defaultCurrency;
+
+  if (amount === null || !occurredAt) {
+    return { draft: null, errors };
+  }
+
+  return {
+    draft: {
+      amount: options.invertAmounts ? -amount : amount,
+      occurred_at: occurredAt,
+      merchant: getCell(row, mapping.merchant) || null,
+      category_id: null,
+      source: 'import',
+      note: getCell(row, mapping.note) || null,
+      payment_method: getCell(row, mapping.payment_method) || options.defaultPaymentMethod,
+      currency,
+    },
+    errors,
+  };
+}
+
+/**
+ * Build the import preview: parse every row and flag likely duplicates,
+ * both against existing transactions and against earlier rows in the file.
+ */
+export async function buildImportPreview(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): Promise<ImportPreviewRow[]> {
+  try {
+    const preview: ImportPreviewRow[] = table.rows.map((row, rowIndex) => {
+      const { draft, errors } = buildImportDraft(row, mapping, options);
+      return { rowIndex, draft, errors, duplicateOf: null };
+    });
+
+    const drafts = preview.filter(row => row.draft).map(row => row.draft as ImportDraft);
+    if (drafts.length === 0) {
+      return preview;
+    }
+
+    const times = drafts.map(draft => new Date(draft.occurred_at).getTime());
+    const windowMs = (DUPLICATE_DAY_WINDOW + 1) * DAY_MS;
+    const existing = await getTransactionsByDateRange(
+      new Date(Math.min(...times) - windowMs).toISOString(),
+      new Date(Math.max(...times) + windowMs).toISOString()
+    );
+
+    const seen: ImportDraft[] = [];
+    for (const row of preview) {
+      if (!row.draft) continue;
+      const draft = row.draft;
+      row.duplicateOf =
+        existing.find(transaction => isLikelyDuplicate(draft, transaction)) ??
+        seen.find(other => isLikelyDuplicate(draft, other)) ??
+        null;
+      seen.push(draft);
+    }
+
+    return preview;
+  } catch (error) {
+    console.error('Failed to build import preview:', error);
+    throw error;
+  }
+}
+
+// ============================================================
+// Insert
+// ============================================================
+
+/**
+ * Bulk insert imported transactions in batches. The user's rules fill in
+ * categories (and payment methods the file doesn't have) first.
+ * A failed batch is counted and skipped so the rest of the file still imports.
+ */
+export async function importTransactions(
+  drafts: ImportDraft[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    let rules: TransactionRule[] = [];
+    try {
+      rules = await getTransactionRules();
+    } catch (error) {
+      console.warn('Failed to load transaction rules, importing without them:', error);
+    }
+    const ruled = drafts.map(draft => {
+      const { matched, ...updates } = evaluateRules(draft, rules, { onlyEmpty: true });
+      return matched.length > 0 ? { ...draft, ...updates } : draft;
+    });
+
+    let inserted = 0;
+    let failed = 0;
+
+    for (let start = 0; start < ruled.length; start += IMPORT_BATCH_SIZE) {
+      const batch = ruled.slice(start, start + IMPORT_BATCH_SIZE);
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert(batch.map(draft => ({ ...draft, user_id: user.id })))
+        .select();
+
+      if (error) {
+        console.error('Error importing transaction batch:', error);
+        failed += batch.length;
+      } else {
+        inserted += data?.length ?? batch.length;
+        await recordTransactionCreates(user.id, (data ?? []) as Transaction[], 'import');
+      }
+
+      onProgress?.(Math.min(start + batch.length, drafts.length), drafts.length);
+    }
+
+    return { inserted, failed };
+  } catch (error) {
+    console.error('Failed to import transactions:', error);
+    throw error;
+  }
+}
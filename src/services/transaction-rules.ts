@@ -0,0 +1,349 @@
+import { supabase } from './supabase';
+import {
+  getAllMatchingTransactions,
+  updateTransaction,
+  type Transaction,
+  type TransactionUpdateInput,
+} from './transactions';
+import { parseSearchQuery, matchesSearchQuery, type SearchClause } from './search-query';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * A user-defined auto-categorization rule, e.g.
+ * `merchant:7-eleven` → Convenience, paid with Octopus, or
+ * `amount:>10000 type:income` → Salary.
+ *
+ * Conditions use the search query language (see search-query.ts). Rules are
+ * evaluated in priority order (lowest first); each field is set by the first
+ * matching rule that sets it.
+ */
+export interface TransactionRule {
+  id: string;
+  user_id: string;
+  name: string;
+  conditions: string;
+  // What the rule sets; null leaves the field alone
+  category_id: string | null;
+  payment_method: string | null;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TransactionRuleInput = Pick<TransactionRule, 'name' | 'conditions' | 'category_id' | 'payment_method'>
+  & Partial<Pick<TransactionRule, 'priority' | 'is_active'>>;
+
+// Fields a transaction needs for its rules to be evaluated
+export type RuleTarget = Pick<Transaction, 'amount' | 'merchant' | 'occurred_at' | 'source'>
+  & Partial<Pick<Transaction, 'category_id' | 'category' | 'note' | 'payment_method' | 'transfer_id' | 'items' | 'tags'>>;
+
+export interface RuleResult {
+  category_id?: string;
+  payment_method?: string;
+  // Rules that set something, in priority order
+  matched: TransactionRule[];
+}
+
+/**
+ * A change running the rules would make to an existing transaction
+ */
+export interface RuleChange {
+  transaction: Transaction;
+  updates: Pick<TransactionUpdateInput, 'category_id' | 'payment_method'>;
+  rule: TransactionRule;
+}
+
+// Last rules loaded, so new transactions are categorized while offline
+let cachedRules: TransactionRule[] | null = null;
+
+/**
+ * Parse a rule's conditions. A rule needs at least one valid clause so it
+ * can't match every transaction by accident.
+ */
+export function parseRuleConditions(conditions: string): { clauses: SearchClause[]; error: string | null } {
+  const { clauses, errors } = parseSearchQuery(conditions);
+  if (errors.length > 0) return { clauses, error: errors[0].message };
+  if (clauses.length === 0) return { clauses, error: 'Add at least one condition' };
+  return { clauses, error: null };
+}
+
+/**
+ * Evaluate active rules against a transaction.
+ *
+ * @param options.onlyEmpty - Only fill in a category or payment method the
+ *                            transaction doesn't have yet
+ */
+export function evaluateRules(
+  transaction: RuleTarget,
+  rules: TransactionRule[],
+  options?: { onlyEmpty?: boolean }
+): RuleResult {
+  const result: RuleResult = { matched: [] };
+  // Transfers are never categorized
+  if (transaction.transfer_id) return result;
+
+  const wantsCategory = !options?.onlyEmpty || !transaction.category_id;
+  const wantsPayment = !options?.onlyEmpty || !transaction.payment_method;
+
+  for (const rule of rules) {
+    if (!rule.is_active) continue;
+    const setsCategory = wantsCategory && !!rule.category_id && result.category_id === undefined;
+    const setsPayment = wantsPayment && !!rule.payment_method && result.payment_method === undefined;
+    if (!setsCategory && !setsPayment) continue;
+
+    const { clauses, error } = parseRuleConditions(rule.conditions);
+    if (error || !matchesSearchQuery(transaction as Transaction, clauses)) continue;
+
+    if (setsCategory) result.category_id = rule.category_id!;
+    if (setsPayment) result.payment_method = rule.payment_method!;
+    result.matched.push(rule);
+  }
+
+  return result;
+}
+
+/**
+ * Get the current user's rules in priority order.
+ * Falls back to the last loaded rules if the request fails (e.g. offline).
+ */
+export async function getTransactionRules() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('transaction_rules')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('priority')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching transaction rules:', error);
+    if (!cachedRules) throw error;
+    return cachedRules;
+  }
+
+  cachedRules = data as TransactionRule[];
+  return cachedRules;
+}
+
+/**
+ * Apply the user's rules to a transaction about to be created. Fields the
+ * caller already set are kept unless `overwrite` is passed (e.g. for a
+ * category guessed from a receipt). Returns the transaction unchanged if the
+ * rules can't be loaded.
+ *
+ * @example
+ * ```typescript
+ * const { transaction } = await applyTransactionRules(draft);
+ * await addTransaction(transaction);
+ * ```
+ */
+export async function applyTransactionRules<T extends RuleTarget>(
+  transaction: T,
+  options?: { overwrite?: boolean }
+): Promise<{ transaction: T; matched: TransactionRule[] }> {
+  let rules = cachedRules;
+  try {
+    rules = await getTransactionRules();
+  } catch (error) {
+    console.warn('Failed to load transaction rules, saving transaction as entered:', error);
+  }
+  if (!rules || rules.length === 0) {
+    return { transaction, matched: [] };
+  }
+
+  const { matched, ...updates } = evaluateRules(transaction, rules, { onlyEmpty: !options?.overwrite });
+  return { transaction: { ...transaction, ...updates }, matched };
+}
+
+function validateRule(input: Partial<TransactionRuleInput>) {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Rule name is required');
+  }
+  if (input.conditions !== undefined) {
+    const { error } = parseRuleConditions(input.conditions);
+    if (error) throw new Error(error);
+  }
+}
+
+/**
+ * Add a rule, after the existing ones unless a priority is given
+ */
+export async function addTransactionRule(input: TransactionRuleInput) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  validateRule(input);
+  if (!input.category_id && !input.payment_method?.trim()) {
+    throw new Error('Choose a category or payment method to set');
+  }
+
+  const rules = await getTransactionRules();
+  const { data, error } = await supabase
+    .from('transaction_rules')
+    .insert([{
+      user_id: user.id,
+      name: input.name.trim(),
+      conditions: input.conditions.trim(),
+      category_id: input.category_id || null,
+      payment_method: input.payment_method?.trim() || null,
+      priority: input.priority ?? rules.length + 1,
+      is_active: input.is_active ?? true,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding transaction rule:', error);
+    throw error;
+  }
+
+  cachedRules = [...rules, data as TransactionRule].sort((a, b) => a.priority - b.priority);
+  return data as TransactionRule;
+}
+
+/**
+ * Update a rule
+ */
+export async function updateTransactionRule(id: string, updates: Partial<TransactionRuleInput>) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  validateRule(updates);
+  const payload = {
+    ...updates,
+    ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+    ...(updates.conditions !== undefined ? { conditions: updates.conditions.trim() } : {}),
+    ...(updates.payment_method !== undefined ? { payment_method: updates.payment_method?.trim() || null } : {}),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabase
+    .from('transaction_rules')
+    .update(payload)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating transaction rule:', error);
+    throw error;
+  }
+
+  const rule = data as TransactionRule;
+  cachedRules = cachedRules
+    ?.map(existing => (existing.id === id ? rule : existing))
+    .sort((a, b) => a.priority - b.priority) ?? null;
+  return rule;
+}
+
+/**
+ * Save a new priority order; ids are given from highest to lowest priority
+ */
+export async function reorderTransactionRules(ids: string[]) {
+  for (let index = 0; index < ids.length; index++) {
+    await updateTransactionRule(ids[index], { priority: index + 1 });
+  }
+}
+
+/**
+ * Delete a rule. Transactions it categorized keep their category.
+ */
+export async function deleteTransactionRule(id: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('transaction_rules')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting transaction rule:', error);
+    throw error;
+  }
+
+  cachedRules = cachedRules?.filter(rule => rule.id !== id) ?? null;
+  return true;
+}
+
+/**
+ * Preview running the rules on existing transactions: the changes they
+ * would make, newest transaction first. Transfers are skipped, and so are
+ * payment method changes on reconciled transactions. Category changes on
+ * reconciled transactions are listed; applyRuleChanges only makes them when
+ * the user allows it.
+ *
+ * @param options.onlyEmpty - Only fill in missing categories and payment methods
+ */
+export async function previewRulesOnExisting(options?: { onlyEmpty?: boolean }): Promise<RuleChange[]> {
+  try {
+    const [rules, transactions] = await Promise.all([
+      getTransactionRules(),
+      getAllMatchingTransactions({ type: 'all' }),
+    ]);
+
+    const changes: RuleChange[] = [];
+    for (const transaction of transactions) {
+      if (transaction.transfer_id) continue;
+
+      const { matched, ...result } = evaluateRules(transaction, rules, options);
+      const updates: RuleChange['updates'] = {};
+      if (result.category_id && result.category_id !== transaction.category_id) {
+        updates.category_id = result.category_id;
+      }
+      if (
+        result.payment_method
+        && result.payment_method !== transaction.payment_method
+        && !transaction.reconciliation_id
+      ) {
+        updates.payment_method = result.payment_method;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        changes.push({ transaction, updates, rule: matched[0] });
+      }
+    }
+
+    return changes;
+  } catch (error) {
+    console.error('Failed to preview transaction rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Apply previewed rule changes. A change that fails is counted and skipped
+ * so the others are still saved.
+ *
+ * @param options.allowReconciled - The user confirmed changing reconciled
+ *                                  transactions; otherwise they are skipped
+ * @param options.onProgress - Called as changes are done with the number done so far
+ */
+export async function applyRuleChanges(
+  changes: RuleChange[],
+  options?: { allowReconciled?: boolean; onProgress?: (done: number, total: number) => void }
+) {
+  const allowReconciled = options?.allowReconciled ?? false;
+  const allowed = allowReconciled ? changes : changes.filter(change => !change.transaction.reconciliation_id);
+
+  let done = 0;
+  const results = await mapWithConcurrency(allowed, 4, async ({ transaction, updates }) => {
+    try {
+      return await updateTransaction(transaction.id, updates, {
+        base: transaction,
+        allowReconciled,
+        actor: 'rule',
+      });
+    } finally {
+      options?.onProgress?.(++done, allowed.length);
+    }
+  });
+
+  const failed = results.filter(result => result.status === 'rejected').length;
+  return { updated: allowed.length - failed, failed, skipped: changes.length - allowed.length };
+}
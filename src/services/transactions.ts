@@ -1,7 +1,15 @@
 import { supabase } from './supabase';
 import type { Category } from './categories';
 import type { ItemRow } from './items';
+import type { Tag } from './tags';
 import { getProfile } from './profiles';
+import { findAccountIdByName, getAccounts, type Account } from './accounts';
+import { resolveMerchantName } from './merchants';
+import { applyPendingChanges, cancelQueuedDelete, generateClientId, getOfflineUserId, submitOutboxOperation } from './outbox';
+import { restoreFromTrash } from './trash';
+import type { AuditSource } from './transaction-history';
+import { getSearchDateBounds, matchesSearchQuery, type AmountComparison, type SearchClause } from './search-query';
+import { fetchAllPages } from '../utils/pagination';
 
 export interface Transaction {
   id: string;
@@ -10,15 +18,24 @@ export interface Transaction {
   occurred_at: string;
   merchant: string | null;
   category_id: string | null;
-  source: 'manual' | 'ocr' | 'ai';
+  source: 'manual' | 'ocr' | 'ai' | 'recurring' | 'import';
   note: string | null;
   payment_method: string | null;
+  // Account the payment_method names (see accounts.ts); null for text that matches no account yet
+  account_id?: string | null;
+  // Set once the transaction was matched against a statement (see reconciliations.ts)
+  reconciliation_id?: string | null;
   created_at: string;
   updated_at: string;
   currency: string;
+  // Set when the transaction was posted by a recurring rule
+  recurring_rule_id?: string | null;
+  // Shared by the two legs of a transfer between payment methods (see transfers.ts)
+  transfer_id?: string | null;
   // Joined data (optional)
   category?: Category;
   items?: ItemRow[];
+  tags?: Tag[];
 }
 
 export type TransactionRealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
@@ -120,7 +137,7 @@ export async function getRecentTransactions(limit: number = 10) {
       throw error;
     }
 
-    return data as Transaction[];
+    return await applyPendingChanges(data as Transaction[], { limit });
   } catch (error) {
     console.error('Failed to fetch recent transactions:', error);
     throw error;
@@ -154,15 +171,88 @@ export async function getTransactionsByDateRange(startDate: string, endDate: str
       throw error;
     }
 
-    return data as Transaction[];
+    return await applyPendingChanges(data as Transaction[], { startDate, endDate });
   } catch (error) {
     console.error('Failed to fetch transactions by date range:', error);
     throw error;
   }
 }
 
+export interface CategorySplit {
+  categoryId: string | null;
+  categoryName: string;
+  amount: number;
+}
+
+/**
+ * Split a transaction's amount across categories.
+ * Items with their own category take their line total (quantity x unit price);
+ * the remainder stays with the transaction's category. If the itemized lines add
+ * up to more than the transaction (e.g. discounts), they are scaled down to fit.
+ *
+ * @param total - Absolute amount to split, e.g. the amount already converted to
+ *                another currency. Defaults to |transaction.amount|.
+ */
+export function splitTransactionByCategory(
+  transaction: Pick<Transaction, 'amount' | 'category_id' | 'category' | 'items'>,
+  total: number = Math.abs(transaction.amount)
+): CategorySplit[] {
+  const original = Math.abs(transaction.amount);
+  if (original === 0) {
+    return [];
+  }
+  const scale = total / original;
+
+  const categorizedItems = (transaction.items || [])
+    .filter((item) => item.category_id)
+    .map((item) => ({ item, lineTotal: Math.abs((item.item_amount || 0) * (item.item_price || 0)) }))
+    .filter(({ lineTotal }) => lineTotal > 0);
+
+  const itemizedTotal = categorizedItems.reduce((sum, { lineTotal }) => sum + lineTotal, 0);
+  const fit = itemizedTotal > original ? original / itemizedTotal : 1;
+
+  const splits = new Map<string, CategorySplit>();
+  const addSplit = (categoryId: string | null, categoryName: string | undefined, amount: number) => {
+    const key = categoryId ?? 'uncategorized';
+    const existing = splits.get(key);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      splits.set(key, { categoryId, categoryName: categoryName || 'Uncategorized', amount });
+    }
+  };
+
+  categorizedItems.forEach(({ item, lineTotal }) => {
+    addSplit(item.category_id ?? null, item.category?.name, lineTotal * fit * scale);
+  });
+
+  const remainder = (original - itemizedTotal * fit) * scale;
+  if (remainder > 0.005) {
+    addSplit(transaction.category_id ?? null, transaction.category?.name, remainder);
+  }
+
+  return Array.from(splits.values());
+}
+
+/**
+ * Group expenses by category name and sum their amounts
+ */
+export function buildSpendingBreakdown(
+  transactions: Pick<Transaction, 'amount' | 'category_id' | 'category' | 'items' | 'transfer_id'>[]
+): Record<string, number> {
+  return transactions
+    .filter((transaction) => transaction.amount < 0 && !transaction.transfer_id)
+    .reduce((acc, transaction) => {
+      splitTransactionByCategory(transaction).forEach(({ categoryName, amount }) => {
+        acc[categoryName] = (acc[categoryName] || 0) + amount;
+      });
+      return acc;
+    }, {} as Record<string, number>);
+}
+
 /**
  * Calculate spending breakdown by category
+ * Itemized lines with their own category are attributed to that category
  */
 export async function getSpendingBreakdown(startDate: string, endDate: string) {
   try {
@@ -176,29 +266,22 @@ export async function getSpendingBreakdown(startDate: string, endDate: string) {
       .from('transactions')
       .select(`
         amount,
-        category:categories(name)
+        category_id,
+        category:categories(name),
+        items(item_amount, item_price, category_id, category:categories(name))
       `)
       .eq('user_id', user.id)
       .gte('occurred_at', startDate)
       .lte('occurred_at', endDate)
-      .lt('amount', 0); // Only expenses (negative amounts)
+      .lt('amount', 0) // Only expenses (negative amounts)
+      .is('transfer_id', null); // Transfers move money, they are not spending
 
     if (error) {
       console.error('Error fetching spending breakdown:', error);
       throw error;
     }
 
-    // Group by category and sum amounts
-    const breakdown = (data as any[]).reduce((acc, transaction) => {
-      const categoryName = transaction.category?.name || 'Uncategorized';
-      if (!acc[categoryName]) {
-        acc[categoryName] = 0;
-      }
-      acc[categoryName] += Math.abs(transaction.amount);
-      return acc;
-    }, {} as Record<string, number>);
-
-    return breakdown;
+    return buildSpendingBreakdown(data as any[]);
   } catch (error) {
     console.error('Failed to fetch spending breakdown:', error);
     throw error;
@@ -229,7 +312,8 @@ export async function getIncomeAndExpenses(
       .select('amount, currency')
       .eq('user_id', user.id)
       .gte('occurred_at', startDate)
-      .lte('occurred_at', endDate);
+      .lte('occurred_at', endDate)
+      .is('transfer_id', null); // Transfers are neither income nor expenses
 
     if (error) {
       console.error('Error fetching income and expenses:', error);
@@ -301,10 +385,10 @@ export async function getBalancesByPaymentMethod(
       throw new Error('User not authenticated');
     }
 
-    // Fetch all transactions with amount, payment_method, and currency
+    // Fetch all transactions with amount, payment method and currency
     const { data, error } = await supabase
       .from('transactions')
-      .select('amount, payment_method, currency')
+      .select('amount, payment_method, account_id, currency')
       .eq('user_id', user.id);
 
     if (error) {
@@ -312,35 +396,44 @@ export async function getBalancesByPaymentMethod(
       throw error;
     }
 
+    const convert = async (amount: number, currency: string | null) => {
+      if (!options?.convertToUserCurrency || !options?.userCurrency || !currency || currency === options.userCurrency) {
+        return amount;
+      }
+      try {
+        const result = await options.convertToUserCurrency(Math.abs(amount), currency);
+        return amount >= 0 ? result.convertedAmount : -result.convertedAmount;
+      } catch (e) {
+        console.warn(`Failed to convert currency for transaction ${amount} ${currency} to ${options.userCurrency}`, e);
+        return amount;
+      }
+    };
+
     const balances: Record<string, number> = {};
-    
-    // Initialize with 0 for known payment methods so they appear in the list
-    const { getPaymentMethods } = await import('./payment-methods');
-    const knownMethods = await getPaymentMethods();
-    knownMethods.forEach(m => {
-        balances[m.name] = 0;
+
+    // Active accounts start at their opening balance so they appear in the list
+    const accounts: Account[] = await getAccounts({ includeArchived: true }).catch((error) => {
+      console.warn('Failed to load accounts for balances:', error);
+      return [];
     });
+    const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+    for (const account of accounts) {
+      if (account.is_archived && !account.opening_balance) continue;
+      balances[account.name] = await convert(account.opening_balance || 0, account.currency);
+    }
 
     // Aggregate amounts
-    for (const t of (data as { amount: number; payment_method: string | null; currency: string }[])) {
-      if (t.payment_method) {
-        let amount = t.amount;
-
-        // Convert if needed
-        if (options?.convertToUserCurrency && options?.userCurrency && t.currency && t.currency !== options.userCurrency) {
-            try {
-                const result = await options.convertToUserCurrency(Math.abs(amount), t.currency);
-                amount = amount >= 0 ? result.convertedAmount : -result.convertedAmount;
-            } catch (e) {
-                console.warn(`Failed to convert currency for transaction ${t.amount} ${t.currency} to ${options.userCurrency}`, e);
-            }
-        }
-
-        // If the payment method is not in the known list (e.g. custom or old), add it
-        if (balances[t.payment_method] === undefined) {
-            balances[t.payment_method] = 0;
+    for (const t of (data as { amount: number; payment_method: string | null; account_id: string | null; currency: string }[])) {
+      // Linked transactions follow their account (e.g. after a rename); others group by their text
+      const name = (t.account_id && accountNames.get(t.account_id)) || t.payment_method;
+      if (name) {
+        const amount = await convert(t.amount, t.currency);
+
+        // If the payment method is not an account (e.g. old free text not migrated yet), add it
+        if (balances[name] === undefined) {
+            balances[name] = 0;
         }
-        balances[t.payment_method] += amount;
+        balances[name] += amount;
       }
     }
     
@@ -351,36 +444,54 @@ export async function getBalancesByPaymentMethod(
   }
 }
 
+/**
+ * A new transaction as it is saved: the merchant under its canonical name
+ * (see merchants.ts) and linked to the account its payment method names
+ */
+export async function prepareTransactionRow<T extends Pick<Transaction, 'merchant' | 'payment_method' | 'account_id'>>(
+  transaction: T
+): Promise<T> {
+  return {
+    ...transaction,
+    merchant: await resolveMerchantName(transaction.merchant),
+    account_id: transaction.account_id ?? findAccountIdByName(transaction.payment_method),
+  };
+}
+
 /**
  * Add a new transaction
+ * Written through the offline outbox: when the device is offline the
+ * transaction is kept locally (with its final id) and synced later.
+ * The merchant is saved under its canonical name (see merchants.ts).
+ *
+ * @param options.actor - Who added it, for the edit history; defaults to the transaction's source
  */
 export async function addTransaction(
-  transaction: Omit<Transaction, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+  transaction: Omit<Transaction, 'id' | 'user_id' | 'created_at' | 'updated_at'>,
+  options?: { actor?: AuditSource }
 ) {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
-
-    const { data, error } = await supabase
-      .from('transactions')
-      .insert([
-        {
-          ...transaction,
-          user_id: user.id,
-        }
-      ])
-      .select()
-      .single();
+    const id = generateClientId();
+    const row = await prepareTransactionRow(transaction);
+    const result = await submitOutboxOperation<Transaction>({
+      kind: 'addTransaction',
+      transactionId: id,
+      row,
+      actor: options?.actor ?? transaction.source,
+    });
 
-    if (error) {
-      console.error('Error adding transaction:', error);
-      throw error;
+    if (result.status === 'synced' && result.data) {
+      return result.data;
     }
 
-    return data as Transaction;
+    const now = new Date().toISOString();
+    return {
+      ...row,
+      id,
+      user_id: (await getOfflineUserId())!,
+      created_at: now,
+      updated_at: now,
+    } as Transaction;
   } catch (error) {
     console.error('Failed to add transaction:', error);
     throw error;
@@ -395,17 +506,28 @@ export interface TransactionUpdateInput {
   occurred_at?: string;
   merchant?: string | null;
   category_id?: string | null;
-  source?: 'manual' | 'ocr' | 'ai';
+  source?: 'manual' | 'ocr' | 'ai' | 'recurring' | 'import';
   note?: string | null;
   payment_method?: string | null;
+  account_id?: string | null;
+  currency?: string;
 }
 
 /**
  * Update an existing transaction
  * Supports updating all transaction fields including category, amount, merchant, etc.
  * 
+ * Goes through the offline outbox; while offline the returned transaction is
+ * the local result and the edit is replayed later.
+ * 
  * @param id - Transaction ID to update
- * @param updates - Fields to update (amount, occurred_at, merchant, category_id, note, payment_method, source)
+ * @param updates - Fields to update (amount, occurred_at, merchant, category_id, note, payment_method, source, currency)
+ * @param options.base - The transaction as the user saw it; lets a replayed edit
+ *                       detect fields that were changed elsewhere in the meantime
+ * @param options.allowReconciled - The user confirmed editing a reconciled transaction;
+ *                                  without it such edits are rejected
+ * @param options.actor - Who made the change, for the edit history (see
+ *                        transaction-history.ts); defaults to 'manual'
  * @returns Updated transaction with category information
  * 
  * @example
@@ -420,7 +542,8 @@ export interface TransactionUpdateInput {
  */
 export async function updateTransaction(
   id: string,
-  updates: TransactionUpdateInput
+  updates: TransactionUpdateInput,
+  options?: { base?: Transaction; allowReconciled?: boolean; actor?: AuditSource }
 ) {
   try {
     // Validate input
@@ -442,39 +565,46 @@ export async function updateTransaction(
       throw new Error('occurred_at cannot be empty');
     }
 
+    if (updates.currency !== undefined && !/^[A-Z]{3}$/.test(updates.currency)) {
+      throw new Error('Currency must be a 3-letter currency code');
+    }
+
     // Validate source if provided
-    if (updates.source !== undefined && !['manual', 'ocr', 'ai'].includes(updates.source)) {
-      throw new Error('Invalid source value. Must be "manual", "ocr", or "ai"');
+    if (updates.source !== undefined && !['manual', 'ocr', 'ai', 'recurring', 'import'].includes(updates.source)) {
+      throw new Error('Invalid source value. Must be "manual", "ocr", "ai", "recurring" or "import"');
     }
 
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
-      throw new Error('User not authenticated');
+    // Keep the account link in step with the payment method
+    if (updates.payment_method !== undefined && updates.account_id === undefined) {
+      updates = { ...updates, account_id: findAccountIdByName(updates.payment_method) };
     }
 
-    // Update the transaction
-    const { data, error } = await supabase
-      .from('transactions')
-      .update(updates)
-      .eq('id', id)
-      .eq('user_id', user.id)
-      .select(`
-        *,
-        category:categories(*)
-      `)
-      .single();
+    const { base, allowReconciled, actor } = options || {};
+    if (base?.reconciliation_id && !allowReconciled) {
+      throw new Error('Transaction is reconciled; confirm before changing it');
+    }
 
-    if (error) {
-      console.error('Error updating transaction:', error);
-      throw error;
+    const result = await submitOutboxOperation<Transaction>({
+      kind: 'updateTransaction',
+      transactionId: id,
+      updates: { ...updates },
+      base: base
+        ? Object.fromEntries(Object.keys(updates).map(field => [field, base[field as keyof Transaction]]))
+        : null,
+      baseUpdatedAt: base?.updated_at ?? null,
+      allowReconciled,
+      actor,
+    });
+
+    if (result.status === 'pending') {
+      return { ...base, ...updates, id } as Transaction;
     }
 
-    if (!data) {
+    if (!result.data) {
       throw new Error('Transaction not found or you do not have permission to update it');
     }
 
-    return data as Transaction;
+    return result.data;
   } catch (error) {
     console.error('Failed to update transaction:', error);
     throw error;
@@ -483,29 +613,60 @@ export async function updateTransaction(
 
 /**
  * Delete a transaction
+ * Goes through the offline outbox, like addTransaction and updateTransaction.
+ * The transaction is moved to the trash for 30 days (see trash.ts); see
+ * undoDeleteTransactions.
+ *
+ * @param options.baseUpdatedAt - updated_at of the transaction the user deleted; a
+ *                                delete replayed later is skipped if the transaction
+ *                                was edited elsewhere after that
+ * @param options.allowReconciled - The user confirmed deleting a reconciled transaction
+ * @param options.actor - Who deleted it, for the edit history; defaults to 'manual'
  */
-export async function deleteTransaction(id: string) {
+export async function deleteTransaction(
+  id: string,
+  options?: { baseUpdatedAt?: string; allowReconciled?: boolean; actor?: AuditSource }
+) {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
-      throw new Error('User not authenticated');
-    }
+    await submitOutboxOperation<boolean>({
+      kind: 'deleteTransaction',
+      transactionId: id,
+      baseUpdatedAt: options?.baseUpdatedAt ?? null,
+      allowReconciled: options?.allowReconciled,
+      actor: options?.actor,
+    });
 
-    const { error } = await supabase
-      .from('transactions')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete transaction:', error);
+    throw error;
+  }
+}
 
-    if (error) {
-      console.error('Error deleting transaction:', error);
-      throw error;
+/**
+ * Undo deleting transactions: deletes still queued offline are dropped, the
+ * rest are restored from the trash. A transaction that never reached the
+ * server can't be brought back.
+ *
+ * @param options.actor - Who undid it, for the edit history; defaults to 'manual'
+ * @returns How many transactions came back
+ */
+export async function undoDeleteTransactions(ids: string[], options?: { actor?: AuditSource }) {
+  try {
+    let undone = 0;
+    const deleted: string[] = [];
+    for (const id of ids) {
+      if (await cancelQueuedDelete(id)) undone++;
+      else deleted.push(id);
     }
 
-    return true;
+    if (deleted.length > 0) {
+      const restored = await restoreFromTrash(deleted, options);
+      undone += restored.filter(transaction => deleted.includes(transaction.id)).length;
+    }
+    return undone;
   } catch (error) {
-    console.error('Failed to delete transaction:', error);
+    console.error('Failed to undo delete:', error);
     throw error;
   }
 }
@@ -521,38 +682,90 @@ export async function getAllTransactions() {
       throw new Error('User not authenticated');
     }
 
-    const { data, error } = await supabase
-      .from('transactions')
-      .select(`
-        *,
-        category:categories(*),
-        items(*)
-      `)
-      .eq('user_id', user.id)
-      .order('occurred_at', { ascending: false });
-
-    if (error) {
+    // Paged: a single request stops at PostgREST's row limit
+    let data: Transaction[];
+    try {
+      data = await fetchAllPages<Transaction>((from, to) =>
+        supabase
+          .from('transactions')
+          .select(`
+            *,
+            category:categories(*),
+            items(*, category:categories(*)),
+            tags(*)
+          `)
+          .eq('user_id', user.id)
+          .order('occurred_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(from, to)
+      );
+    } catch (error) {
       console.error('Error fetching all transactions:', error);
       throw error;
     }
 
-    return data as Transaction[];
+    return await applyPendingChanges(data);
   } catch (error) {
     console.error('Failed to fetch all transactions:', error);
     throw error;
   }
 }
 
+/**
+ * Transactions added or edited at or after `since`, with the same joins as
+ * getAllTransactions. Deleted ones don't show up here; see getTrashedIdsSince.
+ */
+export async function getTransactionsUpdatedSince(since: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    return await fetchAllPages<Transaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select(`
+          *,
+          category:categories(*),
+          items(*, category:categories(*)),
+          tags(*)
+        `)
+        .eq('user_id', user.id)
+        .gte('updated_at', since)
+        .order('updated_at')
+        .order('id')
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error('Failed to fetch updated transactions:', error);
+    throw error;
+  }
+}
+
 export type TransactionFilter = {
-  type?: 'all' | 'income' | 'expense';
+  // Income and expense exclude transfers; 'transfer' matches only transfer legs
+  type?: 'all' | 'income' | 'expense' | 'transfer';
   searchQuery?: string;
   startDate?: string;
   endDate?: string;
   categoryId?: string;
+  categoryIds?: string[];
+  // Transactions carrying any of these tags
+  tagIds?: string[];
+  paymentMethods?: string[];
+  source?: Transaction['source'];
+  // Bounds on the absolute amount, so they apply to income and expenses alike
+  minAmount?: number;
+  maxAmount?: number;
+  // Parsed structured search (see parseSearchQuery), ANDed with the filters above
+  query?: SearchClause[];
 };
 
 /**
  * Filter transactions based on criteria
+ * In-memory counterpart of the server-side filters in getTransactionsPage
  */
 export function filterTransactions(
   transactions: Transaction[],
@@ -563,15 +776,17 @@ export function filterTransactions(
   // Apply type filter
   if (filter.type && filter.type !== 'all') {
     if (filter.type === 'income') {
-      filtered = filtered.filter((t) => t.amount > 0);
+      filtered = filtered.filter((t) => t.amount > 0 && !t.transfer_id);
     } else if (filter.type === 'expense') {
-      filtered = filtered.filter((t) => t.amount < 0);
+      filtered = filtered.filter((t) => t.amount < 0 && !t.transfer_id);
+    } else if (filter.type === 'transfer') {
+      filtered = filtered.filter((t) => !!t.transfer_id);
     }
   }
 
   // Apply search query
   if (filter.searchQuery && filter.searchQuery.trim()) {
-    const query = filter.searchQuery.toLowerCase();
+    const query = filter.searchQuery.trim().toLowerCase();
     filtered = filtered.filter(
       (t) =>
         t.merchant?.toLowerCase().includes(query) ||
@@ -583,32 +798,517 @@ export function filterTransactions(
 
   // Apply date range filter
   if (filter.startDate) {
-    filtered = filtered.filter((t) => t.occurred_at >= filter.startDate!);
+    const start = new Date(filter.startDate).getTime();
+    filtered = filtered.filter((t) => new Date(t.occurred_at).getTime() >= start);
   }
   if (filter.endDate) {
-    filtered = filtered.filter((t) => t.occurred_at <= filter.endDate!);
+    const end = new Date(filter.endDate).getTime();
+    filtered = filtered.filter((t) => new Date(t.occurred_at).getTime() <= end);
   }
 
   // Apply category filter
   if (filter.categoryId) {
     filtered = filtered.filter((t) => t.category_id === filter.categoryId);
   }
+  if (filter.categoryIds && filter.categoryIds.length > 0) {
+    filtered = filtered.filter((t) => !!t.category_id && filter.categoryIds!.includes(t.category_id));
+  }
+
+  // Apply tag filter
+  if (filter.tagIds && filter.tagIds.length > 0) {
+    filtered = filtered.filter((t) => !!t.tags?.some((tag) => filter.tagIds!.includes(tag.id)));
+  }
+
+  // Apply payment method filter
+  if (filter.paymentMethods && filter.paymentMethods.length > 0) {
+    filtered = filtered.filter((t) => !!t.payment_method && filter.paymentMethods!.includes(t.payment_method));
+  }
+
+  // Apply source filter
+  if (filter.source) {
+    filtered = filtered.filter((t) => t.source === filter.source);
+  }
+
+  // Apply amount range filter
+  if (filter.minAmount !== undefined) {
+    filtered = filtered.filter((t) => Math.abs(t.amount) >= filter.minAmount!);
+  }
+  if (filter.maxAmount !== undefined) {
+    filtered = filtered.filter((t) => Math.abs(t.amount) <= filter.maxAmount!);
+  }
+
+  // Apply structured search
+  if (filter.query && filter.query.length > 0) {
+    filtered = filtered.filter((t) => matchesSearchQuery(t, filter.query!));
+  }
+
+  return filtered;
+}
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 50;
+
+/**
+ * Position after the last row of a page. Pages are ordered by occurred_at
+ * (newest first) with id as a tie-breaker, so the cursor stays stable while
+ * rows are added or removed.
+ */
+export interface TransactionCursor {
+  occurredAt: string;
+  id: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  // null when there are no more rows
+  nextCursor: TransactionCursor | null;
+}
+
+// Escape LIKE wildcards typed by the user
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Quote a value for a PostgREST or() filter so commas, dots and parentheses are taken literally
+function quoteFilterValue(value: string) {
+  return `"${value.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+}
+
+async function findCategoryIdsByName(userId: string, likePattern: string) {
+  const { data, error } = await supabase.from('categories').select('id').eq('user_id', userId).ilike('name', likePattern);
+  if (error) throw error;
+  return (data ?? []).map((row: { id: string }) => row.id);
+}
+
+async function findTagIdsByName(userId: string, likePattern: string) {
+  const { data, error } = await supabase.from('tags').select('id').eq('user_id', userId).ilike('name', likePattern);
+  if (error) throw error;
+  return (data ?? []).map((row: { id: string }) => row.id);
+}
+
+// Prefix of the embedded items and tags that filters match against; see getFilterEmbeds
+const FILTER_EMBED_PREFIX = 'filter_';
+
+/**
+ * Item and tag joins a filter matches against. Filtering on an embedded
+ * resource keeps the request the same size however many transactions match,
+ * where a list of their ids (`id.in.(...)`) could outgrow the URL.
+ * Each join is embedded under its own alias and removed from the results by
+ * stripFilterEmbeds.
+ */
+function getFilterEmbeds(filter: TransactionFilter) {
+  const embeds: string[] = [];
+  if (filter.tagIds && filter.tagIds.length > 0) {
+    embeds.push(`${FILTER_EMBED_PREFIX}tags:transaction_tags(tag_id)`);
+  }
+  if (filter.searchQuery && filter.searchQuery.trim()) {
+    embeds.push(`${FILTER_EMBED_PREFIX}search:items(item_name)`);
+  }
+  filter.query?.forEach((clause, index) => {
+    if (clause.field === 'text' || clause.field === 'item') {
+      embeds.push(`${FILTER_EMBED_PREFIX}${index}:items(item_name)`);
+    } else if (clause.field === 'tag') {
+      embeds.push(`${FILTER_EMBED_PREFIX}${index}:transaction_tags(tag_id)`);
+    }
+  });
+  return embeds;
+}
+
+/**
+ * Select `columns` of the transactions table, plus the joins `filter` needs
+ */
+function selectTransactions(columns: string, filter: TransactionFilter) {
+  return supabase
+    .from('transactions')
+    // Rows are untyped, like every other query on the (schema-less) client
+    .select<string, any>([columns, ...getFilterEmbeds(filter)].join(','));
+}
+
+// A transactions query, before ordering and paging
+type TransactionQuery = ReturnType<typeof selectTransactions>;
+
+function stripFilterEmbeds<T extends object>(rows: T[]): T[] {
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).filter(([key]) => !key.startsWith(FILTER_EMBED_PREFIX))
+  ) as T);
+}
+
+/**
+ * Categories and tags a filter names, looked up before the query is built
+ * (a user has few of either, so their ids make short lists)
+ */
+interface FilterLookups {
+  // Categories matching filter.searchQuery
+  searchCategoryIds: string[];
+  // Per clause of filter.query: matching category ids for text and category
+  // clauses, matching tag ids for tag clauses
+  clauseIds: string[][];
+}
+
+async function resolveFilterLookups(userId: string, filter: TransactionFilter): Promise<FilterLookups> {
+  const searchText = filter.searchQuery?.trim();
+  const [searchCategoryIds, clauseIds] = await Promise.all([
+    searchText ? findCategoryIdsByName(userId, `%${escapeLike(searchText)}%`) : [],
+    Promise.all((filter.query ?? []).map(clause => {
+      switch (clause.field) {
+        case 'text':
+        case 'category':
+          return findCategoryIdsByName(userId, `%${escapeLike(clause.value)}%`);
+        case 'tag':
+          return findTagIdsByName(userId, `%${escapeLike(clause.value)}%`);
+        default:
+          return [];
+      }
+    })),
+  ]);
+  return { searchCategoryIds, clauseIds };
+}
+
+/**
+ * Free-text search over merchant, note, category name and item names, or
+ * (negated) transactions matching none of them. Item names are matched
+ * through the `itemsAlias` embed.
+ */
+function applyTextSearch(
+  query: TransactionQuery,
+  text: string,
+  categoryIds: string[],
+  itemsAlias: string,
+  negate: boolean
+) {
+  const likePattern = `%${escapeLike(text.trim())}%`;
+  const pattern = quoteFilterValue(likePattern);
+  const matchingItems = query.ilike(`${itemsAlias}.item_name`, likePattern);
+
+  if (negate) {
+    let filtered = matchingItems
+      .is(itemsAlias, null)
+      .or(`merchant.is.null,merchant.not.ilike.${pattern}`)
+      .or(`note.is.null,note.not.ilike.${pattern}`);
+    if (categoryIds.length > 0) {
+      filtered = filtered.or(`category_id.is.null,category_id.not.in.(${categoryIds.join(',')})`);
+    }
+    return filtered;
+  }
+
+  const conditions = [`merchant.ilike.${pattern}`, `note.ilike.${pattern}`, `${itemsAlias}.not.is.null`];
+  if (categoryIds.length > 0) {
+    conditions.push(`category_id.in.(${categoryIds.join(',')})`);
+  }
+  return matchingItems.or(conditions.join(','));
+}
+
+/**
+ * PostgREST or() alternatives for a comparison on |amount|, or its negation
+ */
+export function buildAmountCondition(comparison: AmountComparison, negate: boolean): string {
+  if (comparison.op === 'range') {
+    const { min, max } = comparison;
+    return negate
+      ? `and(amount.gt.${-min},amount.lt.${min}),amount.gt.${max},amount.lt.${-max}`
+      : `and(amount.gte.${min},amount.lte.${max}),and(amount.gte.${-max},amount.lte.${-min})`;
+  }
+
+  const { value } = comparison;
+  if (comparison.op === '=') {
+    return negate
+      ? `and(amount.neq.${value},amount.neq.${-value})`
+      : `amount.eq.${value},amount.eq.${-value}`;
+  }
+
+  // not(> v) is (<= v) and so on
+  const inverse = { '>': '<=', '>=': '<', '<': '>=', '<=': '>' } as const;
+  const op = negate ? inverse[comparison.op] : comparison.op;
+  switch (op) {
+    case '>': return `amount.gt.${value},amount.lt.${-value}`;
+    case '>=': return `amount.gte.${value},amount.lte.${-value}`;
+    case '<': return `and(amount.gt.${-value},amount.lt.${value})`;
+    case '<=': return `and(amount.gte.${-value},amount.lte.${value})`;
+  }
+}
+
+const SEARCH_COLUMNS = { merchant: 'merchant', note: 'note', payment: 'payment_method' } as const;
+
+/**
+ * Apply structured search clauses (see parseSearchQuery) to a transactions query
+ */
+function applySearchClauses(query: TransactionQuery, clauses: SearchClause[], clauseIds: string[][]) {
+  let filtered = query;
+
+  for (const [index, clause] of clauses.entries()) {
+    // Items or tags joined for this clause (see getFilterEmbeds)
+    const embedAlias = `${FILTER_EMBED_PREFIX}${index}`;
+
+    switch (clause.field) {
+      case 'text':
+        filtered = applyTextSearch(filtered, clause.value, clauseIds[index], embedAlias, clause.negate);
+        break;
+      case 'merchant':
+      case 'note':
+      case 'payment': {
+        const column = SEARCH_COLUMNS[clause.field];
+        const likePattern = `%${escapeLike(clause.value)}%`;
+        filtered = clause.negate
+          ? filtered.or(`${column}.is.null,${column}.not.ilike.${quoteFilterValue(likePattern)}`)
+          : filtered.ilike(column, likePattern);
+        break;
+      }
+      case 'category': {
+        const categoryIds = clauseIds[index];
+        if (clause.negate) {
+          if (categoryIds.length > 0) {
+            filtered = filtered.or(`category_id.is.null,category_id.not.in.(${categoryIds.join(',')})`);
+          }
+        } else {
+          filtered = filtered.in('category_id', categoryIds);
+        }
+        break;
+      }
+      case 'item':
+      case 'tag': {
+        const likePattern = `%${escapeLike(clause.value)}%`;
+        if (clause.field === 'item') {
+          filtered = filtered.ilike(`${embedAlias}.item_name`, likePattern);
+        } else {
+          const tagIds = clauseIds[index];
+          if (tagIds.length === 0) {
+            // No such tag: nothing carries it, everything lacks it
+            if (!clause.negate) filtered = filtered.in('id', []);
+            break;
+          }
+          filtered = filtered.in(`${embedAlias}.tag_id`, tagIds);
+        }
+        filtered = clause.negate ? filtered.is(embedAlias, null) : filtered.not(embedAlias, 'is', null);
+        break;
+      }
+      case 'amount':
+        filtered = filtered.or(buildAmountCondition(clause.comparison, clause.negate));
+        break;
+      case 'before':
+      case 'after':
+      case 'on': {
+        const { start, end } = getSearchDateBounds(clause.date);
+        const startISO = start.toISOString();
+        const endISO = end.toISOString();
+        if (clause.field === 'before') {
+          filtered = clause.negate ? filtered.gte('occurred_at', startISO) : filtered.lt('occurred_at', startISO);
+        } else if (clause.field === 'after') {
+          filtered = clause.negate ? filtered.lte('occurred_at', endISO) : filtered.gt('occurred_at', endISO);
+        } else if (clause.negate) {
+          filtered = filtered.or(`occurred_at.lt.${quoteFilterValue(startISO)},occurred_at.gt.${quoteFilterValue(endISO)}`);
+        } else {
+          filtered = filtered.gte('occurred_at', startISO).lte('occurred_at', endISO);
+        }
+        break;
+      }
+      case 'source':
+        filtered = clause.negate ? filtered.neq('source', clause.value) : filtered.eq('source', clause.value);
+        break;
+      case 'type':
+        if (clause.value === 'transfer') {
+          filtered = clause.negate ? filtered.is('transfer_id', null) : filtered.not('transfer_id', 'is', null);
+        } else if (clause.negate) {
+          filtered = filtered.or(
+            `amount.${clause.value === 'income' ? 'lte' : 'gte'}.0,transfer_id.not.is.null`
+          );
+        } else {
+          filtered = (clause.value === 'income' ? filtered.gt('amount', 0) : filtered.lt('amount', 0))
+            .is('transfer_id', null);
+        }
+        break;
+    }
+  }
 
   return filtered;
 }
 
+/**
+ * Apply a TransactionFilter to a query from selectTransactions
+ */
+function applyTransactionFilter(
+  query: TransactionQuery,
+  userId: string,
+  filter: TransactionFilter,
+  lookups: FilterLookups
+) {
+  let filtered = query.eq('user_id', userId);
+
+  if (filter.type === 'income') {
+    filtered = filtered.gt('amount', 0).is('transfer_id', null);
+  } else if (filter.type === 'expense') {
+    filtered = filtered.lt('amount', 0).is('transfer_id', null);
+  } else if (filter.type === 'transfer') {
+    filtered = filtered.not('transfer_id', 'is', null);
+  }
+
+  if (filter.startDate) {
+    filtered = filtered.gte('occurred_at', filter.startDate);
+  }
+  if (filter.endDate) {
+    filtered = filtered.lte('occurred_at', filter.endDate);
+  }
+
+  if (filter.categoryId) {
+    filtered = filtered.eq('category_id', filter.categoryId);
+  }
+  if (filter.categoryIds && filter.categoryIds.length > 0) {
+    filtered = filtered.in('category_id', filter.categoryIds);
+  }
+  if (filter.tagIds && filter.tagIds.length > 0) {
+    filtered = filtered
+      .in(`${FILTER_EMBED_PREFIX}tags.tag_id`, filter.tagIds)
+      .not(`${FILTER_EMBED_PREFIX}tags`, 'is', null);
+  }
+  if (filter.paymentMethods && filter.paymentMethods.length > 0) {
+    filtered = filtered.in('payment_method', filter.paymentMethods);
+  }
+  if (filter.source) {
+    filtered = filtered.eq('source', filter.source);
+  }
+
+  // |amount| >= min  ⇔  amount >= min OR amount <= -min
+  if (filter.minAmount !== undefined && filter.minAmount > 0) {
+    filtered = filtered.or(`amount.gte.${filter.minAmount},amount.lte.${-filter.minAmount}`);
+  }
+  if (filter.maxAmount !== undefined) {
+    filtered = filtered.gte('amount', -filter.maxAmount).lte('amount', filter.maxAmount);
+  }
+
+  if (filter.searchQuery && filter.searchQuery.trim()) {
+    filtered = applyTextSearch(filtered, filter.searchQuery, lookups.searchCategoryIds, `${FILTER_EMBED_PREFIX}search`, false);
+  }
+
+  if (filter.query && filter.query.length > 0) {
+    filtered = applySearchClauses(filtered, filter.query, lookups.clauseIds);
+  }
+
+  return filtered;
+}
+
+/**
+ * Fetch one page of the current user's transactions, filtered in Postgres
+ * Queued offline changes are applied on top (new ones only on the first page).
+ *
+ * @example
+ * ```typescript
+ * const first = await getTransactionsPage({ type: 'expense', searchQuery: 'coffee' });
+ * const second = await getTransactionsPage({ type: 'expense', searchQuery: 'coffee' }, { cursor: first.nextCursor });
+ * ```
+ */
+export async function getTransactionsPage(
+  filter: TransactionFilter = {},
+  options: { cursor?: TransactionCursor | null; pageSize?: number } = {}
+): Promise<TransactionPage> {
+  try {
+    const { cursor = null, pageSize = DEFAULT_TRANSACTION_PAGE_SIZE } = options;
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    let query = applyTransactionFilter(
+      selectTransactions(`
+        *,
+        category:categories(*),
+        items(*, category:categories(*)),
+        tags(*)
+      `, filter),
+      user.id,
+      filter,
+      await resolveFilterLookups(user.id, filter)
+    );
+
+    if (cursor) {
+      query = query.or(
+        `occurred_at.lt.${quoteFilterValue(cursor.occurredAt)},and(occurred_at.eq.${quoteFilterValue(cursor.occurredAt)},id.lt.${cursor.id})`
+      );
+    }
+
+    // One extra row tells whether another page exists
+    const { data, error } = await query
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize + 1);
+
+    if (error) {
+      console.error('Error fetching transactions page:', error);
+      throw error;
+    }
+
+    const rows = stripFilterEmbeds((data ?? []) as Transaction[]);
+    const page = rows.slice(0, pageSize);
+    const last = page[page.length - 1];
+
+    const withPending = await applyPendingChanges(page, {
+      startDate: filter.startDate,
+      endDate: filter.endDate,
+      includeAdds: !cursor,
+    });
+
+    return {
+      transactions: filterTransactions(withPending, filter),
+      nextCursor: rows.length > pageSize && last ? { occurredAt: last.occurred_at, id: last.id } : null,
+    };
+  } catch (error) {
+    console.error('Failed to fetch transactions page:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every transaction matching a filter, page by page (e.g. for export)
+ */
+export async function getAllMatchingTransactions(filter: TransactionFilter = {}) {
+  const transactions: Transaction[] = [];
+  let cursor: TransactionCursor | null = null;
+  do {
+    const page: TransactionPage = await getTransactionsPage(filter, { cursor, pageSize: 500 });
+    transactions.push(...page.transactions);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return transactions;
+}
+
+/**
+ * Amounts of every transaction matching a filter, for totals over the whole
+ * result set without downloading full rows. Read page by page, so large
+ * result sets aren't cut off at the server's row limit.
+ */
+export async function getMatchingTransactionAmounts(filter: TransactionFilter = {}) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    type AmountRow = Pick<Transaction, 'id' | 'amount' | 'currency' | 'transfer_id'>;
+    const lookups = await resolveFilterLookups(user.id, filter);
+    const rows = await fetchAllPages((from, to) =>
+      applyTransactionFilter(selectTransactions('id, amount, currency, transfer_id', filter), user.id, filter, lookups)
+        .order('id')
+        .range(from, to)
+    );
+
+    return stripFilterEmbeds(rows as AmountRow[]);
+  } catch (error) {
+    console.error('Failed to fetch transaction amounts:', error);
+    throw error;
+  }
+}
+
 /**
  * Get transaction statistics
  * Uses profile income if available, otherwise calculates from transactions
  */
 export function getTransactionStats(transactions: Transaction[]) {
   const transactionIncome = transactions
-    .filter((t) => t.amount > 0)
+    .filter((t) => t.amount > 0 && !t.transfer_id)
     .reduce((sum, t) => sum + t.amount, 0);
 
   const expense = Math.abs(
     transactions
-      .filter((t) => t.amount < 0)
+      .filter((t) => t.amount < 0 && !t.transfer_id)
       .reduce((sum, t) => sum + t.amount, 0)
   );
 
@@ -0,0 +1,273 @@
+import { supabase } from './supabase';
+import { findAccountIdByName } from './accounts';
+import {
+  applyPendingChanges,
+  generateClientId,
+  getOfflineUserId,
+  submitOutboxOperation,
+} from './outbox';
+import {
+  deleteTransaction,
+  updateTransaction,
+  type Transaction,
+  type TransactionUpdateInput,
+} from './transactions';
+import type { AuditSource } from './transaction-history';
+
+/**
+ * Money moved between two of the user's payment methods, e.g. topping up an
+ * Octopus card from a bank account. Stored as two transactions sharing a
+ * transfer_id: an outgoing leg (negative amount, paid from `from`) and an
+ * incoming leg (positive amount, paid into `to`).
+ *
+ * Both legs count towards getBalancesByPaymentMethod, but transfers are left
+ * out of income/expense totals, budgets and category reports.
+ */
+export interface Transfer {
+  id: string;
+  amount: number;
+  currency: string;
+  from: string;
+  to: string;
+  occurred_at: string;
+  note: string | null;
+  outgoing: Transaction;
+  incoming: Transaction;
+}
+
+export interface TransferInput {
+  // Positive amount moved from `from` to `to`
+  amount: number;
+  currency: string;
+  from: string;
+  to: string;
+  occurred_at: string;
+  note?: string | null;
+}
+
+/**
+ * Whether a transaction is one leg of a transfer
+ */
+export function isTransfer(transaction: Pick<Transaction, 'transfer_id'>) {
+  return !!transaction.transfer_id;
+}
+
+function validateTransfer(input: Pick<TransferInput, 'amount' | 'from' | 'to'>) {
+  if (typeof input.amount !== 'number' || !(input.amount > 0)) {
+    throw new Error('Transfer amount must be greater than 0');
+  }
+  if (!input.from?.trim() || !input.to?.trim()) {
+    throw new Error('Both payment methods are required');
+  }
+  if (input.from.trim() === input.to.trim()) {
+    throw new Error('Cannot transfer to the same payment method');
+  }
+}
+
+function buildTransfer(legs: Transaction[]): Transfer | null {
+  const outgoing = legs.find(leg => leg.amount < 0);
+  const incoming = legs.find(leg => leg.amount > 0);
+  if (!outgoing || !incoming) return null;
+
+  return {
+    id: outgoing.transfer_id as string,
+    amount: incoming.amount,
+    currency: incoming.currency,
+    from: outgoing.payment_method ?? '',
+    to: incoming.payment_method ?? '',
+    occurred_at: outgoing.occurred_at,
+    note: outgoing.note,
+    outgoing,
+    incoming,
+  };
+}
+
+/**
+ * Record a transfer as two linked transactions. Both legs are inserted in one
+ * request, so a failure never leaves one behind without the other. Written
+ * through the offline outbox like addTransaction, so it also works while
+ * offline. The generated "Transfer to/from" merchants are saved as they are,
+ * without merchant normalization.
+ *
+ * @param options.actor - Who added it, for the edit history; defaults to 'manual'
+ *
+ * @example
+ * ```typescript
+ * await addTransfer({
+ *   amount: 500,
+ *   currency: 'HKD',
+ *   from: 'Bank Transfer',
+ *   to: 'Octopus',
+ *   occurred_at: new Date().toISOString(),
+ * });
+ * ```
+ */
+export async function addTransfer(input: TransferInput, options?: { actor?: AuditSource }): Promise<Transfer> {
+  try {
+    validateTransfer(input);
+
+    const from = input.from.trim();
+    const to = input.to.trim();
+    const transferId = generateClientId();
+    const leg = {
+      currency: input.currency,
+      occurred_at: input.occurred_at,
+      note: input.note?.trim() || null,
+      category_id: null,
+      source: 'manual' as const,
+      transfer_id: transferId,
+    };
+    const legs = [
+      {
+        transactionId: generateClientId(),
+        row: {
+          ...leg,
+          amount: -Math.abs(input.amount),
+          merchant: `Transfer to ${to}`,
+          payment_method: from,
+          account_id: findAccountIdByName(from),
+        },
+      },
+      {
+        transactionId: generateClientId(),
+        row: {
+          ...leg,
+          amount: Math.abs(input.amount),
+          merchant: `Transfer from ${from}`,
+          payment_method: to,
+          account_id: findAccountIdByName(to),
+        },
+      },
+    ];
+
+    const result = await submitOutboxOperation<Transaction[]>({
+      kind: 'addTransfer',
+      transactionId: legs[0].transactionId,
+      legs,
+      actor: options?.actor ?? 'manual',
+    });
+
+    if (result.status === 'synced' && result.data) {
+      return buildTransfer(result.data)!;
+    }
+
+    const userId = (await getOfflineUserId())!;
+    const now = new Date().toISOString();
+    return buildTransfer(legs.map(({ transactionId, row }) => ({
+      ...row,
+      id: transactionId,
+      user_id: userId,
+      created_at: now,
+      updated_at: now,
+    }) as Transaction))!;
+  } catch (error) {
+    console.error('Failed to add transfer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a transfer by id, including legs still waiting in the offline outbox.
+ * Returns null if either leg is missing.
+ */
+export async function getTransfer(transferId: string): Promise<Transfer | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('transfer_id', transferId);
+
+    if (error) {
+      console.error('Error fetching transfer:', error);
+      throw error;
+    }
+
+    const legs = (await applyPendingChanges(data as Transaction[]))
+      .filter(transaction => transaction.transfer_id === transferId);
+    return buildTransfer(legs);
+  } catch (error) {
+    console.error('Failed to fetch transfer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update both legs of a transfer. Changing `from` or `to` also renames the
+ * legs' merchants.
+ */
+export async function updateTransfer(
+  transferId: string,
+  updates: Partial<Omit<TransferInput, 'currency'>>,
+  options?: { allowReconciled?: boolean }
+): Promise<Transfer> {
+  try {
+    const transfer = await getTransfer(transferId);
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+
+    const next = {
+      amount: updates.amount ?? transfer.amount,
+      from: updates.from?.trim() ?? transfer.from,
+      to: updates.to?.trim() ?? transfer.to,
+    };
+    validateTransfer(next);
+
+    const shared: TransactionUpdateInput = {};
+    if (updates.occurred_at !== undefined) shared.occurred_at = updates.occurred_at;
+    if (updates.note !== undefined) shared.note = updates.note?.trim() || null;
+
+    const outgoing = await updateTransaction(
+      transfer.outgoing.id,
+      { ...shared, amount: -next.amount, payment_method: next.from, merchant: `Transfer to ${next.to}` },
+      { base: transfer.outgoing, allowReconciled: options?.allowReconciled }
+    );
+    const incoming = await updateTransaction(
+      transfer.incoming.id,
+      { ...shared, amount: next.amount, payment_method: next.to, merchant: `Transfer from ${next.from}` },
+      { base: transfer.incoming, allowReconciled: options?.allowReconciled }
+    );
+
+    return buildTransfer([
+      { ...transfer.outgoing, ...outgoing },
+      { ...transfer.incoming, ...incoming },
+    ])!;
+  } catch (error) {
+    console.error('Failed to update transfer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete both legs of a transfer
+ *
+ * @returns Ids of the deleted legs, e.g. for undoDeleteTransactions
+ */
+export async function deleteTransfer(transferId: string, options?: { allowReconciled?: boolean }) {
+  try {
+    const transfer = await getTransfer(transferId);
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+
+    await deleteTransaction(transfer.outgoing.id, {
+      baseUpdatedAt: transfer.outgoing.updated_at,
+      allowReconciled: options?.allowReconciled,
+    });
+    await deleteTransaction(transfer.incoming.id, {
+      baseUpdatedAt: transfer.incoming.updated_at,
+      allowReconciled: options?.allowReconciled,
+    });
+    return [transfer.outgoing.id, transfer.incoming.id];
+  } catch (error) {
+    console.error('Failed to delete transfer:', error);
+    throw error;
+  }
+}
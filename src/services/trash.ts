@@ -0,0 +1,382 @@
+import { supabase } from './supabase';
+import { removeAttachmentFiles, type Attachment } from './attachments';
+import {
+  deleteTransactionHistory,
+  diffTransactionFields,
+  recordTransactionHistory,
+  type AuditSource,
+} from './transaction-history';
+import type { Transaction } from './transactions';
+import type { ItemRow } from './items';
+import { fetchAllPages } from '../utils/pagination';
+
+/**
+ * Deleted transactions are moved here, with their items, tags and
+ * attachments, and kept for TRASH_RETENTION_DAYS before being purged.
+ * Attachment files stay in storage until the entry is purged.
+ *
+ * Moving to the trash happens when a queued delete reaches the server (see
+ * outbox.ts), so deleting works offline like any other write; restoring
+ * needs a connection.
+ */
+export interface TrashEntry {
+  // The deleted transaction's id
+  id: string;
+  user_id: string;
+  // The transaction row as it was, without joined data
+  transaction: Transaction;
+  items: ItemRow[];
+  // Tag names
+  tags: string[];
+  attachments: Attachment[];
+  deleted_at: string;
+}
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries purged per request, so the list of ids fits in a URL
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * When a trash entry will be purged
+ */
+export function getTrashExpiry(entry: Pick<TrashEntry, 'deleted_at'>) {
+  return new Date(new Date(entry.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Copy a transaction and everything attached to it into the trash. The caller
+ * deletes the transaction afterwards. Does nothing if the transaction is gone.
+ */
+export async function moveTransactionToTrash(transactionId: string, userId: string) {
+  await moveTransactionsToTrash([transactionId], userId);
+}
+
+/**
+ * moveTransactionToTrash for many transactions in one round trip each way,
+ * e.g. for a bulk delete. Keep `transactionIds` short enough for a URL.
+ *
+ * @returns The transactions that were copied (missing ones are skipped)
+ */
+export async function moveTransactionsToTrash(transactionIds: string[], userId: string) {
+  if (transactionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*, items(*), tags(name), attachments(*)')
+    .in('id', transactionIds)
+    .eq('user_id', userId);
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const deletedAt = new Date().toISOString();
+  const entries = (data as (Transaction & {
+    items: ItemRow[] | null;
+    tags: { name: string }[] | null;
+    attachments: Attachment[] | null;
+  })[]).map(({ items, tags, attachments, ...transaction }) => ({
+    id: transaction.id,
+    user_id: userId,
+    transaction,
+    items: items ?? [],
+    tags: (tags ?? []).map(tag => tag.name),
+    attachments: attachments ?? [],
+    deleted_at: deletedAt,
+  }));
+
+  const { error: trashError } = await supabase
+    .from('deleted_transactions')
+    .upsert(entries);
+  if (trashError) throw trashError;
+  return entries.map(entry => entry.transaction as Transaction);
+}
+
+/**
+ * Get the current user's deleted transactions, most recently deleted first
+ */
+export async function getTrash() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    return await fetchAllPages<TrashEntry>((from, to) =>
+      supabase
+        .from('deleted_transactions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('deleted_at', { ascending: false })
+        .order('id')
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error('Failed to fetch trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ids of transactions moved to the trash at or after `since`, so a local copy
+ * can drop them without downloading everything again
+ */
+export async function getTrashedIdsSince(since: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const rows = await fetchAllPages<{ id: string }>((from, to) =>
+      supabase
+        .from('deleted_transactions')
+        .select('id')
+        .eq('user_id', user.id)
+        .gte('deleted_at', since)
+        .order('id')
+        .range(from, to)
+    );
+    return rows.map(row => row.id);
+  } catch (error) {
+    console.error('Failed to fetch trashed transaction ids:', error);
+    throw error;
+  }
+}
+
+// Ids among `ids` that still exist in `table`, so restored rows don't point at deleted ones
+async function existingIds(table: string, ids: (string | null | undefined)[]) {
+  const wanted = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  if (wanted.length === 0) return new Set<string>();
+
+  const { data, error } = await supabase.from(table).select('id').in('id', wanted);
+  if (error) throw error;
+  return new Set((data ?? []).map(row => row.id as string));
+}
+
+// Take a transaction back out after its restore failed partway, so the entry
+// stays in the trash as the only copy. Tag links and attachment rows go with
+// the transaction; the attachment files were never touched.
+async function undoPartialRestore(entry: TrashEntry, userId: string) {
+  try {
+    if (entry.items.length > 0) {
+      const { error: itemsError } = await supabase
+        .from('items')
+        .delete()
+        .eq('user_id', userId)
+        .in('id', entry.items.map(item => item.id));
+      if (itemsError) throw itemsError;
+    }
+
+    const { error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('id', entry.transaction.id)
+      .eq('user_id', userId);
+    if (error) throw error;
+  } catch (error) {
+    console.warn('Failed to undo a partial restore:', error);
+  }
+}
+
+async function restoreEntry(entry: TrashEntry, userId: string, actor: AuditSource) {
+  const { transaction, items, tags, attachments } = entry;
+  const [categories, accounts, reconciliations, recurringRules] = await Promise.all([
+    existingIds('categories', [transaction.category_id, ...items.map(item => item.category_id)]),
+    existingIds('accounts', [transaction.account_id]),
+    existingIds('reconciliations', [transaction.reconciliation_id]),
+    existingIds('recurring_rules', [transaction.recurring_rule_id]),
+  ]);
+  const keep = (id: string | null | undefined, valid: Set<string>) => (id && valid.has(id) ? id : null);
+
+  const row = {
+    ...transaction,
+    user_id: userId,
+    category_id: keep(transaction.category_id, categories),
+    account_id: keep(transaction.account_id, accounts),
+    reconciliation_id: keep(transaction.reconciliation_id, reconciliations),
+    recurring_rule_id: keep(transaction.recurring_rule_id, recurringRules),
+    updated_at: new Date().toISOString(),
+  };
+  // upsert: a restore retried after a lost response finds the row already back
+  const { error } = await supabase
+    .from('transactions')
+    .upsert(row);
+  if (error) throw error;
+
+  try {
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase
+        .from('items')
+        .upsert(items.map(({ category, ...item }) => ({
+          ...item,
+          user_id: userId,
+          category_id: keep(item.category_id, categories),
+        })));
+      if (itemsError) throw itemsError;
+    }
+
+    if (tags.length > 0) {
+      const { data: tagRows, error: tagsError } = await supabase
+        .from('tags')
+        .upsert(tags.map(name => ({ name, user_id: userId })), { onConflict: 'user_id,name' })
+        .select('id');
+      if (tagsError) throw tagsError;
+
+      const { error: linkError } = await supabase
+        .from('transaction_tags')
+        .upsert(
+          (tagRows ?? []).map(tag => ({ transaction_id: transaction.id, tag_id: tag.id, user_id: userId })),
+          { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true }
+        );
+      if (linkError) throw linkError;
+    }
+
+    if (attachments.length > 0) {
+      const { error: attachmentsError } = await supabase
+        .from('attachments')
+        .upsert(attachments.map(attachment => ({ ...attachment, user_id: userId })));
+      if (attachmentsError) throw attachmentsError;
+    }
+  } catch (error) {
+    await undoPartialRestore(entry, userId);
+    throw error;
+  }
+
+  // Only now that the transaction is whole again. If this fails the entry
+  // lingers, and purging it leaves the restored transaction's files alone.
+  const { error: deleteError } = await supabase
+    .from('deleted_transactions')
+    .delete()
+    .eq('id', entry.id)
+    .eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  await recordTransactionHistory(userId, {
+    transactionId: transaction.id,
+    action: 'restore',
+    source: actor,
+    changes: diffTransactionFields(null, row),
+  });
+}
+
+/**
+ * Put deleted transactions back, with their items, tags and attachments.
+ * Restoring one side of a transfer restores the other side too. A category,
+ * account or reconciliation deleted in the meantime is left empty.
+ *
+ * @param options.actor - Who restored them, for the edit history; defaults to 'manual'
+ * @returns The restored transactions
+ */
+export async function restoreFromTrash(ids: string[], options?: { actor?: AuditSource }) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('deleted_transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('id', ids);
+    if (error) {
+      console.error('Error fetching trash entries:', error);
+      throw error;
+    }
+
+    const entries = (data ?? []) as TrashEntry[];
+    const transferIds = Array.from(new Set(
+      entries.map(entry => entry.transaction.transfer_id).filter((id): id is string => !!id)
+    ));
+    if (transferIds.length > 0) {
+      const { data: legs, error: legsError } = await supabase
+        .from('deleted_transactions')
+        .select('*')
+        .eq('user_id', user.id)
+        .in('transaction->>transfer_id', transferIds);
+      if (legsError) throw legsError;
+      for (const leg of (legs ?? []) as TrashEntry[]) {
+        if (!entries.some(entry => entry.id === leg.id)) entries.push(leg);
+      }
+    }
+
+    for (const entry of entries) {
+      await restoreEntry(entry, user.id, options?.actor ?? 'manual');
+    }
+    return entries.map(entry => entry.transaction);
+  } catch (error) {
+    console.error('Failed to restore transactions:', error);
+    throw error;
+  }
+}
+
+async function purgeEntries(entries: TrashEntry[], userId: string) {
+  for (let start = 0; start < entries.length; start += PURGE_BATCH_SIZE) {
+    const batch = entries.slice(start, start + PURGE_BATCH_SIZE);
+    try {
+      const restored = await existingIds('transactions', batch.map(entry => entry.id));
+      await removeAttachmentFiles(batch
+        .filter(entry => !restored.has(entry.id))
+        .flatMap(entry => entry.attachments.map(attachment => attachment.storage_path)));
+    } catch (error) {
+      console.warn('Failed to remove attachment files, purging trash anyway:', error);
+    }
+
+    const { error } = await supabase
+      .from('deleted_transactions')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', batch.map(entry => entry.id));
+    if (error) {
+      console.error('Error purging trash:', error);
+      throw error;
+    }
+
+    try {
+      await deleteTransactionHistory(batch.map(entry => entry.id), userId);
+    } catch (error) {
+      console.warn('Failed to remove the history of purged transactions:', error);
+    }
+  }
+  return entries.length;
+}
+
+/**
+ * Permanently delete entries from the trash, or the whole trash if no ids are given
+ *
+ * @returns How many entries were purged
+ */
+export async function purgeTrash(ids?: string[]) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const entries = await getTrash();
+    return await purgeEntries(ids ? entries.filter(entry => ids.includes(entry.id)) : entries, user.id);
+  } catch (error) {
+    console.error('Failed to purge trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Purge entries deleted more than TRASH_RETENTION_DAYS ago. Run on app start.
+ */
+export async function purgeExpiredTrash() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+    const entries = await fetchAllPages<TrashEntry>((from, to) =>
+      supabase
+        .from('deleted_transactions')
+        .select('*')
+        .eq('user_id', user.id)
+        .lt('deleted_at', cutoff)
+        .order('id')
+        .range(from, to)
+    );
+    return await purgeEntries(entries, user.id);
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+    throw error;
+  }
+}
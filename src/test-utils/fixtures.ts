@@ -0,0 +1,30 @@
+import type { Transaction } from '../services/transactions';
+import { TEST_USER_ID } from './supabase-mock';
+
+export const FIXTURE_TIME = '2025-05-20T04:00:00.000Z';
+
+/**
+ * A plain expense: HKD 42 at Starbucks, uncategorized
+ */
+export function makeTransaction(id: string, overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    amount: -42,
+    occurred_at: FIXTURE_TIME,
+    merchant: 'Starbucks',
+    category_id: null,
+    source: 'manual',
+    note: null,
+    payment_method: null,
+    currency: 'HKD',
+    created_at: FIXTURE_TIME,
+    updated_at: FIXTURE_TIME,
+    ...overrides,
+  };
+}
+
+/** FIXTURE_TIME moved by a number of hours */
+export function hoursAfterFixture(hours: number) {
+  return new Date(Date.parse(FIXTURE_TIME) + hours * 3_600_000).toISOString();
+}
@@ -0,0 +1,88 @@
+/**
+ * Stand-in for the Supabase client in tests. Every query is recorded as the
+ * table plus the builder calls made on it, and answered by the current
+ * responder once awaited.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('../supabase', () => jest.requireActual('../../test-utils/supabase-mock').supabaseModule);
+ *
+ * respondToQueries(query => queryMethod(query) === 'select' ? { data: rows, error: null } : { data: null, error: null });
+ * await restoreFromTrash(['t1']);
+ * expect(queriesTo('transactions', 'upsert')).toHaveLength(1);
+ * ```
+ */
+
+export type QueryStep = [method: string, args: unknown[]];
+
+export interface RecordedQuery {
+  table: string;
+  steps: QueryStep[];
+}
+
+export type QueryResult = { data?: unknown; error?: unknown };
+
+export type QueryResponder = (query: RecordedQuery) => QueryResult;
+
+export const TEST_USER_ID = 'u1';
+
+const NO_ROWS: QueryResponder = () => ({ data: null, error: null });
+
+export const recordedQueries: RecordedQuery[] = [];
+let responder: QueryResponder = NO_ROWS;
+
+function createQueryBuilder(table: string) {
+  const query: RecordedQuery = { table, steps: [] };
+  recordedQueries.push(query);
+  const builder: object = new Proxy({}, {
+    get(_, property) {
+      if (property === 'then') {
+        return (resolve: (value: QueryResult) => void, reject: (reason: unknown) => void) =>
+          Promise.resolve().then(() => responder(query)).then(resolve, reject);
+      }
+      return (...args: unknown[]) => {
+        query.steps.push([String(property), args]);
+        return builder;
+      };
+    },
+  });
+  return builder;
+}
+
+const user = { id: TEST_USER_ID };
+
+/** Module shape of src/services/supabase.ts, for jest.mock */
+export const supabaseModule = {
+  supabase: {
+    from: (table: string) => createQueryBuilder(table),
+    auth: {
+      getUser: async () => ({ data: { user } }),
+      getSession: async () => ({ data: { session: { user } } }),
+    },
+  },
+};
+
+export function respondToQueries(respond: QueryResponder) {
+  responder = respond;
+}
+
+/** Forget recorded queries and answer everything with no rows */
+export function resetSupabaseMock() {
+  recordedQueries.length = 0;
+  responder = NO_ROWS;
+}
+
+/** The first builder call, e.g. 'select', 'insert' or 'delete' */
+export function queryMethod(query: RecordedQuery) {
+  return query.steps[0]?.[0];
+}
+
+/** Arguments of the first call to `method` on the query */
+export function queryStep(query: RecordedQuery, method: string) {
+  return query.steps.find(([name]) => name === method)?.[1];
+}
+
+/** Recorded queries on `table`, optionally only those starting with `method` */
+export function queriesTo(table: string, method?: string) {
+  return recordedQueries.filter(query => query.table === table && (!method || queryMethod(query) === method));
+}
@@ -0,0 +1,30 @@
+// Concurrency helpers for running many async jobs without flooding the network
+
+/**
+ * Run `worker` over every input with at most `limit` jobs in flight.
+ * Results keep the input order. A rejected job does not stop the others;
+ * its slot holds the error instead of a value.
+ */
+export async function mapWithConcurrency<T, R>(
+  inputs: T[],
+  limit: number,
+  worker: (input: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(inputs.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < inputs.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(inputs[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, inputs.length));
+  await Promise.all(Array.from({ length: workerCount }, runNext));
+  return results;
+}
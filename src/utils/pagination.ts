@@ -0,0 +1,33 @@
+// Paging helpers for reading whole tables through PostgREST
+
+// PostgREST's default max-rows: no single request returns more than this
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+type PageResult<T> = { data: T[] | null; error: unknown };
+
+/**
+ * Read every row of a query, one `.range()` at a time. `fetchPage` must
+ * order by a unique column (or end with one, e.g. `id`) so pages don't
+ * overlap. Reading stops at an empty page rather than a short one, so a
+ * server configured with a lower max-rows doesn't cut the result short.
+ * Any page error rejects the whole read.
+ *
+ * @example
+ * ```typescript
+ * const rows = await fetchAllPages((from, to) =>
+ *   supabase.from('items').select('*').eq('user_id', userId).order('id').range(from, to)
+ * );
+ * ```
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize: number = MAX_ROWS_PER_REQUEST
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await fetchPage(rows.length, rows.length + pageSize - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) return rows;
+    rows.push(...data);
+  }
+}